@@ -35,8 +35,8 @@ describe('Fretboard', () => {
       />
     );
 
-    // 指番号が表示されることを確認（具体的な実装に依存）
-    const fingerElements = screen.getAllByText(/[1-4]/);
+    // 押弦位置のラベルに指番号が含まれることを確認（フレット番号・弦名の表示とは区別する）
+    const fingerElements = screen.getAllByLabelText(/番指/);
     expect(fingerElements).toHaveLength(3); // Cコードは3本指
   });
 
@@ -50,7 +50,7 @@ describe('Fretboard', () => {
     );
 
     // 指番号が表示されないことを確認
-    const fingerElements = screen.queryAllByText(/[1-4]/);
+    const fingerElements = screen.queryAllByLabelText(/番指/);
     expect(fingerElements).toHaveLength(0);
   });
 
@@ -0,0 +1,64 @@
+import {
+  CHORD_PROGRESSIONS,
+  getAnswerChoices,
+  getPlayableKeys,
+  getProgressionSteps,
+} from '@/data/progressions';
+import { findChordVoicing, getChordByName } from '@/data/chord-patterns';
+import { getTuning } from '@/data/tuning-presets';
+import { analyzeChord, getPitchClasses } from '@/lib/theory';
+import { QUALITY_SUFFIXES } from '@/lib/harmony';
+
+describe('findChordVoicing', () => {
+  it('登録済みのボイシングを優先する', () => {
+    expect(findChordVoicing('C', '')).toBe(getChordByName('C'));
+  });
+
+  it('登録がなければ同じ種類の形を平行移動する', () => {
+    const voicing = findChordVoicing('G#', 'm7');
+    const tuning = getTuning('standard');
+
+    expect(voicing?.name).toBe('G#m7');
+    expect([...getPitchClasses(voicing!.frets, tuning)].sort()).toEqual(['B', 'D#', 'F#', 'G#']);
+  });
+});
+
+describe('CHORD_PROGRESSIONS', () => {
+  it('すべての進行が標準チューニングの全12キーで演奏できる', () => {
+    CHORD_PROGRESSIONS.forEach(progression => {
+      expect(getPlayableKeys(progression)).toHaveLength(12);
+    });
+  });
+
+  it('ボイシングの構成音が進行のコードと一致する', () => {
+    const tuning = getTuning('standard');
+
+    CHORD_PROGRESSIONS.forEach(progression => {
+      getProgressionSteps(progression, { tonic: 'F', mode: progression.mode }).forEach(step => {
+        const { candidates } = analyzeChord(step.voicing!.frets, tuning);
+        expect(candidates).toContainEqual(
+          expect.objectContaining({ root: step.root, suffix: QUALITY_SUFFIXES[step.quality] })
+        );
+      });
+    });
+  });
+
+  it('Gメジャーのポップ進行', () => {
+    const pop = CHORD_PROGRESSIONS.find(progression => progression.id === 'pop')!;
+    const steps = getProgressionSteps(pop, { tonic: 'G', mode: 'major' });
+
+    expect(steps.map(step => step.name)).toEqual(['G', 'D', 'Em', 'C']);
+    expect(steps.map(step => step.voicing?.name)).toEqual(['G', 'D', 'Em', 'C']);
+  });
+});
+
+describe('getAnswerChoices', () => {
+  it('ダイアトニックコードと進行で使う借用コードを含む', () => {
+    const numerals = getAnswerChoices({ tonic: 'C', mode: 'major' }).map(chord => chord.numeral);
+
+    expect(numerals.slice(0, 7)).toEqual(['I', 'ii', 'iii', 'IV', 'V', 'vi', 'vii°']);
+    expect(numerals).toContain('bVII');
+    expect(numerals).toContain('V7');
+    expect(new Set(numerals).size).toBe(numerals.length);
+  });
+});
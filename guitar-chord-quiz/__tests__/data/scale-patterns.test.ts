@@ -0,0 +1,140 @@
+import {
+  SCALE_PATTERNS,
+  SCALE_TYPES,
+  findScalePattern,
+  getPositionNames,
+  getScalePatternKeys,
+  getScalePatternNotes,
+  getScalePatterns,
+  getScalePitchClasses,
+  getRandomScalePattern,
+} from '@/data/scale-patterns';
+import { gradeNotePositions, transposeNote } from '@/lib/theory';
+import { STANDARD_TUNING } from '@/data/tuning-presets';
+import { ScalePattern } from '@/types';
+
+/**
+ * パターン内の全位置の音名
+ */
+const getPatternNotes = (pattern: ScalePattern) =>
+  pattern.frets.flatMap((stringFrets, stringIndex) =>
+    stringFrets.map(fret => transposeNote(STANDARD_TUNING.notes[stringIndex], fret))
+  );
+
+describe('SCALE_PATTERNS', () => {
+  it('12キーすべての種類・ポジションを含む', () => {
+    SCALE_TYPES.forEach(type => {
+      expect(getScalePatterns({ type })).toHaveLength(12 * getPositionNames(type).length);
+    });
+  });
+
+  it('すべての音がスケールの構成音で、全構成音を含む', () => {
+    SCALE_PATTERNS.forEach(pattern => {
+      const scaleNotes = getScalePitchClasses(pattern.root, pattern.type);
+      const notes = getPatternNotes(pattern);
+
+      notes.forEach(note => expect(scaleNotes).toContain(note));
+      scaleNotes.forEach(note => expect(notes).toContain(note));
+    });
+  });
+
+  it('押弦位置は指板の範囲内でポジションのフレット範囲に収まる', () => {
+    SCALE_PATTERNS.forEach(pattern => {
+      const frets = pattern.frets.flat();
+      expect(Math.min(...frets)).toBe(pattern.fretRange.start);
+      expect(Math.max(...frets)).toBe(pattern.fretRange.end);
+      expect(pattern.fretRange.start).toBeGreaterThanOrEqual(0);
+      expect(pattern.fretRange.end - pattern.fretRange.start).toBeLessThanOrEqual(6);
+    });
+  });
+
+  it('Aマイナー・ペンタトニックのポジション1は5フレットのボックス', () => {
+    const pattern = findScalePattern('A', 'minorPentatonic', 'ポジション1');
+
+    expect(pattern?.frets).toEqual([[5, 8], [5, 7], [5, 7], [5, 7], [5, 8], [5, 8]]);
+    expect(pattern?.fretRange).toEqual({ start: 5, end: 8 });
+  });
+
+  it('メジャー・スケールは1弦3音', () => {
+    const pattern = findScalePattern('G', 'major', 'ポジション1');
+
+    expect(pattern?.frets).toEqual([[3, 5, 7], [3, 5, 7], [4, 5, 7], [4, 5, 7], [5, 7, 8], [5, 7, 8]]);
+  });
+
+  it('アルペジオはCAGEDフォームで、Cメジャーのオープンフォームを含む', () => {
+    expect(getPositionNames('majorArpeggio')).toEqual(['Cフォーム', 'Aフォーム', 'Gフォーム', 'Eフォーム', 'Dフォーム']);
+
+    const pattern = findScalePattern('C', 'majorArpeggio', 'Cフォーム');
+    expect(pattern?.position).toBe(1);
+    expect(pattern?.frets).toEqual([[0, 3], [3], [2], [0], [1], [0, 3]]);
+  });
+
+  it('アルペジオのポジション番号は低いフレットから', () => {
+    const positions = getScalePatterns({ root: 'A', type: 'majorArpeggio' });
+    const starts = positions.map(pattern => pattern.fretRange.start);
+
+    expect(positions.map(pattern => pattern.position)).toEqual([1, 2, 3, 4, 5]);
+    expect(starts).toEqual([...starts].sort((a, b) => a - b));
+  });
+});
+
+describe('getScalePatternNotes', () => {
+  it('ルート音を強調し、インターバル名をラベルにする', () => {
+    const pattern = findScalePattern('A', 'minorPentatonic', 'ポジション1')!;
+    const notes = getScalePatternNotes(pattern);
+
+    expect(notes).toHaveLength(12);
+    expect(notes[0]).toEqual({ stringIndex: 0, fret: 5, label: '1', variant: 'root' });
+    expect(notes[1]).toEqual({ stringIndex: 0, fret: 8, label: 'b3', variant: 'default' });
+  });
+});
+
+describe('getRandomScalePattern', () => {
+  it('指定した種類から選ぶ', () => {
+    for (let i = 0; i < 20; i++) {
+      expect(getRandomScalePattern(['majorArpeggio']).type).toBe('majorArpeggio');
+    }
+  });
+
+  it('種類が空ならエラー', () => {
+    expect(() => getRandomScalePattern([])).toThrow();
+  });
+});
+
+describe('gradeNotePositions', () => {
+  const pattern = findScalePattern('A', 'minorPentatonic', 'ポジション1')!;
+  const expected = getScalePatternNotes(pattern);
+
+  it('すべての位置を押さえれば正解', () => {
+    const grade = gradeNotePositions(expected, getScalePatternKeys(pattern));
+
+    expect(grade.isCorrect).toBe(true);
+    expect(grade.correctCount).toBe(12);
+    expect(grade.notes).toEqual(expected);
+  });
+
+  it('不足と誤りを位置ごとに返す', () => {
+    const selected = new Set(getScalePatternKeys(pattern));
+    selected.delete('1-8');
+    selected.add('1-7');
+
+    const grade = gradeNotePositions(expected, selected);
+
+    expect(grade.isCorrect).toBe(false);
+    expect(grade.correctCount).toBe(11);
+    expect(grade.missing).toEqual([{ stringIndex: 0, fret: 8, label: 'b3', variant: 'missing' }]);
+    expect(grade.extra).toEqual([{ stringIndex: 0, fret: 7, variant: 'extra' }]);
+    expect(grade.notes).toHaveLength(13);
+  });
+
+  it('同じ音でも別の位置は誤り', () => {
+    const selected = new Set(getScalePatternKeys(pattern));
+    selected.delete('2-5');
+    selected.add('1-10');
+
+    const grade = gradeNotePositions(expected, selected);
+    expect(grade.isCorrect).toBe(false);
+    expect(grade.missing).toHaveLength(1);
+    expect(grade.extra).toHaveLength(1);
+  });
+});
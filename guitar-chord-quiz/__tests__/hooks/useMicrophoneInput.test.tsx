@@ -0,0 +1,170 @@
+import { renderHook, act } from '@testing-library/react';
+import { useMicrophoneInput } from '@/hooks/useMicrophoneInput';
+
+// 解決を待たせられるPromise
+const deferred = <T,>() => {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>(res => {
+    resolve = res;
+  });
+  return { promise, resolve };
+};
+
+const createStream = () => {
+  const track = { stop: jest.fn() };
+  return { track, stream: { getTracks: () => [track] } as unknown as MediaStream };
+};
+
+const createAudioContext = (state: AudioContextState = 'running') => ({
+  state,
+  sampleRate: 44100,
+  resume: jest.fn(() => Promise.resolve()),
+  close: jest.fn(() => Promise.resolve()),
+  createMediaStreamSource: jest.fn(() => ({ connect: jest.fn(), disconnect: jest.fn() })),
+  createAnalyser: jest.fn(() => ({ fftSize: 0, getFloatTimeDomainData: jest.fn() })),
+});
+
+describe('useMicrophoneInput', () => {
+  const getUserMedia = jest.fn();
+  const onFrame = jest.fn();
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.clearAllMocks();
+    Object.defineProperty(navigator, 'mediaDevices', {
+      value: { getUserMedia },
+      configurable: true,
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should start listening once the microphone is available', async () => {
+    const { stream } = createStream();
+    const context = createAudioContext();
+    getUserMedia.mockResolvedValue(stream);
+
+    const { result } = renderHook(() =>
+      useMicrophoneInput({
+        frameSize: 2048,
+        intervalMs: 100,
+        onFrame,
+        getAudioContext: () => context as unknown as AudioContext,
+      })
+    );
+
+    await act(async () => {
+      expect(await result.current.start()).toBe(true);
+    });
+
+    act(() => {
+      jest.advanceTimersByTime(300);
+    });
+
+    expect(result.current.isListening).toBe(true);
+    expect(onFrame).toHaveBeenCalledTimes(3);
+  });
+
+  it('should release the stream when unmounted while waiting for permission', async () => {
+    const { track, stream } = createStream();
+    const pending = deferred<MediaStream>();
+    getUserMedia.mockReturnValue(pending.promise);
+
+    const context = createAudioContext();
+    const { result, unmount } = renderHook(() =>
+      useMicrophoneInput({
+        frameSize: 2048,
+        intervalMs: 100,
+        onFrame,
+        getAudioContext: () => context as unknown as AudioContext,
+      })
+    );
+
+    let started: Promise<boolean> | undefined;
+    act(() => {
+      started = result.current.start();
+    });
+    unmount();
+
+    pending.resolve(stream);
+    expect(await started).toBe(false);
+
+    jest.advanceTimersByTime(300);
+    expect(track.stop).toHaveBeenCalled();
+    expect(context.createMediaStreamSource).not.toHaveBeenCalled();
+    expect(onFrame).not.toHaveBeenCalled();
+  });
+
+  it('should close its own audio context when stopped while resuming it', async () => {
+    const { track, stream } = createStream();
+    const context = createAudioContext('suspended');
+    const resuming = deferred<void>();
+    context.resume.mockReturnValue(resuming.promise);
+    getUserMedia.mockResolvedValue(stream);
+
+    const OriginalAudioContext = window.AudioContext;
+    window.AudioContext = jest.fn(() => context) as unknown as typeof AudioContext;
+
+    try {
+      const { result } = renderHook(() => useMicrophoneInput({ frameSize: 2048, intervalMs: 100, onFrame }));
+
+      let started: Promise<boolean> | undefined;
+      act(() => {
+        started = result.current.start();
+      });
+      await act(async () => {
+        await Promise.resolve();
+      });
+      expect(context.resume).toHaveBeenCalled();
+
+      act(() => {
+        result.current.stop();
+      });
+
+      resuming.resolve();
+      await act(async () => {
+        expect(await started).toBe(false);
+      });
+
+      expect(track.stop).toHaveBeenCalled();
+      expect(context.close).toHaveBeenCalled();
+      expect(result.current.isListening).toBe(false);
+    } finally {
+      window.AudioContext = OriginalAudioContext;
+    }
+  });
+
+  it('should open the microphone only once for repeated start calls', async () => {
+    const { stream } = createStream();
+    const pending = deferred<MediaStream>();
+    getUserMedia.mockReturnValue(pending.promise);
+
+    const context = createAudioContext();
+    const { result } = renderHook(() =>
+      useMicrophoneInput({
+        frameSize: 2048,
+        intervalMs: 100,
+        onFrame,
+        getAudioContext: () => context as unknown as AudioContext,
+      })
+    );
+
+    let first: Promise<boolean> | undefined;
+    let second: Promise<boolean> | undefined;
+    act(() => {
+      first = result.current.start();
+      second = result.current.start();
+    });
+
+    pending.resolve(stream);
+    await act(async () => {
+      expect(await first).toBe(true);
+      expect(await second).toBe(true);
+    });
+
+    expect(getUserMedia).toHaveBeenCalledTimes(1);
+    expect(context.createMediaStreamSource).toHaveBeenCalledTimes(1);
+  });
+});
@@ -50,7 +50,8 @@ describe('useQuizState', () => {
       result.current.submitAnswer('C');
     });
 
-    expect(result.current.state.score).toBe(10);
+    // 初級の基本スコア10 + 時間ボーナス10（即答）
+    expect(result.current.state.score).toBe(20);
     expect(result.current.state.streak).toBe(1);
   });
 
@@ -69,6 +70,69 @@ describe('useQuizState', () => {
     expect(result.current.state.streak).toBe(0);
   });
 
+  it('should accept enharmonic and alias spellings', () => {
+    const { result } = renderHook(() => useQuizState('beginner'));
+
+    act(() => {
+      result.current.startQuiz();
+    });
+
+    act(() => {
+      result.current.submitAnswer('CM');
+    });
+
+    expect(result.current.lastAnswerResult).toBe('correct');
+    expect(result.current.state.streak).toBe(1);
+  });
+
+  it('should give partial credit when only the root is correct', () => {
+    const { result } = renderHook(() => useQuizState('beginner'));
+
+    act(() => {
+      result.current.startQuiz();
+    });
+
+    act(() => {
+      result.current.submitAnswer('Cm');
+    });
+
+    expect(result.current.lastAnswerResult).toBe('partial');
+    expect(result.current.lastAnswerCorrect).toBe(false);
+    expect(result.current.state.score).toBe(5);
+    expect(result.current.state.streak).toBe(0);
+  });
+
+  it('should end the game on the first miss in sudden death mode', () => {
+    const { result } = renderHook(() => useQuizState('beginner', 'standard', 'random', undefined, 0, 'sudden-death'));
+
+    act(() => {
+      result.current.startQuiz();
+    });
+
+    expect(result.current.gameOver).toBeNull();
+
+    act(() => {
+      result.current.submitAnswer('G');
+    });
+
+    expect(result.current.gameOver).toBe('lives');
+    expect(result.current.submitAnswer('C')).toBe(false);
+  });
+
+  it('should not end the game in endless mode', () => {
+    const { result } = renderHook(() => useQuizState('beginner'));
+
+    act(() => {
+      result.current.startQuiz();
+    });
+
+    act(() => {
+      result.current.submitAnswer('G');
+    });
+
+    expect(result.current.gameOver).toBeNull();
+  });
+
   it('should increment hints used', () => {
     const { result } = renderHook(() => useQuizState('beginner'));
 
@@ -82,4 +146,88 @@ describe('useQuizState', () => {
 
     expect(result.current.state.hintsUsed).toBe(1);
   });
-});
\ No newline at end of file
+
+  it('should record the hints used with the answer', () => {
+    localStorage.clear();
+    const { result } = renderHook(() => useQuizState('beginner'));
+
+    act(() => {
+      result.current.startQuiz();
+    });
+
+    act(() => {
+      result.current.useHint();
+    });
+
+    act(() => {
+      result.current.submitAnswer('C');
+    });
+
+    const events = JSON.parse(localStorage.getItem('guitar-quiz-question-events') ?? '[]');
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ source: 'quiz', chordName: 'C', hintsUsed: 1, isCorrect: true });
+  });
+
+  it('should resume a saved game paused until resumed', () => {
+    const { result: saved } = renderHook(() => useQuizState('beginner'));
+
+    act(() => {
+      saved.current.startQuiz();
+    });
+
+    const { result } = renderHook(() =>
+      useQuizState('beginner', 'standard', 'random', undefined, 0, 'endless', { ...saved.current.state, isPaused: true })
+    );
+
+    expect(result.current.gameActive).toBe(true);
+    expect(result.current.state.currentChord?.name).toBe('C');
+    expect(result.current.submitAnswer('C')).toBe(false);
+
+    act(() => {
+      result.current.resumeGame();
+    });
+
+    act(() => {
+      result.current.submitAnswer('C');
+    });
+
+    expect(result.current.state.correctAnswers).toBe(1);
+  });
+
+  it('should stay on the result while paused and move on when resumed', () => {
+    jest.useFakeTimers();
+    try {
+      const { result } = renderHook(() => useQuizState('beginner'));
+
+      act(() => {
+        result.current.startQuiz();
+      });
+
+      act(() => {
+        result.current.submitAnswer('C');
+      });
+
+      act(() => {
+        result.current.pauseGame();
+      });
+
+      act(() => {
+        jest.advanceTimersByTime(5000);
+        result.current.nextChord();
+      });
+
+      expect(result.current.showResult).toBe(true);
+      expect(result.current.state.questionNumber).toBe(1);
+      expect(result.current.state.timeElapsed).toBe(0);
+
+      act(() => {
+        result.current.resumeGame();
+      });
+
+      expect(result.current.showResult).toBe(false);
+      expect(result.current.state).toMatchObject({ isPaused: false, questionNumber: 2, questionTime: 0 });
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
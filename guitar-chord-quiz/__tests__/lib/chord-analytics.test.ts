@@ -0,0 +1,103 @@
+import {
+  CHORD_QUESTION_SOURCES,
+  filterEventsBySource,
+  getChordMastery,
+  getWeakestChords,
+  getCommonConfusions,
+  getResponseTimeTrends,
+  QuestionEvent,
+} from '@/lib/chord-analytics';
+
+let clock = 0;
+
+/**
+ * テスト用の回答記録を生成（呼び出し順に時刻が進む）
+ */
+const event = (chordName: string, answer: string, responseTime: number = 5): QuestionEvent => ({
+  timestamp: new Date(Date.UTC(2025, 0, 1, 0, 0, clock++)).toISOString(),
+  source: 'quiz',
+  chordKey: chordName,
+  chordName,
+  answer,
+  isCorrect: answer === chordName,
+  responseTime,
+  hintsUsed: 0,
+  difficulty: 'beginner',
+});
+
+describe('chord-analytics', () => {
+  beforeEach(() => {
+    clock = 0;
+  });
+
+  it('should aggregate attempts, accuracy and response time per chord', () => {
+    const mastery = getChordMastery([
+      event('C', 'C', 2),
+      event('C', 'Am', 4),
+      event('G', 'G', 3),
+    ]);
+
+    expect(mastery[0]).toMatchObject({
+      chordKey: 'C',
+      attempts: 2,
+      correct: 1,
+      accuracy: 50,
+      averageResponseTime: 3,
+    });
+    expect(mastery[1]).toMatchObject({ chordKey: 'G', attempts: 1, accuracy: 100 });
+  });
+
+  it('should rank the weakest chords and skip mastered ones', () => {
+    const weakest = getWeakestChords([
+      event('Am', 'A'),
+      event('Am', 'A'),
+      event('Am', 'Am'),
+      event('F', 'Fm'),
+      event('C', 'C'),
+    ]);
+
+    expect(weakest.map(mastery => mastery.chordName)).toEqual(['F', 'Am']);
+  });
+
+  it('should count confusions case-insensitively', () => {
+    const confusions = getCommonConfusions([
+      event('Am', 'A'),
+      event('Am', 'a'),
+      event('Am', 'Em'),
+      event('Am', 'Am'),
+      event('G', ''),
+    ]);
+
+    expect(confusions).toEqual([
+      { chordKey: 'Am', chordName: 'Am', answer: 'A', count: 2 },
+      { chordKey: 'Am', chordName: 'Am', answer: 'Em', count: 1 },
+    ]);
+  });
+
+  it('should compare earlier and recent response times', () => {
+    const [trend] = getResponseTimeTrends([
+      event('D', 'D', 10),
+      event('D', 'D', 8),
+      event('D', 'D', 4),
+      event('D', 'D', 2),
+      event('E', 'E', 3),
+    ]);
+
+    expect(trend.chordKey).toBe('D');
+    expect(trend.responseTimes).toEqual([10, 8, 4, 2]);
+    expect(trend.earlierAverage).toBe(9);
+    expect(trend.recentAverage).toBe(3);
+    expect(trend.change).toBe(-6);
+  });
+
+  it('should filter events by source', () => {
+    const events = [
+      event('C', 'C'),
+      { ...event('M3', 'm3'), source: 'interval' as const, chordKey: 'interval:M3' },
+    ];
+
+    expect(filterEventsBySource(events, CHORD_QUESTION_SOURCES).map(item => item.chordKey)).toEqual(['C']);
+    expect(filterEventsBySource(events, ['interval']).map(item => item.chordKey)).toEqual(['interval:M3']);
+    expect(filterEventsBySource(events)).toHaveLength(2);
+  });
+});
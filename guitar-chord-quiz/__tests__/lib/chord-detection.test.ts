@@ -0,0 +1,133 @@
+import { detectChord, getRms } from '@/lib/chord-detection';
+import { renderPluckedString, INSTRUMENT_VOICES } from '@/lib/karplus-strong';
+import { getChordByName } from '@/data/chord-patterns';
+import { STANDARD_TUNING } from '@/data/tuning-presets';
+import { ChordPattern } from '@/types';
+
+const SAMPLE_RATE = 16000;
+const FRAME_SIZE = 8192;
+
+// =============================================================================
+// WAV fixtures - 合成したギター音をPCM16のWAVとして作成・読み込み
+// =============================================================================
+
+const createRandom = (seed: number) => () => {
+  seed = (seed * 1664525 + 1013904223) % 4294967296;
+  return seed / 4294967296;
+};
+
+/**
+ * 押弦パターンをストロークした音をWAV（PCM16・モノラル）で合成
+ */
+const synthesizeChordWav = (frets: (number | null)[], detuneCents = 0): ArrayBuffer => {
+  const length = SAMPLE_RATE * 1.5;
+  const mix = new Float32Array(length);
+  const random = createRandom(7);
+
+  frets.forEach((fret, stringIndex) => {
+    if (fret === null) return;
+
+    const frequency = STANDARD_TUNING.frequencies[stringIndex] * Math.pow(2, (fret * 100 + detuneCents) / 1200);
+    const note = renderPluckedString(frequency, {
+      sampleRate: SAMPLE_RATE,
+      duration: 1.5,
+      stringIndex,
+      voice: INSTRUMENT_VOICES.acoustic,
+      random,
+    });
+    const offset = stringIndex * Math.round(SAMPLE_RATE * 0.02);
+    for (let i = 0; i + offset < length; i++) mix[i + offset] += note[i] / 6;
+  });
+
+  const buffer = new ArrayBuffer(44 + length * 2);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, text: string) =>
+    text.split('').forEach((char, i) => view.setUint8(offset + i, char.charCodeAt(0)));
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, SAMPLE_RATE, true);
+  view.setUint32(28, SAMPLE_RATE * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, length * 2, true);
+  mix.forEach((sample, i) => view.setInt16(44 + i * 2, Math.max(-1, Math.min(1, sample)) * 0x7fff, true));
+
+  return buffer;
+};
+
+/**
+ * WAV（PCM16・モノラル）をフレームに分割して読み込み
+ */
+const readWavFrames = (buffer: ArrayBuffer): { sampleRate: number; frames: Float32Array[] } => {
+  const view = new DataView(buffer);
+  const sampleRate = view.getUint32(24, true);
+  const sampleCount = view.getUint32(40, true) / 2;
+  const samples = new Float32Array(sampleCount);
+  for (let i = 0; i < sampleCount; i++) samples[i] = view.getInt16(44 + i * 2, true) / 0x7fff;
+
+  const frames: Float32Array[] = [];
+  for (let start = 0; start + FRAME_SIZE <= sampleCount; start += FRAME_SIZE / 2) {
+    frames.push(samples.subarray(start, start + FRAME_SIZE));
+  }
+  return { sampleRate, frames };
+};
+
+const detect = (played: (number | null)[], target: ChordPattern, detuneCents = 0) => {
+  const { sampleRate, frames } = readWavFrames(synthesizeChordWav(played, detuneCents));
+  return detectChord(frames, sampleRate, target);
+};
+
+const chord = (name: string): ChordPattern => {
+  const found = getChordByName(name);
+  if (!found) throw new Error(`missing chord ${name}`);
+  return found;
+};
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('chord-detection', () => {
+  it.each(['C', 'G', 'D', 'Am', 'Em', 'E7', 'F'])('should recognise %s played on a guitar', (name) => {
+    const result = detect(chord(name).frets, chord(name));
+
+    expect(result.isSilent).toBe(false);
+    expect(result.missingNotes).toEqual([]);
+    expect(result.isMatch).toBe(true);
+  });
+
+  it('should accept another voicing of the same chord', () => {
+    // C のバレーフォーム（3フレット）
+    expect(detect([null, 3, 5, 5, 5, 3], chord('C')).isMatch).toBe(true);
+  });
+
+  it('should tolerate a slightly out-of-tune guitar', () => {
+    expect(detect(chord('G').frets, chord('G'), 20).isMatch).toBe(true);
+  });
+
+  it.each([
+    ['Am', 'C'],
+    ['Em', 'G'],
+    ['C', 'Am'],
+    ['E', 'Em'],
+    ['D', 'Dm'],
+  ])('should reject %s when %s is asked', (played, target) => {
+    expect(detect(chord(played).frets, chord(target)).isMatch).toBe(false);
+  });
+
+  it('should report silence', () => {
+    const frames = [new Float32Array(FRAME_SIZE), new Float32Array(FRAME_SIZE).fill(0.001)];
+    const result = detectChord(frames, SAMPLE_RATE, chord('C'));
+
+    expect(getRms(frames[1])).toBeLessThan(0.01);
+    expect(result.isSilent).toBe(true);
+    expect(result.isMatch).toBe(false);
+  });
+});
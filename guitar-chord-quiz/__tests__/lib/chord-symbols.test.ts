@@ -0,0 +1,119 @@
+import {
+  gradeChordAnswer,
+  isEquivalentChordSymbol,
+  parseChordSymbol,
+} from '@/lib/chord-symbols';
+import { CHORD_PATTERNS } from '@/data/chord-patterns';
+
+describe('parseChordSymbol', () => {
+  it('ルート音・品質・付加音・ベース音に分解する', () => {
+    expect(parseChordSymbol('Cadd9/E')).toEqual({
+      root: 'C',
+      quality: 'major',
+      extensions: ['add9'],
+      bass: 'E',
+    });
+    expect(parseChordSymbol('G7sus4')).toEqual({
+      root: 'G',
+      quality: 'sus4',
+      extensions: ['7'],
+      bass: null,
+    });
+  });
+
+  it('品質の別表記を同じ品質として解釈する', () => {
+    ['Cm', 'Cmin', 'Cmi', 'C-'].forEach(symbol => {
+      expect(parseChordSymbol(symbol)?.quality).toBe('minor');
+    });
+    ['Cmaj7', 'CM7', 'CΔ7', 'CΔ', 'Cma7'].forEach(symbol => {
+      expect(parseChordSymbol(symbol)?.quality).toBe('major7');
+    });
+    ['Cdim', 'C°', 'Co'].forEach(symbol => {
+      expect(parseChordSymbol(symbol)?.quality).toBe('diminished');
+    });
+    ['Caug', 'C+'].forEach(symbol => {
+      expect(parseChordSymbol(symbol)?.quality).toBe('augmented');
+    });
+    expect(parseChordSymbol('Csus')?.quality).toBe('sus4');
+    expect(parseChordSymbol('Csus2')?.quality).toBe('sus2');
+  });
+
+  it('9th・11th・13thは7thを含むコードとして解釈する', () => {
+    expect(parseChordSymbol('C9')).toMatchObject({ quality: 'dominant7', extensions: ['9'] });
+    expect(parseChordSymbol('Cmaj9')).toMatchObject({ quality: 'major7', extensions: ['9'] });
+    expect(parseChordSymbol('CM9')).toMatchObject({ quality: 'major7', extensions: ['9'] });
+    expect(parseChordSymbol('CΔ9')).toMatchObject({ quality: 'major7', extensions: ['9'] });
+    expect(parseChordSymbol('Cm11')).toMatchObject({ quality: 'minor7', extensions: ['11'] });
+    expect(parseChordSymbol('G13')).toMatchObject({ quality: 'dominant7', extensions: ['13'] });
+    expect(parseChordSymbol('Cadd9')).toMatchObject({ quality: 'major', extensions: ['add9'] });
+  });
+
+  it('大文字の M はメジャー、小文字の m はマイナーとして区別する', () => {
+    expect(parseChordSymbol('am')?.quality).toBe('minor');
+    expect(parseChordSymbol('AM')?.quality).toBe('major');
+    expect(parseChordSymbol('am')?.root).toBe('A');
+  });
+
+  it('♯/♭・空白・ハーフディミニッシュの表記を受け付ける', () => {
+    expect(parseChordSymbol('B♭ m7')).toMatchObject({ root: 'A#', quality: 'minor7' });
+    expect(parseChordSymbol('Bø')).toEqual(parseChordSymbol('Bm7b5'));
+  });
+
+  it('コードネームとして解釈できない場合はnull', () => {
+    expect(parseChordSymbol('H')).toBeNull();
+    expect(parseChordSymbol('Cxyz')).toBeNull();
+    expect(parseChordSymbol('C/H')).toBeNull();
+    expect(parseChordSymbol('Cmsus4')).toBeNull();
+  });
+
+  it('登録済みのコード名をすべて解釈できる', () => {
+    CHORD_PATTERNS.forEach(chord => {
+      expect(parseChordSymbol(chord.name)).not.toBeNull();
+    });
+  });
+});
+
+describe('isEquivalentChordSymbol', () => {
+  it('異名同音・別表記を同じコードとみなす', () => {
+    expect(isEquivalentChordSymbol('A#', 'Bb')).toBe(true);
+    expect(isEquivalentChordSymbol('CM7', 'Cmaj7')).toBe(true);
+    expect(isEquivalentChordSymbol('CΔ7', 'Cmaj7')).toBe(true);
+    expect(isEquivalentChordSymbol('D#m', 'Ebm')).toBe(true);
+    expect(isEquivalentChordSymbol('C/C', 'C')).toBe(true);
+  });
+
+  it('品質・ベース音が違えば別のコード', () => {
+    expect(isEquivalentChordSymbol('am', 'AM')).toBe(false);
+    expect(isEquivalentChordSymbol('Cadd9', 'Cadd9/E')).toBe(false);
+    expect(isEquivalentChordSymbol('C7', 'Cmaj7')).toBe(false);
+  });
+
+  it('テンションコードの7thの種類・付加音が違えば別のコード', () => {
+    expect(isEquivalentChordSymbol('C9', 'Cmaj9')).toBe(false);
+    expect(isEquivalentChordSymbol('C9', 'CM9')).toBe(false);
+    expect(isEquivalentChordSymbol('C9', 'Cadd9')).toBe(false);
+    expect(isEquivalentChordSymbol('Cmaj9', 'Cadd9')).toBe(false);
+    expect(isEquivalentChordSymbol('Cm9', 'Cmadd9')).toBe(false);
+    expect(isEquivalentChordSymbol('C13', 'Cmaj13')).toBe(false);
+    expect(isEquivalentChordSymbol('Cmaj9', 'CM9')).toBe(true);
+    expect(isEquivalentChordSymbol('C9', 'C7(9)')).toBe(true);
+  });
+});
+
+describe('gradeChordAnswer', () => {
+  it('同じコードなら正解', () => {
+    expect(gradeChordAnswer('Bbmaj7', 'A#maj7')).toBe('correct');
+    expect(gradeChordAnswer(' em ', 'Em')).toBe('correct');
+  });
+
+  it('ルート音だけ合っていれば部分正解', () => {
+    expect(gradeChordAnswer('AM', 'Am')).toBe('partial');
+    expect(gradeChordAnswer('Bb7', 'A#maj7')).toBe('partial');
+    expect(gradeChordAnswer('Cmaj9', 'C9')).toBe('partial');
+  });
+
+  it('ルート音が違う・解釈できない回答は不正解', () => {
+    expect(gradeChordAnswer('Bmaj7', 'A#maj7')).toBe('incorrect');
+    expect(gradeChordAnswer('???', 'C')).toBe('incorrect');
+  });
+});
@@ -0,0 +1,68 @@
+import {
+  validateCustomChord,
+  resolveDeckChords,
+  getDeckChordId,
+  createId,
+  CUSTOM_CHORD_ID_PREFIX,
+} from '@/lib/custom-chords';
+import { ChordDeck, ChordPattern, CustomChord } from '@/types';
+
+const CADD9: ChordPattern = {
+  name: 'Cadd9',
+  frets: [null, 3, 2, 0, 3, 0],
+  fingers: [null, 2, 1, null, 3, null],
+  difficulty: 'intermediate',
+  root: 'C',
+  quality: 'major',
+};
+
+const CUSTOM: CustomChord = {
+  ...CADD9,
+  id: 'custom-test',
+  createdAt: '2025-01-10T12:00:00.000Z',
+};
+
+describe('custom-chords', () => {
+  it('should accept a valid chord', () => {
+    expect(validateCustomChord(CADD9)).toEqual([]);
+  });
+
+  it('should report every problem with an invalid chord', () => {
+    const errors = validateCustomChord({
+      ...CADD9,
+      name: '  ',
+      root: 'H',
+      frets: Array(6).fill(null),
+      fingers: [1, null, null, null, null, null],
+    });
+
+    expect(errors).toHaveLength(4);
+  });
+
+  it('should reject a barre that does not match the frets', () => {
+    const errors = validateCustomChord({
+      ...CADD9,
+      barres: [{ fret: 1, fromString: 5, toString: 1, finger: 1 }],
+    });
+
+    expect(errors).toHaveLength(1);
+  });
+
+  it('should resolve built-in slugs and custom ids, skipping missing chords', () => {
+    const deck: ChordDeck = {
+      id: 'deck-test',
+      name: 'テスト',
+      chordIds: ['Am', CUSTOM.id, 'custom-deleted', 'Fsharpm'],
+      createdAt: '2025-01-10T12:00:00.000Z',
+    };
+
+    const chords = resolveDeckChords(deck, [CUSTOM]);
+    expect(chords.map(chord => chord.name)).toEqual(['Am', 'Cadd9', 'F#m']);
+  });
+
+  it('should use ids for custom chords and slugs for built-in chords', () => {
+    expect(getDeckChordId(CUSTOM)).toBe('custom-test');
+    expect(getDeckChordId({ ...CADD9, name: 'F#m' })).toBe('Fsharpm');
+    expect(createId(CUSTOM_CHORD_ID_PREFIX)).toMatch(/^custom-/);
+  });
+});
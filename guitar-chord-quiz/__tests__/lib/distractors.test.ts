@@ -0,0 +1,94 @@
+import { createAnswerChoices, getDistractorCandidates } from '@/lib/distractors';
+import { isEquivalentChordSymbol } from '@/lib/chord-symbols';
+import { getChordByName } from '@/data/chord-patterns';
+import { ChordConfusion } from '@/lib/chord-analytics';
+
+const chord = (name: string) => getChordByName(name)!;
+
+describe('getDistractorCandidates', () => {
+  it('出題コードと同じコードを候補に含めない', () => {
+    const candidates = getDistractorCandidates(chord('Am'));
+
+    expect(candidates.length).toBeGreaterThan(0);
+    candidates.forEach(candidate => {
+      expect(isEquivalentChordSymbol(candidate.name, 'Am')).toBe(false);
+    });
+  });
+
+  it('同じルート音・同じ形のコードを紛らわしい候補にする', () => {
+    const candidates = getDistractorCandidates(chord('Am'));
+    const find = (name: string) => candidates.find(candidate => candidate.name === name);
+
+    expect(find('A')?.reasons).toContain('same-root');
+    expect(find('Am7')?.reasons).toContain('same-root');
+    expect(find('Bbm')?.reasons).toContain('same-shape');
+  });
+
+  it('過去に取り違えたコードを最も紛らわしい候補にする', () => {
+    const confusions: ChordConfusion[] = [
+      { chordKey: 'Am-standard', chordName: 'Am', answer: 'Dm', count: 3 },
+    ];
+    const candidates = getDistractorCandidates(chord('Am'), { confusions });
+
+    expect(candidates[0]).toMatchObject({ name: 'Dm' });
+    expect(candidates[0].reasons).toContain('confusion');
+  });
+
+  it('カポを付けると実音のコード名を候補にする', () => {
+    const candidates = getDistractorCandidates(chord('C'), { capoPosition: 2 });
+
+    expect(candidates.some(candidate => isEquivalentChordSymbol(candidate.name, 'D'))).toBe(false);
+    expect(candidates.find(candidate => candidate.name === 'D7')?.reasons).toContain('same-root');
+  });
+});
+
+describe('createAnswerChoices', () => {
+  it('指定した数の選択肢に正解を1つだけ含める', () => {
+    [4, 5, 6].forEach(optionCount => {
+      const choices = createAnswerChoices(chord('G'), { optionCount, distractorLevel: 'normal' });
+
+      expect(choices).toHaveLength(optionCount);
+      expect(choices.filter(choice => isEquivalentChordSymbol(choice, 'G'))).toHaveLength(1);
+    });
+  });
+
+  it('同じコードを表す選択肢を重複させない', () => {
+    const choices = createAnswerChoices(chord('Em'), { optionCount: 6, distractorLevel: 'hard' });
+
+    choices.forEach((choice, index) => {
+      choices.slice(index + 1).forEach(other => {
+        expect(isEquivalentChordSymbol(choice, other)).toBe(false);
+      });
+    });
+  });
+
+  it('紛らわしい難しさではひっかけ選択肢をすべて紛らわしい候補から選ぶ', () => {
+    const confusable = getDistractorCandidates(chord('Am'))
+      .filter(candidate => candidate.score > 0)
+      .map(candidate => candidate.name);
+    const choices = createAnswerChoices(chord('Am'), { optionCount: 4, distractorLevel: 'hard' });
+
+    choices
+      .filter(choice => choice !== 'Am')
+      .forEach(choice => expect(confusable).toContain(choice));
+  });
+
+  it('候補を絞ると選択肢は候補の範囲に限られ、足りない場合は少なくなる', () => {
+    const pool = [chord('C'), chord('G')];
+    const choices = createAnswerChoices(chord('C'), { optionCount: 4, distractorLevel: 'easy', pool });
+
+    expect(choices).toContain('C');
+    expect(choices).toContain('G');
+    expect(choices.length).toBeLessThanOrEqual(4);
+  });
+
+  it('カポを付けると正解は実音のコード名になる', () => {
+    const choices = createAnswerChoices(chord('C'), {
+      optionCount: 4,
+      distractorLevel: 'normal',
+      capoPosition: 2,
+    });
+
+    expect(choices).toContain('D');
+  });
+});
@@ -0,0 +1,70 @@
+import {
+  compareGameResults,
+  getGameOverReason,
+  getRemainingLives,
+  getRemainingTime,
+} from '@/lib/game-modes';
+
+const progress = (totalAnswers: number, correctAnswers: number, timeElapsed = 0) => ({
+  totalAnswers,
+  correctAnswers,
+  timeElapsed,
+});
+
+describe('getGameOverReason', () => {
+  it('フリーモードは終了しない', () => {
+    expect(getGameOverReason('endless', progress(100, 0, 3600))).toBeNull();
+  });
+
+  it('10問チャレンジは10問回答すると終了する', () => {
+    expect(getGameOverReason('fixed', progress(9, 9))).toBeNull();
+    expect(getGameOverReason('fixed', progress(10, 4))).toBe('questions');
+  });
+
+  it('タイムアタックは制限時間を使い切ると終了する', () => {
+    expect(getGameOverReason('time-attack', progress(20, 5, 59))).toBeNull();
+    expect(getGameOverReason('time-attack', progress(20, 5, 60))).toBe('time');
+  });
+
+  it('サバイバルは3回目の不正解で終了する', () => {
+    expect(getGameOverReason('survival', progress(30, 28))).toBeNull();
+    expect(getGameOverReason('survival', progress(31, 28))).toBe('lives');
+  });
+
+  it('サドンデスは1回目の不正解で終了する', () => {
+    expect(getGameOverReason('sudden-death', progress(15, 15))).toBeNull();
+    expect(getGameOverReason('sudden-death', progress(16, 15))).toBe('lives');
+  });
+});
+
+describe('getRemainingLives / getRemainingTime', () => {
+  it('ライフ・時間の制限がないモードはnull', () => {
+    expect(getRemainingLives('time-attack', progress(3, 1))).toBeNull();
+    expect(getRemainingTime('survival', progress(3, 1, 30))).toBeNull();
+  });
+
+  it('残りを0未満にしない', () => {
+    expect(getRemainingLives('survival', progress(5, 1))).toBe(0);
+    expect(getRemainingLives('survival', progress(5, 4))).toBe(2);
+    expect(getRemainingTime('time-attack', progress(0, 0, 75))).toBe(0);
+    expect(getRemainingTime('time-attack', progress(0, 0, 18))).toBe(42);
+  });
+});
+
+describe('compareGameResults', () => {
+  const high = { score: 200, correctAnswers: 10, timeElapsed: 60 };
+  const many = { score: 150, correctAnswers: 14, timeElapsed: 60 };
+
+  it('スコアで競うモードはスコアの高い順', () => {
+    expect([many, high].sort((a, b) => compareGameResults('time-attack', a, b))).toEqual([high, many]);
+  });
+
+  it('ライフ制のモードは正解数の多い順', () => {
+    expect([high, many].sort((a, b) => compareGameResults('survival', a, b))).toEqual([many, high]);
+  });
+
+  it('同点なら経過時間の短い順', () => {
+    const fast = { ...high, timeElapsed: 30 };
+    expect([high, fast].sort((a, b) => compareGameResults('fixed', a, b))).toEqual([fast, high]);
+  });
+});
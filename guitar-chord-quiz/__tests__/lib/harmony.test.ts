@@ -0,0 +1,71 @@
+import {
+  ALL_KEYS,
+  formatKeyName,
+  getDiatonicChords,
+  parseRomanNumeral,
+  resolveRomanNumeral,
+  spellNote,
+} from '@/lib/harmony';
+
+describe('parseRomanNumeral', () => {
+  it('大文字・小文字・記号からコード品質を決める', () => {
+    expect(parseRomanNumeral('IV')).toMatchObject({ degree: 4, alteration: 0, quality: 'major' });
+    expect(parseRomanNumeral('vi')).toMatchObject({ degree: 6, quality: 'minor' });
+    expect(parseRomanNumeral('vii°')).toMatchObject({ degree: 7, quality: 'diminished' });
+    expect(parseRomanNumeral('III+')).toMatchObject({ degree: 3, quality: 'augmented' });
+    expect(parseRomanNumeral('V7')).toMatchObject({ degree: 5, quality: 'dominant7' });
+    expect(parseRomanNumeral('ii7')).toMatchObject({ degree: 2, quality: 'minor7' });
+    expect(parseRomanNumeral('Imaj7')).toMatchObject({ degree: 1, quality: 'major7' });
+    expect(parseRomanNumeral('Vsus4')).toMatchObject({ degree: 5, quality: 'sus4' });
+    expect(parseRomanNumeral('bVII')).toMatchObject({ degree: 7, alteration: -1, quality: 'major' });
+  });
+
+  it('解釈できない表記はnull', () => {
+    expect(parseRomanNumeral('VIII')).toBeNull();
+    expect(parseRomanNumeral('C')).toBeNull();
+    expect(parseRomanNumeral('iimaj7')).toBeNull();
+    expect(parseRomanNumeral('V°')).toBeNull();
+  });
+});
+
+describe('resolveRomanNumeral', () => {
+  it('調の音階からルート音を求める', () => {
+    expect(resolveRomanNumeral('V7', { tonic: 'G', mode: 'major' })).toMatchObject({ root: 'D', name: 'D7' });
+    expect(resolveRomanNumeral('bVII', { tonic: 'A', mode: 'major' })).toMatchObject({ root: 'G', name: 'G' });
+    expect(resolveRomanNumeral('III', { tonic: 'A', mode: 'minor' })).toMatchObject({ root: 'C', name: 'C' });
+    expect(resolveRomanNumeral('V', { tonic: 'A', mode: 'minor' })).toMatchObject({ root: 'E', name: 'E' });
+  });
+
+  it('フラット系の調では♭で表記する', () => {
+    expect(resolveRomanNumeral('IV', { tonic: 'F', mode: 'major' }).name).toBe('Bb');
+    expect(resolveRomanNumeral('i', { tonic: 'A#', mode: 'major' }).name).toBe('Bbm');
+    expect(resolveRomanNumeral('V', { tonic: 'E', mode: 'major' }).name).toBe('B');
+  });
+
+  it('解釈できない表記はエラー', () => {
+    expect(() => resolveRomanNumeral('X', { tonic: 'C', mode: 'major' })).toThrow();
+  });
+});
+
+describe('getDiatonicChords', () => {
+  it('Cメジャーのダイアトニックコード', () => {
+    expect(getDiatonicChords({ tonic: 'C', mode: 'major' }).map(chord => chord.name)).toEqual([
+      'C', 'Dm', 'Em', 'F', 'G', 'Am', 'Bdim',
+    ]);
+  });
+
+  it('Aマイナーのダイアトニックコード', () => {
+    expect(getDiatonicChords({ tonic: 'A', mode: 'minor' }).map(chord => chord.name)).toEqual([
+      'Am', 'Bdim', 'C', 'Dm', 'Em', 'F', 'G',
+    ]);
+  });
+});
+
+describe('調の表記', () => {
+  it('調の表示名と音名の表記', () => {
+    expect(formatKeyName({ tonic: 'D#', mode: 'major' })).toBe('Eb メジャー');
+    expect(formatKeyName({ tonic: 'F#', mode: 'minor' })).toBe('F# マイナー');
+    expect(spellNote('C#', { tonic: 'A', mode: 'major' })).toBe('C#');
+    expect(ALL_KEYS).toHaveLength(24);
+  });
+});
@@ -0,0 +1,96 @@
+import {
+  COMPOUND_INTERVALS,
+  INTERVALS,
+  SIMPLE_INTERVALS,
+  createIntervalQuestion,
+  getInterval,
+  getIntervalKey,
+  getIntervalNoteOrder,
+  getIntervalPositionPairs,
+  getPositionPitch,
+} from '@/lib/intervals';
+import { getTuning, STANDARD_TUNING } from '@/data/tuning-presets';
+
+describe('INTERVALS', () => {
+  it('短2度から完全15度まで半音ずつ並ぶ', () => {
+    expect(INTERVALS.map(interval => interval.semitones)).toEqual(Array.from({ length: 24 }, (_, i) => i + 1));
+    expect(SIMPLE_INTERVALS).toHaveLength(12);
+    expect(COMPOUND_INTERVALS).toHaveLength(12);
+  });
+
+  it('半音数から定義を取得する', () => {
+    expect(getInterval(7)).toMatchObject({ name: 'P5', label: '完全5度' });
+    expect(getIntervalKey(getInterval(3))).toBe('interval:m3');
+    expect(() => getInterval(0)).toThrow();
+  });
+});
+
+describe('getPositionPitch', () => {
+  it('標準チューニングの開放弦はE2〜E4', () => {
+    expect(getPositionPitch(0, 0, STANDARD_TUNING)).toBe(40);
+    expect(getPositionPitch(4, 0, STANDARD_TUNING)).toBe(59);
+    expect(getPositionPitch(5, 0, STANDARD_TUNING)).toBe(64);
+    expect(getPositionPitch(1, 7, STANDARD_TUNING)).toBe(getPositionPitch(2, 2, STANDARD_TUNING));
+  });
+});
+
+describe('getIntervalPositionPairs', () => {
+  it('すべての音程が12フレット以内で別の弦に見つかる', () => {
+    INTERVALS.forEach(({ semitones }) => {
+      const pairs = getIntervalPositionPairs(semitones, STANDARD_TUNING);
+
+      expect(pairs.length).toBeGreaterThan(0);
+      pairs.forEach(({ lower, upper }) => {
+        expect(upper.stringIndex).not.toBe(lower.stringIndex);
+        expect(
+          getPositionPitch(upper.stringIndex, upper.fret, STANDARD_TUNING) -
+          getPositionPitch(lower.stringIndex, lower.fret, STANDARD_TUNING)
+        ).toBe(semitones);
+      });
+    });
+  });
+
+  it('押さえる2音のフレット幅は4以内（開放弦を除く）', () => {
+    getIntervalPositionPairs(7, STANDARD_TUNING).forEach(({ lower, upper }) => {
+      if (lower.fret > 0 && upper.fret > 0) {
+        expect(Math.abs(upper.fret - lower.fret)).toBeLessThanOrEqual(4);
+      }
+    });
+  });
+
+  it('チューニングに追従する', () => {
+    // ドロップDの6弦開放と5弦開放は完全5度
+    const pairs = getIntervalPositionPairs(7, getTuning('dropD'));
+    expect(pairs).toContainEqual({ lower: { stringIndex: 0, fret: 0 }, upper: { stringIndex: 1, fret: 0 } });
+  });
+});
+
+describe('createIntervalQuestion', () => {
+  it('指定した音程・方向から出題する', () => {
+    for (let i = 0; i < 20; i++) {
+      const question = createIntervalQuestion({
+        intervals: [4, 16],
+        directions: ['descending'],
+        tuning: STANDARD_TUNING,
+      });
+
+      expect([4, 16]).toContain(question.interval.semitones);
+      expect(question.direction).toBe('descending');
+    }
+  });
+
+  it('上行は低い音から、下行は高い音から鳴らす', () => {
+    const question = createIntervalQuestion(
+      { intervals: [7], directions: ['ascending'], tuning: STANDARD_TUNING },
+      () => 0
+    );
+
+    expect(getIntervalNoteOrder(question)).toEqual([question.lower, question.upper]);
+    expect(getIntervalNoteOrder({ ...question, direction: 'descending' })).toEqual([question.upper, question.lower]);
+  });
+
+  it('出題できる音程がなければエラー', () => {
+    expect(() => createIntervalQuestion({ intervals: [], directions: ['ascending'], tuning: STANDARD_TUNING })).toThrow();
+    expect(() => createIntervalQuestion({ intervals: [7], directions: [], tuning: STANDARD_TUNING })).toThrow();
+  });
+});
@@ -0,0 +1,79 @@
+import {
+  renderPluckedString,
+  getStringSustain,
+  INSTRUMENT_VOICES,
+} from '@/lib/karplus-strong';
+
+const SAMPLE_RATE = 44100;
+
+/**
+ * 再現性のある疑似乱数（線形合同法）
+ */
+const createRandom = (seed: number) => () => {
+  seed = (seed * 1664525 + 1013904223) % 4294967296;
+  return seed / 4294967296;
+};
+
+/**
+ * 自己相関が最大になる周期から基本周波数を推定
+ */
+const estimateFrequency = (samples: Float32Array, minHz: number, maxHz: number): number => {
+  let bestLag = 0;
+  let bestScore = -Infinity;
+
+  for (let lag = Math.floor(SAMPLE_RATE / maxHz); lag <= Math.ceil(SAMPLE_RATE / minHz); lag++) {
+    let score = 0;
+    for (let i = 0; i + lag < samples.length; i++) score += samples[i] * samples[i + lag];
+    if (score > bestScore) {
+      bestScore = score;
+      bestLag = lag;
+    }
+  }
+
+  return SAMPLE_RATE / bestLag;
+};
+
+const rms = (samples: Float32Array): number =>
+  Math.sqrt(samples.reduce((sum, value) => sum + value * value, 0) / samples.length);
+
+const render = (frequency: number, instrument: keyof typeof INSTRUMENT_VOICES, stringIndex = 0) =>
+  renderPluckedString(frequency, {
+    sampleRate: SAMPLE_RATE,
+    duration: 1,
+    stringIndex,
+    voice: INSTRUMENT_VOICES[instrument],
+    random: createRandom(42),
+  });
+
+describe('karplus-strong', () => {
+  it('should render the requested length within range', () => {
+    const samples = render(110, 'acoustic');
+
+    expect(samples).toHaveLength(SAMPLE_RATE);
+    expect(samples.every(value => Math.abs(value) <= 1)).toBe(true);
+    expect(samples[samples.length - 1]).toBeCloseTo(0);
+  });
+
+  it.each([82.41, 196, 329.63])('should be in tune at %f Hz', (frequency) => {
+    const samples = render(frequency, 'acoustic').subarray(2048, 2048 + 4096);
+    const estimated = estimateFrequency(samples, frequency / 1.5, frequency * 1.5);
+
+    // 1/4半音（約1.5%）以内
+    expect(Math.abs(estimated - frequency) / frequency).toBeLessThan(0.015);
+  });
+
+  it('should decay over time', () => {
+    const samples = render(196, 'acoustic');
+
+    expect(rms(samples.subarray(SAMPLE_RATE * 0.7, SAMPLE_RATE * 0.9)))
+      .toBeLessThan(rms(samples.subarray(0, SAMPLE_RATE * 0.2)));
+  });
+
+  it('should damp nylon and thin strings faster', () => {
+    const tail = (samples: Float32Array) => rms(samples.subarray(SAMPLE_RATE * 0.7, SAMPLE_RATE * 0.9));
+
+    expect(tail(render(196, 'nylon'))).toBeLessThan(tail(render(196, 'electric')));
+    expect(getStringSustain(INSTRUMENT_VOICES.acoustic, 5))
+      .toBeLessThan(getStringSustain(INSTRUMENT_VOICES.acoustic, 0));
+  });
+});
@@ -0,0 +1,39 @@
+import {
+  getBeatPosition,
+  calculateChangesPerMinute,
+  getChordPairKeys,
+} from '@/lib/metronome';
+
+describe('metronome', () => {
+  it('should show the next chord one beat before the change', () => {
+    const positions = Array.from({ length: 9 }, (_, beat) => getBeatPosition(beat, 4, 2));
+
+    expect(positions.map(position => position.chordIndex)).toEqual([0, 0, 0, 0, 1, 1, 1, 1, 0]);
+    expect(positions.map(position => position.showNext)).toEqual([
+      false, false, false, true, false, false, false, true, false,
+    ]);
+    expect(positions[3].nextChordIndex).toBe(1);
+    expect(positions[8].changes).toBe(2);
+  });
+
+  it('should change every beat with one beat per chord', () => {
+    const position = getBeatPosition(5, 1, 3);
+
+    expect(position.chordIndex).toBe(2);
+    expect(position.nextChordIndex).toBe(0);
+    expect(position.showNext).toBe(true);
+  });
+
+  it('should calculate changes per minute from elapsed beats', () => {
+    // 60 BPM・2拍ごと → 30回/分
+    expect(calculateChangesPerMinute(30, 60, 60)).toBe(30);
+    expect(calculateChangesPerMinute(10, 30, 120)).toBe(40);
+    expect(calculateChangesPerMinute(5, 0, 60)).toBe(0);
+  });
+
+  it('should build order-independent pair keys', () => {
+    expect(getChordPairKeys(['C', 'G'])).toEqual(['C|G']);
+    expect(getChordPairKeys(['G', 'C', 'Am'])).toEqual(['C|G', 'Am|C', 'Am|G']);
+    expect(getChordPairKeys(['C'])).toEqual([]);
+  });
+});
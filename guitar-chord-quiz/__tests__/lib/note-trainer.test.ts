@@ -0,0 +1,110 @@
+import {
+  DEFAULT_NOTE_TRAINER_RANGE,
+  findNotePositions,
+  getAccuracyRate,
+  getGradeAttempts,
+  getPositionNote,
+  getRandomNote,
+  getRandomPosition,
+  getRangePositions,
+  getStringAccuracy,
+  recordPositionAttempts,
+} from '@/lib/note-trainer';
+import { gradeNotePositions } from '@/lib/theory';
+import { getTuning, STANDARD_TUNING } from '@/data/tuning-presets';
+
+describe('getRangePositions', () => {
+  it('指定した弦・フレット範囲の位置を返す', () => {
+    const positions = getRangePositions({ stringIndexes: [5, 0], fretRange: { start: 3, end: 5 } });
+
+    expect(positions).toEqual([
+      { stringIndex: 0, fret: 3 }, { stringIndex: 0, fret: 4 }, { stringIndex: 0, fret: 5 },
+      { stringIndex: 5, fret: 3 }, { stringIndex: 5, fret: 4 }, { stringIndex: 5, fret: 5 },
+    ]);
+  });
+});
+
+describe('getPositionNote', () => {
+  it('stringIndex 0 は6弦', () => {
+    expect(getPositionNote(0, 0, STANDARD_TUNING)).toBe('E');
+    expect(getPositionNote(0, 3, STANDARD_TUNING)).toBe('G');
+    expect(getPositionNote(4, 1, STANDARD_TUNING)).toBe('C');
+    expect(getPositionNote(5, 12, STANDARD_TUNING)).toBe('E');
+  });
+
+  it('チューニングに追従する', () => {
+    expect(getPositionNote(0, 0, getTuning('dropD'))).toBe('D');
+  });
+});
+
+describe('findNotePositions', () => {
+  it('開放〜12フレットのGをすべて返す', () => {
+    const positions = findNotePositions('G', STANDARD_TUNING, DEFAULT_NOTE_TRAINER_RANGE);
+
+    expect(positions).toEqual([
+      { stringIndex: 0, fret: 3 },
+      { stringIndex: 1, fret: 10 },
+      { stringIndex: 2, fret: 5 },
+      { stringIndex: 3, fret: 0 },
+      { stringIndex: 3, fret: 12 },
+      { stringIndex: 4, fret: 8 },
+      { stringIndex: 5, fret: 3 },
+    ]);
+  });
+
+  it('出題範囲の弦・フレットに限定する', () => {
+    const positions = findNotePositions('G', STANDARD_TUNING, {
+      stringIndexes: [0, 5],
+      fretRange: { start: 1, end: 5 },
+    });
+
+    expect(positions).toEqual([{ stringIndex: 0, fret: 3 }, { stringIndex: 5, fret: 3 }]);
+  });
+});
+
+describe('getRandomPosition / getRandomNote', () => {
+  const range = { stringIndexes: [2], fretRange: { start: 5, end: 7 } };
+
+  it('出題範囲内から選ぶ', () => {
+    expect(getRandomPosition(range, () => 0)).toEqual({ stringIndex: 2, fret: 5 });
+    expect(getRandomPosition(range, () => 0.99)).toEqual({ stringIndex: 2, fret: 7 });
+    expect(['G', 'G#', 'A']).toContain(getRandomNote(STANDARD_TUNING, range, () => 0.5));
+  });
+
+  it('出題範囲が空ならエラー', () => {
+    const empty = { stringIndexes: [], fretRange: { start: 0, end: 12 } };
+    expect(() => getRandomPosition(empty)).toThrow();
+    expect(() => getRandomNote(STANDARD_TUNING, empty)).toThrow();
+  });
+});
+
+describe('正答率', () => {
+  it('採点結果の不足・誤りを不正解として記録する', () => {
+    const expected = findNotePositions('A', STANDARD_TUNING, { stringIndexes: [0, 1], fretRange: { start: 0, end: 5 } });
+    // キーは "stringIndex + 1"（6弦 = 1）
+    const grade = gradeNotePositions(expected, ['1-5', '1-4']);
+
+    expect(getGradeAttempts(grade)).toEqual([
+      { key: '1-5', isCorrect: true },
+      { key: '2-0', isCorrect: false },
+      { key: '1-4', isCorrect: false },
+    ]);
+  });
+
+  it('位置ごとに加算し、弦ごとに集計する', () => {
+    const stats = recordPositionAttempts(
+      { '1-3': { correct: 1, total: 1 } },
+      [
+        { key: '1-3', isCorrect: false },
+        { key: '1-5', isCorrect: true },
+        { key: '2-5', isCorrect: true },
+      ]
+    );
+
+    expect(stats['1-3']).toEqual({ correct: 1, total: 2 });
+    expect(getAccuracyRate(stats['1-3'])).toBe(0.5);
+    expect(getAccuracyRate(stats['1-7'])).toBeNull();
+    expect(getStringAccuracy(stats, 0)).toEqual({ correct: 2, total: 3 });
+    expect(getStringAccuracy(stats, 1)).toEqual({ correct: 1, total: 1 });
+  });
+});
@@ -0,0 +1,134 @@
+import {
+  detectPitch,
+  getCentsOffset,
+  getTunerReading,
+  DEFAULT_REFERENCE_PITCH,
+} from '@/lib/pitch-detection';
+import { renderPluckedString, INSTRUMENT_VOICES } from '@/lib/karplus-strong';
+import { getTuning, STANDARD_TUNING } from '@/data/tuning-presets';
+
+const SAMPLE_RATE = 44100;
+const FRAME_SIZE = 4096;
+
+/**
+ * 再現性のある疑似乱数（線形合同法）
+ */
+const createRandom = (seed: number) => () => {
+  seed = (seed * 1664525 + 1013904223) % 4294967296;
+  return seed / 4294967296;
+};
+
+const sine = (frequency: number, amplitude = 0.5): Float32Array =>
+  Float32Array.from({ length: FRAME_SIZE }, (_, i) =>
+    amplitude * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE)
+  );
+
+/**
+ * 撥弦音のアタック直後を避けたフレーム
+ */
+const pluck = (frequency: number, stringIndex: number): Float32Array =>
+  renderPluckedString(frequency, {
+    sampleRate: SAMPLE_RATE,
+    duration: 0.5,
+    stringIndex,
+    voice: INSTRUMENT_VOICES.acoustic,
+    random: createRandom(stringIndex + 1),
+  }).slice(2048, 2048 + FRAME_SIZE);
+
+describe('getCentsOffset', () => {
+  it('1オクターブ上は+1200セント', () => {
+    expect(getCentsOffset(880, 440)).toBeCloseTo(1200);
+    expect(getCentsOffset(220, 440)).toBeCloseTo(-1200);
+    expect(getCentsOffset(440, 440)).toBeCloseTo(0);
+  });
+});
+
+describe('detectPitch', () => {
+  it('無音ではnullを返す', () => {
+    expect(detectPitch(new Float32Array(FRAME_SIZE), SAMPLE_RATE)).toBeNull();
+  });
+
+  it('正弦波の周波数を数セントの精度で検出する', () => {
+    [82.41, 110, 196, 329.63, 440, 659.26].forEach(frequency => {
+      const result = detectPitch(sine(frequency), SAMPLE_RATE);
+      expect(result).not.toBeNull();
+      expect(Math.abs(getCentsOffset(result!.frequency, frequency))).toBeLessThan(3);
+      expect(result!.clarity).toBeGreaterThan(0.9);
+    });
+  });
+
+  it('標準チューニングの各開放弦の撥弦音を検出する', () => {
+    STANDARD_TUNING.frequencies.forEach((frequency, stringIndex) => {
+      const result = detectPitch(pluck(frequency, stringIndex), SAMPLE_RATE);
+      expect(result).not.toBeNull();
+      expect(Math.abs(getCentsOffset(result!.frequency, frequency))).toBeLessThan(10);
+    });
+  });
+
+  it('ドロップDの6弦（D2）も検出範囲に含まれる', () => {
+    const result = detectPitch(pluck(73.42, 0), SAMPLE_RATE);
+    expect(result).not.toBeNull();
+    expect(Math.abs(getCentsOffset(result!.frequency, 73.42))).toBeLessThan(10);
+  });
+
+  it('ノイズでは周期が見つからない', () => {
+    const random = createRandom(42);
+    const noise = Float32Array.from({ length: FRAME_SIZE }, () => random() * 2 - 1);
+    expect(detectPitch(noise, SAMPLE_RATE)).toBeNull();
+  });
+});
+
+describe('getTunerReading', () => {
+  it('最も近い音名・オクターブ・セントを求める', () => {
+    const reading = getTunerReading(442, STANDARD_TUNING);
+
+    expect(reading.note).toBe('A');
+    expect(reading.octave).toBe(4);
+    expect(reading.cents).toBeCloseTo(getCentsOffset(442, 440));
+  });
+
+  it('オクターブはCで切り替わる', () => {
+    expect(getTunerReading(261.63, STANDARD_TUNING)).toMatchObject({ note: 'C', octave: 4 });
+    expect(getTunerReading(246.94, STANDARD_TUNING)).toMatchObject({ note: 'B', octave: 3 });
+    expect(getTunerReading(82.41, STANDARD_TUNING)).toMatchObject({ note: 'E', octave: 2 });
+  });
+
+  it('最も近い開放弦を目標にする', () => {
+    const reading = getTunerReading(80, STANDARD_TUNING);
+
+    expect(reading.stringNumber).toBe(6);
+    expect(reading.targetFrequency).toBeCloseTo(82.41);
+    expect(reading.stringCents).toBeLessThan(0);
+
+    expect(getTunerReading(250, STANDARD_TUNING).stringNumber).toBe(2);
+    expect(getTunerReading(330, STANDARD_TUNING).stringNumber).toBe(1);
+  });
+
+  it('選択したチューニングの開放弦を目標にする', () => {
+    const dropD = getTuning('dropD');
+
+    const reading = getTunerReading(73.42, dropD);
+    expect(reading.stringNumber).toBe(6);
+    expect(reading.note).toBe('D');
+    expect(Math.abs(reading.stringCents)).toBeLessThan(1);
+  });
+
+  it('基準ピッチを変えると音名・目標周波数も追従する', () => {
+    const reading = getTunerReading(442, STANDARD_TUNING, 442);
+
+    expect(reading.note).toBe('A');
+    expect(reading.cents).toBeCloseTo(0);
+
+    const lowE = getTunerReading(82.41 * (442 / DEFAULT_REFERENCE_PITCH), STANDARD_TUNING, 442);
+    expect(lowE.stringNumber).toBe(6);
+    expect(lowE.targetFrequency).toBeCloseTo(82.41 * (442 / 440));
+    expect(lowE.stringCents).toBeCloseTo(0);
+  });
+
+  it('半音の中間付近では近い方の音名になる', () => {
+    // A4から+60セントはA#
+    const reading = getTunerReading(440 * Math.pow(2, 60 / 1200), STANDARD_TUNING);
+    expect(reading.note).toBe('A#');
+    expect(reading.cents).toBeCloseTo(-40);
+  });
+});
@@ -0,0 +1,48 @@
+import {
+  getPlaybackSchedule,
+  DEFAULT_PLAYBACK_SETTINGS,
+} from '@/lib/playback-patterns';
+import { ChordPlaybackStyle } from '@/types';
+
+// Am: 6弦ミュート、5弦開放、4・3・2弦押弦、1弦開放
+const AM_FRETS = [null, 0, 2, 2, 1, 0];
+
+const schedule = (style: ChordPlaybackStyle, frets: (number | null)[] = AM_FRETS) =>
+  getPlaybackSchedule(frets, { ...DEFAULT_PLAYBACK_SETTINGS, style, strumSpeed: 20, arpeggioInterval: 250 });
+
+describe('playback-patterns', () => {
+  it.each<ChordPlaybackStyle>(['down', 'up', 'arpeggio', 'block', 'travis', 'pima'])(
+    'should never play muted strings (%s)',
+    (style) => {
+      const notes = schedule(style);
+
+      expect(notes.length).toBeGreaterThan(0);
+      expect(notes.some(note => note.stringIndex === 0)).toBe(false);
+    }
+  );
+
+  it('should strum sounding strings without gaps for muted strings', () => {
+    expect(schedule('down').map(note => [note.stringIndex, note.time])).toEqual([
+      [1, 0], [2, 0.02], [3, 0.04], [4, 0.06], [5, 0.08],
+    ]);
+    expect(schedule('up').map(note => note.stringIndex)).toEqual([5, 4, 3, 2, 1]);
+  });
+
+  it('should play block chords at once and arpeggios with the note gap', () => {
+    expect(schedule('block').every(note => note.time === 0)).toBe(true);
+    expect(schedule('arpeggio').map(note => note.time)).toEqual([0, 0.25, 0.5, 0.75, 1]);
+  });
+
+  it('should follow the fingerpicking patterns', () => {
+    // 親指: 5弦・3弦を交互、指: 2弦・1弦
+    expect(schedule('travis').map(note => 6 - note.stringIndex)).toEqual([5, 2, 3, 1, 5, 2, 3, 1]);
+    // p-i-m-a: 5弦・3弦・2弦・1弦
+    expect(schedule('pima').map(note => 6 - note.stringIndex)).toEqual([5, 3, 2, 1]);
+  });
+
+  it('should handle chords with few or no sounding strings', () => {
+    expect(schedule('travis', [null, null, null, null, 3, 3]).map(note => note.stringIndex))
+      .toEqual([4, 4, 5, 5, 4, 4, 5, 5]);
+    expect(schedule('down', Array(6).fill(null))).toEqual([]);
+  });
+});
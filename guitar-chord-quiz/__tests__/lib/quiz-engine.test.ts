@@ -0,0 +1,221 @@
+import {
+  DEFAULT_QUIZ_ENGINE_CONFIG,
+  QuizEngineConfig,
+  QuizEngineState,
+  createQuizEngineState,
+  createRandomQuestionSource,
+  quizReducer,
+  replayQuiz,
+  standardScoring,
+} from '@/lib/quiz-engine';
+import { ChordPattern, QuizAction } from '@/types';
+
+const chord = (name: string): ChordPattern => ({
+  name,
+  frets: [null, 3, 2, 0, 1, 0],
+  fingers: [null, 3, 2, null, 1, null],
+  difficulty: 'beginner',
+  root: name.charAt(0),
+  quality: 'major',
+});
+
+const C = chord('C');
+const G = chord('G');
+const D = chord('D');
+
+const config = (overrides: Partial<QuizEngineConfig> = {}): QuizEngineConfig => ({
+  ...DEFAULT_QUIZ_ENGINE_CONFIG,
+  ...overrides,
+});
+
+const run = (actions: QuizAction[], engineConfig = config()): QuizEngineState =>
+  replayQuiz(actions, engineConfig);
+
+const start: QuizAction = { type: 'START_QUIZ', difficulty: 'beginner', chord: C };
+const correct: QuizAction = { type: 'SUBMIT_ANSWER', answer: 'C', result: 'correct' };
+const incorrect: QuizAction = { type: 'SUBMIT_ANSWER', answer: 'G', result: 'incorrect' };
+const next = (nextChord: ChordPattern | null = G): QuizAction => ({ type: 'NEXT_CHORD', chord: nextChord });
+const skip = (nextChord: ChordPattern | null = G): QuizAction => ({ type: 'SKIP_CHORD', chord: nextChord });
+
+describe('standardScoring', () => {
+  const context = { questionTime: 0, hintsUsed: 0, streak: 0, difficulty: 'beginner' as const };
+
+  it('正解は基本スコアに時間・連続正解ボーナスを加え、ヒント分を減点する', () => {
+    expect(standardScoring({ ...context, result: 'correct' })).toBe(20);
+    expect(standardScoring({ ...context, result: 'correct', streak: 3, hintsUsed: 2 })).toBe(22);
+    expect(standardScoring({ ...context, result: 'correct', questionTime: 60, difficulty: 'advanced' })).toBe(20);
+  });
+
+  it('部分正解は基本スコアの半分、不正解は0点', () => {
+    expect(standardScoring({ ...context, result: 'partial' })).toBe(5);
+    expect(standardScoring({ ...context, result: 'incorrect' })).toBe(0);
+  });
+});
+
+describe('quizReducer', () => {
+  it('開始すると最初の問題を出題する', () => {
+    const state = run([start]);
+
+    expect(state).toMatchObject({
+      status: 'playing',
+      currentChord: C,
+      questionNumber: 1,
+      isGameActive: true,
+      currentRound: 1,
+    });
+  });
+
+  it('回答を採点し、結果表示中の回答は無視する', () => {
+    const state = run([start, correct, incorrect]);
+
+    expect(state).toMatchObject({
+      status: 'answered',
+      score: 20,
+      streak: 1,
+      totalAnswers: 1,
+      correctAnswers: 1,
+      lastResult: 'correct',
+      userAnswer: 'C',
+    });
+  });
+
+  it('部分正解は連続正解を途切れさせる', () => {
+    const state = run([
+      start, correct, next(),
+      { type: 'SUBMIT_ANSWER', answer: 'Gm', result: 'partial' },
+    ]);
+
+    expect(state.streak).toBe(0);
+    expect(state.bestStreak).toBe(1);
+    expect(state.correctAnswers).toBe(1);
+  });
+
+  it('ヒントは1問あたりの上限まで数え、次の問題でリセットする', () => {
+    const hint: QuizAction = { type: 'USE_HINT' };
+    const state = run([start, hint, hint, hint, hint], config({ maxHints: 3 }));
+
+    expect(state.hintsUsed).toBe(3);
+    expect(quizReducer(state, skip())).toMatchObject({ hintsUsed: 0, totalHintsUsed: 3 });
+  });
+
+  it('経過時間は出題中のみ進み、一時停止中は進まない', () => {
+    const tick: QuizAction = { type: 'TICK' };
+    const state = run([start, tick, tick, { type: 'PAUSE_QUIZ' }, tick, { type: 'RESUME_QUIZ' }, tick, correct, tick]);
+
+    expect(state.timeElapsed).toBe(3);
+    expect(state.questionTime).toBe(3);
+    // 3秒で回答したので時間ボーナスは9点
+    expect(state.score).toBe(19);
+  });
+
+  it('一時停止中は回答を受け付けない', () => {
+    const state = run([start, { type: 'PAUSE_QUIZ' }, correct]);
+
+    expect(state.status).toBe('playing');
+    expect(state.totalAnswers).toBe(0);
+  });
+
+  it('回答前・一時停止中のNEXT_CHORDは無視する', () => {
+    const playing = run([start]);
+    const pausedAfterAnswer = run([start, correct, { type: 'PAUSE_QUIZ' }]);
+
+    expect(quizReducer(playing, next())).toBe(playing);
+    expect(quizReducer(pausedAfterAnswer, next())).toBe(pausedAfterAnswer);
+  });
+
+  it('スキップは出題中のみ受け付け、回答数に数えない', () => {
+    const skipped = run([start, skip()]);
+
+    expect(skipped).toMatchObject({ status: 'playing', currentChord: G, questionNumber: 2, totalAnswers: 0 });
+
+    const answered = run([start, correct]);
+    expect(quizReducer(answered, skip())).toBe(answered);
+  });
+
+  it('スキップできないゲームモードではスキップを無視する', () => {
+    const survival = config({ gameMode: 'survival' });
+    const playing = run([start], survival);
+
+    expect(quizReducer(playing, skip(), survival)).toBe(playing);
+  });
+
+  it('出題できるコードがなければ終了する', () => {
+    expect(run([start, correct, next(null)]).status).toBe('finished');
+  });
+
+  it('難易度を変えると出題中のコードを差し替える', () => {
+    const state = run([start, { type: 'CHANGE_DIFFICULTY', difficulty: 'advanced', chord: D }]);
+
+    expect(state).toMatchObject({ difficulty: 'advanced', currentChord: D, questionNumber: 1 });
+  });
+
+  it('リセットすると開始前に戻る', () => {
+    expect(run([start, correct, { type: 'RESET_QUIZ', difficulty: 'advanced' }])).toEqual(
+      createQuizEngineState('advanced')
+    );
+  });
+});
+
+describe('quizReducer - ゲームモード', () => {
+  it('サバイバルは3回目の不正解の結果を表示してから終了する', () => {
+    const survival = config({ gameMode: 'survival' });
+    const answered = run([start, incorrect, next(), incorrect, next(C), incorrect], survival);
+
+    expect(answered).toMatchObject({ status: 'answered', gameOver: 'lives' });
+    expect(quizReducer(answered, next(), survival)).toMatchObject({ status: 'finished', currentChord: C });
+  });
+
+  it('タイムアタックは制限時間になった時点で終了する', () => {
+    const ticks: QuizAction[] = Array.from({ length: 60 }, () => ({ type: 'TICK' }));
+    const state = run([start, ...ticks], config({ gameMode: 'time-attack' }));
+
+    expect(state).toMatchObject({ status: 'finished', gameOver: 'time', timeElapsed: 60 });
+  });
+
+  it('タイムアタックは1秒未満の回答でも回答にかかった時間を数える', () => {
+    const quickAnswer: QuizAction = { type: 'SUBMIT_ANSWER', answer: 'C', result: 'correct', elapsedMs: 400 };
+    const answers = Array.from({ length: 150 }, () => [quickAnswer, next(C)]).flat();
+    const state = run([start, ...answers], config({ gameMode: 'time-attack' }));
+
+    // 0.4秒×150問で60秒。150問目は制限時間を過ぎてからの回答なので採点しない
+    expect(state).toMatchObject({ status: 'finished', gameOver: 'time', timeElapsed: 60, totalAnswers: 149 });
+  });
+
+  it('スキップにかかった時間も経過時間に数える', () => {
+    const state = run([start, { type: 'SKIP_CHORD', chord: G, elapsedMs: 1500 }, { type: 'TICK', elapsedMs: 700 }]);
+
+    expect(state).toMatchObject({ timeElapsedMs: 2200, timeElapsed: 2, questionTimeMs: 700, questionTime: 0 });
+  });
+
+  it('設定の問題数はゲームモードより優先する', () => {
+    const state = run([start, correct, next(), incorrect, next()], config({ questionLimit: 2 }));
+
+    expect(state).toMatchObject({ status: 'finished', gameOver: 'questions', totalAnswers: 2 });
+  });
+});
+
+describe('replayQuiz', () => {
+  it('アクションの記録から同じ状態を再現する', () => {
+    const actions: QuizAction[] = [start, { type: 'USE_HINT' }, { type: 'TICK' }, correct, next(), incorrect, next(D)];
+    const stepwise = actions.reduce<QuizEngineState>(
+      (state, action) => quizReducer(state, action),
+      createQuizEngineState('beginner')
+    );
+
+    expect(replayQuiz(actions)).toEqual(stepwise);
+    expect(replayQuiz(actions)).toMatchObject({ currentChord: D, totalAnswers: 2, score: 17 });
+  });
+});
+
+describe('createRandomQuestionSource', () => {
+  it('直前のコードを避けて出題する', () => {
+    const source = createRandomQuestionSource([C, G], () => 0);
+    const state = { ...createQuizEngineState('beginner'), currentChord: C };
+
+    expect(source.next(state)).toBe(G);
+  });
+
+  it('候補がなければnull', () => {
+    expect(createRandomQuestionSource([]).next(createQuizEngineState('beginner'))).toBeNull();
+  });
+});
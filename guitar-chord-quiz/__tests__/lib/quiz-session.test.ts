@@ -0,0 +1,119 @@
+import { DEFAULT_QUIZ_ENGINE_CONFIG, QuizEngineState, createQuizEngineState, replayQuiz } from '@/lib/quiz-engine';
+import {
+  QuizSessionConfig,
+  createQuizSession,
+  getSessionProgress,
+  isResumableState,
+  isSessionCheckpoint,
+  restoreSessionState,
+} from '@/lib/quiz-session';
+import { ChordPattern, QuizAction } from '@/types';
+
+const C: ChordPattern = {
+  name: 'C',
+  frets: [null, 3, 2, 0, 1, 0],
+  fingers: [null, 3, 2, null, 1, null],
+  difficulty: 'beginner',
+  root: 'C',
+  quality: 'major',
+};
+
+const config: QuizSessionConfig = {
+  difficulty: 'beginner',
+  selectionMode: 'random',
+  quizMode: 'visual',
+  gameMode: 'fixed',
+  deckId: null,
+};
+
+const start: QuizAction = { type: 'START_QUIZ', difficulty: 'beginner', chord: C };
+const correct: QuizAction = { type: 'SUBMIT_ANSWER', answer: 'C', result: 'correct' };
+
+describe('isResumableState', () => {
+  it('出題中・結果表示中のゲームは再開できる', () => {
+    expect(isResumableState(replayQuiz([start]))).toBe(true);
+    expect(isResumableState(replayQuiz([start, correct]))).toBe(true);
+  });
+
+  it('開始前・終了したゲームは再開できない', () => {
+    expect(isResumableState(createQuizEngineState('beginner'))).toBe(false);
+    expect(isResumableState(replayQuiz([start, { type: 'END_QUIZ' }]))).toBe(false);
+  });
+
+  it('終了条件を満たしたゲームは再開できない', () => {
+    const suddenDeath = replayQuiz([start, { type: 'SUBMIT_ANSWER', answer: 'G', result: 'incorrect' }], {
+      ...DEFAULT_QUIZ_ENGINE_CONFIG,
+      gameMode: 'sudden-death',
+    });
+    expect(suddenDeath.gameOver).toBe('lives');
+    expect(isResumableState(suddenDeath)).toBe(false);
+  });
+});
+
+describe('isSessionCheckpoint', () => {
+  it('経過時間だけの変化は保存し直さない', () => {
+    const playing = replayQuiz([start]);
+
+    expect(isSessionCheckpoint(null, playing)).toBe(true);
+    expect(isSessionCheckpoint(playing, replayQuiz([start, { type: 'TICK' }, { type: 'TICK' }]))).toBe(false);
+  });
+
+  it('回答・ヒント・一時停止・新しいゲームは保存し直す', () => {
+    const playing = replayQuiz([start]);
+
+    expect(isSessionCheckpoint(playing, replayQuiz([start, correct]))).toBe(true);
+    expect(isSessionCheckpoint(playing, replayQuiz([start, { type: 'USE_HINT' }]))).toBe(true);
+    expect(isSessionCheckpoint(playing, replayQuiz([start, { type: 'PAUSE_QUIZ' }]))).toBe(true);
+    expect(isSessionCheckpoint(playing, replayQuiz([start, start]))).toBe(true);
+  });
+});
+
+describe('restoreSessionState', () => {
+  it('一時停止した状態で復元する', () => {
+    const state = replayQuiz([start, { type: 'TICK' }]);
+    const restored = restoreSessionState(createQuizSession(config, state));
+
+    expect(restored).toEqual({ ...state, isPaused: true });
+  });
+
+  it('JSONに保存しても同じ状態に戻る', () => {
+    const session = createQuizSession(config, replayQuiz([start, correct]), new Date('2026-01-01T00:00:00Z'));
+    const stored = JSON.parse(JSON.stringify(session));
+
+    expect(stored.savedAt).toBe('2026-01-01T00:00:00.000Z');
+    expect(restoreSessionState(stored)).toEqual(restoreSessionState(session));
+  });
+
+  it('ミリ秒の経過時間がない以前のセッションは秒から補う', () => {
+    const session = createQuizSession(config, replayQuiz([start, { type: 'TICK' }]));
+    const legacyState: Partial<QuizEngineState> = { ...session.state };
+    delete legacyState.timeElapsedMs;
+    delete legacyState.questionTimeMs;
+
+    expect(restoreSessionState({ ...session, state: legacyState as QuizEngineState })).toMatchObject({
+      timeElapsedMs: 1000,
+      questionTimeMs: 1000,
+    });
+  });
+});
+
+describe('getSessionProgress', () => {
+  it('ゲームモードの問題数と進行状況を返す', () => {
+    const session = createQuizSession(config, replayQuiz([start, { type: 'TICK' }, correct]));
+
+    expect(getSessionProgress(session)).toEqual({
+      questionNumber: 1,
+      questionLimit: 10,
+      totalAnswers: 1,
+      correctAnswers: 1,
+      score: 19,
+      timeElapsed: 1,
+    });
+  });
+
+  it('問題数の制限がないモードはnull', () => {
+    const session = createQuizSession({ ...config, gameMode: 'endless' }, replayQuiz([start]));
+
+    expect(getSessionProgress(session).questionLimit).toBeNull();
+  });
+});
@@ -0,0 +1,121 @@
+import {
+  createReviewItem,
+  scheduleReview,
+  getReviewQuality,
+  getDueItems,
+  countDueToday,
+  getChordKey,
+  getChordKeyTuning,
+  selectNextReviewChord,
+  SM2_CONSTANTS,
+  ReviewSchedule,
+} from '@/lib/spaced-repetition';
+
+const NOW = new Date('2025-01-10T12:00:00');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('spaced-repetition', () => {
+  it('should grow the interval with consecutive correct answers', () => {
+    let item = createReviewItem('C', NOW);
+
+    item = scheduleReview(item, 5, NOW);
+    expect(item.interval).toBe(SM2_CONSTANTS.FIRST_INTERVAL);
+
+    item = scheduleReview(item, 5, NOW);
+    expect(item.interval).toBe(SM2_CONSTANTS.SECOND_INTERVAL);
+
+    item = scheduleReview(item, 5, NOW);
+    expect(item.repetitions).toBe(3);
+    expect(item.interval).toBeGreaterThan(SM2_CONSTANTS.SECOND_INTERVAL);
+    expect(new Date(item.dueDate).getTime()).toBe(NOW.getTime() + item.interval * DAY_MS);
+  });
+
+  it('should reset progress and lower ease on a miss', () => {
+    let item = createReviewItem('F', NOW);
+    item = scheduleReview(item, 4, NOW);
+    item = scheduleReview(item, 4, NOW);
+
+    const missed = scheduleReview(item, 1, NOW);
+    expect(missed.repetitions).toBe(0);
+    expect(missed.interval).toBe(0);
+    expect(missed.lapses).toBe(1);
+    expect(missed.easeFactor).toBeLessThan(item.easeFactor);
+    expect(missed.dueDate).toBe(NOW.toISOString());
+  });
+
+  it('should never drop ease below the minimum', () => {
+    let item = createReviewItem('Bm', NOW);
+    for (let i = 0; i < 10; i++) {
+      item = scheduleReview(item, 0, NOW);
+    }
+    expect(item.easeFactor).toBe(SM2_CONSTANTS.MIN_EASE);
+  });
+
+  it('should derive quality from correctness, speed and hints', () => {
+    expect(getReviewQuality(false, 3)).toBe(1);
+    expect(getReviewQuality(false, 3, 1)).toBe(0);
+    expect(getReviewQuality(true, 3)).toBe(5);
+    expect(getReviewQuality(true, 10)).toBe(4);
+    expect(getReviewQuality(true, 30)).toBe(3);
+    expect(getReviewQuality(true, 3, 2)).toBe(3);
+  });
+
+  it('should list due items most overdue first and count today\'s reviews', () => {
+    const schedule: ReviewSchedule = {
+      C: { ...createReviewItem('C'), dueDate: new Date(NOW.getTime() - DAY_MS).toISOString() },
+      G: { ...createReviewItem('G'), dueDate: new Date(NOW.getTime() - 2 * DAY_MS).toISOString() },
+      D: { ...createReviewItem('D'), dueDate: new Date(NOW.getTime() + 60 * 60 * 1000).toISOString() },
+      A: { ...createReviewItem('A'), dueDate: new Date(NOW.getTime() + 3 * DAY_MS).toISOString() },
+    };
+
+    expect(getDueItems(schedule, NOW).map(item => item.chordKey)).toEqual(['G', 'C']);
+    expect(countDueToday(schedule, NOW)).toBe(3);
+  });
+
+  it('should key chords by tuning', () => {
+    expect(getChordKey({ name: 'D' })).toBe('D');
+    expect(getChordKey({ name: 'D', tuning: 'standard' })).toBe('D');
+    expect(getChordKey({ name: 'D', tuning: 'dropD' })).toBe('D@dropD');
+    expect(getChordKeyTuning('D')).toBe('standard');
+    expect(getChordKeyTuning('D@dropD')).toBe('dropD');
+  });
+
+  it('should count today\'s reviews for one tuning', () => {
+    const due = new Date(NOW.getTime() - DAY_MS).toISOString();
+    const schedule: ReviewSchedule = {
+      D: { ...createReviewItem('D'), dueDate: due },
+      'D@dropD': { ...createReviewItem('D@dropD'), dueDate: due },
+      'G@dropD': { ...createReviewItem('G@dropD'), dueDate: due },
+    };
+
+    expect(countDueToday(schedule, NOW)).toBe(3);
+    expect(countDueToday(schedule, NOW, 'standard')).toBe(1);
+    expect(countDueToday(schedule, NOW, 'dropD')).toBe(2);
+  });
+
+  describe('selectNextReviewChord', () => {
+    const candidates = [{ name: 'C' }, { name: 'G' }, { name: 'Am' }];
+
+    it('should serve due chords before unseen ones', () => {
+      const schedule: ReviewSchedule = {
+        G: createReviewItem('G', NOW),
+      };
+      expect(selectNextReviewChord(schedule, candidates, NOW)?.name).toBe('G');
+    });
+
+    it('should fall back to unseen chords and skip the excluded one', () => {
+      const schedule: ReviewSchedule = {
+        G: createReviewItem('G', NOW),
+        C: scheduleReview(createReviewItem('C', NOW), 5, NOW),
+      };
+      expect(selectNextReviewChord(schedule, candidates, NOW, 'G')?.name).toBe('Am');
+    });
+
+    it('should return null when nothing is due or new', () => {
+      const schedule: ReviewSchedule = Object.fromEntries(
+        candidates.map(chord => [chord.name, scheduleReview(createReviewItem(chord.name, NOW), 5, NOW)])
+      );
+      expect(selectNextReviewChord(schedule, candidates, NOW)).toBeNull();
+    });
+  });
+});
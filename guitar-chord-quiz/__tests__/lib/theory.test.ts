@@ -0,0 +1,135 @@
+import {
+  analyzeChord,
+  identifyChord,
+  gradeVoicing,
+  getIntervals,
+  getPitchClasses,
+  toSharpNoteName,
+  formatChordName,
+} from '@/lib/theory';
+import { CHORD_PATTERNS } from '@/data/chord-patterns';
+import { getTuning } from '@/data/tuning-presets';
+import { isValidChordPattern } from '@/lib/fretboard';
+
+/**
+ * 宣言されたコード名をシャープ表記に正規化（例: "Bb" → "A#"）
+ */
+const normalizeDeclaredName = (name: string): string => {
+  const match = name.match(/^([A-G][#b]?)(.*)$/);
+  if (!match) return name;
+
+  const [, root, rest] = match;
+  const slashIndex = rest.indexOf('/');
+  if (slashIndex === -1) return `${toSharpNoteName(root)}${rest}`;
+
+  const suffix = rest.slice(0, slashIndex);
+  const bass = rest.slice(slashIndex + 1);
+  return formatChordName(toSharpNoteName(root) ?? root, suffix, toSharpNoteName(bass));
+};
+
+describe('theory', () => {
+  it('should derive sounding pitch classes from frets', () => {
+    expect(getPitchClasses([null, 3, 2, 0, 1, 0])).toEqual(['C', 'E', 'G']);
+    expect(getPitchClasses([3, 2, 0, 0, 3, 3])).toEqual(['G', 'B', 'D']);
+  });
+
+  it('should name intervals relative to a root', () => {
+    expect(getIntervals(['A', 'C', 'E', 'G'], 'A')).toEqual(['1', 'b3', '5', 'b7']);
+    expect(getIntervals(['C', 'D', 'E', 'G'], 'C')).toEqual(['1', '9', '3', '5']);
+  });
+
+  it('should normalise flat spellings', () => {
+    expect(toSharpNoteName('Bb')).toBe('A#');
+    expect(toSharpNoteName('f#')).toBe('F#');
+    expect(toSharpNoteName('H')).toBeNull();
+  });
+
+  it('should detect slash chords and inversions', () => {
+    const cOverE = identifyChord([0, 3, 2, 0, 1, 0]);
+    expect(cOverE?.name).toBe('C/E');
+    expect(cOverE?.inversion).toBe('first');
+
+    const analysis = analyzeChord([0, 3, 2, 0, 3, 0]);
+    expect(analysis.bass).toBe('E');
+    expect(analysis.candidates[0].name).toBe('Cadd9/E');
+    expect(analysis.candidates[0].inversion).toBe('first');
+  });
+
+  it('should rank root-position readings above inversions', () => {
+    const candidates = analyzeChord([null, 0, 2, 0, 1, 0]).candidates.map(c => c.name);
+    expect(candidates[0]).toBe('Am7');
+    expect(candidates).toContain('C6/A');
+  });
+
+  it('should return no candidates when nothing sounds', () => {
+    expect(analyzeChord([null, null, null, null, null, null]).candidates).toEqual([]);
+    expect(identifyChord([null, null, null, null, null, null])).toBeNull();
+  });
+
+  it('should respect alternate tunings', () => {
+    expect(identifyChord([0, 0, 0, 0, 0, 0], getTuning('openG'))?.name).toBe('G/D');
+    expect(identifyChord([0, 0, 0, 2, 3, 2], getTuning('dropD'))?.name).toBe('D');
+  });
+
+  describe('gradeVoicing', () => {
+    const cMajor = { name: 'C', frets: [null, 3, 2, 0, 1, 0] };
+
+    it('should accept any voicing with the right pitch classes', () => {
+      expect(gradeVoicing(cMajor, [null, 3, 5, 5, 5, 3]).isCorrect).toBe(true);
+      expect(gradeVoicing(cMajor, [8, 10, 10, 9, 8, 8]).isCorrect).toBe(true);
+    });
+
+    it('should allow the fifth to be omitted', () => {
+      const grade = gradeVoicing(cMajor, [null, 3, 2, null, 1, null]);
+
+      expect(grade.isCorrect).toBe(true);
+      expect(grade.omittedNotes).toEqual(['G']);
+    });
+
+    it('should report missing and wrong notes', () => {
+      const missingThird = gradeVoicing(cMajor, [null, 3, 5, 5, null, null]);
+      expect(missingThird.isCorrect).toBe(false);
+      expect(missingThird.missingNotes).toEqual(['E']);
+
+      const wrongNote = gradeVoicing(cMajor, [null, 3, 2, 0, 1, 1]);
+      expect(wrongNote.isCorrect).toBe(false);
+      expect(wrongNote.wrongNotes).toEqual(['F']);
+    });
+
+    it('should report strings that change the bass note', () => {
+      const soundingLowE = gradeVoicing(cMajor, [0, 3, 2, 0, 1, 0]);
+      expect(soundingLowE.isCorrect).toBe(false);
+      expect(soundingLowE.wrongNotes).toEqual([]);
+      expect(soundingLowE.stringErrors).toEqual([{ stringNumber: 6, expected: 'muted', actual: 'open' }]);
+
+      const mutedBass = gradeVoicing(cMajor, [null, null, 2, 0, 1, 0]);
+      expect(mutedBass.stringErrors).toEqual([{ stringNumber: 5, expected: 'fretted', actual: 'muted' }]);
+    });
+
+    it('should require the root', () => {
+      const grade = gradeVoicing(cMajor, [null, null, 2, 0, null, 0]);
+
+      expect(grade.hasRoot).toBe(false);
+      expect(grade.isCorrect).toBe(false);
+    });
+  });
+
+  describe('CHORD_PATTERNS', () => {
+    it.each(CHORD_PATTERNS.map(chord => [`${chord.name} (${chord.tuning ?? 'standard'})`, chord] as const))(
+      '%s should produce its declared name, root and quality',
+      (_, chord) => {
+        const best = identifyChord(chord.frets, getTuning(chord.tuning));
+
+        expect(best).not.toBeNull();
+        expect(best?.name).toBe(normalizeDeclaredName(chord.name));
+        expect(best?.root).toBe(chord.root);
+        expect(best?.quality).toBe(chord.quality);
+      }
+    );
+
+    it('should declare valid fingerings and barres', () => {
+      const invalid = CHORD_PATTERNS.filter(chord => !isValidChordPattern(chord));
+      expect(invalid.map(chord => chord.name)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import {
+  applyCapo,
+  isMovableShape,
+  transposeChordName,
+  transposeChordPattern,
+  transposeChordTo,
+} from '@/lib/transposition';
+import { getChordByName } from '@/data/chord-patterns';
+import { getTuning } from '@/data/tuning-presets';
+import { getPitchClasses } from '@/lib/theory';
+
+const chord = (name: string) => getChordByName(name)!;
+
+describe('transposeChordName', () => {
+  it('移調後のコードを主音とする調に合わせて♯/♭を表記する', () => {
+    expect(transposeChordName(chord('C'), 2)).toBe('D');
+    expect(transposeChordName(chord('A'), 1)).toBe('Bb');
+    expect(transposeChordName(chord('Am'), 1)).toBe('Bbm');
+    expect(transposeChordName(chord('Em'), 9)).toBe('C#m');
+    expect(transposeChordName(chord('E'), 2)).toBe('F#');
+  });
+
+  it('調を指定するとその調の表記に合わせる', () => {
+    expect(transposeChordName(chord('E'), 6, { tonic: 'B', mode: 'major' })).toBe('A#');
+    expect(transposeChordName(chord('E'), 6, { tonic: 'F', mode: 'major' })).toBe('Bb');
+  });
+
+  it('スラッシュコードのベース音も移調する', () => {
+    expect(transposeChordName(chord('Cadd9/E'), 3)).toBe('Ebadd9/G');
+  });
+
+  it('下方向にも移調できる', () => {
+    expect(transposeChordName(chord('C7'), -2)).toBe('Bb7');
+  });
+});
+
+describe('isMovableShape', () => {
+  it('開放弦を含まない形はナットを越えない範囲で移動できる', () => {
+    expect(isMovableShape(chord('Bm'), 3)).toBe(true);
+    expect(isMovableShape(chord('Bm'), -1)).toBe(true);
+    expect(isMovableShape(chord('Bm'), -2)).toBe(false);
+  });
+
+  it('開放弦を含む形は高音側にのみ移動できる', () => {
+    expect(isMovableShape(chord('E'), 1)).toBe(true);
+    expect(isMovableShape(chord('E'), -1)).toBe(false);
+  });
+});
+
+describe('transposeChordPattern', () => {
+  it('開放弦をバレーに置き換えて平行移動する', () => {
+    const f = transposeChordPattern(chord('E'), 1);
+
+    expect(f).toMatchObject({
+      name: 'F',
+      root: 'F',
+      frets: [1, 3, 3, 2, 1, 1],
+      fingers: [1, 3, 4, 2, 1, 1],
+      barres: [{ fret: 1, fromString: 6, toString: 1, finger: 1 }],
+    });
+  });
+
+  it('調を指定するとコード名の表記を合わせる', () => {
+    expect(transposeChordPattern(chord('Am'), 1)?.name).toBe('Bbm');
+    expect(transposeChordPattern(chord('Am'), 1, { tonic: 'F#', mode: 'major' })?.name).toBe('A#m');
+  });
+
+  it('指が足りない形・スラッシュコードは移動できない', () => {
+    // G は4本の指を使う
+    expect(transposeChordPattern(chord('G'), 2)).toBeNull();
+    expect(transposeChordPattern(chord('Cadd9/E'), 2)).toBeNull();
+  });
+});
+
+describe('transposeChordTo', () => {
+  it('低いフレットで押さえられる方向へ移動する', () => {
+    const bbm = transposeChordTo(chord('Bm'), 'A#');
+
+    expect(bbm?.name).toBe('Bbm');
+    expect(bbm?.frets).toEqual([null, 1, 3, 3, 2, 1]);
+    expect(bbm?.barres).toEqual([{ fret: 1, fromString: 5, toString: 1, finger: 1 }]);
+  });
+
+  it('移動後の構成音がコードと一致する', () => {
+    const tuning = getTuning('standard');
+    const gm7 = transposeChordTo(chord('Am7'), 'G');
+
+    expect(gm7?.name).toBe('Gm7');
+    expect([...getPitchClasses(gm7!.frets, tuning)].sort()).toEqual(['A#', 'D', 'F', 'G']);
+  });
+});
+
+describe('applyCapo', () => {
+  it('カポからの相対フレットを指板上のフレットに変換し、実音のコード名にする', () => {
+    expect(applyCapo(chord('C'), 2)).toMatchObject({
+      name: 'D',
+      root: 'D',
+      frets: [null, 5, 4, 2, 3, 2],
+      fingers: chord('C').fingers,
+    });
+  });
+
+  it('実音の構成音がコード名と一致する', () => {
+    const tuning = getTuning('standard');
+    const capoed = applyCapo(chord('Em'), 3);
+
+    expect(capoed.name).toBe('Gm');
+    expect([...getPitchClasses(capoed.frets, tuning)].sort()).toEqual(['A#', 'D', 'G']);
+  });
+
+  it('バレーもカポの分だけずらす', () => {
+    expect(applyCapo(chord('F'), 2).barres?.[0].fret).toBe(3);
+  });
+
+  it('カポなしでは元のコードを返し、範囲外の位置はエラーにする', () => {
+    expect(applyCapo(chord('C'), 0)).toBe(chord('C'));
+    expect(() => applyCapo(chord('C'), 13)).toThrow('Invalid capo position');
+    expect(() => applyCapo(chord('C'), -1)).toThrow('Invalid capo position');
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * コード詳細ページ
+ *
+ * @description 1つのコードの押さえ方・構成音・他のボイシングを表示
+ * @author Claude Code
+ */
+
+import React from 'react';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { CHORD_PATTERNS, getChordBySlug, getChordSlug } from '../../../data/chord-patterns';
+import { ChordDetail } from '../../../components/chords/ChordDetail';
+
+/**
+ * 静的エクスポート用に全コードのページを生成
+ */
+export function generateStaticParams() {
+  return CHORD_PATTERNS.map(chord => ({ slug: getChordSlug(chord) }));
+}
+
+/**
+ * コード詳細ページコンポーネント
+ */
+export default async function ChordDetailPage({
+  params,
+}: {
+  params: Promise<{ slug: string }>;
+}) {
+  const { slug } = await params;
+  const chord = getChordBySlug(decodeURIComponent(slug));
+
+  if (!chord) notFound();
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      <Link
+        href="/chords/"
+        className="inline-flex items-center space-x-2 text-blue-500 hover:text-blue-600 mb-6
+                 dark:text-blue-400 dark:hover:text-blue-300 transition-colors duration-150
+                 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 rounded-lg px-2 py-1"
+      >
+        <span aria-hidden="true">←</span>
+        <span>コード一覧に戻る</span>
+      </Link>
+
+      <ChordDetail chord={chord} />
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import type { Metadata } from 'next';
+import Link from 'next/link';
 import { Inter } from 'next/font/google';
 import './globals.css';
 
@@ -60,6 +61,62 @@ export default function RootLayout({
                     >
                       🏠 ホーム
                     </a>
+                    <Link
+                      href="/chords"
+                      className="text-gray-600 hover:text-gray-900 dark:text-gray-300 dark:hover:text-white transition-colors duration-150
+                               focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 rounded-lg px-2 py-1"
+                    >
+                      📚 コード一覧
+                    </Link>
+                    <Link
+                      href="/custom"
+                      className="text-gray-600 hover:text-gray-900 dark:text-gray-300 dark:hover:text-white transition-colors duration-150
+                               focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 rounded-lg px-2 py-1"
+                    >
+                      🗂️ マイデッキ
+                    </Link>
+                    <Link
+                      href="/trainer"
+                      className="text-gray-600 hover:text-gray-900 dark:text-gray-300 dark:hover:text-white transition-colors duration-150
+                               focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 rounded-lg px-2 py-1"
+                    >
+                      ⏱️ チェンジ練習
+                    </Link>
+                    <Link
+                      href="/tuner"
+                      className="text-gray-600 hover:text-gray-900 dark:text-gray-300 dark:hover:text-white transition-colors duration-150
+                               focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 rounded-lg px-2 py-1"
+                    >
+                      🎚️ チューナー
+                    </Link>
+                    <Link
+                      href="/scales"
+                      className="text-gray-600 hover:text-gray-900 dark:text-gray-300 dark:hover:text-white transition-colors duration-150
+                               focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 rounded-lg px-2 py-1"
+                    >
+                      🎼 スケール
+                    </Link>
+                    <Link
+                      href="/notes"
+                      className="text-gray-600 hover:text-gray-900 dark:text-gray-300 dark:hover:text-white transition-colors duration-150
+                               focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 rounded-lg px-2 py-1"
+                    >
+                      🎯 音名
+                    </Link>
+                    <Link
+                      href="/intervals"
+                      className="text-gray-600 hover:text-gray-900 dark:text-gray-300 dark:hover:text-white transition-colors duration-150
+                               focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 rounded-lg px-2 py-1"
+                    >
+                      🎵 音程
+                    </Link>
+                    <Link
+                      href="/progressions"
+                      className="text-gray-600 hover:text-gray-900 dark:text-gray-300 dark:hover:text-white transition-colors duration-150
+                               focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 rounded-lg px-2 py-1"
+                    >
+                      🎶 進行
+                    </Link>
                     <a
                       href="/settings"
                       className="text-gray-600 hover:text-gray-900 dark:text-gray-300 dark:hover:text-white transition-colors duration-150
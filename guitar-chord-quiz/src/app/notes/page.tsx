@@ -0,0 +1,46 @@
+'use client';
+
+/**
+ * 音名トレーニングページ
+ *
+ * @description 指板上の音名を覚えるトレーニング
+ * @author Claude Code
+ */
+
+import React from 'react';
+import Link from 'next/link';
+import { NoteTrainer } from '../../components/trainer/NoteTrainer';
+
+/**
+ * 音名トレーニングページコンポーネント
+ */
+export default function NotesPage() {
+  return (
+    <div className="max-w-6xl mx-auto">
+      {/* ページヘッダー */}
+      <div className="mb-8">
+        <Link
+          href="/"
+          className="inline-flex items-center space-x-2 text-blue-500 hover:text-blue-600 mb-4
+                   dark:text-blue-400 dark:hover:text-blue-300 transition-colors duration-150
+                   focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 rounded-lg px-2 py-1"
+          aria-label="ホームページに戻る"
+        >
+          <span aria-hidden="true">←</span>
+          <span>ホームに戻る</span>
+        </Link>
+
+        <div className="border-b border-gray-200 dark:border-gray-700 pb-4">
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">
+            🎯 音名トレーニング
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400">
+            指板上のどこに何の音があるかを、弦とフレットを絞って覚えましょう
+          </p>
+        </div>
+      </div>
+
+      <NoteTrainer />
+    </div>
+  );
+}
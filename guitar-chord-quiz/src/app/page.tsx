@@ -1,10 +1,26 @@
 'use client';
 
-import { useState } from 'react';
+import { useCallback, useMemo, useState } from 'react';
+import Link from 'next/link';
 import { QuizGame } from '@/components/quiz/QuizGame';
-import { ChordDifficulty } from '@/types';
+import { ReverseQuizGame } from '@/components/quiz/ReverseQuizGame';
+import { ChordDifficulty, ChordSelectionMode, GameMode, QuizMode } from '@/types';
 import { Button, AudioControls } from '@/components/ui';
 import { useAudio } from '@/hooks/useAudio';
+import { useChordDecks, useGameSettings, useQuizSession, useReviewSchedule } from '@/hooks/useLocalStorage';
+import { GAME_MODES, GAME_MODE_ORDER } from '@/lib/game-modes';
+import { QuizEngineState } from '@/lib/quiz-engine';
+import { getSessionProgress, restoreSessionState } from '@/lib/quiz-session';
+import { formatTime } from '@/lib/utils';
+
+/**
+ * 難易度の表示名
+ */
+const DIFFICULTY_LABELS: Record<ChordDifficulty, string> = {
+  beginner: '初級',
+  intermediate: '中級',
+  advanced: '上級',
+};
 
 /**
  * ホームページコンポーネント
@@ -12,20 +28,102 @@ import { useAudio } from '@/hooks/useAudio';
  */
 export default function HomePage() {
   const [selectedDifficulty, setSelectedDifficulty] = useState<ChordDifficulty | null>(null);
+  const [selectionMode, setSelectionMode] = useState<ChordSelectionMode>('random');
+  const [quizMode, setQuizMode] = useState<QuizMode>('visual');
+  // ゲームモード（コード名を答えるクイズの終了条件）
+  const [gameMode, setGameMode] = useState<GameMode>('endless');
   const [showGame, setShowGame] = useState(false);
+  // 出題対象のデッキ（nullなら難易度に応じた組み込みコード）
+  const [selectedDeckId, setSelectedDeckId] = useState<string | null>(null);
+  // 途中から再開する状態（新しく始める場合はnull）
+  const [resumeState, setResumeState] = useState<QuizEngineState | null>(null);
   
   // 音声制御フック
   const audio = useAudio();
   
-  const handleStartGame = (difficulty: ChordDifficulty) => {
+  // 復習スケジュール（現在のチューニングの今日の復習対象数）
+  const { settings } = useGameSettings();
+  const { dueToday } = useReviewSchedule(settings.tuning);
+  
+  // コードデッキ
+  const { decks, getDeckChords } = useChordDecks();
+  const chordPool = useMemo(
+    () => (selectedDeckId ? getDeckChords(selectedDeckId) : undefined),
+    [selectedDeckId, getDeckChords]
+  );
+  
+  // 途中のゲーム（リロード・タブを閉じても続きから遊べる）
+  const { session, saveSession, clearSession } = useQuizSession();
+  const sessionProgress = session && getSessionProgress(session);
+  
+  // 進行中のゲームを保存（逆引きクイズは保存しない）
+  const handleQuizStateChange = useCallback((state: QuizEngineState) => {
+    if (!selectedDifficulty || quizMode === 'reverse') return;
+    saveSession(
+      { difficulty: selectedDifficulty, selectionMode, quizMode, gameMode, deckId: selectedDeckId },
+      state
+    );
+  }, [saveSession, selectedDifficulty, selectionMode, quizMode, gameMode, selectedDeckId]);
+  
+  const handleStartGame = (difficulty: ChordDifficulty, mode: QuizMode = 'visual') => {
+    setResumeState(null);
     setSelectedDifficulty(difficulty);
+    setSelectionMode('random');
+    setQuizMode(mode);
+    setSelectedDeckId(null);
     setShowGame(true);
     audio.playClick(); // ボタンクリック音
   };
   
+  // デッキで開始（スコア計算にはデフォルト難易度を使用）
+  const handleStartDeck = (deckId: string, mode: QuizMode) => {
+    setResumeState(null);
+    setSelectedDifficulty(settings.difficulty);
+    setSelectionMode('random');
+    setQuizMode(mode);
+    setSelectedDeckId(deckId);
+    setShowGame(true);
+    audio.playClick();
+  };
+  
+  // 復習モード開始（スコア計算にはデフォルト難易度を使用）
+  const handleStartReview = () => {
+    setResumeState(null);
+    setSelectedDifficulty(settings.difficulty);
+    setSelectionMode('review');
+    setQuizMode('visual');
+    setSelectedDeckId(null);
+    setShowGame(true);
+    audio.playClick();
+  };
+  
+  // 保存されたゲームを再開（一時停止した状態から）
+  const handleResumeSession = () => {
+    if (!session) return;
+    const { config } = session;
+    setSelectedDifficulty(config.difficulty);
+    setSelectionMode(config.selectionMode);
+    setQuizMode(config.quizMode);
+    setGameMode(config.gameMode);
+    setSelectedDeckId(config.deckId);
+    setResumeState(restoreSessionState(session));
+    setShowGame(true);
+    audio.playClick();
+  };
+  
   const handleGameEnd = () => {
     setShowGame(false);
+    setResumeState(null);
     setSelectedDifficulty(null);
+    setSelectionMode('random');
+    setQuizMode('visual');
+    setSelectedDeckId(null);
+  };
+  
+  // クイズ画面の「ゲーム終了」で終えたゲームは再開しない（メニューに戻るだけなら保存したまま）
+  const handleQuizEnd = () => {
+    clearSession();
+    handleGameEnd();
   };
   
   // ゲーム画面
@@ -42,11 +140,25 @@ export default function HomePage() {
             メニューに戻る
           </button>
         </div>
-        <QuizGame 
-          difficulty={selectedDifficulty}
-          onGameEnd={handleGameEnd}
-          audioHook={audio}
-        />
+        {quizMode === 'reverse' ? (
+          <ReverseQuizGame
+            difficulty={selectedDifficulty}
+            chordPool={chordPool}
+            onGameEnd={handleGameEnd}
+          />
+        ) : (
+          <QuizGame 
+            difficulty={selectedDifficulty}
+            selectionMode={selectionMode}
+            quizMode={quizMode}
+            chordPool={chordPool}
+            gameMode={gameMode}
+            savedState={resumeState ?? undefined}
+            onStateChange={handleQuizStateChange}
+            onGameEnd={handleQuizEnd}
+            audioHook={audio}
+          />
+        )}
       </div>
     );
   }
@@ -75,6 +187,10 @@ export default function HomePage() {
             onToggle={audio.toggleAudio}
             onVolumeChange={audio.changeVolume}
             onEffectsVolumeChange={audio.changeEffectsVolume}
+            instrument={audio.instrument}
+            onInstrumentChange={audio.changeInstrument}
+            playbackSettings={audio.playbackSettings}
+            onPlaybackSettingsChange={audio.changePlaybackSettings}
             onEnable={audio.enableAudio}
             className="bg-white rounded-xl shadow-lg p-4"
           />
@@ -88,6 +204,86 @@ export default function HomePage() {
         </p>
       </div>
       
+      {/* 途中のゲームの再開 */}
+      {session && sessionProgress && (
+        <div className="mb-16">
+          <div className="bg-white rounded-2xl shadow-xl p-8 flex flex-col md:flex-row items-center gap-8 border-2 border-green-200">
+            <div className="text-6xl" aria-hidden="true">⏯️</div>
+            <div className="flex-1 text-center md:text-left">
+              <h2 className="text-2xl font-bold text-gray-900 mb-2">前回のゲームの続き</h2>
+              <p className="text-gray-600">
+                {GAME_MODES[session.config.gameMode].icon} {GAME_MODES[session.config.gameMode].label}・
+                {DIFFICULTY_LABELS[session.config.difficulty]}
+                {session.config.quizMode === 'ear' && '・聴音'}
+                {session.config.selectionMode === 'review' && '・復習'}
+                {session.config.deckId && '・デッキ'}
+              </p>
+              <p className="text-sm text-gray-500 mt-1">
+                {sessionProgress.questionLimit !== null
+                  ? `${sessionProgress.questionNumber} / ${sessionProgress.questionLimit} 問目`
+                  : `${sessionProgress.questionNumber}問目`}
+                ・正解 {sessionProgress.correctAnswers} / {sessionProgress.totalAnswers}
+                ・{sessionProgress.score.toLocaleString()}点
+                ・経過時間 {formatTime(sessionProgress.timeElapsed)}
+              </p>
+              <p className="text-xs text-gray-400 mt-1">
+                {new Date(session.savedAt).toLocaleString('ja-JP')}に中断・新しくゲームを始めると破棄されます
+              </p>
+            </div>
+            <div className="flex flex-col gap-2">
+              <Button
+                onClick={handleResumeSession}
+                className="px-8 py-3 bg-green-500 text-white font-bold rounded-xl
+                         hover:bg-green-600 transform hover:scale-105 transition-all duration-200
+                         focus:outline-none focus:ring-4 focus:ring-green-300"
+              >
+                ▶ ゲームを再開
+              </Button>
+              <button
+                onClick={clearSession}
+                className="text-sm text-gray-500 hover:text-gray-700 underline"
+              >
+                破棄する
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+      
+      {/* ゲームモード選択セクション */}
+      <div className="mb-16">
+        <div className="text-center mb-8">
+          <h2 className="text-3xl font-bold text-gray-900 mb-4">ゲームモード</h2>
+          <p className="text-lg text-gray-600">
+            コード名を答えるクイズの遊び方を選びましょう
+          </p>
+        </div>
+        <div
+          className="grid grid-cols-2 md:grid-cols-5 gap-4"
+          role="radiogroup"
+          aria-label="ゲームモード"
+        >
+          {GAME_MODE_ORDER.map(mode => (
+            <button
+              key={mode}
+              role="radio"
+              aria-checked={gameMode === mode}
+              onClick={() => setGameMode(mode)}
+              className={`rounded-xl p-4 text-center border-2 transition-all duration-200
+                       focus:outline-none focus:ring-4 focus:ring-blue-300 ${
+                gameMode === mode
+                  ? 'bg-blue-50 border-blue-500 shadow-lg'
+                  : 'bg-white border-transparent shadow hover:border-blue-200'
+              }`}
+            >
+              <div className="text-3xl mb-2" aria-hidden="true">{GAME_MODES[mode].icon}</div>
+              <div className="font-bold text-gray-900">{GAME_MODES[mode].label}</div>
+              <div className="text-xs text-gray-500 mt-1">{GAME_MODES[mode].description}</div>
+            </button>
+          ))}
+        </div>
+      </div>
+      
       {/* 難易度選択セクション */}
       <div className="mb-20">
         <div className="text-center mb-12">
@@ -202,6 +398,146 @@ export default function HomePage() {
         </div>
       </div>
       
+      {/* 復習セクション */}
+      <div className="mb-20">
+        <div className="bg-white rounded-2xl shadow-xl p-8 flex flex-col md:flex-row items-center gap-8 border-2 border-transparent hover:border-purple-200 transition-all duration-300">
+          <div className="text-6xl">🔁</div>
+          <div className="flex-1 text-center md:text-left">
+            <h2 className="text-2xl font-bold text-gray-900 mb-2">復習モード</h2>
+            <p className="text-gray-600 leading-relaxed">
+              間違えたコードほど早く、覚えたコードほど間隔をあけて出題します。
+              復習期限の来たコードから優先して練習しましょう。
+            </p>
+          </div>
+          <div className="text-center">
+            <div className="text-4xl font-bold text-purple-600" aria-live="polite">
+              {dueToday}
+            </div>
+            <div className="text-sm text-gray-500 mb-4">今日の復習</div>
+            <Button
+              onClick={handleStartReview}
+              className="px-8 py-3 bg-purple-500 text-white font-bold rounded-xl
+                       hover:bg-purple-600 transform hover:scale-105 transition-all duration-200
+                       focus:outline-none focus:ring-4 focus:ring-purple-300"
+            >
+              復習を始める
+            </Button>
+          </div>
+        </div>
+      </div>
+      
+      {/* 聴音モードセクション */}
+      <div className="mb-20">
+        <div className="bg-white rounded-2xl shadow-xl p-8 flex flex-col md:flex-row items-center gap-8 border-2 border-transparent hover:border-blue-200 transition-all duration-300">
+          <div className="text-6xl">👂</div>
+          <div className="flex-1 text-center md:text-left">
+            <h2 className="text-2xl font-bold text-gray-900 mb-2">聴音モード</h2>
+            <p className="text-gray-600 leading-relaxed">
+              指板を見ずに音だけでコードを当てるモードです。
+              ストラムの速さを変えたり、アルペジオで聞き直したりできます。
+            </p>
+          </div>
+          <div className="flex flex-col sm:flex-row gap-3">
+            {([
+              { difficulty: 'beginner', label: '初級', color: 'bg-green-500 hover:bg-green-600 focus:ring-green-300' },
+              { difficulty: 'intermediate', label: '中級', color: 'bg-orange-500 hover:bg-orange-600 focus:ring-orange-300' },
+              { difficulty: 'advanced', label: '上級', color: 'bg-red-500 hover:bg-red-600 focus:ring-red-300' },
+            ] as const).map(({ difficulty, label, color }) => (
+              <Button
+                key={difficulty}
+                onClick={() => handleStartGame(difficulty, 'ear')}
+                className={`px-6 py-3 text-white font-bold rounded-xl transition-all duration-200
+                         focus:outline-none focus:ring-4 ${color}`}
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </div>
+      
+      {/* 逆引きクイズセクション */}
+      <div className="mb-20">
+        <div className="bg-white rounded-2xl shadow-xl p-8 flex flex-col md:flex-row items-center gap-8 border-2 border-transparent hover:border-blue-200 transition-all duration-300">
+          <div className="text-6xl">✋</div>
+          <div className="flex-1 text-center md:text-left">
+            <h2 className="text-2xl font-bold text-gray-900 mb-2">逆引きクイズ</h2>
+            <p className="text-gray-600 leading-relaxed">
+              コード名を見て、指板上で押さえ方を作るモードです。
+              構成音で採点するので、別のフォームやポジションでも正解になります。
+            </p>
+          </div>
+          <div className="flex flex-col sm:flex-row gap-3">
+            {([
+              { difficulty: 'beginner', label: '初級', color: 'bg-green-500 hover:bg-green-600 focus:ring-green-300' },
+              { difficulty: 'intermediate', label: '中級', color: 'bg-orange-500 hover:bg-orange-600 focus:ring-orange-300' },
+              { difficulty: 'advanced', label: '上級', color: 'bg-red-500 hover:bg-red-600 focus:ring-red-300' },
+            ] as const).map(({ difficulty, label, color }) => (
+              <Button
+                key={difficulty}
+                onClick={() => handleStartGame(difficulty, 'reverse')}
+                className={`px-6 py-3 text-white font-bold rounded-xl transition-all duration-200
+                         focus:outline-none focus:ring-4 ${color}`}
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </div>
+      
+      {/* マイデッキセクション */}
+      <div className="mb-20">
+        <div className="bg-white rounded-2xl shadow-xl p-8">
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900 mb-2">🗂️ マイデッキ</h2>
+              <p className="text-gray-600">
+                自分で選んだコードやマイコードだけで出題します
+              </p>
+            </div>
+            <Link
+              href="/custom"
+              className="px-4 py-2 rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors
+                       focus:outline-none focus:ring-2 focus:ring-gray-300"
+            >
+              デッキ・マイコードを編集
+            </Link>
+          </div>
+          {decks.length > 0 ? (
+            <ul className="divide-y divide-gray-100">
+              {decks.map(deck => (
+                <li key={deck.id} className="py-4 flex flex-wrap items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    <div className="font-bold text-gray-900">{deck.name}</div>
+                    <div className="text-sm text-gray-500">{deck.chordIds.length}コード</div>
+                  </div>
+                  <Button
+                    size="sm"
+                    onClick={() => handleStartDeck(deck.id, 'visual')}
+                    disabled={getDeckChords(deck.id).length === 0}
+                  >
+                    👀 コード名を当てる
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="secondary"
+                    onClick={() => handleStartDeck(deck.id, 'reverse')}
+                    disabled={getDeckChords(deck.id).length === 0}
+                  >
+                    ✋ 逆引き
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-gray-500">
+              デッキはまだありません。「デッキ・マイコードを編集」から作成できます。
+            </p>
+          )}
+        </div>
+      </div>
+      
       {/* 機能紹介セクション */}
       <div className="bg-white rounded-3xl shadow-2xl p-12 mb-16">
         <div className="text-center mb-12">
@@ -0,0 +1,193 @@
+'use client';
+
+/**
+ * コード詳細コンポーネント
+ *
+ * @description 1つのコードの押さえ方・構成音・試聴と他のボイシングを表示
+ * @author Claude Code
+ */
+
+import React, { useEffect, useMemo } from 'react';
+import Link from 'next/link';
+import { ChordPattern, ChordQuality } from '../../types';
+import { getChordSlug, getOtherVoicings } from '../../data/chord-patterns';
+import { getTuning } from '../../data/tuning-presets';
+import {
+  analyzeChord,
+  getIntervals,
+  getSemitoneDistance,
+  toSharpNoteName,
+  INTERVAL_NAMES,
+} from '../../lib/theory';
+import { describeBarre } from '../../lib/fretboard';
+import { useAudio } from '../../hooks/useAudio';
+import { AccessibleFretboard } from '../fretboard/AccessibleFretboard';
+import { FretboardPreview } from '../fretboard/ResponsiveFretboard';
+import { Button } from '../ui/Button';
+import { CHORD_QUALITY_LABELS, DIFFICULTY_LABELS } from './ChordLibrary';
+
+// =============================================================================
+// Types - 型定義
+// =============================================================================
+
+/**
+ * コード詳細コンポーネントのプロパティ
+ */
+interface ChordDetailProps {
+  /** 表示するコード */
+  chord: ChordPattern;
+}
+
+// =============================================================================
+// Main Component - メインコンポーネント
+// =============================================================================
+
+/**
+ * コード詳細コンポーネント
+ *
+ * @example
+ * ```tsx
+ * <ChordDetail chord={getChordBySlug('Am')!} />
+ * ```
+ */
+export const ChordDetail: React.FC<ChordDetailProps> = ({ chord }) => {
+  const tuning = getTuning(chord.tuning);
+  const root = toSharpNoteName(chord.root);
+
+  const analysis = useMemo(() => analyzeChord(chord.frets, tuning), [chord.frets, tuning]);
+  const otherVoicings = useMemo(() => getOtherVoicings(chord), [chord]);
+
+  // 音声（コードのチューニングで再生）
+  const audio = useAudio();
+  const { changeTuning } = audio;
+
+  useEffect(() => {
+    changeTuning(tuning);
+  }, [changeTuning, tuning]);
+
+  const qualityLabel = CHORD_QUALITY_LABELS[chord.quality as ChordQuality] ?? chord.quality;
+
+  return (
+    <div className="space-y-8">
+      {/* 見出し */}
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-4xl font-bold text-gray-900 dark:text-white">{chord.name}</h1>
+          <p className="text-gray-600 dark:text-gray-400 mt-1">
+            {qualityLabel} • {DIFFICULTY_LABELS[chord.difficulty]} • {tuning.name}
+          </p>
+        </div>
+
+        {/* 試聴 */}
+        <div className="flex gap-3">
+          {audio.isEnabled ? (
+            <>
+              <Button onClick={() => audio.playChord(chord, 2, { style: 'down' })}>
+                🔊 ストラムで再生
+              </Button>
+              <Button variant="secondary" onClick={() => audio.playChord(chord, 2, { style: 'arpeggio' })}>
+                🎼 アルペジオで再生
+              </Button>
+            </>
+          ) : (
+            <Button variant="secondary" onClick={audio.enableAudio}>
+              🔇 音声を有効にする
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* 押さえ方 */}
+      <AccessibleFretboard
+        chordPattern={chord}
+        orientation="horizontal"
+        tuning={tuning}
+        showFingers={true}
+        fretRange={{ start: 0, end: Math.max(5, ...chord.frets.map(fret => (fret ?? 0) + 1)) }}
+      />
+
+      {/* 構成音 */}
+      <section className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-6">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">構成音</h2>
+        <p className="text-gray-700 dark:text-gray-300 mb-4">
+          {analysis.pitchClasses.join(' • ')}
+          {root && (
+            <span className="ml-3 text-sm text-gray-500 dark:text-gray-400">
+              ({getIntervals(analysis.pitchClasses, root).join(' • ')})
+            </span>
+          )}
+        </p>
+
+        <table className="w-full text-sm text-left">
+          <thead className="text-gray-600 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+            <tr>
+              <th className="py-2">弦</th>
+              <th className="py-2">フレット</th>
+              <th className="py-2">音名</th>
+              <th className="py-2">度数</th>
+            </tr>
+          </thead>
+          <tbody className="text-gray-900 dark:text-white">
+            {chord.frets.map((fret, index) => {
+              const stringNumber = 6 - index;
+              const sounding = analysis.notes.find(note => note.stringNumber === stringNumber);
+
+              return (
+                <tr key={stringNumber} className="border-b border-gray-100 dark:border-gray-700 last:border-0">
+                  <td className="py-2">{stringNumber}弦（{tuning.labels[index]}）</td>
+                  <td className="py-2">{fret === null ? '× ミュート' : fret === 0 ? '○ 開放' : `${fret}F`}</td>
+                  <td className="py-2 font-semibold">{sounding?.note ?? '-'}</td>
+                  <td className="py-2">
+                    {sounding && root ? INTERVAL_NAMES[getSemitoneDistance(root, sounding.note)] : '-'}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+
+        {chord.barres && chord.barres.length > 0 && (
+          <p className="mt-4 text-sm text-gray-600 dark:text-gray-400">
+            バレー: {chord.barres.map(describeBarre).join('、')}
+          </p>
+        )}
+        {chord.description && (
+          <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">{chord.description}</p>
+        )}
+      </section>
+
+      {/* 他のボイシング */}
+      <section>
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">他のボイシング</h2>
+        {otherVoicings.length > 0 ? (
+          <ul className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+            {otherVoicings.map(voicing => (
+              <li key={getChordSlug(voicing)}>
+                <Link
+                  href={`/chords/${getChordSlug(voicing)}/`}
+                  className="block bg-white dark:bg-gray-800 rounded-xl shadow-sm p-4 border-2 border-transparent
+                           hover:border-blue-200 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2
+                           transition-all duration-200"
+                >
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="text-lg font-bold text-gray-900 dark:text-white">{voicing.name}</span>
+                    <span className="text-xs text-gray-600 dark:text-gray-400">
+                      {getTuning(voicing.tuning).name}
+                    </span>
+                  </div>
+                  <FretboardPreview chordPattern={voicing} size="small" />
+                </Link>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            収録されている他のボイシングはありません
+          </p>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default ChordDetail;
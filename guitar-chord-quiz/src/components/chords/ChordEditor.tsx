@@ -0,0 +1,333 @@
+'use client';
+
+/**
+ * コードエディタコンポーネント
+ *
+ * @description 指板上で押弦を作り、ユーザー定義コードとして保存する
+ * @author Claude Code
+ */
+
+import React, { useMemo, useState } from 'react';
+import { ChordDifficulty, ChordPattern, ChordQuality, NoteName, TuningId } from '../../types';
+import { getTuning, TUNING_IDS } from '../../data/tuning-presets';
+import { identifyChord, NOTE_NAMES } from '../../lib/theory';
+import { useCustomChords } from '../../hooks/useLocalStorage';
+import { AccessibleFretboard } from '../fretboard/AccessibleFretboard';
+import { FretboardPreview } from '../fretboard/ResponsiveFretboard';
+import { Button } from '../ui/Button';
+import { CHORD_QUALITY_LABELS, DIFFICULTY_LABELS } from './ChordLibrary';
+import clsx from 'clsx';
+
+// =============================================================================
+// Types - 型定義
+// =============================================================================
+
+/**
+ * コードエディタコンポーネントのプロパティ
+ */
+interface ChordEditorProps {
+  /** 追加のCSSクラス */
+  className?: string;
+}
+
+// =============================================================================
+// Constants - 定数
+// =============================================================================
+
+/**
+ * 指番号の選択肢
+ */
+const FINGER_OPTIONS = [1, 2, 3, 4] as const;
+
+/**
+ * 編集中に表示するフレット数
+ */
+const EDITOR_FRET_COUNT = 7;
+
+const INPUT_CLASS_NAME = `mt-1 px-3 py-2 rounded-lg border border-gray-300 bg-white text-gray-900
+  focus:ring-2 focus:ring-blue-500 focus:border-blue-500
+  dark:bg-gray-700 dark:border-gray-600 dark:text-white`;
+
+const LABEL_CLASS_NAME = 'flex flex-col text-sm font-medium text-gray-700 dark:text-gray-300';
+
+// =============================================================================
+// Main Component - メインコンポーネント
+// =============================================================================
+
+/**
+ * コードエディタコンポーネント
+ *
+ * 指板の○×で開放/ミュート、フレットのクリックで押弦を切り替える。
+ * 保存時に isValidChordPattern で検証され、エラーがあれば一覧表示する。
+ *
+ * @example
+ * ```tsx
+ * <ChordEditor />
+ * ```
+ */
+export const ChordEditor: React.FC<ChordEditorProps> = ({ className }) => {
+  const { customChords, saveCustomChord, deleteCustomChord } = useCustomChords();
+
+  const [editingId, setEditingId] = useState<string | undefined>();
+  const [name, setName] = useState('');
+  const [root, setRoot] = useState<NoteName>('C');
+  const [quality, setQuality] = useState<ChordQuality>('major');
+  const [difficulty, setDifficulty] = useState<ChordDifficulty>('beginner');
+  const [tuningId, setTuningId] = useState<TuningId>('standard');
+  const [frets, setFrets] = useState<(number | null)[]>(Array(6).fill(0));
+  const [fingers, setFingers] = useState<(number | null)[]>(Array(6).fill(null));
+  const [errors, setErrors] = useState<string[]>([]);
+  const [savedMessage, setSavedMessage] = useState<string | null>(null);
+
+  const tuning = getTuning(tuningId);
+
+  const chord: ChordPattern = useMemo(() => ({
+    name,
+    root,
+    quality,
+    difficulty,
+    tuning: tuningId,
+    frets,
+    fingers,
+  }), [name, root, quality, difficulty, tuningId, frets, fingers]);
+
+  // 押弦を変更した弦は指番号をリセットする
+  const updateString = (stringIndex: number, fret: number | null) => {
+    setFrets(prev => prev.map((value, index) => (index === stringIndex ? fret : value)));
+    setFingers(prev => prev.map((value, index) => (index === stringIndex ? null : value)));
+    setErrors([]);
+    setSavedMessage(null);
+  };
+
+  // 同じフレットをもう一度押すと開放に戻す
+  const handleFretToggle = (stringIndex: number, fret: number) => {
+    updateString(stringIndex, frets[stringIndex] === fret ? 0 : fret);
+  };
+
+  const handleStringStateToggle = (stringIndex: number) => {
+    updateString(stringIndex, frets[stringIndex] === null ? 0 : null);
+  };
+
+  const handleFingerChange = (stringIndex: number, finger: number | null) => {
+    setFingers(prev => prev.map((value, index) => (index === stringIndex ? finger : value)));
+  };
+
+  // 押弦から名前・ルート・種類を推定して入力
+  const handleIdentify = () => {
+    const candidate = identifyChord(frets, tuning);
+    if (!candidate) {
+      setErrors(['押弦からコード名を推定できませんでした']);
+      return;
+    }
+
+    setName(candidate.name);
+    setRoot(candidate.root);
+    setQuality(candidate.quality);
+    setErrors([]);
+  };
+
+  const handleReset = () => {
+    setEditingId(undefined);
+    setName('');
+    setRoot('C');
+    setQuality('major');
+    setDifficulty('beginner');
+    setFrets(Array(6).fill(0));
+    setFingers(Array(6).fill(null));
+    setErrors([]);
+  };
+
+  const handleSave = () => {
+    const result = saveCustomChord(chord, editingId);
+    setErrors(result);
+    if (result.length === 0) {
+      setSavedMessage(`「${chord.name.trim()}」を保存しました`);
+      handleReset();
+    }
+  };
+
+  const handleEdit = (id: string) => {
+    const target = customChords.find(item => item.id === id);
+    if (!target) return;
+
+    setEditingId(target.id);
+    setName(target.name);
+    setRoot(target.root as NoteName);
+    setQuality(target.quality as ChordQuality);
+    setDifficulty(target.difficulty);
+    setTuningId(target.tuning ?? 'standard');
+    setFrets(target.frets);
+    setFingers(target.fingers);
+    setErrors([]);
+    setSavedMessage(null);
+  };
+
+  const handleDelete = (id: string) => {
+    deleteCustomChord(id);
+    if (id === editingId) handleReset();
+  };
+
+  const maxFret = Math.max(...frets.map(fret => fret ?? 0));
+
+  return (
+    <div className={clsx('space-y-8', className)}>
+      <section className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-6 space-y-6">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+          {editingId ? 'コードを編集' : '新しいコード'}
+        </h2>
+
+        {/* 押弦 */}
+        <AccessibleFretboard
+          chordPattern={chord}
+          orientation="horizontal"
+          tuning={tuning}
+          showFingers={true}
+          interactive={true}
+          onFretToggle={handleFretToggle}
+          onStringStateToggle={handleStringStateToggle}
+          fretRange={{ start: 0, end: Math.max(EDITOR_FRET_COUNT, maxFret + 2) }}
+        />
+
+        {/* 基本情報 */}
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
+          <label className={LABEL_CLASS_NAME}>
+            コード名
+            <input
+              type="text"
+              value={name}
+              onChange={e => setName(e.target.value)}
+              placeholder="例: Cadd9"
+              className={INPUT_CLASS_NAME}
+            />
+          </label>
+          <label className={LABEL_CLASS_NAME}>
+            ルート音
+            <select value={root} onChange={e => setRoot(e.target.value as NoteName)} className={INPUT_CLASS_NAME}>
+              {NOTE_NAMES.map(note => (
+                <option key={note} value={note}>{note}</option>
+              ))}
+            </select>
+          </label>
+          <label className={LABEL_CLASS_NAME}>
+            コードの種類
+            <select
+              value={quality}
+              onChange={e => setQuality(e.target.value as ChordQuality)}
+              className={INPUT_CLASS_NAME}
+            >
+              {(Object.keys(CHORD_QUALITY_LABELS) as ChordQuality[]).map(value => (
+                <option key={value} value={value}>{CHORD_QUALITY_LABELS[value]}</option>
+              ))}
+            </select>
+          </label>
+          <label className={LABEL_CLASS_NAME}>
+            難易度
+            <select
+              value={difficulty}
+              onChange={e => setDifficulty(e.target.value as ChordDifficulty)}
+              className={INPUT_CLASS_NAME}
+            >
+              {(Object.keys(DIFFICULTY_LABELS) as ChordDifficulty[]).map(value => (
+                <option key={value} value={value}>{DIFFICULTY_LABELS[value]}</option>
+              ))}
+            </select>
+          </label>
+          <label className={LABEL_CLASS_NAME}>
+            チューニング
+            <select
+              value={tuningId}
+              onChange={e => setTuningId(e.target.value as TuningId)}
+              className={INPUT_CLASS_NAME}
+            >
+              {TUNING_IDS.map(id => (
+                <option key={id} value={id}>{getTuning(id).name}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {/* 指番号（押弦している弦のみ） */}
+        <fieldset>
+          <legend className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">指番号</legend>
+          <div className="grid grid-cols-3 sm:grid-cols-6 gap-3">
+            {frets.map((fret, index) => (
+              <label key={index} className={LABEL_CLASS_NAME}>
+                {6 - index}弦（{tuning.labels[index]}）
+                <select
+                  value={fingers[index] ?? ''}
+                  disabled={fret === null || fret === 0}
+                  onChange={e => handleFingerChange(index, e.target.value === '' ? null : Number(e.target.value))}
+                  className={clsx(INPUT_CLASS_NAME, 'disabled:opacity-50')}
+                >
+                  <option value="">{fret === null ? '× ミュート' : fret === 0 ? '○ 開放' : 'なし'}</option>
+                  {FINGER_OPTIONS.map(finger => (
+                    <option key={finger} value={finger}>{finger}</option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+        </fieldset>
+
+        {errors.length > 0 && (
+          <ul role="alert" className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-700 space-y-1">
+            {errors.map(error => (
+              <li key={error}>{error}</li>
+            ))}
+          </ul>
+        )}
+        {savedMessage && (
+          <p role="status" className="text-sm text-green-700 dark:text-green-400">{savedMessage}</p>
+        )}
+
+        <div className="flex flex-wrap gap-3">
+          <Button variant="secondary" onClick={handleIdentify}>
+            🔍 押弦から名前を推定
+          </Button>
+          <Button variant="secondary" onClick={handleReset}>
+            リセット
+          </Button>
+          <Button onClick={handleSave} className="ml-auto">
+            {editingId ? '上書き保存' : '保存'}
+          </Button>
+        </div>
+      </section>
+
+      {/* 保存済みのコード */}
+      <section>
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
+          マイコード（{customChords.length}件）
+        </h2>
+        {customChords.length > 0 ? (
+          <ul className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+            {customChords.map(item => (
+              <li key={item.id} className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-4 space-y-3">
+                <div className="flex items-center justify-between">
+                  <span className="text-lg font-bold text-gray-900 dark:text-white">{item.name}</span>
+                  <span className="text-xs text-gray-600 dark:text-gray-400">
+                    {DIFFICULTY_LABELS[item.difficulty]}
+                  </span>
+                </div>
+                <FretboardPreview chordPattern={item} size="small" />
+                <div className="flex gap-2">
+                  <Button variant="secondary" onClick={() => handleEdit(item.id)} className="flex-1">
+                    編集
+                  </Button>
+                  <Button variant="danger" onClick={() => handleDelete(item.id)} className="flex-1">
+                    削除
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            保存したコードはまだありません
+          </p>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default ChordEditor;
@@ -0,0 +1,199 @@
+'use client';
+
+/**
+ * コードライブラリコンポーネント
+ *
+ * @description 収録コードをルート音・コード品質・難易度で絞り込んで一覧表示
+ * @author Claude Code
+ */
+
+import React, { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { ChordQuality, DifficultyLevel, NoteName } from '../../types';
+import {
+  filterChords,
+  getChordSlug,
+  AVAILABLE_ROOTS,
+  AVAILABLE_QUALITIES,
+} from '../../data/chord-patterns';
+import { getTuning } from '../../data/tuning-presets';
+import { FretboardPreview } from '../fretboard/ResponsiveFretboard';
+import clsx from 'clsx';
+
+// =============================================================================
+// Constants - 定数
+// =============================================================================
+
+/**
+ * コード品質の表示名
+ */
+export const CHORD_QUALITY_LABELS: Record<ChordQuality, string> = {
+  major: 'メジャー',
+  minor: 'マイナー',
+  dominant7: 'セブンス',
+  major7: 'メジャーセブンス',
+  minor7: 'マイナーセブンス',
+  diminished: 'ディミニッシュ',
+  augmented: 'オーギュメント',
+  sus2: 'サスツー',
+  sus4: 'サスフォー',
+};
+
+/**
+ * 難易度の表示名
+ */
+export const DIFFICULTY_LABELS: Record<DifficultyLevel, string> = {
+  beginner: '初級',
+  intermediate: '中級',
+  advanced: '上級',
+};
+
+// =============================================================================
+// Types - 型定義
+// =============================================================================
+
+/**
+ * コードライブラリコンポーネントのプロパティ
+ */
+interface ChordLibraryProps {
+  /** 追加のCSSクラス */
+  className?: string;
+}
+
+/**
+ * 絞り込み条件の選択肢
+ */
+interface FilterSelectProps<T extends string> {
+  label: string;
+  value: T | 'all';
+  options: { value: T; label: string }[];
+  onChange: (value: T | 'all') => void;
+}
+
+// =============================================================================
+// Sub Components - サブコンポーネント
+// =============================================================================
+
+/**
+ * 絞り込み条件のセレクトボックス
+ */
+const FilterSelect = <T extends string>({ label, value, options, onChange }: FilterSelectProps<T>) => (
+  <label className="flex flex-col text-sm font-medium text-gray-700 dark:text-gray-300">
+    {label}
+    <select
+      value={value}
+      onChange={e => onChange(e.target.value as T | 'all')}
+      className="mt-1 px-3 py-2 rounded-lg border border-gray-300 bg-white text-gray-900
+               focus:ring-2 focus:ring-blue-500 focus:border-blue-500
+               dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+    >
+      <option value="all">すべて</option>
+      {options.map(option => (
+        <option key={option.value} value={option.value}>
+          {option.label}
+        </option>
+      ))}
+    </select>
+  </label>
+);
+
+// =============================================================================
+// Main Component - メインコンポーネント
+// =============================================================================
+
+/**
+ * コードライブラリコンポーネント
+ *
+ * @example
+ * ```tsx
+ * <ChordLibrary />
+ * ```
+ */
+export const ChordLibrary: React.FC<ChordLibraryProps> = ({ className }) => {
+  const [root, setRoot] = useState<NoteName | 'all'>('all');
+  const [quality, setQuality] = useState<ChordQuality | 'all'>('all');
+  const [difficulty, setDifficulty] = useState<DifficultyLevel | 'all'>('all');
+
+  const chords = useMemo(() => filterChords({
+    root: root === 'all' ? undefined : root,
+    quality: quality === 'all' ? undefined : quality,
+    difficulty: difficulty === 'all' ? undefined : difficulty,
+  }), [root, quality, difficulty]);
+
+  const handleReset = () => {
+    setRoot('all');
+    setQuality('all');
+    setDifficulty('all');
+  };
+
+  return (
+    <div className={clsx('space-y-6', className)}>
+      {/* 絞り込み */}
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-4 flex flex-wrap items-end gap-4">
+        <FilterSelect
+          label="ルート音"
+          value={root}
+          options={AVAILABLE_ROOTS.map(note => ({ value: note, label: note }))}
+          onChange={setRoot}
+        />
+        <FilterSelect
+          label="コードの種類"
+          value={quality}
+          options={AVAILABLE_QUALITIES.map(value => ({ value, label: CHORD_QUALITY_LABELS[value] }))}
+          onChange={setQuality}
+        />
+        <FilterSelect
+          label="難易度"
+          value={difficulty}
+          options={(Object.keys(DIFFICULTY_LABELS) as DifficultyLevel[]).map(value => ({
+            value,
+            label: DIFFICULTY_LABELS[value],
+          }))}
+          onChange={setDifficulty}
+        />
+        <button
+          onClick={handleReset}
+          className="px-4 py-2 text-sm rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200
+                   focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-colors duration-150
+                   dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600"
+        >
+          条件をクリア
+        </button>
+        <p className="ml-auto text-sm text-gray-600 dark:text-gray-400" aria-live="polite">
+          {chords.length}件のコード
+        </p>
+      </div>
+
+      {/* コード一覧 */}
+      {chords.length > 0 ? (
+        <ul className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+          {chords.map(chord => (
+            <li key={getChordSlug(chord)}>
+              <Link
+                href={`/chords/${getChordSlug(chord)}/`}
+                className="block bg-white dark:bg-gray-800 rounded-xl shadow-sm p-4 border-2 border-transparent
+                         hover:border-blue-200 hover:shadow-md focus:ring-2 focus:ring-blue-500
+                         focus:ring-offset-2 transition-all duration-200"
+              >
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-2xl font-bold text-gray-900 dark:text-white">{chord.name}</span>
+                  <span className="text-xs text-gray-600 dark:text-gray-400">
+                    {DIFFICULTY_LABELS[chord.difficulty]}
+                    {chord.tuning && chord.tuning !== 'standard' && ` • ${getTuning(chord.tuning).name}`}
+                  </span>
+                </div>
+                <FretboardPreview chordPattern={chord} size="small" />
+              </Link>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-center text-gray-500 dark:text-gray-400 py-12">
+          条件に一致するコードはありません
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ChordLibrary;
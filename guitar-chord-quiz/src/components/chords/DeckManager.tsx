@@ -0,0 +1,205 @@
+'use client';
+
+/**
+ * コードデッキ管理コンポーネント
+ *
+ * @description 組み込みコードとマイコードを選んで名前付きのデッキにまとめる
+ * @author Claude Code
+ */
+
+import React, { useMemo, useState } from 'react';
+import { ChordPattern } from '../../types';
+import { CHORD_PATTERNS } from '../../data/chord-patterns';
+import { getTuning } from '../../data/tuning-presets';
+import { getDeckChordId } from '../../lib/custom-chords';
+import { useChordDecks, useCustomChords } from '../../hooks/useLocalStorage';
+import { Button } from '../ui/Button';
+import clsx from 'clsx';
+
+// =============================================================================
+// Types - 型定義
+// =============================================================================
+
+/**
+ * コードデッキ管理コンポーネントのプロパティ
+ */
+interface DeckManagerProps {
+  /** 追加のCSSクラス */
+  className?: string;
+}
+
+// =============================================================================
+// Utility Functions - ユーティリティ関数
+// =============================================================================
+
+/**
+ * コードの表示名（別チューニングのボイシングはチューニング名を添えて区別する）
+ */
+const getChordLabel = (chord: ChordPattern): string =>
+  chord.tuning && chord.tuning !== 'standard' ? `${chord.name}（${getTuning(chord.tuning).name}）` : chord.name;
+
+// =============================================================================
+// Main Component - メインコンポーネント
+// =============================================================================
+
+/**
+ * コードデッキ管理コンポーネント
+ *
+ * 作成したデッキはホーム画面で出題対象として選択できる
+ *
+ * @example
+ * ```tsx
+ * <DeckManager />
+ * ```
+ */
+export const DeckManager: React.FC<DeckManagerProps> = ({ className }) => {
+  const { decks, saveDeck, deleteDeck, getDeckChords } = useChordDecks();
+  const { customChords } = useCustomChords();
+
+  const [editingId, setEditingId] = useState<string | undefined>();
+  const [name, setName] = useState('');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  // 選択肢（マイコード → 組み込みコードの順）
+  const options = useMemo(() => [
+    ...customChords.map(chord => ({ id: getDeckChordId(chord), label: getChordLabel(chord), custom: true })),
+    ...CHORD_PATTERNS.map(chord => ({ id: getDeckChordId(chord), label: getChordLabel(chord), custom: false })),
+  ], [customChords]);
+
+  const canSave = name.trim() !== '' && selectedIds.size > 0;
+
+  const handleToggle = (chordId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(chordId)) {
+        next.delete(chordId);
+      } else {
+        next.add(chordId);
+      }
+      return next;
+    });
+  };
+
+  const handleReset = () => {
+    setEditingId(undefined);
+    setName('');
+    setSelectedIds(new Set());
+  };
+
+  const handleSave = () => {
+    if (!canSave) return;
+
+    saveDeck(name, Array.from(selectedIds), editingId);
+    handleReset();
+  };
+
+  const handleEdit = (id: string) => {
+    const deck = decks.find(item => item.id === id);
+    if (!deck) return;
+
+    setEditingId(deck.id);
+    setName(deck.name);
+    setSelectedIds(new Set(deck.chordIds));
+  };
+
+  const handleDelete = (id: string) => {
+    deleteDeck(id);
+    if (id === editingId) handleReset();
+  };
+
+  return (
+    <div className={clsx('space-y-8', className)}>
+      <section className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-6 space-y-4">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+          {editingId ? 'デッキを編集' : '新しいデッキ'}
+        </h2>
+
+        <label className="flex flex-col text-sm font-medium text-gray-700 dark:text-gray-300">
+          デッキ名
+          <input
+            type="text"
+            value={name}
+            onChange={e => setName(e.target.value)}
+            placeholder="例: 今週の課題"
+            className="mt-1 px-3 py-2 rounded-lg border border-gray-300 bg-white text-gray-900
+                     focus:ring-2 focus:ring-blue-500 focus:border-blue-500
+                     dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+          />
+        </label>
+
+        <fieldset>
+          <legend className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            収録するコード（{selectedIds.size}件選択中）
+          </legend>
+          <div className="flex flex-wrap gap-2 max-h-64 overflow-y-auto">
+            {options.map(option => (
+              <label
+                key={option.id}
+                className={clsx(
+                  'inline-flex items-center gap-1 px-3 py-1 rounded-full border text-sm cursor-pointer',
+                  selectedIds.has(option.id)
+                    ? 'bg-blue-100 border-blue-400 text-blue-800 dark:bg-blue-900 dark:text-blue-200'
+                    : 'bg-white border-gray-300 text-gray-700 dark:bg-gray-700 dark:border-gray-600 dark:text-gray-300'
+                )}
+              >
+                <input
+                  type="checkbox"
+                  checked={selectedIds.has(option.id)}
+                  onChange={() => handleToggle(option.id)}
+                  className="sr-only"
+                />
+                {option.custom && <span aria-label="マイコード">★</span>}
+                {option.label}
+              </label>
+            ))}
+          </div>
+        </fieldset>
+
+        <div className="flex flex-wrap gap-3">
+          <Button variant="secondary" onClick={handleReset}>
+            リセット
+          </Button>
+          <Button onClick={handleSave} disabled={!canSave} className="ml-auto">
+            {editingId ? '上書き保存' : '保存'}
+          </Button>
+        </div>
+      </section>
+
+      {/* 保存済みのデッキ */}
+      <section>
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
+          デッキ（{decks.length}件）
+        </h2>
+        {decks.length > 0 ? (
+          <ul className="space-y-3">
+            {decks.map(deck => (
+              <li
+                key={deck.id}
+                className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-4 flex flex-wrap items-center gap-3"
+              >
+                <div className="flex-1 min-w-0">
+                  <div className="font-bold text-gray-900 dark:text-white">{deck.name}</div>
+                  <div className="text-sm text-gray-600 dark:text-gray-400 truncate">
+                    {getDeckChords(deck.id).map(getChordLabel).join(', ') || '収録コードなし'}
+                  </div>
+                </div>
+                <Button variant="secondary" size="sm" onClick={() => handleEdit(deck.id)}>
+                  編集
+                </Button>
+                <Button variant="danger" size="sm" onClick={() => handleDelete(deck.id)}>
+                  削除
+                </Button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            作成したデッキはまだありません
+          </p>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default DeckManager;
@@ -0,0 +1,12 @@
+/**
+ * Chord Library Components - Export Module
+ * コードライブラリ関連コンポーネントの一元エクスポート
+ */
+
+export { ChordLibrary, CHORD_QUALITY_LABELS, DIFFICULTY_LABELS } from './ChordLibrary';
+
+export { ChordDetail } from './ChordDetail';
+
+export { ChordEditor } from './ChordEditor';
+
+export { DeckManager } from './DeckManager';
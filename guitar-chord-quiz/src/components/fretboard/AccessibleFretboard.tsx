@@ -8,8 +8,15 @@
 'use client';
 
 import React, { useState, useEffect, useCallback } from 'react';
-import { ChordPattern } from '../../types';
-import { getFretCoordinates, calculateFretboardSize } from '../../lib/fretboard';
+import { ChordPattern, FretboardNote, Tuning } from '../../types';
+import {
+  getFretCoordinates,
+  calculateFretboardSize,
+  getStringState,
+  isCoveredByBarre,
+  describeBarre,
+} from '../../lib/fretboard';
+import { getTuning } from '../../data/tuning-presets';
 import clsx from 'clsx';
 
 // =============================================================================
@@ -23,14 +30,20 @@ import clsx from 'clsx';
  * Apple Human Interface Guidelines準拠
  */
 interface AccessibleFretboardProps {
-  /** 表示するコードパターン */
-  chordPattern: ChordPattern;
+  /** 表示するコードパターン（notePositions 指定時は省略可） */
+  chordPattern?: ChordPattern;
+  /** 表示する音の位置（スケール・アルペジオ表示。1弦に複数可、指定するとコードの代わりに描画） */
+  notePositions?: FretboardNote[];
+  /** 図のタイトル（省略時はコード名） */
+  title?: string;
   /** フレットボードの向き */
   orientation: 'horizontal'; // 横向きのみ実装（sample/fretboard-design-sample.html基準）
   /** 指番号を表示するか */
   showFingers?: boolean;
-  /** カポタストの位置（0は未使用） */
+  /** カポタストの位置（0は未使用。押弦位置はカポを含む指板上のフレットで指定） */
   capoPosition?: number;
+  /** チューニング（省略時はコードパターンのチューニング） */
+  tuning?: Tuning;
   /** 追加のCSSクラス */
   className?: string;
   /** 弦再生時のコールバック */
@@ -41,6 +54,8 @@ interface AccessibleFretboardProps {
   interactive?: boolean;
   /** 押弦位置設定/解除のコールバック */
   onFretToggle?: (string: number, fret: number) => void;
+  /** 弦のミュート/開放切り替えのコールバック（ヘッダー行の○×をクリック） */
+  onStringStateToggle?: (string: number) => void;
 }
 
 /**
@@ -51,6 +66,30 @@ interface FocusPosition {
   fret: number;
 }
 
+// =============================================================================
+// Constants - 定数
+// =============================================================================
+
+/**
+ * 音の位置の表示色（スケール・アルペジオ表示）
+ */
+const NOTE_VARIANT_COLORS: Record<NonNullable<FretboardNote['variant']>, { fill: string; stroke: string }> = {
+  default: { fill: '#3B82F6', stroke: '#FFFFFF' },
+  root: { fill: '#7C3AED', stroke: '#FFFFFF' },
+  missing: { fill: '#FFFFFF', stroke: '#9CA3AF' },
+  extra: { fill: '#EF4444', stroke: '#FFFFFF' },
+};
+
+/**
+ * 音の位置の読み上げ用ラベル
+ */
+const NOTE_VARIANT_LABELS: Record<NonNullable<FretboardNote['variant']>, string> = {
+  default: '',
+  root: '（ルート）',
+  missing: '（不足）',
+  extra: '（誤り）',
+};
+
 // =============================================================================
 // Focus Management Utilities - フォーカス管理ユーティリティ
 // =============================================================================
@@ -109,15 +148,28 @@ export const manageFocus = {
  */
 export const AccessibleFretboard: React.FC<AccessibleFretboardProps> = ({
   chordPattern,
+  notePositions,
+  title,
   orientation,
   showFingers = false,
   capoPosition = 0,
+  tuning,
   className,
   onStringPlay,
   fretRange = { start: 0, end: 12 },
   interactive = false,
   onFretToggle,
+  onStringStateToggle,
 }) => {
+  // 弦名ラベル（6弦から1弦の順序）
+  const stringLabels = (tuning ?? getTuning(chordPattern?.tuning)).labels;
+  const diagramTitle = title ?? `ギターコード: ${chordPattern?.name ?? ''}`;
+
+  // 音の位置の表示モード（スケール・アルペジオ）
+  const isNoteMode = notePositions !== undefined;
+  const isNoteAt = (stringIndex: number, fret: number) =>
+    (notePositions ?? []).some(note => note.stringIndex === stringIndex && note.fret === fret);
+
   // キーボードナビゲーション状態
   const [focusedPosition, setFocusedPosition] = useState<FocusPosition | null>(null);
 
@@ -263,6 +315,11 @@ export const AccessibleFretboard: React.FC<AccessibleFretboardProps> = ({
 
   const svgDimensions = getSVGDimensions();
 
+  // カポタストの描画位置（表示範囲外なら描画しない）
+  const capoBar = capoPosition > 0 && capoPosition >= fretRange.start && capoPosition <= fretRange.end
+    ? { from: getChordDotPosition(0, capoPosition), to: getChordDotPosition(5, capoPosition) }
+    : null;
+
   return (
     <div
       className={clsx(
@@ -274,10 +331,11 @@ export const AccessibleFretboard: React.FC<AccessibleFretboardProps> = ({
       {/* アクセシビリティ用タイトル */}
       <div className="mb-4">
         <h3 className="text-lg font-semibold text-gray-900 mb-2">
-          ギターコード: {chordPattern.name}
+          {diagramTitle}
         </h3>
         <p className="text-sm text-gray-600">
-          難易度: {chordPattern.difficulty} | 矢印キーで移動、Enter/Spaceで再生
+          {chordPattern && !isNoteMode && `難易度: ${chordPattern.difficulty} | `}
+          {interactive ? '矢印キーで移動、Enter/Spaceで押弦位置を切り替え' : '矢印キーで移動、Enter/Spaceで再生'}
         </p>
       </div>
 
@@ -290,7 +348,7 @@ export const AccessibleFretboard: React.FC<AccessibleFretboardProps> = ({
         )}
         xmlns="http://www.w3.org/2000/svg"
         role="img"
-        aria-label={`ギターコード ${chordPattern.name} のフレットボード図`}
+        aria-label={`${diagramTitle} のフレットボード図`}
       >
         {/* 背景 */}
         <rect
@@ -356,9 +414,95 @@ export const AccessibleFretboard: React.FC<AccessibleFretboardProps> = ({
             );
           })}
 
+        {/* インタラクティブモード: 押弦位置の選択エリア */}
+        {interactive && onFretToggle &&
+          Array.from({ length: 6 }, (_, stringIndex) =>
+            Array.from({ length: Math.max(fretRange.end - fretRange.start, 1) }, (_, i) => {
+              const fret = fretRange.start + i;
+              // 開放弦はヘッダー行で切り替える。押さえている位置はドット自体で切り替える
+              if (fret === 0) return null;
+              if (isNoteMode ? isNoteAt(stringIndex, fret) : chordPattern?.frets[stringIndex] === fret) return null;
+
+              const pos = getChordDotPosition(stringIndex, fret);
+              return (
+                <circle
+                  key={`fret-target-${stringIndex}-${fret}`}
+                  cx={pos.cx}
+                  cy={pos.cy}
+                  r="14"
+                  fill="transparent"
+                  className="cursor-pointer hover:fill-blue-100 focus:fill-blue-100 outline-none"
+                  tabIndex={0}
+                  role="button"
+                  aria-label={`${6 - stringIndex}弦 ${fret}フレットを押さえる`}
+                  onClick={() => onFretToggle(stringIndex, fret)}
+                  onKeyDown={e => handleKeyDown(e, stringIndex, fret)}
+                />
+              );
+            })
+          )}
+
+        {/* カポタスト */}
+        {!isNoteMode && capoBar && (
+          <g>
+            <title>{`カポタスト ${capoPosition}フレット`}</title>
+            <rect
+              x={capoBar.from.cx - 8}
+              y={capoBar.from.cy - 8}
+              width={orientation === 'horizontal' ? 16 : capoBar.to.cx - capoBar.from.cx + 16}
+              height={orientation === 'horizontal' ? capoBar.to.cy - capoBar.from.cy + 16 : 16}
+              rx="4"
+              fill="#4B5563"
+              opacity="0.85"
+            />
+          </g>
+        )}
+
+        {/* バレー */}
+        {!isNoteMode && (chordPattern?.barres ?? []).map(barre => {
+          if (barre.fret < fretRange.start || barre.fret > fretRange.end) return null;
+
+          const from = getChordDotPosition(6 - barre.fromString, barre.fret);
+          const to = getChordDotPosition(6 - barre.toString, barre.fret);
+          const isHorizontal = orientation === 'horizontal';
+          const barreLabel = `バレー ${describeBarre(barre)}`;
+
+          return (
+            <g key={`barre-${barre.fret}-${barre.fromString}-${barre.toString}`}>
+              <title>{barreLabel}</title>
+              <rect
+                x={from.cx - 14}
+                y={from.cy - 14}
+                width={isHorizontal ? 28 : to.cx - from.cx + 28}
+                height={isHorizontal ? to.cy - from.cy + 28 : 28}
+                rx="14"
+                fill="#3B82F6"
+                stroke="#FFFFFF"
+                strokeWidth="3"
+              />
+              {showFingers && (
+                <text
+                  x={from.cx}
+                  y={from.cy + 5}
+                  textAnchor="middle"
+                  className="fill-white text-sm font-semibold pointer-events-none"
+                  aria-hidden="true"
+                >
+                  {barre.finger}
+                </text>
+              )}
+            </g>
+          );
+        })}
+
         {/* コード押弦位置 */}
-        {chordPattern.frets.map((fret, stringIndex) => {
-          if (fret === null || fret < fretRange.start || fret > fretRange.end)
+        {chordPattern && !isNoteMode && chordPattern.frets.map((fret, stringIndex) => {
+          // ミュート・開放弦（カポで押さえる弦を含む）はヘッダー行に表示
+          if (fret === null || fret <= capoPosition || fret < fretRange.start || fret > fretRange.end)
+            return null;
+
+          // バレーで押さえる位置はバレーとして描画済み
+          if ((chordPattern.barres ?? []).some(barre => isCoveredByBarre(barre, stringIndex, fret)))
             return null;
 
           const pos = getChordDotPosition(stringIndex, fret);
@@ -430,6 +574,81 @@ export const AccessibleFretboard: React.FC<AccessibleFretboardProps> = ({
           );
         })}
 
+        {/* スケール・アルペジオの音（開放弦はヘッダー行の位置に描画） */}
+        {(notePositions ?? []).map(note => {
+          if (note.fret !== 0 && (note.fret < fretRange.start || note.fret > fretRange.end)) return null;
+          if (note.fret === 0 && fretRange.start > 0) return null;
+
+          const dotPos = getChordDotPosition(note.stringIndex, note.fret);
+          const pos = note.fret === 0 && orientation === 'horizontal'
+            ? { cx: 80, cy: getStringPosition(note.stringIndex).y1 }
+            : dotPos;
+          const variant = note.variant ?? 'default';
+          const isInteractive = !!(onStringPlay || (interactive && onFretToggle));
+          const positionLabel = `${6 - note.stringIndex}弦 ${note.fret === 0 ? '開放' : `${note.fret}フレット`}`;
+
+          return (
+            <g
+              key={`note-${note.stringIndex}-${note.fret}`}
+              className={clsx(isInteractive && 'cursor-pointer outline-none')}
+              tabIndex={isInteractive ? 0 : undefined}
+              role={isInteractive ? 'button' : undefined}
+              aria-label={`${positionLabel}${note.label ? ` ${note.label}` : ''}${NOTE_VARIANT_LABELS[variant]}`}
+              onClick={isInteractive ? () => (interactive && onFretToggle
+                ? onFretToggle(note.stringIndex, note.fret)
+                : onStringPlay?.(note.stringIndex, note.fret)) : undefined}
+              onKeyDown={isInteractive ? e => handleKeyDown(e, note.stringIndex, note.fret) : undefined}
+            >
+              <circle
+                cx={pos.cx}
+                cy={pos.cy}
+                r={note.fret === 0 ? '10' : '14'}
+                fill={NOTE_VARIANT_COLORS[variant].fill}
+                stroke={NOTE_VARIANT_COLORS[variant].stroke}
+                strokeWidth="3"
+                strokeDasharray={variant === 'missing' ? '4 3' : undefined}
+                className="transition-all duration-150"
+              />
+              {(note.label || variant === 'extra') && (
+                <text
+                  x={pos.cx}
+                  y={pos.cy + 4}
+                  textAnchor="middle"
+                  className={clsx(
+                    'text-xs font-semibold pointer-events-none',
+                    variant === 'missing' ? 'fill-gray-600' : 'fill-white'
+                  )}
+                  aria-hidden="true"
+                >
+                  {variant === 'extra' ? '×' : note.label}
+                </text>
+              )}
+            </g>
+          );
+        })}
+
+        {/* インタラクティブモード: 開放弦の選択エリア（音の位置の表示モード） */}
+        {isNoteMode && interactive && onFretToggle && fretRange.start === 0 && orientation === 'horizontal' &&
+          Array.from({ length: 6 }, (_, stringIndex) => {
+            if (isNoteAt(stringIndex, 0)) return null;
+
+            return (
+              <circle
+                key={`open-target-${stringIndex}`}
+                cx={80}
+                cy={getStringPosition(stringIndex).y1}
+                r="10"
+                fill="#F3F4F6"
+                className="cursor-pointer hover:fill-blue-100 focus:fill-blue-100 outline-none"
+                tabIndex={0}
+                role="button"
+                aria-label={`${6 - stringIndex}弦 開放を追加`}
+                onClick={() => onFretToggle(stringIndex, 0)}
+                onKeyDown={e => handleKeyDown(e, stringIndex, 0)}
+              />
+            );
+          })}
+
         {/* フレット番号 */}
         {Array.from({ length: fretRange.end - fretRange.start }, (_, i) => {
           const fretIndex = i + fretRange.start + 1;
@@ -449,8 +668,68 @@ export const AccessibleFretboard: React.FC<AccessibleFretboardProps> = ({
           );
         })}
 
+        {/* ヘッダー行: 弦の状態（○ = 開放弦、× = ミュート） */}
+        {chordPattern && !isNoteMode && chordPattern.frets.map((fret, stringIndex) => {
+          const stringPos = getStringPosition(stringIndex);
+          const state = getStringState(fret !== null && fret <= capoPosition ? 0 : fret);
+          const isToggleable = interactive && !!onStringStateToggle;
+          const x = orientation === 'horizontal' ? 80 : stringPos.x1;
+          const y = orientation === 'horizontal' ? stringPos.y1 : 45;
+          const stateLabel = state === 'muted' ? 'ミュート' : state === 'open' ? '開放' : `${fret}フレット`;
+
+          if (state === 'fretted' && !isToggleable) return null;
+
+          return (
+            <g
+              key={`string-state-${stringIndex}`}
+              className={clsx(isToggleable && 'cursor-pointer outline-none')}
+              tabIndex={isToggleable ? 0 : undefined}
+              role={isToggleable ? 'button' : undefined}
+              aria-label={
+                isToggleable
+                  ? `${6 - stringIndex}弦 ${stateLabel}（クリックで${state === 'muted' ? '開放' : 'ミュート'}）`
+                  : undefined
+              }
+              onClick={isToggleable ? () => onStringStateToggle(stringIndex) : undefined}
+              onKeyDown={
+                isToggleable
+                  ? e => {
+                      if (e.key === 'Enter' || e.key === ' ') {
+                        e.preventDefault();
+                        onStringStateToggle(stringIndex);
+                        manageFocus.announce(`${6 - stringIndex}弦を${state === 'muted' ? '開放' : 'ミュート'}にしました`);
+                      }
+                    }
+                  : undefined
+              }
+            >
+              <circle
+                cx={x}
+                cy={y}
+                r="10"
+                fill={isToggleable ? '#F3F4F6' : 'transparent'}
+                className={clsx(isToggleable && 'hover:fill-blue-100')}
+              />
+              {state !== 'fretted' && (
+                <text
+                  x={x}
+                  y={y + 5}
+                  textAnchor="middle"
+                  className={clsx(
+                    'text-sm font-semibold pointer-events-none',
+                    state === 'muted' ? 'fill-red-500' : 'fill-gray-700'
+                  )}
+                  aria-hidden="true"
+                >
+                  {state === 'muted' ? '×' : '○'}
+                </text>
+              )}
+            </g>
+          );
+        })}
+
         {/* 弦名ラベル */}
-        {['E', 'A', 'D', 'G', 'B', 'E'].map((stringName, index) => {
+        {stringLabels.map((stringName, index) => {
           const stringPos = getStringPosition(index);
           return (
             <text
@@ -469,7 +748,7 @@ export const AccessibleFretboard: React.FC<AccessibleFretboardProps> = ({
 
       {/* 弦名表示 */}
       <div className="mt-4 grid grid-cols-6 gap-2 text-center">
-        {['E', 'A', 'D', 'G', 'B', 'E'].map((stringName, index) => (
+        {stringLabels.map((stringName, index) => (
           <div key={`string-name-${index}`} className="text-sm">
             <div className="font-semibold text-gray-900">{stringName}</div>
             <div className="text-xs text-gray-600">{6 - index}弦</div>
@@ -477,39 +756,77 @@ export const AccessibleFretboard: React.FC<AccessibleFretboardProps> = ({
         ))}
       </div>
 
-      {/* アクセシビリティ情報 */}
-      <div className="mt-4 p-3 bg-gray-50 rounded-lg">
-        <h4 className="text-sm font-semibold text-gray-900 mb-2">コード情報</h4>
-        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 text-xs text-gray-600">
-          <div>
-            <span className="font-medium">コード名:</span> {chordPattern.name}
-          </div>
-          <div>
-            <span className="font-medium">難易度:</span>{' '}
-            {chordPattern.difficulty}
-          </div>
-          <div>
-            <span className="font-medium">ルート音:</span> {chordPattern.root}
-          </div>
-          <div>
-            <span className="font-medium">種類:</span> {chordPattern.quality}
+      {/* アクセシビリティ情報（音の位置） */}
+      {isNoteMode && (
+        <div className="mt-4 p-3 bg-gray-50 rounded-lg">
+          <h4 className="text-sm font-semibold text-gray-900 mb-2">押弦位置</h4>
+          <div className="text-xs text-gray-600">
+            {stringLabels.map((_, stringIndex) => {
+              const frets = (notePositions ?? [])
+                .filter(note => note.stringIndex === stringIndex && note.variant !== 'missing')
+                .map(note => note.fret)
+                .sort((a, b) => a - b);
+              return (
+                <span key={stringIndex} className="mr-3">
+                  {6 - stringIndex}弦: {frets.length > 0 ? frets.map(fret => (fret === 0 ? '開放' : `${fret}F`)).join(', ') : 'なし'}
+                </span>
+              );
+            })}
           </div>
         </div>
+      )}
 
-        {/* 押弦位置の詳細情報 */}
-        <div className="mt-3">
-          <div className="font-medium text-gray-900 text-sm mb-1">
-            押弦位置:
+      {/* アクセシビリティ情報 */}
+      {chordPattern && !isNoteMode && (
+        <div className="mt-4 p-3 bg-gray-50 rounded-lg">
+          <h4 className="text-sm font-semibold text-gray-900 mb-2">コード情報</h4>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 text-xs text-gray-600">
+            <div>
+              <span className="font-medium">コード名:</span> {chordPattern.name}
+            </div>
+            <div>
+              <span className="font-medium">難易度:</span>{' '}
+              {chordPattern.difficulty}
+            </div>
+            <div>
+              <span className="font-medium">ルート音:</span> {chordPattern.root}
+            </div>
+            <div>
+              <span className="font-medium">種類:</span> {chordPattern.quality}
+            </div>
           </div>
-          <div className="text-xs text-gray-600">
-            {chordPattern.frets.map((fret, index) => (
-              <span key={index} className="mr-3">
-                {6 - index}弦: {fret === null ? '開放' : `${fret}F`}
-              </span>
-            ))}
+
+          {/* バレー情報 */}
+          {chordPattern.barres && chordPattern.barres.length > 0 && (
+            <div className="mt-3">
+              <div className="font-medium text-gray-900 text-sm mb-1">
+                バレー:
+              </div>
+              <div className="text-xs text-gray-600">
+                {chordPattern.barres.map(barre => (
+                  <span key={`${barre.fret}-${barre.fromString}`} className="mr-3">
+                    {describeBarre(barre)}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* 押弦位置の詳細情報 */}
+          <div className="mt-3">
+            <div className="font-medium text-gray-900 text-sm mb-1">
+              押弦位置:
+            </div>
+            <div className="text-xs text-gray-600">
+              {chordPattern.frets.map((fret, index) => (
+                <span key={index} className="mr-3">
+                  {6 - index}弦: {fret === null ? 'ミュート' : fret === 0 ? '開放' : `${fret}F`}
+                </span>
+              ))}
+            </div>
           </div>
         </div>
-      </div>
+      )}
     </div>
   );
 };
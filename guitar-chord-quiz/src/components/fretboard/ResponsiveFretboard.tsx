@@ -8,9 +8,9 @@
 'use client';
 
 import React, { useMemo } from 'react';
-import { ChordPattern } from '../../types';
+import { ChordPattern, Tuning } from '../../types';
 import { useResponsiveBreakpoints, useScreenWidth, useIsTouchDevice } from '../../hooks/useMediaQuery';
-import { calculateFretboardSize } from '../../lib/fretboard';
+import { calculateFretboardSize, describeBarre } from '../../lib/fretboard';
 import { AccessibleFretboard } from './AccessibleFretboard';
 import clsx from 'clsx';
 
@@ -28,6 +28,8 @@ interface ResponsiveFretboardProps {
   showFingers?: boolean;
   /** カポタストの位置（0は未使用） */
   capoPosition?: number;
+  /** チューニング（省略時はコードパターンのチューニング） */
+  tuning?: Tuning;
   /** 追加のCSSクラス */
   className?: string;
   /** 弦再生時のコールバック */
@@ -36,6 +38,8 @@ interface ResponsiveFretboardProps {
   interactive?: boolean;
   /** 押弦位置設定/解除のコールバック */
   onFretToggle?: (string: number, fret: number) => void;
+  /** 弦のミュート/開放切り替えのコールバック */
+  onStringStateToggle?: (string: number) => void;
   /** フレット範囲を手動で指定（省略時は画面サイズに応じて自動設定） */
   fretRange?: { start: number; end: number };
 }
@@ -114,10 +118,12 @@ export const ResponsiveFretboard: React.FC<ResponsiveFretboardProps> = ({
   chordPattern,
   showFingers = false,
   capoPosition = 0,
+  tuning,
   className,
   onStringPlay,
   interactive = false,
   onFretToggle,
+  onStringStateToggle,
   fretRange,
 }) => {
   // レスポンシブ設定を取得
@@ -200,10 +206,12 @@ export const ResponsiveFretboard: React.FC<ResponsiveFretboardProps> = ({
         orientation={deviceSettings.orientation}
         showFingers={showFingers}
         capoPosition={capoPosition}
+        tuning={tuning}
         onStringPlay={onStringPlay}
         fretRange={effectiveFretRange}
         interactive={interactive}
         onFretToggle={onFretToggle}
+        onStringStateToggle={onStringStateToggle}
         className={clsx(
           'responsive-fretboard__inner',
           // デバイス別スタイル調整
@@ -218,6 +226,7 @@ export const ResponsiveFretboard: React.FC<ResponsiveFretboardProps> = ({
       {/* レスポンシブ情報（アクセシビリティ用） */}
       <div className="sr-only" aria-live="polite">
         {deviceType}デバイスで{effectiveFretRange.end - effectiveFretRange.start}フレット表示中
+        {chordPattern.barres?.map(barre => ` • バレー ${describeBarre(barre)}`).join('')}
       </div>
     </div>
   );
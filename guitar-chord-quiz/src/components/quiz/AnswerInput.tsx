@@ -8,8 +8,10 @@
 'use client';
 
 import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { ChordPattern, DifficultyLevel } from '../../types';
-import { CHORD_PATTERNS } from '../../data/chord-patterns';
+import { ChordPattern, DifficultyLevel, TuningId } from '../../types';
+import { getChordsByDifficulty, getChordsByTuning } from '../../data/chord-patterns';
+import { applyCapo } from '../../lib/transposition';
+import { isEquivalentChordSymbol } from '../../lib/chord-symbols';
 import { useResponsiveBreakpoints } from '../../hooks/useMediaQuery';
 import clsx from 'clsx';
 
@@ -25,8 +27,14 @@ interface AnswerInputProps {
   onSubmit: (answer: string) => void;
   /** 入力無効化フラグ */
   disabled?: boolean;
-  /** 現在の難易度（コード候補の絞り込み用） */
-  difficulty: DifficultyLevel;
+  /** 現在の難易度（コード候補の絞り込み用、省略時は全難易度） */
+  difficulty?: DifficultyLevel;
+  /** 現在のチューニング（コード候補の絞り込み用） */
+  tuning?: TuningId;
+  /** コード候補（デッキ出題時。指定すると難易度・チューニングより優先） */
+  chordNames?: string[];
+  /** カポタストの位置（難易度・チューニングのコード候補を実音のコード名で表示） */
+  capoPosition?: number;
   /** 追加のCSSクラス */
   className?: string;
   /** プレースホルダーテキスト */
@@ -56,12 +64,22 @@ interface DesktopAnswerInputProps extends AnswerInputProps {
 // =============================================================================
 
 /**
- * 難易度に応じたコード候補を取得
+ * 難易度・チューニング・カポに応じたコード候補を取得
  */
-const getChordOptions = (difficulty: DifficultyLevel): string[] => {
-  return CHORD_PATTERNS
-    .filter(chord => chord.difficulty === difficulty)
-    .map(chord => chord.name)
+const getChordOptions = (
+  difficulty?: DifficultyLevel,
+  tuning: TuningId = 'standard',
+  chordNames?: string[],
+  capoPosition: number = 0
+): string[] => {
+  const difficultyChords = difficulty ? getChordsByDifficulty(difficulty, tuning) : [];
+  // getRandomChord と同様、該当難易度がなければチューニング内の全コードを候補にする
+  const names = chordNames && chordNames.length > 0
+    ? chordNames
+    : (difficultyChords.length > 0 ? difficultyChords : getChordsByTuning(tuning))
+        .map(chord => applyCapo(chord, capoPosition).name);
+
+  return Array.from(new Set(names))
     .sort((a, b) => {
       // 基本的なコードを優先する簡易ソート
       const basicChords = ['C', 'G', 'D', 'A', 'E', 'Am', 'Em', 'Dm', 'F'];
@@ -83,9 +101,9 @@ const filterSuggestions = (input: string, options: string[], maxResults: number
   
   const lowercaseInput = input.toLowerCase();
   
-  // 完全一致を最優先
+  // 同じコードを表す候補を最優先（例: "A#" → "Bb"、"CM7" → "Cmaj7"。"Am" と "AM" は区別する）
   const exactMatches = options.filter(option => 
-    option.toLowerCase() === lowercaseInput
+    isEquivalentChordSymbol(input, option)
   );
   
   // 前方一致を次に優先
@@ -115,13 +133,16 @@ const MobileAnswerInput: React.FC<MobileAnswerInputProps> = ({
   onSubmit,
   disabled = false,
   difficulty,
+  tuning,
+  chordNames,
+  capoPosition,
   className,
   itemsPerPage = 6,
 }) => {
   const [currentPage, setCurrentPage] = useState(0);
   const [searchQuery, setSearchQuery] = useState('');
   
-  const chordOptions = getChordOptions(difficulty);
+  const chordOptions = getChordOptions(difficulty, tuning, chordNames, capoPosition);
   const filteredOptions = searchQuery 
     ? filterSuggestions(searchQuery, chordOptions, 50)
     : chordOptions;
@@ -269,6 +290,9 @@ const DesktopAnswerInput: React.FC<DesktopAnswerInputProps> = ({
   onSubmit,
   disabled = false,
   difficulty,
+  tuning,
+  chordNames,
+  capoPosition,
   className,
   placeholder = 'コード名を入力...',
   autoFocus = false,
@@ -282,7 +306,7 @@ const DesktopAnswerInput: React.FC<DesktopAnswerInputProps> = ({
   const inputRef = useRef<HTMLInputElement>(null);
   const suggestionRefs = useRef<(HTMLLIElement | null)[]>([]);
 
-  const chordOptions = getChordOptions(difficulty);
+  const chordOptions = getChordOptions(difficulty, tuning, chordNames, capoPosition);
 
   // オートフォーカス
   useEffect(() => {
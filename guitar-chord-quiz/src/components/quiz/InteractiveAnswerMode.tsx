@@ -1,9 +1,12 @@
 'use client';
 
 import React, { useState, useCallback } from 'react';
-import { ChordPattern } from '@/types';
+import { ChordPattern, Tuning } from '@/types';
 import { AccessibleFretboard } from '@/components/fretboard/AccessibleFretboard';
 import { Button } from '@/components/ui/Button';
+import { getTuning } from '@/data/tuning-presets';
+import { patternToFrets, createOpenPattern, MUTED_FRET_KEY } from '@/lib/fretboard';
+import { gradeVoicing, VoicingGrade } from '@/lib/theory';
 
 /**
  * インタラクティブ回答モードコンポーネント
@@ -24,6 +27,8 @@ interface InteractiveAnswerModeProps {
   hintsUsed?: number;
   /** 最大ヒント数 */
   maxHints?: number;
+  /** チューニング（省略時はコードパターンのチューニング） */
+  tuning?: Tuning;
 }
 
 export const InteractiveAnswerMode: React.FC<InteractiveAnswerModeProps> = ({
@@ -34,61 +39,76 @@ export const InteractiveAnswerMode: React.FC<InteractiveAnswerModeProps> = ({
   onClear,
   hintsUsed = 0,
   maxHints = 3,
+  tuning,
 }) => {
-  const [userFrets, setUserFrets] = useState<Set<string>>(new Set());
+  const [userFrets, setUserFrets] = useState<Set<string>>(createOpenPattern);
   const [showResult, setShowResult] = useState(false);
   const [feedback, setFeedback] = useState<'correct' | 'incorrect' | null>(null);
+  const [grade, setGrade] = useState<VoicingGrade | null>(null);
   const [showCorrectAnswer, setShowCorrectAnswer] = useState(false);
 
   /**
-   * フレット位置のトグル処理
+   * 弦の状態を更新
+   * 押弦キーは "弦番号-フレット"（弦番号はフレット配列のインデックス+1、x = ミュート、0 = 開放弦）
+   * 各弦は常にミュート・開放・押弦のいずれか1つの状態を持つ
    */
-  const handleFretToggle = useCallback((string: number, fret: number) => {
-    const fretKey = `${string}-${fret}`;
+  const updateString = useCallback((stringIndex: number, getNextFret: (current: string | undefined) => string) => {
+    const stringKey = `${stringIndex + 1}-`;
     setUserFrets(prev => {
-      const newUserFrets = new Set(prev);
-      
-      if (newUserFrets.has(fretKey)) {
-        newUserFrets.delete(fretKey);
-      } else {
-        newUserFrets.add(fretKey);
-      }
+      const current = Array.from(prev).find(key => key.startsWith(stringKey));
+      const newUserFrets = new Set(
+        Array.from(prev).filter(key => !key.startsWith(stringKey))
+      );
       
+      newUserFrets.add(`${stringKey}${getNextFret(current?.slice(stringKey.length))}`);
       return newUserFrets;
     });
     
     // 結果表示をリセット
     setShowResult(false);
     setFeedback(null);
+    setGrade(null);
   }, []);
 
+  /**
+   * フレット位置のトグル処理（押弦中の位置をもう一度押すと開放弦に戻る）
+   */
+  const handleFretToggle = useCallback((stringIndex: number, fret: number) => {
+    updateString(stringIndex, current => (current === String(fret) ? '0' : String(fret)));
+  }, [updateString]);
+
+  /**
+   * ミュート/開放の切り替え処理（押弦中の弦はミュートになる）
+   */
+  const handleStringStateToggle = useCallback((stringIndex: number) => {
+    updateString(stringIndex, current => (current === MUTED_FRET_KEY ? '0' : MUTED_FRET_KEY));
+  }, [updateString]);
+
   /**
    * 回答チェック処理
+   * 押弦位置ではなく構成音で採点する（別ボイシング・重複音の省略も正解）
    */
   const handleAnswerCheck = useCallback(() => {
-    // 正解パターンを生成（1-indexedの弦番号）
-    const correctPattern = new Set(
-      chordPattern.frets
-        .map((fret, stringIndex) => fret !== null ? `${stringIndex + 1}-${fret}` : null)
-        .filter(Boolean) as string[]
+    const result = gradeVoicing(
+      chordPattern,
+      patternToFrets(userFrets),
+      tuning ?? getTuning(chordPattern.tuning)
     );
     
-    // 回答の正確性をチェック
-    const isCorrect = userFrets.size === correctPattern.size && 
-                     Array.from(userFrets).every(fret => correctPattern.has(fret));
-    
-    setFeedback(isCorrect ? 'correct' : 'incorrect');
+    setGrade(result);
+    setFeedback(result.isCorrect ? 'correct' : 'incorrect');
     setShowResult(true);
-    onAnswer(isCorrect, userFrets);
-  }, [chordPattern.frets, userFrets, onAnswer]);
+    onAnswer(result.isCorrect, userFrets);
+  }, [chordPattern, userFrets, tuning, onAnswer]);
 
   /**
    * すべてクリア処理
    */
   const handleClear = useCallback(() => {
-    setUserFrets(new Set());
+    setUserFrets(createOpenPattern());
     setShowResult(false);
     setFeedback(null);
+    setGrade(null);
     setShowCorrectAnswer(false);
     onClear();
   }, [onClear]);
@@ -105,12 +125,11 @@ export const InteractiveAnswerMode: React.FC<InteractiveAnswerModeProps> = ({
   const userChordPattern: ChordPattern = {
     ...chordPattern,
     name: '作成中...',
-    frets: Array.from({ length: 6 }, (_, index) => {
-      const stringNum = index + 1;
-      const fretMatch = Array.from(userFrets).find(f => f.startsWith(`${stringNum}-`));
-      return fretMatch ? parseInt(fretMatch.split('-')[1]) : null;
-    }),
+    frets: patternToFrets(userFrets),
+    barres: undefined,
   };
+  const userFrettedCount = userChordPattern.frets.filter(fret => fret !== null && fret > 0).length;
+  const userSoundingCount = userChordPattern.frets.filter(fret => fret !== null).length;
 
   return (
     <div className="space-y-6">
@@ -125,7 +144,7 @@ export const InteractiveAnswerMode: React.FC<InteractiveAnswerModeProps> = ({
           フレットボード上に押弦位置を設定してください
         </p>
         <div className="text-sm text-purple-600">
-          クリックまたはタップして押弦位置を選択
+          クリックまたはタップして押弦位置を選択、弦の左端の○×で開放/ミュートを切り替え
         </div>
       </div>
 
@@ -136,15 +155,17 @@ export const InteractiveAnswerMode: React.FC<InteractiveAnswerModeProps> = ({
             あなたの回答
           </h4>
           <div className="text-sm text-gray-600">
-            選択中の押弦位置: {userFrets.size}個
+            押弦: {userFrettedCount}箇所 • 鳴らす弦: {userSoundingCount}本
           </div>
         </div>
         
         <AccessibleFretboard
           chordPattern={userChordPattern}
           orientation="horizontal"
+          tuning={tuning}
           interactive={true}
           onFretToggle={handleFretToggle}
+          onStringStateToggle={handleStringStateToggle}
         />
       </div>
 
@@ -172,7 +193,7 @@ export const InteractiveAnswerMode: React.FC<InteractiveAnswerModeProps> = ({
         <Button 
           variant="primary" 
           onClick={handleAnswerCheck} 
-          disabled={userFrets.size === 0}
+          disabled={userSoundingCount === 0}
           className="flex items-center justify-center space-x-2"
         >
           <span>✓</span>
@@ -198,6 +219,7 @@ export const InteractiveAnswerMode: React.FC<InteractiveAnswerModeProps> = ({
           <AccessibleFretboard
             chordPattern={chordPattern}
             orientation="horizontal"
+            tuning={tuning}
             interactive={false}
           />
           <div className="mt-3 text-sm text-blue-800">
@@ -241,10 +263,40 @@ export const InteractiveAnswerMode: React.FC<InteractiveAnswerModeProps> = ({
             feedback === 'correct' ? 'text-green-800' : 'text-red-800'
           }`}>
             {feedback === 'correct' ? (
-              <p>素晴らしい！正確にコードを作成できました。</p>
+              <div className="space-y-1">
+                <p>素晴らしい！正確にコードを作成できました。</p>
+                {grade && grade.omittedNotes.length > 0 && (
+                  <p className="text-sm">
+                    省略した音: {grade.omittedNotes.join(', ')}（省略可能な構成音です）
+                  </p>
+                )}
+              </div>
             ) : (
               <div className="space-y-2">
-                <p>もう一度チャレンジしてみてください。</p>
+                {grade && (
+                  <ul className="text-sm space-y-1">
+                    <li>押さえた音: {grade.playedNotes.length > 0 ? grade.playedNotes.join(', ') : 'なし'}</li>
+                    {!grade.hasRoot && (
+                      <li>ルート音 {chordPattern.root} が含まれていません</li>
+                    )}
+                    {grade.missingNotes.length > 0 && (
+                      <li>足りない音: {grade.missingNotes.join(', ')}</li>
+                    )}
+                    {grade.wrongNotes.length > 0 && (
+                      <li>コードに含まれない音: {grade.wrongNotes.join(', ')}</li>
+                    )}
+                    {grade.stringErrors.map(error => (
+                      <li key={error.stringNumber}>
+                        {error.stringNumber}弦: {error.expected === 'muted'
+                          ? 'ミュートすべき弦を鳴らしています'
+                          : 'ベース音の弦をミュートしています'}
+                      </li>
+                    ))}
+                    {grade.identifiedName && (
+                      <li>このボイシングは {grade.identifiedName} として聞こえます</li>
+                    )}
+                  </ul>
+                )}
                 <p className="text-sm">
                   ヒント機能や正解表示を使って学習を進めましょう。
                 </p>
@@ -0,0 +1,143 @@
+/**
+ * マイク回答コンポーネント
+ *
+ * @description 実際のギターで出題コードを弾いて回答するUIコンポーネント
+ * @author Claude Code
+ */
+
+'use client';
+
+import React, { useEffect } from 'react';
+import { ChordPattern, Tuning } from '../../types';
+import { useMicrophoneChordInput } from '../../hooks/useMicrophoneChordInput';
+import clsx from 'clsx';
+
+// =============================================================================
+// Types - 型定義
+// =============================================================================
+
+/**
+ * マイク回答コンポーネントのプロパティ
+ */
+interface MicrophoneAnswerProps {
+  /** 出題中のコード */
+  chord: ChordPattern | null;
+  /** 出題コードのチューニング */
+  tuning: Tuning;
+  /** 出題コードが弾かれたときのコールバック */
+  onMatch: () => void;
+  /** 判定を止めるか（結果表示中など） */
+  disabled?: boolean;
+  /** 共有AudioContextの取得関数 */
+  getAudioContext?: () => AudioContext | null;
+  /** 追加のCSSクラス */
+  className?: string;
+}
+
+// =============================================================================
+// Main Component - メインコンポーネント
+// =============================================================================
+
+/**
+ * マイク回答コンポーネント
+ *
+ * 聞こえた音と足りない構成音を表示し、出題コードと一致したら onMatch を呼ぶ。
+ * 一致しない間は回答扱いにしないので、何度でも弾き直せる
+ *
+ * @example
+ * ```tsx
+ * <MicrophoneAnswer chord={currentChord} tuning={tuning} onMatch={() => submit(currentChord.name)} />
+ * ```
+ */
+export const MicrophoneAnswer: React.FC<MicrophoneAnswerProps> = ({
+  chord,
+  tuning,
+  onMatch,
+  disabled = false,
+  getAudioContext,
+  className,
+}) => {
+  const { isListening, error, lastResult, start, stop } = useMicrophoneChordInput({
+    chord: disabled ? null : chord,
+    tuning,
+    onMatch,
+    getAudioContext,
+  });
+
+  // 出題がなくなったら（ゲーム終了時）録音を止める。結果表示中は録音を続け、次の問題で再び判定する
+  useEffect(() => {
+    if (!chord) stop();
+  }, [chord, stop]);
+
+  const scorePercent = lastResult ? Math.round(lastResult.score * 100) : 0;
+
+  return (
+    <div className={clsx('space-y-3', className)}>
+      {isListening ? (
+        <button
+          onClick={stop}
+          className="w-full py-3 rounded-lg font-medium transition-all duration-200
+                   bg-red-500 text-white hover:bg-red-600 active:bg-red-700
+                   focus:ring-2 focus:ring-red-500 focus:ring-offset-2"
+        >
+          ⏹ マイクを停止
+        </button>
+      ) : (
+        <button
+          onClick={() => start()}
+          className="w-full py-3 rounded-lg font-medium transition-all duration-200
+                   bg-blue-500 text-white hover:bg-blue-600 active:bg-blue-700
+                   focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+        >
+          🎤 マイクで回答
+        </button>
+      )}
+
+      {error && <p role="alert" className="text-sm text-red-600">{error}</p>}
+
+      {isListening && (
+        <div className="rounded-lg bg-gray-50 p-3 text-sm space-y-2" aria-live="polite">
+          {disabled ? (
+            <p className="text-gray-500">次の問題を待っています…</p>
+          ) : !lastResult || lastResult.isSilent ? (
+            <p className="text-gray-600">ギターでコードを弾いてください</p>
+          ) : (
+            <>
+              <div>
+                <span className="text-gray-600">聞こえた音: </span>
+                <span className="font-mono font-semibold text-gray-900">
+                  {lastResult.detectedNotes.join(' ') || '-'}
+                </span>
+              </div>
+              {lastResult.missingNotes.length > 0 && (
+                <div>
+                  <span className="text-gray-600">足りない音: </span>
+                  <span className="font-mono font-semibold text-orange-600">
+                    {lastResult.missingNotes.join(' ')}
+                  </span>
+                </div>
+              )}
+              <div>
+                <div className="flex justify-between text-gray-600">
+                  <span>一致度</span>
+                  <span>{scorePercent}%</span>
+                </div>
+                <div className="h-2 rounded-full bg-gray-200 overflow-hidden">
+                  <div
+                    className={clsx(
+                      'h-full transition-all duration-200',
+                      lastResult.isMatch ? 'bg-green-500' : 'bg-blue-400'
+                    )}
+                    style={{ width: `${scorePercent}%` }}
+                  />
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MicrophoneAnswer;
@@ -0,0 +1,91 @@
+/**
+ * 選択式回答コンポーネント
+ *
+ * @description 正解と紛らわしいコードを並べた選択肢から回答するUIコンポーネント
+ * @author Claude Code
+ */
+
+'use client';
+
+import React from 'react';
+import { isEquivalentChordSymbol } from '../../lib/chord-symbols';
+import clsx from 'clsx';
+
+// =============================================================================
+// Types - 型定義
+// =============================================================================
+
+/**
+ * 選択式回答コンポーネントのプロパティ
+ */
+interface MultipleChoiceAnswerProps {
+  /** 選択肢（コード名） */
+  choices: string[];
+  /** 回答時のコールバック */
+  onSubmit: (answer: string) => void;
+  /** 入力無効化フラグ（結果表示中など） */
+  disabled?: boolean;
+  /** 正解のコード名（指定すると正解・選んだ選択肢を色分けして表示） */
+  correctAnswer?: string;
+  /** 選んだ選択肢 */
+  selectedAnswer?: string | null;
+  /** 追加のCSSクラス */
+  className?: string;
+}
+
+// =============================================================================
+// Main Component - メインコンポーネント
+// =============================================================================
+
+/**
+ * 選択式回答コンポーネント
+ *
+ * @example
+ * ```tsx
+ * <MultipleChoiceAnswer choices={['A', 'Am', 'Am7', 'C']} onSubmit={handleAnswerSubmit} />
+ * ```
+ */
+export const MultipleChoiceAnswer: React.FC<MultipleChoiceAnswerProps> = ({
+  choices,
+  onSubmit,
+  disabled = false,
+  correctAnswer,
+  selectedAnswer,
+  className,
+}) => {
+  return (
+    <div
+      className={clsx('grid grid-cols-2 gap-3', className)}
+      role="group"
+      aria-label="コードを選択"
+    >
+      {choices.map((choice, index) => {
+        const isCorrect = correctAnswer !== undefined && isEquivalentChordSymbol(choice, correctAnswer);
+        const isSelected = selectedAnswer === choice;
+
+        return (
+          <button
+            key={choice}
+            onClick={() => onSubmit(choice)}
+            disabled={disabled}
+            aria-pressed={isSelected}
+            className={clsx(
+              'py-3 rounded-lg border-2 text-lg font-semibold transition-colors duration-150',
+              'focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:cursor-not-allowed',
+              isCorrect
+                ? 'bg-green-500 border-green-500 text-white'
+                : isSelected && correctAnswer !== undefined
+                  ? 'bg-red-500 border-red-500 text-white'
+                  : 'bg-white border-gray-200 text-gray-800 hover:border-blue-400 hover:bg-blue-50 disabled:opacity-60'
+            )}
+          >
+            <span className="mr-2 text-xs text-gray-400" aria-hidden="true">{index + 1}</span>
+            {choice}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default MultipleChoiceAnswer;
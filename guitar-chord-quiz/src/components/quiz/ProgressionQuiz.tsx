@@ -0,0 +1,401 @@
+'use client';
+
+/**
+ * コード進行クイズコンポーネント
+ *
+ * @description 調の中で再生したコード進行を、コード名またはローマ数字で答えるクイズ
+ * @author Claude Code
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { KeyMode, MusicalKey, NoteName } from '../../types';
+import {
+  ChordProgression,
+  ProgressionStep,
+  formatNumerals,
+  getAnswerChoices,
+  getPlayableKeys,
+  getProgressionSteps,
+  getProgressionsByMode,
+} from '../../data/progressions';
+import { KEY_MODE_LABELS, KeyChord, formatKeyName } from '../../lib/harmony';
+import { NOTE_NAMES } from '../../lib/theory';
+import { BPM_RANGE } from '../../lib/metronome';
+import { useAudio } from '../../hooks/useAudio';
+import { useProgressionPlayer } from '../../hooks/useProgressionPlayer';
+import { ResponsiveFretboard } from '../fretboard/ResponsiveFretboard';
+import { Button } from '../ui/Button';
+import clsx from 'clsx';
+
+// =============================================================================
+// Types - 型定義
+// =============================================================================
+
+/**
+ * 回答の表記
+ * - name: コード名（例: "G", "Em"）
+ * - roman: ローマ数字（例: "I", "vi"）
+ */
+type ProgressionAnswerFormat = 'name' | 'roman';
+
+/**
+ * コード進行クイズコンポーネントのプロパティ
+ */
+interface ProgressionQuizProps {
+  /** 追加のCSSクラス */
+  className?: string;
+}
+
+/**
+ * 出題中の問題
+ */
+interface ProgressionQuestion {
+  progression: ChordProgression;
+  key: MusicalKey;
+  steps: ProgressionStep[];
+}
+
+// =============================================================================
+// Constants - 定数
+// =============================================================================
+
+/**
+ * 回答の表記の表示名
+ */
+const ANSWER_FORMAT_LABELS: Record<ProgressionAnswerFormat, string> = {
+  name: '🔤 コード名',
+  roman: '🏛️ ローマ数字',
+};
+
+/**
+ * コードごとの拍数の選択肢
+ */
+const BEATS_PER_CHORD_OPTIONS = [2, 4] as const;
+
+/**
+ * 主音をランダムに選ぶ場合の値
+ */
+const RANDOM_TONIC = 'random';
+
+/**
+ * select要素の共通スタイル
+ */
+const SELECT_CLASS_NAME = `mt-1 px-3 py-2 rounded-lg border border-gray-300 bg-white text-gray-900
+  dark:bg-gray-700 dark:border-gray-600 dark:text-white`;
+
+// =============================================================================
+// Utility Functions - ユーティリティ関数
+// =============================================================================
+
+/**
+ * 配列からランダムに1つ選ぶ
+ */
+const pickRandom = <T,>(items: T[]): T => items[Math.floor(Math.random() * items.length)];
+
+/**
+ * 問題を作成（主音を指定しない場合は演奏できる調からランダム）
+ */
+const createQuestion = (mode: KeyMode, tonic: NoteName | typeof RANDOM_TONIC): ProgressionQuestion => {
+  const progression = pickRandom(getProgressionsByMode(mode));
+  const key = tonic === RANDOM_TONIC ? pickRandom(getPlayableKeys(progression)) : { tonic, mode };
+  return { progression, key, steps: getProgressionSteps(progression, key) };
+};
+
+/**
+ * 回答の表記に合わせたコードの表示
+ */
+const formatChord = (chord: KeyChord, format: ProgressionAnswerFormat): string =>
+  format === 'roman' ? chord.numeral : chord.name;
+
+// =============================================================================
+// Main Component - メインコンポーネント
+// =============================================================================
+
+/**
+ * コード進行クイズコンポーネント
+ *
+ * 進行は標準チューニングのボイシング（登録がなければ平行移動した形）で再生する
+ *
+ * @example
+ * ```tsx
+ * <ProgressionQuiz />
+ * ```
+ */
+export const ProgressionQuiz: React.FC<ProgressionQuizProps> = ({ className }) => {
+  const audio = useAudio();
+  const player = useProgressionPlayer(audio.playChord);
+  const { play, stop } = player;
+
+  const [mode, setMode] = useState<KeyMode>('major');
+  const [tonic, setTonic] = useState<NoteName | typeof RANDOM_TONIC>(RANDOM_TONIC);
+  const [format, setFormat] = useState<ProgressionAnswerFormat>('name');
+  const [bpm, setBpm] = useState(80);
+  const [beatsPerChord, setBeatsPerChord] = useState<number>(4);
+  const [question, setQuestion] = useState<ProgressionQuestion | null>(null);
+  const [answer, setAnswer] = useState<KeyChord[]>([]);
+  const [isAnswered, setIsAnswered] = useState(false);
+  const [selectedStep, setSelectedStep] = useState(0);
+  const [score, setScore] = useState({ correct: 0, total: 0 });
+
+  // 進行を再生
+  const playQuestion = useCallback(async (target: ProgressionQuestion) => {
+    if (!audio.isInitialized) {
+      await audio.enableAudio();
+    }
+    play(
+      target.steps.flatMap(step => (step.voicing ? [step.voicing] : [])),
+      bpm,
+      beatsPerChord
+    );
+  }, [audio, play, bpm, beatsPerChord]);
+
+  // 次の問題を出題
+  const showQuestion = useCallback((nextMode: KeyMode, nextTonic: NoteName | typeof RANDOM_TONIC, autoPlay: boolean) => {
+    const next = createQuestion(nextMode, nextTonic);
+    setQuestion(next);
+    setAnswer([]);
+    setIsAnswered(false);
+    setSelectedStep(0);
+    if (autoPlay) {
+      playQuestion(next);
+    } else {
+      stop();
+    }
+  }, [playQuestion, stop]);
+
+  // 初回の出題（サーバーとクライアントで乱数が異なるためマウント後に選ぶ）
+  useEffect(() => {
+    if (!question) showQuestion(mode, tonic, false);
+  }, [question, mode, tonic, showQuestion]);
+
+  const handleModeChange = (nextMode: KeyMode) => {
+    setMode(nextMode);
+    showQuestion(nextMode, tonic, false);
+  };
+
+  const handleTonicChange = (nextTonic: NoteName | typeof RANDOM_TONIC) => {
+    setTonic(nextTonic);
+    showQuestion(mode, nextTonic, false);
+  };
+
+  const handleChoice = (chord: KeyChord) => {
+    if (!question || isAnswered || answer.length >= question.steps.length) return;
+    setAnswer(prev => [...prev, chord]);
+  };
+
+  const handleSubmit = () => {
+    if (!question || isAnswered || answer.length !== question.steps.length) return;
+
+    const isCorrect = question.steps.every((step, index) => step.numeral === answer[index].numeral);
+    setIsAnswered(true);
+    setScore(prev => ({ correct: prev.correct + (isCorrect ? 1 : 0), total: prev.total + 1 }));
+  };
+
+  if (!question) return null;
+
+  const isCorrect = isAnswered && question.steps.every((step, index) => step.numeral === answer[index]?.numeral);
+  const choices = getAnswerChoices(question.key);
+  const displayedVoicing = question.steps[selectedStep]?.voicing;
+
+  return (
+    <div className={clsx('space-y-8', className)}>
+      {/* 出題設定 */}
+      <section className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-6 space-y-4">
+        <div className="flex flex-wrap items-end gap-6">
+          <label className="flex flex-col text-sm font-medium text-gray-700 dark:text-gray-300">
+            調の種類
+            <select
+              value={mode}
+              onChange={e => handleModeChange(e.target.value as KeyMode)}
+              className={SELECT_CLASS_NAME}
+            >
+              {(Object.keys(KEY_MODE_LABELS) as KeyMode[]).map(item => (
+                <option key={item} value={item}>{KEY_MODE_LABELS[item]}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col text-sm font-medium text-gray-700 dark:text-gray-300">
+            キー
+            <select
+              value={tonic}
+              onChange={e => handleTonicChange(e.target.value as NoteName | typeof RANDOM_TONIC)}
+              className={SELECT_CLASS_NAME}
+            >
+              <option value={RANDOM_TONIC}>ランダム</option>
+              {NOTE_NAMES.map(note => (
+                <option key={note} value={note}>{formatKeyName({ tonic: note, mode })}</option>
+              ))}
+            </select>
+          </label>
+          <div className="flex flex-wrap gap-2" role="group" aria-label="回答の表記">
+            {(Object.keys(ANSWER_FORMAT_LABELS) as ProgressionAnswerFormat[]).map(item => (
+              <button
+                key={item}
+                onClick={() => setFormat(item)}
+                aria-pressed={format === item}
+                className={clsx(
+                  'px-4 py-2 rounded-lg font-medium transition-colors',
+                  format === item
+                    ? 'bg-blue-500 text-white'
+                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300'
+                )}
+              >
+                {ANSWER_FORMAT_LABELS[item]}
+              </button>
+            ))}
+          </div>
+          <div className="ml-auto text-right">
+            <div className="text-2xl font-bold text-green-600">
+              {score.correct}/{score.total}
+            </div>
+            <div className="text-xs text-gray-500 dark:text-gray-400">正解数</div>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-6">
+          <label className="flex flex-col text-sm font-medium text-gray-700 dark:text-gray-300">
+            テンポ: {bpm} BPM
+            <input
+              type="range"
+              min={BPM_RANGE.min}
+              max={BPM_RANGE.max}
+              value={bpm}
+              onChange={e => setBpm(Number(e.target.value))}
+              className="mt-2 w-48 cursor-pointer"
+            />
+          </label>
+          <label className="flex flex-col text-sm font-medium text-gray-700 dark:text-gray-300">
+            コードごとの拍数
+            <select
+              value={beatsPerChord}
+              onChange={e => setBeatsPerChord(Number(e.target.value))}
+              className={SELECT_CLASS_NAME}
+            >
+              {BEATS_PER_CHORD_OPTIONS.map(beats => (
+                <option key={beats} value={beats}>{beats}拍</option>
+              ))}
+            </select>
+          </label>
+        </div>
+      </section>
+
+      {/* 問題 */}
+      <section className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-6 space-y-6">
+        <div className="flex flex-wrap items-center gap-4">
+          <div>
+            <div className="text-sm text-gray-500 dark:text-gray-400">キー</div>
+            <div className="text-2xl font-bold text-gray-900 dark:text-white">{formatKeyName(question.key)}</div>
+          </div>
+          <div className="ml-auto flex gap-2">
+            {player.isPlaying ? (
+              <Button variant="secondary" onClick={stop}>⏹️ 停止</Button>
+            ) : (
+              <Button variant="secondary" onClick={() => playQuestion(question)}>🔊 進行を再生</Button>
+            )}
+            {isAnswered && <Button onClick={() => showQuestion(mode, tonic, true)}>次の問題 →</Button>}
+          </div>
+        </div>
+
+        {/* 回答欄 */}
+        <ol className="grid grid-cols-2 sm:grid-cols-4 gap-3" aria-label="回答">
+          {question.steps.map((step, index) => {
+            const answered = answer[index];
+            const isStepCorrect = isAnswered && answered?.numeral === step.numeral;
+
+            return (
+              <li
+                key={index}
+                aria-current={player.currentIndex === index ? 'step' : undefined}
+                className={clsx(
+                  'rounded-lg border-2 p-3 text-center transition-colors',
+                  player.currentIndex === index && 'ring-2 ring-blue-400',
+                  isAnswered
+                    ? isStepCorrect ? 'border-green-400 bg-green-50' : 'border-red-400 bg-red-50'
+                    : answered ? 'border-blue-300 bg-blue-50' : 'border-dashed border-gray-300 dark:border-gray-600'
+                )}
+              >
+                <div className="text-xs text-gray-500">{index + 1}</div>
+                <div className="text-xl font-bold text-gray-900 dark:text-white min-h-[1.75rem]">
+                  {answered ? formatChord(answered, format) : '?'}
+                </div>
+                {isAnswered && (
+                  <button
+                    onClick={() => {
+                      setSelectedStep(index);
+                      if (step.voicing) audio.playChord(step.voicing);
+                    }}
+                    className="mt-1 text-sm text-gray-700 hover:underline"
+                  >
+                    {step.name}（{step.numeral}）
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+
+        {/* 選択肢 */}
+        {!isAnswered && (
+          <div className="space-y-3">
+            <div className="grid grid-cols-4 sm:grid-cols-7 gap-2" role="group" aria-label="コードを選択">
+              {choices.map(chord => (
+                <button
+                  key={chord.numeral}
+                  onClick={() => handleChoice(chord)}
+                  disabled={answer.length >= question.steps.length}
+                  className="py-2 rounded-lg border border-gray-300 bg-white font-semibold text-gray-700 transition-colors
+                           hover:bg-gray-100 disabled:opacity-50 dark:bg-gray-700 dark:border-gray-600 dark:text-gray-300"
+                >
+                  {formatChord(chord, format)}
+                </button>
+              ))}
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="secondary" onClick={() => setAnswer(prev => prev.slice(0, -1))} disabled={answer.length === 0}>
+                ⌫ 1つ戻す
+              </Button>
+              <Button variant="secondary" onClick={() => setAnswer([])} disabled={answer.length === 0}>
+                🗑️ クリア
+              </Button>
+              <Button onClick={handleSubmit} disabled={answer.length !== question.steps.length}>
+                ✓ 答え合わせ
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* 結果表示 */}
+        {isAnswered && (
+          <div
+            role="status"
+            className={clsx(
+              'rounded-lg border p-4',
+              isCorrect ? 'bg-green-50 border-green-200 text-green-900' : 'bg-red-50 border-red-200 text-red-900'
+            )}
+          >
+            <p className="font-semibold">{isCorrect ? '🎉 正解です！' : '❌ 不正解です'}</p>
+            <p className="text-sm mt-1">
+              {question.progression.name}: {formatNumerals(question.progression.numerals)}
+              （{question.steps.map(step => step.name).join(' → ')}）
+            </p>
+          </div>
+        )}
+
+        {isAnswered && displayedVoicing && (
+          <ResponsiveFretboard
+            chordPattern={displayedVoicing}
+            onStringPlay={audio.playString}
+            className="max-w-xl mx-auto"
+          />
+        )}
+        {isAnswered && (
+          <p className="text-xs text-gray-500 dark:text-gray-400 text-center">
+            コード名を押すと指板に表示して再生します
+          </p>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default ProgressionQuiz;
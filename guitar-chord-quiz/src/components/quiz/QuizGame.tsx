@@ -7,16 +7,34 @@
 
 'use client';
 
-import React, { useState, useCallback, useEffect } from 'react';
-import { DifficultyLevel } from '../../types';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { ChordPattern, ChordPlaybackStyle, DifficultyLevel, ChordSelectionMode, QuizMode, GameMode, QuizState, DEFAULT_MULTIPLE_CHOICE_SETTINGS } from '../../types';
 import { useQuizState } from '../../hooks/useQuizState';
+import { ScoreRecord, useGameSettings, useQuestionEvents, useScoreHistory } from '../../hooks/useLocalStorage';
+import { getTuning } from '../../data/tuning-presets';
+import { applyCapo } from '../../lib/transposition';
+import { ChordAnswerResult } from '../../lib/chord-symbols';
+import { ChordConfusion, QuestionSource, filterEventsBySource, getCommonConfusions } from '../../lib/chord-analytics';
+import { createAnswerChoices } from '../../lib/distractors';
+import { QuizEngineState } from '../../lib/quiz-engine';
+import {
+  GameOverReason,
+  GAME_MODES,
+  GAME_OVER_LABELS,
+  getRemainingLives,
+  getRemainingTime,
+} from '../../lib/game-modes';
 import { useResponsiveBreakpoints } from '../../hooks/useMediaQuery';
 import { ResponsiveFretboard } from '../fretboard/ResponsiveFretboard';
 import { AnswerInput } from './AnswerInput';
+import { MicrophoneAnswer } from './MicrophoneAnswer';
+import { MultipleChoiceAnswer } from './MultipleChoiceAnswer';
 import { useAudio } from '../../hooks/useAudio';
 import { AudioVisualizer } from '../ui/AudioVisualizer';
+import { PlaybackStyleControls } from '../ui/AudioControls';
 import { FeedbackAnimation, ScoreAnimation, StreakAnimation, PointsAnimation, HintAnimation } from '../ui/FeedbackAnimation';
 import { QuizLoader } from '../ui/LoadingSpinner';
+import { formatTime } from '../../lib/utils';
 import clsx from 'clsx';
 
 // =============================================================================
@@ -29,6 +47,18 @@ import clsx from 'clsx';
 interface QuizGameProps {
   /** 難易度設定 */
   difficulty: DifficultyLevel;
+  /** 出題コードの選び方（review: 復習期限の来たコードを優先） */
+  selectionMode?: ChordSelectionMode;
+  /** 出題形式（ear: 音だけで答える聴音モード） */
+  quizMode?: QuizMode;
+  /** 出題対象のコード（デッキ指定時。難易度・チューニングより優先） */
+  chordPool?: ChordPattern[];
+  /** ゲームモード（終了条件。endlessでは「ゲーム終了」を押すまで続く） */
+  gameMode?: GameMode;
+  /** 途中から再開する状態（保存されたセッションから復元したもの） */
+  savedState?: QuizEngineState;
+  /** ゲームの状態が変わったときのコールバック（セッションの保存用） */
+  onStateChange?: (state: QuizEngineState) => void;
   /** ゲーム終了時のコールバック */
   onGameEnd?: (finalScore: number, statistics: object) => void;
   /** 音声フック（オプション - 親から渡される場合） */
@@ -57,6 +87,71 @@ interface ScoreDisplayProps {
   correctAnswers: number;
 }
 
+/**
+ * 回答方法（choice: 選択肢から回答、microphone: ギターを弾いて回答）
+ */
+type AnswerInputMode = 'text' | 'choice' | 'microphone';
+
+/**
+ * ゲーム終了画面コンポーネントのプロパティ
+ */
+interface GameOverScreenProps {
+  /** 終了した理由 */
+  reason: GameOverReason;
+  /** ゲームモード */
+  gameMode: GameMode;
+  /** 終了時のクイズ状態 */
+  state: QuizState;
+  /** このモード・難易度のハイスコア */
+  highScores: ScoreRecord[];
+  /** 今回の記録のゲームID（ハイスコア内の強調表示用） */
+  currentGameId: string | null;
+  /** もう一度遊ぶ */
+  onRetry: () => void;
+  /** メニューに戻る */
+  onExit: () => void;
+}
+
+// =============================================================================
+// Constants - 定数
+// =============================================================================
+
+/**
+ * 難易度の表示名
+ */
+const DIFFICULTY_LABELS: Record<DifficultyLevel, string> = {
+  beginner: '初級',
+  intermediate: '中級',
+  advanced: '上級',
+};
+
+/**
+ * 回答方法の表示名
+ */
+const ANSWER_INPUT_MODE_LABELS: Record<AnswerInputMode, string> = {
+  text: '⌨️ 入力',
+  choice: '🔘 選択',
+  microphone: '🎤 ギター',
+};
+
+/**
+ * 選択肢のひっかけに使う取り違えの記録元（コード名で回答するもの）
+ */
+const CONFUSION_SOURCES: QuestionSource[] = ['quiz', 'interactive'];
+
+/**
+ * 選択肢のひっかけに使う取り違えの件数
+ */
+const CONFUSION_LIMIT = 50;
+
+/**
+ * 回答の判定結果の表示名
+ */
+const ANSWER_RESULT_LABELS: Record<ChordAnswerResult, string> = {
+  correct: '🎉 正解！',
+  partial: '🔶 おしい！ルート音は正解',
+  incorrect: '❌ 不正解',
+};
 
 // =============================================================================
 // Score Display Component - スコア表示コンポーネント
@@ -157,14 +252,11 @@ const ScoreDisplay: React.FC<ScoreDisplayProps> = ({
  */
 const GameStartScreen: React.FC<{
   difficulty: DifficultyLevel;
+  selectionMode: ChordSelectionMode;
+  quizMode: QuizMode;
+  gameMode: GameMode;
   onStart: () => void;
-}> = ({ difficulty, onStart }) => {
-  const difficultyLabels = {
-    beginner: '初級',
-    intermediate: '中級',
-    advanced: '上級',
-  };
-
+}> = ({ difficulty, selectionMode, quizMode, gameMode, onStart }) => {
   const difficultyDescriptions = {
     beginner: 'C, G, D, Am などの基本的なコード',
     intermediate: 'F, Bm, セブンスコードなど',
@@ -178,29 +270,49 @@ const GameStartScreen: React.FC<{
           ギターコードクイズ
         </h1>
         <p className="text-lg text-gray-600 max-w-2xl mx-auto">
-          フレットボードに表示されるコードの名前を当ててください
+          {quizMode === 'ear'
+            ? '👂 流れるコードの音を聞いて名前を当ててください'
+            : 'フレットボードに表示されるコードの名前を当ててください'}
         </p>
       </div>
 
       <div className="bg-white rounded-lg shadow-lg p-6 max-w-md w-full">
         <h2 className="text-xl font-semibold text-gray-800 mb-4 text-center">
-          選択された難易度
+          {selectionMode === 'review' ? '出題モード' : '選択された難易度'}
         </h2>
-        <div className="text-center space-y-2">
-          <div className={clsx(
-            'text-2xl font-bold',
-            {
-              'text-green-600': difficulty === 'beginner',
-              'text-yellow-600': difficulty === 'intermediate',
-              'text-red-600': difficulty === 'advanced',
-            }
-          )}>
-            {difficultyLabels[difficulty]}
+        {selectionMode === 'review' ? (
+          <div className="text-center space-y-2">
+            <div className="text-2xl font-bold text-purple-600">
+              復習モード
+            </div>
+            <p className="text-gray-600 text-sm">
+              復習期限の来たコード・まだ解いていないコードから優先して出題します
+            </p>
           </div>
-          <p className="text-gray-600 text-sm">
-            {difficultyDescriptions[difficulty]}
-          </p>
+        ) : (
+          <div className="text-center space-y-2">
+            <div className={clsx(
+              'text-2xl font-bold',
+              {
+                'text-green-600': difficulty === 'beginner',
+                'text-yellow-600': difficulty === 'intermediate',
+                'text-red-600': difficulty === 'advanced',
+              }
+            )}>
+              {DIFFICULTY_LABELS[difficulty]}
+            </div>
+            <p className="text-gray-600 text-sm">
+              {difficultyDescriptions[difficulty]}
+            </p>
+          </div>
+        )}
+      </div>
+
+      <div className="text-center space-y-1">
+        <div className="text-lg font-semibold text-gray-800">
+          {GAME_MODES[gameMode].icon} {GAME_MODES[gameMode].label}
         </div>
+        <p className="text-sm text-gray-600">{GAME_MODES[gameMode].description}</p>
       </div>
 
       <button
@@ -224,6 +336,196 @@ const GameStartScreen: React.FC<{
   );
 };
 
+// =============================================================================
+// Game Mode Components - ゲームモード表示コンポーネント
+// =============================================================================
+
+/**
+ * ゲームモードの進行状況（残りライフ・残り時間・問題数）
+ */
+const GameModeStatus: React.FC<{
+  gameMode: GameMode;
+  state: QuizState;
+}> = ({ gameMode, state }) => {
+  const rules = GAME_MODES[gameMode];
+  const remainingLives = getRemainingLives(gameMode, state);
+  const remainingTime = getRemainingTime(gameMode, state);
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm px-4 py-2 flex flex-wrap items-center justify-between gap-3">
+      <span className="font-semibold text-gray-800">
+        {rules.icon} {rules.label}
+      </span>
+      {remainingLives !== null && rules.lives !== undefined && (
+        <span className="text-xl" aria-label={`残りライフ ${remainingLives}`}>
+          {'❤️'.repeat(remainingLives)}{'🤍'.repeat(rules.lives - remainingLives)}
+        </span>
+      )}
+      {remainingTime !== null && (
+        <span
+          className={clsx(
+            'text-xl font-bold tabular-nums',
+            remainingTime <= 10 ? 'text-red-600' : 'text-purple-600'
+          )}
+          aria-label={`残り時間 ${remainingTime}秒`}
+        >
+          ⏱️ {formatTime(remainingTime)}
+        </span>
+      )}
+      {rules.questionLimit !== undefined && (
+        <span className="text-lg font-bold text-gray-700">
+          {Math.min(state.totalAnswers + 1, rules.questionLimit)} / {rules.questionLimit} 問
+        </span>
+      )}
+    </div>
+  );
+};
+
+/**
+ * ゲーム終了画面コンポーネント（結果とこのモードのハイスコア）
+ */
+const GameOverScreen: React.FC<GameOverScreenProps> = ({
+  reason,
+  gameMode,
+  state,
+  highScores,
+  currentGameId,
+  onRetry,
+  onExit,
+}) => {
+  const rules = GAME_MODES[gameMode];
+  const accuracy = state.totalAnswers > 0 ? Math.round((state.correctAnswers / state.totalAnswers) * 100) : 0;
+  const isNewRecord = currentGameId !== null && highScores[0]?.gameId === currentGameId;
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-[500px] space-y-8 p-8">
+      <div className="text-center space-y-2">
+        <h1 className="text-4xl font-bold text-gray-800">{GAME_OVER_LABELS[reason]}</h1>
+        <p className="text-gray-600">
+          {rules.icon} {rules.label}・{DIFFICULTY_LABELS[state.difficulty]}
+        </p>
+        {isNewRecord && (
+          <p className="text-xl font-bold text-yellow-600" role="status">🏆 ハイスコア更新！</p>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow-lg p-6 max-w-md w-full grid grid-cols-2 gap-4 text-center">
+        <div>
+          <div className="text-3xl font-bold text-blue-600">{state.score.toLocaleString()}</div>
+          <div className="text-sm text-gray-600">スコア</div>
+        </div>
+        <div>
+          <div className="text-3xl font-bold text-green-600">
+            {state.correctAnswers}
+            <span className="text-lg text-gray-500"> / {state.totalAnswers}</span>
+          </div>
+          <div className="text-sm text-gray-600">正解数</div>
+        </div>
+        <div>
+          <div className="text-3xl font-bold text-indigo-600">{accuracy}%</div>
+          <div className="text-sm text-gray-600">正答率</div>
+        </div>
+        <div>
+          <div className="text-3xl font-bold text-purple-600">{formatTime(state.timeElapsed)}</div>
+          <div className="text-sm text-gray-600">経過時間</div>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-lg p-6 max-w-md w-full">
+        <h2 className="text-lg font-semibold text-gray-800 mb-3">
+          🏆 ハイスコア（{rules.label}・{DIFFICULTY_LABELS[state.difficulty]}）
+        </h2>
+        {highScores.length > 0 ? (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-gray-500">
+                <th className="text-left py-1">順位</th>
+                <th className="text-right py-1">{rules.rankBy === 'score' ? 'スコア' : '正解数'}</th>
+                <th className="text-right py-1">{rules.rankBy === 'score' ? '正解数' : 'スコア'}</th>
+                <th className="text-right py-1">日付</th>
+              </tr>
+            </thead>
+            <tbody>
+              {highScores.map((record, index) => (
+                <tr
+                  key={record.gameId ?? record.date}
+                  className={clsx(record.gameId === currentGameId && 'bg-yellow-50 font-bold')}
+                >
+                  <td className="py-1">{index + 1}</td>
+                  <td className="text-right py-1">
+                    {rules.rankBy === 'score' ? record.score.toLocaleString() : record.correctAnswers}
+                  </td>
+                  <td className="text-right py-1">
+                    {rules.rankBy === 'score' ? record.correctAnswers : record.score.toLocaleString()}
+                  </td>
+                  <td className="text-right py-1 text-gray-500">
+                    {new Date(record.date).toLocaleDateString('ja-JP')}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <p className="text-sm text-gray-500">まだ記録がありません</p>
+        )}
+      </div>
+
+      <div className="flex gap-4">
+        <button
+          onClick={onRetry}
+          className="px-8 py-3 bg-blue-500 text-white font-semibold rounded-lg hover:bg-blue-600
+                   focus:ring-4 focus:ring-blue-500 focus:ring-offset-2"
+        >
+          もう一度
+        </button>
+        <button
+          onClick={onExit}
+          className="px-8 py-3 bg-gray-100 text-gray-700 font-semibold rounded-lg hover:bg-gray-200
+                   focus:ring-4 focus:ring-gray-300"
+        >
+          メニューに戻る
+        </button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * 一時停止画面（答えを見られないよう指板・回答欄を隠す）
+ */
+const PauseScreen: React.FC<{
+  state: QuizState;
+  onResume: () => void;
+  onExit: () => void;
+}> = ({ state, onResume, onExit }) => (
+  <div className="bg-white rounded-lg shadow-lg flex flex-col items-center justify-center min-h-[400px] space-y-6 p-8">
+    <div className="text-6xl" aria-hidden="true">⏸️</div>
+    <div className="text-center space-y-2">
+      <h2 className="text-3xl font-bold text-gray-800">一時停止中</h2>
+      <p className="text-gray-600">
+        {state.totalAnswers}問回答・正解 {state.correctAnswers}・経過時間 {formatTime(state.timeElapsed)}
+      </p>
+    </div>
+    <div className="flex gap-4">
+      <button
+        onClick={onResume}
+        autoFocus
+        className="px-8 py-3 bg-green-500 text-white font-semibold rounded-lg hover:bg-green-600
+                 focus:ring-4 focus:ring-green-500 focus:ring-offset-2"
+      >
+        ▶ 再開
+      </button>
+      <button
+        onClick={onExit}
+        className="px-8 py-3 bg-gray-100 text-gray-700 font-semibold rounded-lg hover:bg-gray-200
+                 focus:ring-4 focus:ring-gray-300"
+      >
+        ゲーム終了
+      </button>
+    </div>
+  </div>
+);
+
 // =============================================================================
 // Main Game Component - メインゲームコンポーネント
 // =============================================================================
@@ -243,23 +545,64 @@ const GameStartScreen: React.FC<{
  */
 export const QuizGame: React.FC<QuizGameProps> = ({
   difficulty,
+  selectionMode = 'random',
+  quizMode = 'visual',
+  chordPool,
+  gameMode = 'endless',
+  savedState,
+  onStateChange,
   onGameEnd,
   audioHook,
   className,
   debugMode = false,
 }) => {
+  // チューニング・カポ設定
+  const { settings } = useGameSettings();
+  const settingsTuning = getTuning(settings.tuning);
+  const { capoPosition } = settings;
+
   // クイズ状態管理
   const {
     state,
     gameActive,
     showResult,
     lastAnswerCorrect,
+    lastAnswerResult,
+    gameOver,
     statistics,
     startQuiz,
     resetQuiz,
     submitAnswer,
     nextChord,
-  } = useQuizState(difficulty);
+    skipChord,
+    useHint: requestHint,
+    maxHints,
+    pauseGame,
+    resumeGame,
+  } = useQuizState(difficulty, settingsTuning.id, selectionMode, chordPool, capoPosition, gameMode, savedState);
+
+  // 状態の変化を親に通知（コールバックの再生成で通知し直さないよう参照で持つ）
+  const onStateChangeRef = useRef(onStateChange);
+  useEffect(() => {
+    onStateChangeRef.current = onStateChange;
+  }, [onStateChange]);
+
+  useEffect(() => {
+    onStateChangeRef.current?.(state);
+  }, [state]);
+
+  // デッキ出題ではコードごとのチューニングで表示・再生する
+  const tuning = chordPool ? getTuning(state.currentChord?.tuning) : settingsTuning;
+  const deckChordNames = useMemo(
+    () => chordPool && Array.from(new Set(chordPool.map(chord => applyCapo(chord, capoPosition).name))),
+    [chordPool, capoPosition]
+  );
+
+  // カポを付けて押さえたときの押弦位置・実音のコード（表示・再生・正解に使う）
+  const soundingChord = useMemo(
+    () => state.currentChord && applyCapo(state.currentChord, capoPosition),
+    [state.currentChord, capoPosition]
+  );
 
   // ローカル状態
   const [showHintPanel, setShowHintPanel] = useState(false);
@@ -273,9 +616,51 @@ export const QuizGame: React.FC<QuizGameProps> = ({
   const [prevScore, setPrevScore] = useState(0);
   const [isLoading, setIsLoading] = useState(false);
 
+  // 聴音モード（再生方法は音声設定に保存される）
+  const isEarMode = quizMode === 'ear';
+
+  // 回答方法（choice: 選択肢から回答、microphone: ギターを弾いて回答）
+  const [answerInputMode, setAnswerInputMode] = useState<AnswerInputMode>('text');
+
+  // 選択式回答の設定・過去の取り違え
+  const choiceSettings = (settings.multipleChoice ?? DEFAULT_MULTIPLE_CHOICE_SETTINGS)[difficulty];
+  const { events } = useQuestionEvents();
+  const confusionsRef = useRef<ChordConfusion[]>([]);
+
+  useEffect(() => {
+    confusionsRef.current = getCommonConfusions(filterEventsBySource(events, CONFUSION_SOURCES), CONFUSION_LIMIT);
+  }, [events]);
+
+  // 選択肢は出題ごとに作成する（回答の記録で並びが変わらないよう取り違えは参照で渡す）
+  const [answerChoices, setAnswerChoices] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!state.currentChord) {
+      setAnswerChoices([]);
+      return;
+    }
+    setAnswerChoices(createAnswerChoices(state.currentChord, {
+      ...choiceSettings,
+      pool: chordPool,
+      confusions: confusionsRef.current,
+      capoPosition,
+    }));
+  }, [state.currentChord, choiceSettings, chordPool, capoPosition]);
+
+  // スコア履歴（ゲームモードごとのハイスコア）
+  const { addScore, getHighScores } = useScoreHistory();
+  const [currentGameId, setCurrentGameId] = useState<string | null>(null);
+  const scoreRecordedRef = useRef(false);
+
   // 音声制御（親から渡されない場合は独自に初期化）
   const localAudio = useAudio();
   const audio = audioHook || localAudio;
+  const { changeTuning } = audio;
+
+  // 選択中のチューニングを音声合成に反映
+  useEffect(() => {
+    changeTuning(tuning);
+  }, [changeTuning, tuning]);
 
   // レスポンシブ設定
   const { isMobile, isTablet } = useResponsiveBreakpoints();
@@ -287,6 +672,24 @@ export const QuizGame: React.FC<QuizGameProps> = ({
     }
   }, [gameEnded, state.score, statistics, onGameEnd]);
 
+  // 回答後に次の問題へ進むタイマー（一時停止・終了時に取り消す）
+  const advanceTimeoutRef = useRef<NodeJS.Timeout | undefined>(undefined);
+
+  const clearAdvanceTimeout = useCallback(() => {
+    if (advanceTimeoutRef.current) {
+      clearTimeout(advanceTimeoutRef.current);
+      advanceTimeoutRef.current = undefined;
+    }
+  }, []);
+
+  useEffect(() => clearAdvanceTimeout, [clearAdvanceTimeout]);
+
+  // 一時停止（結果表示中なら次の問題へ進むのを再開時まで止める）
+  const handlePause = useCallback(() => {
+    clearAdvanceTimeout();
+    pauseGame();
+  }, [clearAdvanceTimeout, pauseGame]);
+
   // 回答処理
   const handleAnswerSubmit = useCallback(async (answer: string) => {
     if (!gameActive || showResult || !state.currentChord) return;
@@ -324,38 +727,39 @@ export const QuizGame: React.FC<QuizGameProps> = ({
       });
     }
 
-    // 結果表示後、一定時間で次の問題へ
+    // 結果表示後、一定時間で次の問題へ（不正解は正解を確認できるよう長めに表示）
     setTimeout(() => {
       setFeedbackType(null);
     }, 1000);
 
-    if (isCorrect) {
-      setTimeout(() => {
-        setShowHintPanel(false);
-        setCurrentHint('');
-        setPrevScore(state.score);
-        setIsLoading(true);
-        nextChord();
-        setTimeout(() => setIsLoading(false), 800);
-      }, 1500);
-    } else {
-      setTimeout(() => {
-        setShowHintPanel(false);
-        setCurrentHint('');
-        setPrevScore(state.score);
-        setIsLoading(true);
-        nextChord();
-        setTimeout(() => setIsLoading(false), 800);
-      }, 2500);
+    clearAdvanceTimeout();
+    advanceTimeoutRef.current = setTimeout(() => {
+      advanceTimeoutRef.current = undefined;
+      setShowHintPanel(false);
+      setCurrentHint('');
+      setPrevScore(state.score);
+      setIsLoading(true);
+      nextChord();
+      setTimeout(() => setIsLoading(false), 800);
+    }, isCorrect ? 1500 : 2500);
+  }, [gameActive, showResult, state.currentChord, state.score, submitAnswer, nextChord, clearAdvanceTimeout, debugMode, audio]);
+
+  // マイク回答（出題コードと一致したときだけ呼ばれる）
+  const handleMicrophoneMatch = useCallback(() => {
+    if (soundingChord) {
+      handleAnswerSubmit(soundingChord.name);
     }
-  }, [gameActive, showResult, state.currentChord, state.score, submitAnswer, nextChord, debugMode, audio]);
+  }, [soundingChord, handleAnswerSubmit]);
 
   // ヒント表示処理
   const handleHintRequest = useCallback(() => {
-    if (!state.currentChord || state.hintsUsed >= 3) return;
+    if (!state.currentChord) return;
+
+    // ヒントの使用はスコア・復習スケジュール・回答記録に反映される
+    const hint = requestHint();
+    if (!hint) return;
 
-    const hint = `ヒント: このコードは${state.currentChord.frets.filter(f => f !== null).length}本の弦を押弦します`;
-    setCurrentHint(hint);
+    setCurrentHint(`ヒント: ${hint}`);
     setShowHintPanel(true);
 
     // ヒント音
@@ -369,22 +773,32 @@ export const QuizGame: React.FC<QuizGameProps> = ({
         chord: state.currentChord.name,
       });
     }
-  }, [state.currentChord, state.hintsUsed, debugMode, audio]);
+  }, [state.currentChord, state.hintsUsed, requestHint, debugMode, audio]);
 
-  // コード再生処理
-  const handlePlayChord = useCallback(() => {
-    if (!state.currentChord) return;
+  // コード再生処理（再生方法を省略すると音声設定の再生方法を使う）
+  const handlePlayChord = useCallback((style?: ChordPlaybackStyle) => {
+    if (!soundingChord) return;
     
-    audio.playChord(state.currentChord, 2); // 2秒間再生
+    audio.playChord(soundingChord, 2, style && { style }); // 2秒間再生
     
     // デバッグ情報
     if (debugMode) {
       console.log('Chord played:', {
-        chord: state.currentChord.name,
-        frets: state.currentChord.frets,
+        chord: soundingChord.name,
+        frets: soundingChord.frets,
       });
     }
-  }, [state.currentChord, audio, debugMode]);
+  }, [soundingChord, audio, debugMode]);
+
+  // 聴音モードでは出題と同時にコードを自動再生
+  const { playChord } = audio;
+  const currentChord = soundingChord;
+  const { isPaused } = state;
+  useEffect(() => {
+    if (!isEarMode || !gameActive || showResult || isPaused || !currentChord) return;
+
+    playChord(currentChord, 2);
+  }, [isEarMode, gameActive, showResult, isPaused, currentChord, playChord]);
 
   // ゲーム開始処理
   const handleGameStart = useCallback(() => {
@@ -392,13 +806,42 @@ export const QuizGame: React.FC<QuizGameProps> = ({
     setShowHintPanel(false);
     setCurrentHint('');
     setGameEnded(false);
+    setCurrentGameId(null);
+    scoreRecordedRef.current = false;
   }, [startQuiz]);
 
+  // スコア履歴に記録（1問以上回答していれば。1ゲームにつき1回）
+  const recordScore = useCallback(() => {
+    if (scoreRecordedRef.current || state.totalAnswers === 0) return;
+    scoreRecordedRef.current = true;
+
+    const gameId = addScore({
+      score: state.score,
+      difficulty: state.difficulty,
+      totalQuestions: state.totalAnswers,
+      correctAnswers: state.correctAnswers,
+      streak: state.bestStreak,
+      timeElapsed: state.timeElapsed,
+      timeSpent: state.timeElapsed,
+      hintsUsed: state.totalHintsUsed,
+      mode: quizMode,
+      gameMode,
+    });
+    setCurrentGameId(gameId ?? null);
+  }, [addScore, state, quizMode, gameMode]);
+
+  // ゲームモードの終了条件を満たしたら記録
+  useEffect(() => {
+    if (gameOver) recordScore();
+  }, [gameOver, recordScore]);
+
   // ゲーム終了処理
   const handleGameEnd = useCallback(() => {
+    clearAdvanceTimeout();
+    recordScore();
     setGameEnded(true);
     resetQuiz();
-  }, [resetQuiz]);
+  }, [clearAdvanceTimeout, resetQuiz, recordScore]);
 
   // ゲーム開始前の画面
   if (!gameActive) {
@@ -406,12 +849,32 @@ export const QuizGame: React.FC<QuizGameProps> = ({
       <div className={clsx('quiz-game-container', className)}>
         <GameStartScreen
           difficulty={difficulty}
+          selectionMode={selectionMode}
+          quizMode={quizMode}
+          gameMode={gameMode}
           onStart={handleGameStart}
         />
       </div>
     );
   }
 
+  // ゲーム終了画面（最後の回答の結果を表示し終えてから）
+  if (gameOver && !showResult) {
+    return (
+      <div className={clsx('quiz-game-container', className)}>
+        <GameOverScreen
+          reason={gameOver}
+          gameMode={gameMode}
+          state={state}
+          highScores={getHighScores(gameMode, state.difficulty, quizMode)}
+          currentGameId={currentGameId}
+          onRetry={handleGameStart}
+          onExit={handleGameEnd}
+        />
+      </div>
+    );
+  }
+
   // メインゲーム画面
   return (
     <div className={clsx('quiz-game-container max-w-7xl mx-auto p-4', className)}>
@@ -437,11 +900,18 @@ export const QuizGame: React.FC<QuizGameProps> = ({
         />
       </div>
 
+      {/* ゲームモードの進行状況 */}
+      {gameMode !== 'endless' && (
+        <div className="mb-6">
+          <GameModeStatus gameMode={gameMode} state={state} />
+        </div>
+      )}
+
       {/* 音声可視化 */}
       <div className="mb-6">
         <div className="bg-white rounded-lg shadow-sm p-4">
           <AudioVisualizer
-            currentChord={state.currentChord}
+            currentChord={state.isPaused || (isEarMode && !showResult) ? null : soundingChord}
             isAudioEnabled={audio.isEnabled}
             isAudioInitialized={audio.isInitialized}
             volume={audio.volume}
@@ -452,6 +922,11 @@ export const QuizGame: React.FC<QuizGameProps> = ({
         </div>
       </div>
 
+      {/* 一時停止中は指板・回答欄を隠す */}
+      {state.isPaused ? (
+        <PauseScreen state={state} onResume={resumeGame} onExit={handleGameEnd} />
+      ) : (
+      <>
       {/* ローディング表示 */}
       {isLoading && (
         <div className="mb-6">
@@ -472,13 +947,51 @@ export const QuizGame: React.FC<QuizGameProps> = ({
         <div className={clsx(isMobile ? 'col-span-1' : 'lg:col-span-2')}>
           <div className="bg-white rounded-lg shadow-lg p-6 relative">
             <h2 className="text-lg font-semibold text-gray-800 mb-4">
-              このコードは何でしょう？
+              {isEarMode ? 'この音のコードは何でしょう？' : 'このコードは何でしょう？'}
             </h2>
-            {state.currentChord && (
+            {/* 聴音モード: 回答するまで指板を隠し、再生操作のみ表示 */}
+            {isEarMode && !showResult && (
+              <div className="flex flex-col items-center justify-center min-h-[240px] space-y-6 bg-gray-50 rounded-lg p-6">
+                <div className="text-6xl" aria-hidden="true">🎧</div>
+                {!audio.isEnabled && (
+                  <button
+                    onClick={audio.enableAudio}
+                    className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 text-sm"
+                  >
+                    🔈 音声を有効にする
+                  </button>
+                )}
+                <div className="flex flex-wrap justify-center gap-3">
+                  <button
+                    onClick={() => handlePlayChord()}
+                    className="px-6 py-3 rounded-lg font-medium bg-green-500 text-white hover:bg-green-600
+                             focus:ring-2 focus:ring-green-500 focus:ring-offset-2"
+                    aria-label="もう一度再生"
+                  >
+                    🔁 もう一度
+                  </button>
+                  <button
+                    onClick={() => handlePlayChord('arpeggio')}
+                    className="px-6 py-3 rounded-lg font-medium bg-purple-500 text-white hover:bg-purple-600
+                             focus:ring-2 focus:ring-purple-500 focus:ring-offset-2"
+                    aria-label="アルペジオで再生"
+                  >
+                    🎼 アルペジオ
+                  </button>
+                </div>
+                <PlaybackStyleControls
+                  settings={audio.playbackSettings}
+                  onChange={audio.changePlaybackSettings}
+                  className="justify-center"
+                />
+              </div>
+            )}
+            {soundingChord && (!isEarMode || showResult) && (
               <ResponsiveFretboard
-                chordPattern={state.currentChord}
+                chordPattern={soundingChord}
                 showFingers={false} // 指番号は表示しない（難易度維持のため）
-                capoPosition={0}
+                capoPosition={capoPosition}
+                tuning={tuning}
                 className="fretboard-quiz"
                 onStringPlay={(stringIndex, fret) => {
                   // 弦をクリックした時の音声フィードバック
@@ -506,40 +1019,77 @@ export const QuizGame: React.FC<QuizGameProps> = ({
 
           {/* 回答入力エリア */}
           <div className="bg-white rounded-lg shadow-lg p-6">
-            <h3 className="text-lg font-semibold mb-4">回答を入力</h3>
-            
-            <AnswerInput
-              onSubmit={handleAnswerSubmit}
-              disabled={showResult}
-              difficulty={difficulty}
-              autoFocus={!isMobile}
-              placeholder="コード名を入力..."
-            />
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold">回答を入力</h3>
+              <div className="flex rounded-lg bg-gray-100 p-1 text-sm" role="group" aria-label="回答方法">
+                {(Object.keys(ANSWER_INPUT_MODE_LABELS) as AnswerInputMode[]).map(mode => (
+                  <button
+                    key={mode}
+                    onClick={() => setAnswerInputMode(mode)}
+                    aria-pressed={answerInputMode === mode}
+                    className={clsx(
+                      'px-3 py-1 rounded-md transition-colors',
+                      answerInputMode === mode
+                        ? 'bg-white text-gray-900 shadow-sm'
+                        : 'text-gray-600 hover:text-gray-900'
+                    )}
+                  >
+                    {ANSWER_INPUT_MODE_LABELS[mode]}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {answerInputMode === 'choice' ? (
+              <MultipleChoiceAnswer
+                choices={answerChoices}
+                onSubmit={handleAnswerSubmit}
+                disabled={showResult}
+                correctAnswer={showResult ? soundingChord?.name : undefined}
+                selectedAnswer={state.userAnswer}
+              />
+            ) : answerInputMode === 'microphone' ? (
+              <MicrophoneAnswer
+                chord={soundingChord}
+                tuning={tuning}
+                onMatch={handleMicrophoneMatch}
+                disabled={showResult}
+                getAudioContext={audio.getAudioContext}
+              />
+            ) : (
+              <AnswerInput
+                onSubmit={handleAnswerSubmit}
+                disabled={showResult}
+                difficulty={selectionMode === 'review' ? undefined : difficulty}
+                tuning={tuning.id}
+                chordNames={deckChordNames}
+                capoPosition={capoPosition}
+                autoFocus={!isMobile}
+                placeholder="コード名を入力..."
+              />
+            )}
 
             {/* 操作ボタン */}
             <div className="mt-4 flex gap-3">
               {/* ヒントボタン */}
-              {!showResult && state.hintsUsed < 3 && (
+              {!showResult && state.hintsUsed < maxHints && (
                 <button
                   onClick={handleHintRequest}
-                  disabled={showHintPanel}
                   className={clsx(
                     'flex-1 py-3 rounded-lg font-medium transition-all duration-200',
                     'focus:ring-2 focus:ring-yellow-500 focus:ring-offset-2',
-                    showHintPanel
-                      ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
-                      : 'bg-yellow-500 text-white hover:bg-yellow-600 active:bg-yellow-700'
+                    'bg-yellow-500 text-white hover:bg-yellow-600 active:bg-yellow-700'
                   )}
-                  aria-label={`ヒントを表示 (残り${3 - state.hintsUsed}回)`}
+                  aria-label={`ヒントを表示 (残り${maxHints - state.hintsUsed}回)`}
                 >
-                  💡 ヒント ({3 - state.hintsUsed})
+                  💡 ヒント ({maxHints - state.hintsUsed})
                 </button>
               )}
               
               {/* コード再生ボタン */}
               {!showResult && (
                 <button
-                  onClick={handlePlayChord}
+                  onClick={() => handlePlayChord()}
                   className="flex-1 py-3 rounded-lg font-medium transition-all duration-200
                            bg-green-500 text-white hover:bg-green-600 active:bg-green-700
                            focus:ring-2 focus:ring-green-500 focus:ring-offset-2"
@@ -552,6 +1102,12 @@ export const QuizGame: React.FC<QuizGameProps> = ({
 
             {/* ゲーム制御ボタン */}
             <div className="mt-4 flex gap-2">
+              <button
+                onClick={handlePause}
+                className="flex-1 py-2 bg-yellow-500 text-white rounded-lg hover:bg-yellow-600 text-sm"
+              >
+                ⏸ 一時停止
+              </button>
               <button
                 onClick={handleGameEnd}
                 className="flex-1 py-2 bg-gray-500 text-white rounded-lg hover:bg-gray-600 text-sm"
@@ -562,9 +1118,9 @@ export const QuizGame: React.FC<QuizGameProps> = ({
                 onClick={() => {
                   setShowHintPanel(false);
                   setCurrentHint('');
-                  nextChord();
+                  skipChord();
                 }}
-                disabled={showResult}
+                disabled={showResult || !GAME_MODES[gameMode].allowSkip}
                 className="flex-1 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:bg-gray-300 text-sm"
               >
                 スキップ
@@ -573,31 +1129,36 @@ export const QuizGame: React.FC<QuizGameProps> = ({
           </div>
 
           {/* 結果表示 */}
-          {showResult && (
+          {showResult && lastAnswerResult && (
             <div className={clsx(
               'rounded-lg p-6 text-center border-2 transition-all duration-300',
-              lastAnswerCorrect
-                ? 'bg-green-50 border-green-200 animate-pulse'
-                : 'bg-red-50 border-red-200'
+              lastAnswerResult === 'correct' && 'bg-green-50 border-green-200 animate-pulse',
+              lastAnswerResult === 'partial' && 'bg-yellow-50 border-yellow-200',
+              lastAnswerResult === 'incorrect' && 'bg-red-50 border-red-200'
             )}>
               <div className={clsx(
                 'text-3xl font-bold mb-3',
-                lastAnswerCorrect ? 'text-green-800' : 'text-red-800'
+                lastAnswerResult === 'correct' && 'text-green-800',
+                lastAnswerResult === 'partial' && 'text-yellow-800',
+                lastAnswerResult === 'incorrect' && 'text-red-800'
               )}>
-                {lastAnswerCorrect ? '🎉 正解！' : '❌ 不正解'}
+                {ANSWER_RESULT_LABELS[lastAnswerResult]}
               </div>
               
-              {state.currentChord && (
+              {state.currentChord && soundingChord && (
                 <div className="space-y-2">
                   <p className={clsx(
                     'text-xl font-semibold',
                     lastAnswerCorrect ? 'text-green-700' : 'text-red-700'
                   )}>
-                    正解: {state.currentChord.name}
+                    正解: {soundingChord.name}
                   </p>
                   
                   <div className="text-sm text-gray-600 space-y-1">
-                    <p>ルート音: {state.currentChord.root}</p>
+                    {capoPosition > 0 && (
+                      <p>押さえ方: {state.currentChord.name} のフォーム（カポ{capoPosition}フレット）</p>
+                    )}
+                    <p>ルート音: {soundingChord.root}</p>
                     <p>種類: {state.currentChord.quality}</p>
                     <p>難易度: {state.currentChord.difficulty}</p>
                   </div>
@@ -614,6 +1175,8 @@ export const QuizGame: React.FC<QuizGameProps> = ({
         </div>
         </div>
       </FeedbackAnimation>
+      </>
+      )}
     </div>
   );
 };
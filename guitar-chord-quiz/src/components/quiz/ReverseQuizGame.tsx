@@ -0,0 +1,166 @@
+/**
+ * 逆引きクイズゲームコンポーネント
+ *
+ * @description コード名を見て指板上で押弦を作る逆引きクイズ
+ * @author Claude Code
+ */
+
+'use client';
+
+import React, { useCallback } from 'react';
+import { ChordPattern, DifficultyLevel } from '../../types';
+import { useInteractiveQuiz } from '../../hooks/useInteractiveQuiz';
+import { useGameSettings, useScoreHistory } from '../../hooks/useLocalStorage';
+import { getTuning } from '../../data/tuning-presets';
+import { InteractiveAnswerMode } from './InteractiveAnswerMode';
+import { Button } from '../ui/Button';
+import clsx from 'clsx';
+
+// =============================================================================
+// Types - 型定義
+// =============================================================================
+
+/**
+ * 逆引きクイズゲームコンポーネントのプロパティ
+ */
+interface ReverseQuizGameProps {
+  /** 難易度設定 */
+  difficulty: DifficultyLevel;
+  /** 出題対象のコード（デッキ指定時。難易度・チューニングより優先） */
+  chordPool?: ChordPattern[];
+  /** ゲーム終了時のコールバック */
+  onGameEnd?: (finalScore: number) => void;
+  /** 追加のCSSクラス */
+  className?: string;
+}
+
+// =============================================================================
+// Main Component - メインコンポーネント
+// =============================================================================
+
+/**
+ * 逆引きクイズゲームコンポーネント
+ *
+ * 採点は押弦位置ではなく構成音で行う（InteractiveAnswerMode）。
+ * 各問題は最初の答え合わせのみスコアに反映し、その後は練習として何度でも確認できる。
+ *
+ * @example
+ * ```tsx
+ * <ReverseQuizGame difficulty="beginner" onGameEnd={handleGameEnd} />
+ * ```
+ */
+export const ReverseQuizGame: React.FC<ReverseQuizGameProps> = ({
+  difficulty,
+  chordPool,
+  onGameEnd,
+  className,
+}) => {
+  const { settings } = useGameSettings();
+  const quiz = useInteractiveQuiz(difficulty, settings.tuning, chordPool);
+  // デッキ出題ではコードごとのチューニングで表示する
+  const tuning = getTuning(chordPool ? quiz.currentChord?.tuning : settings.tuning);
+  const { addScore } = useScoreHistory();
+
+  // 答えを見た場合は不正解として記録（回答済みの問題はuseInteractiveQuizが無視する）
+  const handleShowAnswer = useCallback(() => {
+    quiz.submitAnswer(false, new Set());
+  }, [quiz]);
+
+  // 結果を記録して終了
+  const handleFinish = useCallback(() => {
+    if (quiz.questionNumber > 0) {
+      addScore({
+        score: quiz.score,
+        difficulty,
+        totalQuestions: quiz.questionNumber,
+        correctAnswers: quiz.correctAnswers,
+        streak: 0,
+        timeElapsed: quiz.elapsedTime,
+        timeSpent: quiz.elapsedTime,
+        hintsUsed: quiz.totalHintsUsed,
+        mode: 'reverse',
+      });
+    }
+
+    onGameEnd?.(quiz.score);
+    quiz.resetQuiz();
+  }, [quiz, difficulty, addScore, onGameEnd]);
+
+  // 開始前
+  if (quiz.quizStatus === 'idle') {
+    return (
+      <div className={clsx('flex flex-col items-center justify-center min-h-[400px] space-y-6 p-8', className)}>
+        <h1 className="text-4xl font-bold text-gray-800">逆引きクイズ</h1>
+        <p className="text-lg text-gray-600 text-center max-w-xl">
+          表示されたコードを指板上で押さえてください。
+          構成音が揃っていれば、どのフォーム・ポジションでも正解です。
+        </p>
+        <Button onClick={quiz.startQuiz} className="px-12 py-4 text-xl">
+          ゲーム開始
+        </Button>
+      </div>
+    );
+  }
+
+  // 終了
+  if (quiz.quizStatus === 'completed') {
+    return (
+      <div className={clsx('flex flex-col items-center justify-center min-h-[400px] space-y-6 p-8', className)}>
+        <h2 className="text-3xl font-bold text-gray-800">結果</h2>
+        <div className="text-5xl font-bold text-blue-600">{quiz.score}点</div>
+        <p className="text-gray-600">
+          正解数: {quiz.correctAnswers} / {quiz.totalQuestions}
+        </p>
+        <Button onClick={handleFinish}>
+          結果を保存して終了
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className={clsx('max-w-4xl mx-auto p-4 space-y-4', className)}>
+      {/* 進捗 */}
+      <div className="flex justify-between items-center bg-white rounded-lg shadow-sm p-4 text-sm text-gray-700">
+        <span>問題 {quiz.questionNumber} / {quiz.totalQuestions}</span>
+        <span>正解 {quiz.correctAnswers}</span>
+        <span className="font-bold text-blue-600">{quiz.score}点</span>
+      </div>
+
+      {/* ヒント */}
+      {quiz.hints.length > 0 && (
+        <ul className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 text-sm text-yellow-900 space-y-1">
+          {quiz.hints.map(hint => (
+            <li key={hint}>💡 {hint}</li>
+          ))}
+        </ul>
+      )}
+
+      {quiz.currentChord && (
+        <InteractiveAnswerMode
+          key={quiz.questionNumber}
+          chordPattern={quiz.currentChord}
+          tuning={tuning}
+          onAnswer={quiz.submitAnswer}
+          onHint={quiz.requestHint}
+          onShowAnswer={handleShowAnswer}
+          onClear={quiz.clearPattern}
+          hintsUsed={quiz.hintsUsed}
+          maxHints={quiz.maxHints}
+        />
+      )}
+
+      {/* ゲーム制御 */}
+      <div className="flex gap-3">
+        <Button variant="secondary" onClick={handleFinish} className="flex-1">
+          ゲーム終了
+        </Button>
+        <Button onClick={quiz.nextQuestion} disabled={!quiz.answered} className="flex-1">
+          次の問題へ
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ReverseQuizGame;
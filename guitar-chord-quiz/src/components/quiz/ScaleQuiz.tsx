@@ -0,0 +1,425 @@
+'use client';
+
+/**
+ * スケール・アルペジオクイズコンポーネント
+ *
+ * @description ポジション（ボックス）を見てスケール名を答える・指板上で音を埋めるクイズ
+ * @author Claude Code
+ */
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { FretboardNote, NoteName, ScalePattern, ScaleType } from '../../types';
+import {
+  SCALE_TYPES,
+  SCALE_TYPE_LABELS,
+  findScalePattern,
+  formatScaleName,
+  getPositionNames,
+  getRandomScalePattern,
+  getScalePatternKeys,
+  getScalePatternNotes,
+} from '../../data/scale-patterns';
+import { NOTE_NAMES, PositionGrade, gradeNotePositions } from '../../lib/theory';
+import { getFretKey, parseFretKey } from '../../lib/fretboard';
+import { AccessibleFretboard } from '../fretboard/AccessibleFretboard';
+import { Button } from '../ui/Button';
+import clsx from 'clsx';
+
+// =============================================================================
+// Types - 型定義
+// =============================================================================
+
+/**
+ * クイズの形式
+ * - identify: 表示されたポジションのスケール名とポジションを答える
+ * - fill: 選んだスケール・ポジションの音を指板上で埋める
+ */
+type ScaleQuizMode = 'identify' | 'fill';
+
+/**
+ * スケール・アルペジオクイズコンポーネントのプロパティ
+ */
+interface ScaleQuizProps {
+  /** 追加のCSSクラス */
+  className?: string;
+}
+
+/**
+ * スケール名の回答
+ */
+interface ScaleAnswer {
+  root: NoteName;
+  type: ScaleType;
+  positionName: string;
+}
+
+// =============================================================================
+// Constants - 定数
+// =============================================================================
+
+/**
+ * クイズ形式の表示名
+ */
+const SCALE_QUIZ_MODE_LABELS: Record<ScaleQuizMode, string> = {
+  identify: '👀 ポジションを見て答える',
+  fill: '✋ 指板で音を埋める',
+};
+
+/**
+ * 初期状態で出題する種類
+ */
+const DEFAULT_SCALE_TYPES: ScaleType[] = ['minorPentatonic', 'majorPentatonic'];
+
+/**
+ * select要素の共通スタイル
+ */
+const SELECT_CLASS_NAME = `mt-1 px-3 py-2 rounded-lg border border-gray-300 bg-white text-gray-900
+  dark:bg-gray-700 dark:border-gray-600 dark:text-white`;
+
+// =============================================================================
+// Utility Functions - ユーティリティ関数
+// =============================================================================
+
+/**
+ * ポジションの前後に余裕を持たせた表示範囲
+ */
+const getDisplayRange = (pattern: ScalePattern): { start: number; end: number } => {
+  const start = Math.max(0, pattern.fretRange.start - 1);
+  return { start, end: Math.max(start + 6, pattern.fretRange.end + 2) };
+};
+
+/**
+ * パターンから回答の初期値を作成
+ */
+const toAnswer = (pattern: ScalePattern): ScaleAnswer => ({
+  root: pattern.root,
+  type: pattern.type,
+  positionName: pattern.positionName,
+});
+
+/**
+ * 回答がパターンのスケール・ポジションと一致するか
+ */
+const isAnswerCorrect = (answer: ScaleAnswer, pattern: ScalePattern): boolean =>
+  answer.root === pattern.root && answer.type === pattern.type && answer.positionName === pattern.positionName;
+
+// =============================================================================
+// Main Component - メインコンポーネント
+// =============================================================================
+
+/**
+ * スケール・アルペジオクイズコンポーネント
+ *
+ * スケールのポジションは標準チューニングで出題する
+ *
+ * @example
+ * ```tsx
+ * <ScaleQuiz />
+ * ```
+ */
+export const ScaleQuiz: React.FC<ScaleQuizProps> = ({ className }) => {
+  const [mode, setMode] = useState<ScaleQuizMode>('identify');
+  const [enabledTypes, setEnabledTypes] = useState<ScaleType[]>(DEFAULT_SCALE_TYPES);
+  const [pattern, setPattern] = useState<ScalePattern | null>(null);
+  const [answer, setAnswer] = useState<ScaleAnswer | null>(null);
+  const [isAnswered, setIsAnswered] = useState(false);
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set());
+  const [grade, setGrade] = useState<PositionGrade | null>(null);
+  const [score, setScore] = useState({ correct: 0, total: 0 });
+
+  // 出題を切り替える
+  const showPattern = useCallback((next: ScalePattern, nextMode: ScaleQuizMode) => {
+    setPattern(next);
+    // 穴埋めでは出題そのものを選択状態にし、名前当てでは選択肢を先頭に戻す
+    setAnswer(nextMode === 'fill' ? toAnswer(next) : {
+      root: NOTE_NAMES[0],
+      type: SCALE_TYPES[0],
+      positionName: getPositionNames(SCALE_TYPES[0])[0],
+    });
+    setIsAnswered(false);
+    setSelectedKeys(new Set());
+    setGrade(null);
+  }, []);
+
+  const handleNext = useCallback(() => {
+    showPattern(getRandomScalePattern(enabledTypes.length > 0 ? enabledTypes : SCALE_TYPES), mode);
+  }, [enabledTypes, mode, showPattern]);
+
+  // 初回の出題（サーバーとクライアントで乱数が異なるためマウント後に選ぶ）
+  useEffect(() => {
+    if (!pattern) handleNext();
+  }, [pattern, handleNext]);
+
+  const handleModeChange = (nextMode: ScaleQuizMode) => {
+    setMode(nextMode);
+    showPattern(getRandomScalePattern(enabledTypes.length > 0 ? enabledTypes : SCALE_TYPES), nextMode);
+  };
+
+  const handleToggleType = (type: ScaleType) => {
+    setEnabledTypes(prev => (prev.includes(type) ? prev.filter(item => item !== type) : [...prev, type]));
+  };
+
+  // 回答の変更（種類が変わったらポジションの選択肢も変わる）
+  const handleAnswerChange = (updates: Partial<ScaleAnswer>) => {
+    if (!answer) return;
+
+    const next = { ...answer, ...updates };
+    if (updates.type && !getPositionNames(updates.type).includes(next.positionName)) {
+      next.positionName = getPositionNames(updates.type)[0];
+    }
+    setAnswer(next);
+
+    // 穴埋めでは選んだスケール・ポジションをそのまま出題にする
+    if (mode === 'fill') {
+      const target = findScalePattern(next.root, next.type, next.positionName);
+      if (target) {
+        setPattern(target);
+        setIsAnswered(false);
+        setSelectedKeys(new Set());
+        setGrade(null);
+      }
+    }
+  };
+
+  const handleIdentifySubmit = () => {
+    if (!pattern || !answer || isAnswered) return;
+
+    const isCorrect = isAnswerCorrect(answer, pattern);
+    setIsAnswered(true);
+    setScore(prev => ({ correct: prev.correct + (isCorrect ? 1 : 0), total: prev.total + 1 }));
+  };
+
+  const handleFretToggle = useCallback((stringIndex: number, fret: number) => {
+    const key = getFretKey(stringIndex, fret);
+    setSelectedKeys(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+    setGrade(null);
+  }, []);
+
+  const handleFillCheck = () => {
+    if (!pattern) return;
+
+    const result = gradeNotePositions(getScalePatternNotes(pattern), selectedKeys);
+    setGrade(result);
+
+    // 正解数は最初の答え合わせのみ数える
+    if (!isAnswered) {
+      setIsAnswered(true);
+      setScore(prev => ({ correct: prev.correct + (result.isCorrect ? 1 : 0), total: prev.total + 1 }));
+    }
+  };
+
+  // 正解を表示（未回答なら不正解として数える）
+  const handleShowAnswer = () => {
+    if (!pattern) return;
+    if (!isAnswered) {
+      setIsAnswered(true);
+      setScore(prev => ({ ...prev, total: prev.total + 1 }));
+    }
+    setSelectedKeys(getScalePatternKeys(pattern));
+    setGrade(null);
+  };
+
+  // 表示する音
+  const displayedNotes = useMemo<FretboardNote[]>(() => {
+    if (!pattern) return [];
+
+    if (mode === 'identify') {
+      const notes = getScalePatternNotes(pattern);
+      // 回答前はルート音・インターバルを伏せる
+      return isAnswered ? notes : notes.map(({ stringIndex, fret }) => ({ stringIndex, fret }));
+    }
+
+    if (grade) return grade.notes;
+    return Array.from(selectedKeys).flatMap(key => {
+      const position = parseFretKey(key);
+      return position ? [position] : [];
+    });
+  }, [pattern, mode, isAnswered, grade, selectedKeys]);
+
+  if (!pattern || !answer) return null;
+
+  const isIdentifyCorrect = isAnswerCorrect(answer, pattern);
+
+  return (
+    <div className={clsx('space-y-8', className)}>
+      {/* 出題設定 */}
+      <section className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-6 space-y-4">
+        <div className="flex flex-wrap gap-2" role="group" aria-label="クイズの形式">
+          {(Object.keys(SCALE_QUIZ_MODE_LABELS) as ScaleQuizMode[]).map(item => (
+            <button
+              key={item}
+              onClick={() => handleModeChange(item)}
+              aria-pressed={mode === item}
+              className={clsx(
+                'px-4 py-2 rounded-lg font-medium transition-colors',
+                mode === item
+                  ? 'bg-blue-500 text-white'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300'
+              )}
+            >
+              {SCALE_QUIZ_MODE_LABELS[item]}
+            </button>
+          ))}
+          <div className="ml-auto text-right">
+            <div className="text-2xl font-bold text-green-600">
+              {score.correct}/{score.total}
+            </div>
+            <div className="text-xs text-gray-500 dark:text-gray-400">正解数</div>
+          </div>
+        </div>
+
+        {mode === 'identify' && (
+          <div>
+            <h2 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">出題する種類</h2>
+            <div className="flex flex-wrap gap-2">
+              {SCALE_TYPES.map(type => {
+                const selected = enabledTypes.includes(type);
+                return (
+                  <button
+                    key={type}
+                    onClick={() => handleToggleType(type)}
+                    aria-pressed={selected}
+                    className={clsx(
+                      'px-3 py-1 rounded-full border text-sm transition-colors',
+                      selected
+                        ? 'bg-blue-500 border-blue-500 text-white'
+                        : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-100 dark:bg-gray-700 dark:border-gray-600 dark:text-gray-300'
+                    )}
+                  >
+                    {SCALE_TYPE_LABELS[type]}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </section>
+
+      {/* 問題 */}
+      <section className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-6 space-y-4">
+        {mode === 'fill' && (
+          <p className="text-gray-700 dark:text-gray-300">
+            スケールとポジションを選び、指板上でその音をすべて押さえてください（標準チューニング）
+          </p>
+        )}
+
+        {/* スケール・ポジションの選択（名前当ての回答 / 穴埋めの出題） */}
+        <div className="flex flex-wrap items-end gap-4">
+          <label className="flex flex-col text-sm font-medium text-gray-700 dark:text-gray-300">
+            ルート
+            <select
+              value={answer.root}
+              disabled={mode === 'identify' && isAnswered}
+              onChange={e => handleAnswerChange({ root: e.target.value as NoteName })}
+              className={SELECT_CLASS_NAME}
+            >
+              {NOTE_NAMES.map(note => (
+                <option key={note} value={note}>{note}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col text-sm font-medium text-gray-700 dark:text-gray-300">
+            スケール
+            <select
+              value={answer.type}
+              disabled={mode === 'identify' && isAnswered}
+              onChange={e => handleAnswerChange({ type: e.target.value as ScaleType })}
+              className={SELECT_CLASS_NAME}
+            >
+              {SCALE_TYPES.map(type => (
+                <option key={type} value={type}>{SCALE_TYPE_LABELS[type]}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col text-sm font-medium text-gray-700 dark:text-gray-300">
+            ポジション
+            <select
+              value={answer.positionName}
+              disabled={mode === 'identify' && isAnswered}
+              onChange={e => handleAnswerChange({ positionName: e.target.value })}
+              className={SELECT_CLASS_NAME}
+            >
+              {getPositionNames(answer.type).map(name => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+          </label>
+
+          <div className="ml-auto flex gap-2">
+            {mode === 'identify' ? (
+              isAnswered ? (
+                <Button onClick={handleNext}>次の問題 →</Button>
+              ) : (
+                <Button onClick={handleIdentifySubmit}>回答する</Button>
+              )
+            ) : (
+              <>
+                <Button variant="secondary" onClick={handleNext}>🎲 ランダム</Button>
+                <Button variant="secondary" onClick={() => { setSelectedKeys(new Set()); setGrade(null); }}>
+                  🗑️ クリア
+                </Button>
+                <Button variant="secondary" onClick={handleShowAnswer}>👁️ 正解を表示</Button>
+                <Button onClick={handleFillCheck} disabled={selectedKeys.size === 0}>✓ 答え合わせ</Button>
+              </>
+            )}
+          </div>
+        </div>
+
+        <AccessibleFretboard
+          notePositions={displayedNotes}
+          title={
+            mode === 'fill' || isAnswered
+              ? `${formatScaleName(pattern)}（${pattern.positionName}）`
+              : 'このポジションは？'
+          }
+          orientation="horizontal"
+          fretRange={getDisplayRange(pattern)}
+          interactive={mode === 'fill'}
+          onFretToggle={mode === 'fill' ? handleFretToggle : undefined}
+        />
+
+        {/* 結果表示 */}
+        {mode === 'identify' && isAnswered && (
+          <div
+            role="status"
+            className={clsx(
+              'rounded-lg border p-4',
+              isIdentifyCorrect ? 'bg-green-50 border-green-200 text-green-900' : 'bg-red-50 border-red-200 text-red-900'
+            )}
+          >
+            <p className="font-semibold">{isIdentifyCorrect ? '🎉 正解です！' : '❌ 不正解です'}</p>
+            <p className="text-sm mt-1">
+              正解: {formatScaleName(pattern)}（{pattern.positionName}・{pattern.fretRange.start}〜{pattern.fretRange.end}フレット）
+            </p>
+          </div>
+        )}
+        {mode === 'fill' && grade && (
+          <div
+            role="status"
+            className={clsx(
+              'rounded-lg border p-4',
+              grade.isCorrect ? 'bg-green-50 border-green-200 text-green-900' : 'bg-red-50 border-red-200 text-red-900'
+            )}
+          >
+            <p className="font-semibold">{grade.isCorrect ? '🎉 正解です！' : '❌ 不正解です'}</p>
+            {!grade.isCorrect && (
+              <p className="text-sm mt-1">
+                正しい位置: {grade.correctCount}・足りない位置: {grade.missing.length}（点線）・誤り: {grade.extra.length}（×）
+              </p>
+            )}
+          </div>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default ScaleQuiz;
@@ -0,0 +1,317 @@
+'use client';
+
+/**
+ * コードチェンジ練習コンポーネント
+ *
+ * @description メトロノームに合わせてコードを切り替える練習と自己ベストの記録
+ * @author Claude Code
+ */
+
+import React, { useMemo, useState } from 'react';
+import { ChordPattern } from '../../types';
+import { getChordBySlug, getChordSlug, getChordsByTuning, matchesTuning } from '../../data/chord-patterns';
+import { getChordKey } from '../../lib/spaced-repetition';
+import {
+  BPM_RANGE,
+  calculateChangesPerMinute,
+  getBeatPosition,
+  getChordPairKeys,
+} from '../../lib/metronome';
+import { useAudio } from '../../hooks/useAudio';
+import { useMetronome } from '../../hooks/useMetronome';
+import { useChordChangeRecords, useGameSettings } from '../../hooks/useLocalStorage';
+import { ResponsiveFretboard } from '../fretboard/ResponsiveFretboard';
+import { Button } from '../ui/Button';
+import clsx from 'clsx';
+
+// =============================================================================
+// Types - 型定義
+// =============================================================================
+
+/**
+ * コードチェンジ練習コンポーネントのプロパティ
+ */
+interface ChordChangeTrainerProps {
+  /** 追加のCSSクラス */
+  className?: string;
+}
+
+/**
+ * 練習結果
+ */
+interface TrainerResult {
+  /** 成功したコードチェンジの数 */
+  changes: number;
+  /** 1分あたりのコードチェンジ数 */
+  changesPerMinute: number;
+  /** 自己ベストを更新した組み合わせ */
+  improvedPairs: string[];
+}
+
+// =============================================================================
+// Constants - 定数
+// =============================================================================
+
+/**
+ * コードごとの拍数の選択肢
+ */
+const BEATS_PER_CHORD_OPTIONS = [1, 2, 4, 8] as const;
+
+/**
+ * 組み合わせキーの表示（"Am|C" → "Am ⇄ C"、"D@dropD|G@dropD" → "D ⇄ G"）
+ */
+const formatPairKey = (key: string): string =>
+  key.split('|').map(chordKey => chordKey.split('@')[0]).join(' ⇄ ');
+
+// =============================================================================
+// Main Component - メインコンポーネント
+// =============================================================================
+
+/**
+ * コードチェンジ練習コンポーネント
+ *
+ * 選べるコードは設定のチューニング用のボイシングのみ。
+ * 次のコードはチェンジの1拍前に指板へ表示する。
+ * チェンジに失敗したら「ミス」を押し、成功したチェンジのみ1分あたりの回数に数える。
+ *
+ * @example
+ * ```tsx
+ * <ChordChangeTrainer />
+ * ```
+ */
+export const ChordChangeTrainer: React.FC<ChordChangeTrainerProps> = ({ className }) => {
+  const audio = useAudio();
+  const metronome = useMetronome(audio.getAudioContext);
+  const { records, recordResult } = useChordChangeRecords();
+  const { settings } = useGameSettings();
+
+  const [selectedSlugs, setSelectedSlugs] = useState<string[]>(['C', 'G']);
+  const [bpm, setBpm] = useState(60);
+  const [beatsPerChord, setBeatsPerChord] = useState<number>(4);
+  const [misses, setMisses] = useState(0);
+  const [result, setResult] = useState<TrainerResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // 選択肢と選択中のコード（チューニングを切り替えたら他のチューニングのコードは外す）
+  const chordOptions = useMemo(() => getChordsByTuning(settings.tuning), [settings.tuning]);
+  const chords = useMemo(
+    () => selectedSlugs.flatMap(slug => {
+      const chord = getChordBySlug(slug);
+      return chord && matchesTuning(chord, settings.tuning) ? [chord] : [];
+    }),
+    [selectedSlugs, settings.tuning]
+  );
+  // 自己ベストはチューニングごとに記録する（標準チューニングはコード名のみのキー）
+  const pairKeys = useMemo(() => getChordPairKeys(chords.map(getChordKey)), [chords]);
+
+  const { beat, isRunning } = metronome;
+  const position = getBeatPosition(Math.max(0, beat), beatsPerChord, Math.max(1, chords.length));
+  const completedChanges = beat >= 0 ? Math.max(0, position.changes - misses) : 0;
+  const changesPerMinute = calculateChangesPerMinute(completedChanges, Math.max(0, beat), bpm);
+
+  // チェンジの1拍前から次のコードを表示
+  const displayedChord: ChordPattern | undefined = chords[position.showNext ? position.nextChordIndex : position.chordIndex];
+
+  const handleToggleChord = (slug: string) => {
+    setSelectedSlugs(prev => (prev.includes(slug) ? prev.filter(item => item !== slug) : [...prev, slug]));
+    setResult(null);
+  };
+
+  const handleStart = async () => {
+    if (chords.length < 2) return;
+
+    if (!audio.isInitialized) {
+      await audio.enableAudio();
+    }
+
+    setMisses(0);
+    setResult(null);
+    setError(null);
+
+    const started = await metronome.start(bpm, beatsPerChord);
+    if (!started) {
+      setError('音声を有効にできませんでした。ブラウザの設定を確認してください');
+    }
+  };
+
+  const handleStop = () => {
+    metronome.stop();
+    if (beat < 0) return;
+
+    const improvedPairs = completedChanges > 0
+      ? recordResult(pairKeys, {
+          changesPerMinute,
+          bpm,
+          beatsPerChord,
+          date: new Date().toISOString(),
+        })
+      : [];
+    setResult({ changes: completedChanges, changesPerMinute, improvedPairs });
+  };
+
+  const handleMiss = () => {
+    setMisses(prev => Math.min(prev + 1, position.changes));
+  };
+
+  return (
+    <div className={clsx('space-y-8', className)}>
+      {/* 練習設定 */}
+      <section className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-6 space-y-4">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white">練習するコード</h2>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          選んだ順に切り替えます（2つ以上）: {chords.map(chord => chord.name).join(' → ') || '未選択'}
+        </p>
+        <div className="flex flex-wrap gap-2 max-h-48 overflow-y-auto">
+          {chordOptions.map(chord => {
+            const slug = getChordSlug(chord);
+            const selected = selectedSlugs.includes(slug);
+
+            return (
+              <button
+                key={slug}
+                onClick={() => handleToggleChord(slug)}
+                disabled={isRunning}
+                aria-pressed={selected}
+                className={clsx(
+                  'px-3 py-1 rounded-full border text-sm transition-colors disabled:opacity-50',
+                  selected
+                    ? 'bg-blue-500 border-blue-500 text-white'
+                    : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-100 dark:bg-gray-700 dark:border-gray-600 dark:text-gray-300'
+                )}
+              >
+                {chord.name}
+              </button>
+            );
+          })}
+        </div>
+
+        <div className="flex flex-wrap items-end gap-6">
+          <label className="flex flex-col text-sm font-medium text-gray-700 dark:text-gray-300">
+            テンポ: {bpm} BPM
+            <input
+              type="range"
+              min={BPM_RANGE.min}
+              max={BPM_RANGE.max}
+              value={bpm}
+              disabled={isRunning}
+              onChange={e => setBpm(Number(e.target.value))}
+              className="mt-2 w-48 cursor-pointer"
+            />
+          </label>
+          <label className="flex flex-col text-sm font-medium text-gray-700 dark:text-gray-300">
+            コードごとの拍数
+            <select
+              value={beatsPerChord}
+              disabled={isRunning}
+              onChange={e => setBeatsPerChord(Number(e.target.value))}
+              className="mt-1 px-3 py-2 rounded-lg border border-gray-300 bg-white text-gray-900
+                       dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+            >
+              {BEATS_PER_CHORD_OPTIONS.map(value => (
+                <option key={value} value={value}>{value}拍</option>
+              ))}
+            </select>
+          </label>
+          {isRunning ? (
+            <Button variant="danger" onClick={handleStop} className="ml-auto">
+              ⏹ 停止
+            </Button>
+          ) : (
+            <Button onClick={handleStart} disabled={chords.length < 2} className="ml-auto">
+              ▶ スタート
+            </Button>
+          )}
+        </div>
+        {error && <p role="alert" className="text-sm text-red-600">{error}</p>}
+      </section>
+
+      {/* 練習中 */}
+      {isRunning && displayedChord && (
+        <section className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-6 space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div>
+              <div className="text-5xl font-bold text-gray-900 dark:text-white">
+                {chords[position.chordIndex].name}
+              </div>
+              <div
+                className={clsx(
+                  'text-lg mt-1',
+                  position.showNext ? 'text-orange-600 font-semibold' : 'text-gray-500 dark:text-gray-400'
+                )}
+                aria-live="polite"
+              >
+                次: {chords[position.nextChordIndex].name}
+              </div>
+            </div>
+
+            {/* 拍の表示 */}
+            <div className="flex gap-2" aria-label={`${position.beatInChord + 1}拍目`}>
+              {Array.from({ length: beatsPerChord }, (_, index) => (
+                <span
+                  key={index}
+                  className={clsx(
+                    'w-4 h-4 rounded-full',
+                    beat >= 0 && index === position.beatInChord
+                      ? index === 0 ? 'bg-blue-600' : 'bg-blue-400'
+                      : 'bg-gray-200 dark:bg-gray-600'
+                  )}
+                />
+              ))}
+            </div>
+
+            <div className="text-right">
+              <div className="text-3xl font-bold text-green-600">{changesPerMinute}</div>
+              <div className="text-sm text-gray-600 dark:text-gray-400">
+                回/分（成功 {completedChanges}・ミス {misses}）
+              </div>
+            </div>
+          </div>
+
+          <ResponsiveFretboard chordPattern={displayedChord} showFingers={true} />
+
+          <Button variant="secondary" onClick={handleMiss} disabled={position.changes <= misses} className="w-full">
+            ✋ ミスした
+          </Button>
+        </section>
+      )}
+
+      {/* 結果 */}
+      {result && (
+        <section role="status" className="bg-green-50 border border-green-200 rounded-xl p-6 space-y-1">
+          <h2 className="text-xl font-semibold text-green-900">結果</h2>
+          <p className="text-green-800">
+            {result.changes}回のチェンジに成功（{result.changesPerMinute}回/分）
+          </p>
+          {result.improvedPairs.length > 0 && (
+            <p className="text-green-800 font-semibold">
+              🏆 自己ベスト更新: {result.improvedPairs.map(formatPairKey).join('、')}
+            </p>
+          )}
+        </section>
+      )}
+
+      {/* 自己ベスト */}
+      {pairKeys.length > 0 && (
+        <section>
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">自己ベスト</h2>
+          <ul className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+            {pairKeys.map(key => (
+              <li key={key} className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-4">
+                <div className="font-bold text-gray-900 dark:text-white">{formatPairKey(key)}</div>
+                {records[key] ? (
+                  <div className="text-sm text-gray-600 dark:text-gray-400">
+                    {records[key].changesPerMinute}回/分（{records[key].bpm} BPM・{records[key].beatsPerChord}拍）
+                  </div>
+                ) : (
+                  <div className="text-sm text-gray-500 dark:text-gray-400">記録なし</div>
+                )}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default ChordChangeTrainer;
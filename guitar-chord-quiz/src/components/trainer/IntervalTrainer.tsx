@@ -0,0 +1,350 @@
+'use client';
+
+/**
+ * 音程トレーニングコンポーネント
+ *
+ * @description 指板上の2音・再生した2音の音程を答えるトレーニング
+ * @author Claude Code
+ */
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { FretboardNote } from '../../types';
+import { getTuning } from '../../data/tuning-presets';
+import {
+  COMPOUND_INTERVALS,
+  INTERVALS,
+  IntervalDefinition,
+  IntervalDirection,
+  IntervalPlayback,
+  IntervalQuestion,
+  MELODIC_NOTE_GAP,
+  SIMPLE_INTERVALS,
+  createIntervalQuestion,
+  getIntervalKey,
+  getIntervalNoteOrder,
+} from '../../lib/intervals';
+import { useAudio } from '../../hooks/useAudio';
+import { useGameSettings, useQuestionEvents } from '../../hooks/useLocalStorage';
+import { AccessibleFretboard } from '../fretboard/AccessibleFretboard';
+import { Button } from '../ui/Button';
+import clsx from 'clsx';
+
+// =============================================================================
+// Types - 型定義
+// =============================================================================
+
+/**
+ * 出題方法
+ * - fretboard: 指板上の2つのドットを見て答える
+ * - ear: 再生した2音を聴いて答える
+ */
+type IntervalPresentation = 'fretboard' | 'ear';
+
+/**
+ * 音程トレーニングコンポーネントのプロパティ
+ */
+interface IntervalTrainerProps {
+  /** 追加のCSSクラス */
+  className?: string;
+}
+
+// =============================================================================
+// Constants - 定数
+// =============================================================================
+
+/**
+ * 出題方法の表示名
+ */
+const PRESENTATION_LABELS: Record<IntervalPresentation, string> = {
+  fretboard: '👀 指板で見る',
+  ear: '👂 耳で聴く',
+};
+
+/**
+ * 再生方法の表示名
+ */
+const PLAYBACK_LABELS: Record<IntervalPlayback, string> = {
+  harmonic: '同時に鳴らす',
+  melodic: '順に鳴らす',
+};
+
+/**
+ * 方向の表示名
+ */
+const DIRECTION_LABELS: Record<IntervalDirection, string> = {
+  ascending: '⬆️ 上行',
+  descending: '⬇️ 下行',
+};
+
+/**
+ * 1音の再生時間（秒）
+ */
+const NOTE_DURATION = 1.5;
+
+// =============================================================================
+// Utility Functions - ユーティリティ関数
+// =============================================================================
+
+/**
+ * 切り替えボタンのスタイル
+ */
+const getToggleClassName = (selected: boolean): string =>
+  clsx(
+    'px-3 py-1 rounded-full border text-sm transition-colors',
+    selected
+      ? 'bg-blue-500 border-blue-500 text-white'
+      : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-100 dark:bg-gray-700 dark:border-gray-600 dark:text-gray-300'
+  );
+
+/**
+ * 2音の前後に余裕を持たせた表示範囲
+ */
+const getDisplayRange = (question: IntervalQuestion): { start: number; end: number } => {
+  const frets = [question.lower.fret, question.upper.fret];
+  const start = Math.max(0, Math.min(...frets) - 1);
+  return { start, end: Math.max(start + 5, Math.max(...frets) + 2) };
+};
+
+// =============================================================================
+// Main Component - メインコンポーネント
+// =============================================================================
+
+/**
+ * 音程トレーニングコンポーネント
+ *
+ * 回答はコードクイズと同じ回答記録に保存し、統計の苦手分析に表示する
+ *
+ * @example
+ * ```tsx
+ * <IntervalTrainer />
+ * ```
+ */
+export const IntervalTrainer: React.FC<IntervalTrainerProps> = ({ className }) => {
+  const audio = useAudio();
+  const { changeTuning } = audio;
+  const { settings } = useGameSettings();
+  const tuning = getTuning(settings.tuning);
+  const { recordEvent } = useQuestionEvents();
+
+  const [presentation, setPresentation] = useState<IntervalPresentation>('fretboard');
+  const [playback, setPlayback] = useState<IntervalPlayback>('melodic');
+  const [directions, setDirections] = useState<IntervalDirection[]>(['ascending']);
+  const [includeCompound, setIncludeCompound] = useState(false);
+  const [question, setQuestion] = useState<IntervalQuestion | null>(null);
+  const [answer, setAnswer] = useState<IntervalDefinition | null>(null);
+  const [score, setScore] = useState({ correct: 0, total: 0 });
+  const questionStartRef = useRef(0);
+
+  const enabledIntervals = useMemo(
+    () => (includeCompound ? [...SIMPLE_INTERVALS, ...COMPOUND_INTERVALS] : SIMPLE_INTERVALS),
+    [includeCompound]
+  );
+
+  // 選択中のチューニングを音声合成に反映
+  useEffect(() => {
+    changeTuning(tuning);
+  }, [changeTuning, tuning]);
+
+  // 2音を再生
+  const playQuestion = useCallback(async (target: IntervalQuestion) => {
+    if (!audio.isInitialized) {
+      await audio.enableAudio();
+    }
+
+    const [first, second] = getIntervalNoteOrder(target);
+    const secondDelay = playback === 'melodic' ? MELODIC_NOTE_GAP : 0;
+    await audio.playString(first.stringIndex, first.fret, NOTE_DURATION);
+    await audio.playString(second.stringIndex, second.fret, NOTE_DURATION, secondDelay);
+  }, [audio, playback]);
+
+  // 次の問題を出題（耳で聴く場合はそのまま再生）
+  const showQuestion = useCallback((autoPlay: boolean) => {
+    const next = createIntervalQuestion({ intervals: enabledIntervals, directions, tuning });
+    setQuestion(next);
+    setAnswer(null);
+    questionStartRef.current = Date.now();
+    if (autoPlay) playQuestion(next);
+  }, [enabledIntervals, directions, tuning, playQuestion]);
+
+  // 初回の出題（サーバーとクライアントで乱数が異なるためマウント後に選ぶ）
+  useEffect(() => {
+    if (!question) showQuestion(false);
+  }, [question, showQuestion]);
+
+  const handleToggleDirection = (direction: IntervalDirection) => {
+    setDirections(prev => {
+      if (!prev.includes(direction)) return [...prev, direction];
+      // 少なくとも1つは選択しておく
+      return prev.length > 1 ? prev.filter(item => item !== direction) : prev;
+    });
+  };
+
+  const handleAnswer = (selected: IntervalDefinition) => {
+    if (!question || answer) return;
+
+    const isCorrect = selected.semitones === question.interval.semitones;
+    setAnswer(selected);
+    setScore(prev => ({ correct: prev.correct + (isCorrect ? 1 : 0), total: prev.total + 1 }));
+    recordEvent({
+      source: 'interval',
+      chordKey: getIntervalKey(question.interval),
+      chordName: question.interval.name,
+      answer: selected.name,
+      isCorrect,
+      responseTime: (Date.now() - questionStartRef.current) / 1000,
+      hintsUsed: 0,
+      difficulty: settings.difficulty,
+    });
+  };
+
+  // 表示する2音（1音目をルート色、ラベルは鳴らす順）
+  const displayedNotes = useMemo<FretboardNote[]>(() => {
+    if (!question) return [];
+    const [first, second] = getIntervalNoteOrder(question);
+    return [
+      { ...first, label: '1', variant: 'root' },
+      { ...second, label: '2', variant: 'default' },
+    ];
+  }, [question]);
+
+  if (!question) return null;
+
+  const isCorrect = answer?.semitones === question.interval.semitones;
+  const showFretboard = presentation === 'fretboard' || answer !== null;
+
+  return (
+    <div className={clsx('space-y-8', className)}>
+      {/* 出題設定 */}
+      <section className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-6 space-y-4">
+        <div className="flex flex-wrap gap-2" role="group" aria-label="出題方法">
+          {(Object.keys(PRESENTATION_LABELS) as IntervalPresentation[]).map(item => (
+            <button
+              key={item}
+              onClick={() => setPresentation(item)}
+              aria-pressed={presentation === item}
+              className={clsx(
+                'px-4 py-2 rounded-lg font-medium transition-colors',
+                presentation === item
+                  ? 'bg-blue-500 text-white'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300'
+              )}
+            >
+              {PRESENTATION_LABELS[item]}
+            </button>
+          ))}
+          <div className="ml-auto text-right">
+            <div className="text-2xl font-bold text-green-600">
+              {score.correct}/{score.total}
+            </div>
+            <div className="text-xs text-gray-500 dark:text-gray-400">正解数</div>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-6">
+          <div className="flex flex-wrap gap-2" role="group" aria-label="再生方法">
+            {(Object.keys(PLAYBACK_LABELS) as IntervalPlayback[]).map(item => (
+              <button
+                key={item}
+                onClick={() => setPlayback(item)}
+                aria-pressed={playback === item}
+                className={getToggleClassName(playback === item)}
+              >
+                {PLAYBACK_LABELS[item]}
+              </button>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-2" role="group" aria-label="方向">
+            {(Object.keys(DIRECTION_LABELS) as IntervalDirection[]).map(item => (
+              <button
+                key={item}
+                onClick={() => handleToggleDirection(item)}
+                aria-pressed={directions.includes(item)}
+                className={getToggleClassName(directions.includes(item))}
+              >
+                {DIRECTION_LABELS[item]}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={includeCompound}
+              onChange={e => setIncludeCompound(e.target.checked)}
+              className="h-4 w-4"
+            />
+            複音程（9度〜15度）を含める
+          </label>
+        </div>
+      </section>
+
+      {/* 問題 */}
+      <section className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-6 space-y-4">
+        <div className="flex flex-wrap items-center gap-4">
+          <p className="text-lg text-gray-900 dark:text-white">
+            {presentation === 'fretboard' ? '2つの音の音程は？（1 → 2）' : '聴こえた2つの音の音程は？'}
+          </p>
+          <div className="ml-auto flex gap-2">
+            <Button variant="secondary" onClick={() => playQuestion(question)}>🔊 再生</Button>
+            {answer && <Button onClick={() => showQuestion(presentation === 'ear')}>次の問題 →</Button>}
+          </div>
+        </div>
+
+        {showFretboard ? (
+          <AccessibleFretboard
+            notePositions={displayedNotes}
+            title={answer ? `${question.interval.label}（${question.interval.name}）` : '音程を答える'}
+            orientation="horizontal"
+            tuning={tuning}
+            fretRange={getDisplayRange(question)}
+            onStringPlay={audio.playString}
+          />
+        ) : (
+          <div className="py-12 text-center text-gray-500 dark:text-gray-400">
+            🔊 再生ボタンで2つの音を聴いてください
+          </div>
+        )}
+
+        {/* 音程の回答 */}
+        <div className="grid grid-cols-3 sm:grid-cols-6 gap-2" role="group" aria-label="音程を選択">
+          {INTERVALS.filter(interval => enabledIntervals.includes(interval.semitones)).map(interval => (
+            <button
+              key={interval.semitones}
+              onClick={() => handleAnswer(interval)}
+              disabled={answer !== null}
+              className={clsx(
+                'py-2 rounded-lg border transition-colors',
+                answer && interval.semitones === question.interval.semitones
+                  ? 'bg-green-500 border-green-500 text-white'
+                  : answer?.semitones === interval.semitones
+                    ? 'bg-red-500 border-red-500 text-white'
+                    : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-100 dark:bg-gray-700 dark:border-gray-600 dark:text-gray-300'
+              )}
+            >
+              <div className="font-semibold">{interval.name}</div>
+              <div className="text-xs">{interval.label}</div>
+            </button>
+          ))}
+        </div>
+
+        {/* 結果表示 */}
+        {answer && (
+          <div
+            role="status"
+            className={clsx(
+              'rounded-lg border p-4',
+              isCorrect ? 'bg-green-50 border-green-200 text-green-900' : 'bg-red-50 border-red-200 text-red-900'
+            )}
+          >
+            <p className="font-semibold">{isCorrect ? '🎉 正解です！' : '❌ 不正解です'}</p>
+            <p className="text-sm mt-1">
+              正解: {question.interval.label}（{question.interval.name}・半音{question.interval.semitones}個・
+              {DIRECTION_LABELS[question.direction]}）
+            </p>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default IntervalTrainer;
@@ -0,0 +1,128 @@
+'use client';
+
+/**
+ * 音名トレーニング正答率ヒートマップコンポーネント
+ *
+ * @description 弦・フレットごとの正答率を色で表示
+ * @author Claude Code
+ */
+
+import React from 'react';
+import { PositionAccuracy } from '../../types';
+import { getFretKey } from '../../lib/fretboard';
+import { getAccuracyRate, getStringAccuracy } from '../../lib/note-trainer';
+import clsx from 'clsx';
+
+// =============================================================================
+// Types - 型定義
+// =============================================================================
+
+/**
+ * ヒートマップコンポーネントのプロパティ
+ */
+interface NoteHeatmapProps {
+  /** 位置（"弦番号-フレット"）ごとの正答数 */
+  stats: Record<string, PositionAccuracy>;
+  /** 表示するフレット範囲（両端を含む） */
+  fretRange: { start: number; end: number };
+  /** 弦のラベル（6弦から1弦） */
+  stringLabels: string[];
+  /** 追加のCSSクラス */
+  className?: string;
+}
+
+// =============================================================================
+// Utility Functions - ユーティリティ関数
+// =============================================================================
+
+/**
+ * 正答率の色（0 = 赤 〜 1 = 緑、未回答はなし）
+ */
+const getHeatColor = (rate: number | null): string | undefined => {
+  return rate === null ? undefined : `hsl(${Math.round(rate * 120)}, 70%, 55%)`;
+};
+
+/**
+ * 正答率の表示
+ */
+const formatRate = (accuracy: PositionAccuracy | undefined): string => {
+  const rate = getAccuracyRate(accuracy);
+  return rate === null ? '未回答' : `${Math.round(rate * 100)}%（${accuracy!.correct}/${accuracy!.total}）`;
+};
+
+// =============================================================================
+// Main Component - メインコンポーネント
+// =============================================================================
+
+/**
+ * 音名トレーニング正答率ヒートマップコンポーネント
+ *
+ * 1弦を上にして指板と同じ向きで表示する
+ *
+ * @example
+ * ```tsx
+ * <NoteHeatmap stats={stats} fretRange={{ start: 0, end: 12 }} stringLabels={tuning.labels} />
+ * ```
+ */
+export const NoteHeatmap: React.FC<NoteHeatmapProps> = ({ stats, fretRange, stringLabels, className }) => {
+  const frets = Array.from({ length: fretRange.end - fretRange.start + 1 }, (_, i) => fretRange.start + i);
+  const stringIndexes = [5, 4, 3, 2, 1, 0];
+
+  return (
+    <div className={clsx('overflow-x-auto', className)}>
+      <table className="border-separate border-spacing-1 text-xs">
+        <caption className="sr-only">弦・フレットごとの正答率</caption>
+        <thead>
+          <tr>
+            <th scope="col" className="text-left text-gray-500 dark:text-gray-400 font-medium pr-2">弦</th>
+            {frets.map(fret => (
+              <th key={fret} scope="col" className="w-8 text-center text-gray-500 dark:text-gray-400 font-medium">
+                {fret === 0 ? '開放' : fret}
+              </th>
+            ))}
+            <th scope="col" className="text-right text-gray-500 dark:text-gray-400 font-medium pl-2">弦全体</th>
+          </tr>
+        </thead>
+        <tbody>
+          {stringIndexes.map(stringIndex => {
+            const stringAccuracy = getStringAccuracy(stats, stringIndex);
+            const stringRate = getAccuracyRate(stringAccuracy);
+
+            return (
+              <tr key={stringIndex}>
+                <th scope="row" className="text-left text-gray-700 dark:text-gray-300 font-medium pr-2 whitespace-nowrap">
+                  {6 - stringIndex}弦 ({stringLabels[stringIndex]})
+                </th>
+                {frets.map(fret => {
+                  const accuracy = stats[getFretKey(stringIndex, fret)];
+                  const rate = getAccuracyRate(accuracy);
+                  const label = `${6 - stringIndex}弦 ${fret === 0 ? '開放' : `${fret}フレット`}: ${formatRate(accuracy)}`;
+
+                  return (
+                    <td
+                      key={fret}
+                      title={label}
+                      aria-label={label}
+                      style={{ backgroundColor: getHeatColor(rate) }}
+                      className={clsx(
+                        'h-8 w-8 rounded text-center text-white font-semibold',
+                        rate === null && 'bg-gray-100 dark:bg-gray-700'
+                      )}
+                    >
+                      {rate === null ? '' : Math.round(rate * 100)}
+                    </td>
+                  );
+                })}
+                <td className="text-right text-gray-700 dark:text-gray-300 pl-2 whitespace-nowrap">
+                  {stringRate === null ? '-' : `${Math.round(stringRate * 100)}%`}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default NoteHeatmap;
@@ -0,0 +1,388 @@
+'use client';
+
+/**
+ * 音名トレーニングコンポーネント
+ *
+ * @description 指板上の音の位置を探す・位置の音名を答えるトレーニングと正答率ヒートマップ
+ * @author Claude Code
+ */
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { FretboardNote, NoteName } from '../../types';
+import { getTuning } from '../../data/tuning-presets';
+import { NOTE_NAMES, PositionGrade, gradeNotePositions } from '../../lib/theory';
+import { getFretKey, parseFretKey } from '../../lib/fretboard';
+import {
+  DEFAULT_NOTE_TRAINER_RANGE,
+  MAX_TRAINER_FRET,
+  NoteTrainerRange,
+  findNotePositions,
+  getGradeAttempts,
+  getPositionNote,
+  getRandomNote,
+  getRandomPosition,
+} from '../../lib/note-trainer';
+import { useGameSettings, useNoteTrainerStats } from '../../hooks/useLocalStorage';
+import { AccessibleFretboard } from '../fretboard/AccessibleFretboard';
+import { NoteHeatmap } from './NoteHeatmap';
+import { Button } from '../ui/Button';
+import clsx from 'clsx';
+
+// =============================================================================
+// Types - 型定義
+// =============================================================================
+
+/**
+ * トレーニングの形式
+ * - find: 指定した音名の位置を指板上ですべて押さえる
+ * - name: 表示された位置の音名を答える
+ */
+type NoteTrainerMode = 'find' | 'name';
+
+/**
+ * 音名トレーニングコンポーネントのプロパティ
+ */
+interface NoteTrainerProps {
+  /** 追加のCSSクラス */
+  className?: string;
+}
+
+// =============================================================================
+// Constants - 定数
+// =============================================================================
+
+/**
+ * トレーニング形式の表示名
+ */
+const NOTE_TRAINER_MODE_LABELS: Record<NoteTrainerMode, string> = {
+  find: '🔍 音の位置を探す',
+  name: '🏷️ 音名を答える',
+};
+
+/**
+ * フレットの選択肢
+ */
+const FRET_OPTIONS = Array.from({ length: MAX_TRAINER_FRET + 1 }, (_, i) => i);
+
+/**
+ * select要素の共通スタイル
+ */
+const SELECT_CLASS_NAME = `mt-1 px-3 py-2 rounded-lg border border-gray-300 bg-white text-gray-900
+  dark:bg-gray-700 dark:border-gray-600 dark:text-white`;
+
+// =============================================================================
+// Main Component - メインコンポーネント
+// =============================================================================
+
+/**
+ * 音名トレーニングコンポーネント
+ *
+ * 設定画面で選んだチューニングで出題し、位置ごとの正答率を保存する
+ *
+ * @example
+ * ```tsx
+ * <NoteTrainer />
+ * ```
+ */
+export const NoteTrainer: React.FC<NoteTrainerProps> = ({ className }) => {
+  const { settings } = useGameSettings();
+  const tuning = getTuning(settings.tuning);
+  const { stats, recordAttempts, resetStats } = useNoteTrainerStats();
+
+  const [mode, setMode] = useState<NoteTrainerMode>('find');
+  const [range, setRange] = useState<NoteTrainerRange>(DEFAULT_NOTE_TRAINER_RANGE);
+  const [targetNote, setTargetNote] = useState<NoteName | null>(null);
+  const [targetPosition, setTargetPosition] = useState<FretboardNote | null>(null);
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set());
+  const [grade, setGrade] = useState<PositionGrade | null>(null);
+  const [answeredNote, setAnsweredNote] = useState<NoteName | null>(null);
+  const [isAnswered, setIsAnswered] = useState(false);
+  const [score, setScore] = useState({ correct: 0, total: 0 });
+
+  // 次の問題を出題
+  const showQuestion = useCallback((nextMode: NoteTrainerMode, nextRange: NoteTrainerRange) => {
+    if (nextMode === 'find') {
+      setTargetNote(getRandomNote(tuning, nextRange));
+    } else {
+      setTargetPosition(getRandomPosition(nextRange));
+    }
+    setSelectedKeys(new Set());
+    setGrade(null);
+    setAnsweredNote(null);
+    setIsAnswered(false);
+  }, [tuning]);
+
+  // 初回の出題（サーバーとクライアントで乱数が異なるためマウント後に選ぶ）
+  useEffect(() => {
+    if (!targetNote && !targetPosition) showQuestion(mode, range);
+  }, [targetNote, targetPosition, mode, range, showQuestion]);
+
+  const handleModeChange = (nextMode: NoteTrainerMode) => {
+    setMode(nextMode);
+    showQuestion(nextMode, range);
+  };
+
+  const handleRangeChange = (updates: Partial<NoteTrainerRange>) => {
+    const next = { ...range, ...updates };
+    if (next.stringIndexes.length === 0 || next.fretRange.start > next.fretRange.end) return;
+
+    setRange(next);
+    showQuestion(mode, next);
+  };
+
+  const handleToggleString = (stringIndex: number) => {
+    const { stringIndexes } = range;
+    handleRangeChange({
+      stringIndexes: stringIndexes.includes(stringIndex)
+        ? stringIndexes.filter(item => item !== stringIndex)
+        : [...stringIndexes, stringIndex],
+    });
+  };
+
+  const handleFretToggle = useCallback((stringIndex: number, fret: number) => {
+    // 出題範囲外の弦は押さえられない
+    if (!range.stringIndexes.includes(stringIndex)) return;
+
+    const key = getFretKey(stringIndex, fret);
+    setSelectedKeys(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+    setGrade(null);
+  }, [range.stringIndexes]);
+
+  const handleFindCheck = () => {
+    if (!targetNote) return;
+
+    const expected = findNotePositions(targetNote, tuning, range);
+    const result = gradeNotePositions(expected, selectedKeys);
+    setGrade(result);
+
+    // 正答率は最初の答え合わせのみ記録する
+    if (!isAnswered) {
+      setIsAnswered(true);
+      recordAttempts(getGradeAttempts(result));
+      setScore(prev => ({ correct: prev.correct + (result.isCorrect ? 1 : 0), total: prev.total + 1 }));
+    }
+  };
+
+  const handleNameAnswer = (note: NoteName) => {
+    if (!targetPosition || isAnswered) return;
+
+    const isCorrect = note === getPositionNote(targetPosition.stringIndex, targetPosition.fret, tuning);
+    setAnsweredNote(note);
+    setIsAnswered(true);
+    recordAttempts([{ key: getFretKey(targetPosition.stringIndex, targetPosition.fret), isCorrect }]);
+    setScore(prev => ({ correct: prev.correct + (isCorrect ? 1 : 0), total: prev.total + 1 }));
+  };
+
+  // 表示する音
+  const displayedNotes = useMemo<FretboardNote[]>(() => {
+    if (mode === 'name') {
+      if (!targetPosition) return [];
+      const label = isAnswered ? getPositionNote(targetPosition.stringIndex, targetPosition.fret, tuning) : undefined;
+      return [{ ...targetPosition, label, variant: 'root' }];
+    }
+
+    if (grade) {
+      return grade.notes.map(note => (note.variant === 'extra' ? note : { ...note, label: targetNote ?? undefined }));
+    }
+    return Array.from(selectedKeys).flatMap(key => {
+      const position = parseFretKey(key);
+      return position ? [position] : [];
+    });
+  }, [mode, targetPosition, isAnswered, tuning, grade, targetNote, selectedKeys]);
+
+  const correctNote = targetPosition ? getPositionNote(targetPosition.stringIndex, targetPosition.fret, tuning) : null;
+
+  return (
+    <div className={clsx('space-y-8', className)}>
+      {/* 出題設定 */}
+      <section className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-6 space-y-4">
+        <div className="flex flex-wrap gap-2" role="group" aria-label="トレーニングの形式">
+          {(Object.keys(NOTE_TRAINER_MODE_LABELS) as NoteTrainerMode[]).map(item => (
+            <button
+              key={item}
+              onClick={() => handleModeChange(item)}
+              aria-pressed={mode === item}
+              className={clsx(
+                'px-4 py-2 rounded-lg font-medium transition-colors',
+                mode === item
+                  ? 'bg-blue-500 text-white'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300'
+              )}
+            >
+              {NOTE_TRAINER_MODE_LABELS[item]}
+            </button>
+          ))}
+          <div className="ml-auto text-right">
+            <div className="text-2xl font-bold text-green-600">
+              {score.correct}/{score.total}
+            </div>
+            <div className="text-xs text-gray-500 dark:text-gray-400">正解数</div>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-6">
+          <div>
+            <h2 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">出題する弦</h2>
+            <div className="flex flex-wrap gap-2">
+              {[5, 4, 3, 2, 1, 0].map(stringIndex => {
+                const selected = range.stringIndexes.includes(stringIndex);
+                return (
+                  <button
+                    key={stringIndex}
+                    onClick={() => handleToggleString(stringIndex)}
+                    aria-pressed={selected}
+                    className={clsx(
+                      'px-3 py-1 rounded-full border text-sm transition-colors',
+                      selected
+                        ? 'bg-blue-500 border-blue-500 text-white'
+                        : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-100 dark:bg-gray-700 dark:border-gray-600 dark:text-gray-300'
+                    )}
+                  >
+                    {6 - stringIndex}弦 ({tuning.labels[stringIndex]})
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+          <label className="flex flex-col text-sm font-medium text-gray-700 dark:text-gray-300">
+            フレット（から）
+            <select
+              value={range.fretRange.start}
+              onChange={e => handleRangeChange({ fretRange: { ...range.fretRange, start: Number(e.target.value) } })}
+              className={SELECT_CLASS_NAME}
+            >
+              {FRET_OPTIONS.filter(fret => fret <= range.fretRange.end).map(fret => (
+                <option key={fret} value={fret}>{fret === 0 ? '開放' : fret}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col text-sm font-medium text-gray-700 dark:text-gray-300">
+            フレット（まで）
+            <select
+              value={range.fretRange.end}
+              onChange={e => handleRangeChange({ fretRange: { ...range.fretRange, end: Number(e.target.value) } })}
+              className={SELECT_CLASS_NAME}
+            >
+              {FRET_OPTIONS.filter(fret => fret >= range.fretRange.start).map(fret => (
+                <option key={fret} value={fret}>{fret === 0 ? '開放' : fret}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+      </section>
+
+      {/* 問題 */}
+      <section className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-6 space-y-4">
+        <div className="flex flex-wrap items-center gap-4">
+          <p className="text-lg text-gray-900 dark:text-white">
+            {mode === 'find'
+              ? <>範囲内の <span className="text-2xl font-bold text-blue-600">{targetNote}</span> をすべて押さえてください</>
+              : 'このドットの音名は？'}
+          </p>
+          <div className="ml-auto flex gap-2">
+            {mode === 'find' ? (
+              <>
+                <Button variant="secondary" onClick={() => { setSelectedKeys(new Set()); setGrade(null); }}>
+                  🗑️ クリア
+                </Button>
+                <Button onClick={handleFindCheck} disabled={selectedKeys.size === 0}>✓ 答え合わせ</Button>
+                {isAnswered && <Button onClick={() => showQuestion(mode, range)}>次の問題 →</Button>}
+              </>
+            ) : (
+              isAnswered && <Button onClick={() => showQuestion(mode, range)}>次の問題 →</Button>
+            )}
+          </div>
+        </div>
+
+        <AccessibleFretboard
+          notePositions={displayedNotes}
+          title={mode === 'find' ? `${targetNote ?? ''} の位置` : '音名を答える'}
+          orientation="horizontal"
+          tuning={tuning}
+          fretRange={{ start: range.fretRange.start, end: range.fretRange.end + 1 }}
+          interactive={mode === 'find'}
+          onFretToggle={mode === 'find' ? handleFretToggle : undefined}
+        />
+
+        {/* 音名の回答 */}
+        {mode === 'name' && (
+          <div className="grid grid-cols-6 sm:grid-cols-12 gap-2" role="group" aria-label="音名を選択">
+            {NOTE_NAMES.map(note => (
+              <button
+                key={note}
+                onClick={() => handleNameAnswer(note)}
+                disabled={isAnswered}
+                className={clsx(
+                  'py-2 rounded-lg border font-semibold transition-colors',
+                  isAnswered && note === correctNote
+                    ? 'bg-green-500 border-green-500 text-white'
+                    : isAnswered && note === answeredNote
+                      ? 'bg-red-500 border-red-500 text-white'
+                      : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-100 dark:bg-gray-700 dark:border-gray-600 dark:text-gray-300'
+                )}
+              >
+                {note}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* 結果表示 */}
+        {mode === 'name' && isAnswered && targetPosition && (
+          <div
+            role="status"
+            className={clsx(
+              'rounded-lg border p-4',
+              answeredNote === correctNote ? 'bg-green-50 border-green-200 text-green-900' : 'bg-red-50 border-red-200 text-red-900'
+            )}
+          >
+            <p className="font-semibold">{answeredNote === correctNote ? '🎉 正解です！' : '❌ 不正解です'}</p>
+            <p className="text-sm mt-1">
+              {6 - targetPosition.stringIndex}弦 {targetPosition.fret === 0 ? '開放' : `${targetPosition.fret}フレット`} は {correctNote}
+            </p>
+          </div>
+        )}
+        {mode === 'find' && grade && (
+          <div
+            role="status"
+            className={clsx(
+              'rounded-lg border p-4',
+              grade.isCorrect ? 'bg-green-50 border-green-200 text-green-900' : 'bg-red-50 border-red-200 text-red-900'
+            )}
+          >
+            <p className="font-semibold">{grade.isCorrect ? '🎉 すべて正解です！' : '❌ 不正解です'}</p>
+            {!grade.isCorrect && (
+              <p className="text-sm mt-1">
+                正しい位置: {grade.correctCount}・足りない位置: {grade.missing.length}（点線）・誤り: {grade.extra.length}（×）
+              </p>
+            )}
+          </div>
+        )}
+      </section>
+
+      {/* 正答率ヒートマップ */}
+      <section className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">位置ごとの正答率</h2>
+          <Button variant="secondary" size="sm" onClick={resetStats} disabled={Object.keys(stats).length === 0}>
+            記録をリセット
+          </Button>
+        </div>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          赤いほど苦手な位置です。出題範囲を苦手な弦・フレットに絞って練習しましょう
+        </p>
+        <NoteHeatmap stats={stats} fretRange={{ start: 0, end: MAX_TRAINER_FRET }} stringLabels={tuning.labels} />
+      </section>
+    </div>
+  );
+};
+
+export default NoteTrainer;
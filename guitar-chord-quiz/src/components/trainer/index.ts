@@ -0,0 +1,9 @@
+/**
+ * Trainer Components - Export Module
+ * 練習モード関連コンポーネントの一元エクスポート
+ */
+
+export { ChordChangeTrainer } from './ChordChangeTrainer';
+export { NoteTrainer } from './NoteTrainer';
+export { NoteHeatmap } from './NoteHeatmap';
+export { IntervalTrainer } from './IntervalTrainer';
@@ -0,0 +1,229 @@
+'use client';
+
+/**
+ * チューナーコンポーネント
+ *
+ * @description マイク入力のクロマチックチューナー（チューニング・基準ピッチ設定付き）
+ * @author Claude Code
+ */
+
+import React from 'react';
+import { TuningId } from '../../types';
+import { getTuning, TUNING_IDS, TUNING_PRESETS } from '../../data/tuning-presets';
+import {
+  DEFAULT_REFERENCE_PITCH,
+  IN_TUNE_CENTS,
+  REFERENCE_PITCH_RANGE,
+} from '../../lib/pitch-detection';
+import { useAudio } from '../../hooks/useAudio';
+import { useGameSettings } from '../../hooks/useLocalStorage';
+import { useTuner } from '../../hooks/useTuner';
+import { Button } from '../ui/Button';
+import clsx from 'clsx';
+
+// =============================================================================
+// Types - 型定義
+// =============================================================================
+
+/**
+ * チューナーコンポーネントのプロパティ
+ */
+interface TunerProps {
+  /** 追加のCSSクラス */
+  className?: string;
+}
+
+// =============================================================================
+// Utility Functions - ユーティリティ関数
+// =============================================================================
+
+/**
+ * セント値の表示（符号付き）
+ */
+const formatCents = (cents: number): string => {
+  const rounded = Math.round(cents);
+  return `${rounded > 0 ? '+' : ''}${rounded}`;
+};
+
+/**
+ * 目標の弦に対する調整の案内
+ */
+const getAdjustmentLabel = (cents: number): string => {
+  if (Math.abs(cents) <= IN_TUNE_CENTS) return '合っています';
+  return cents < 0 ? '低い ─ 締める' : '高い ─ 緩める';
+};
+
+// =============================================================================
+// Main Component - メインコンポーネント
+// =============================================================================
+
+/**
+ * チューナーコンポーネント
+ *
+ * 最も近い音名とセント値に加え、選択中のチューニングで最も近い開放弦との差を表示する。
+ * チューニングと基準ピッチはゲーム設定に保存され、クイズと共有される
+ *
+ * @example
+ * ```tsx
+ * <Tuner />
+ * ```
+ */
+export const Tuner: React.FC<TunerProps> = ({ className }) => {
+  const audio = useAudio();
+  const { settings, updateSettings } = useGameSettings();
+  const tuning = getTuning(settings.tuning);
+  const referencePitch = settings.referencePitch ?? DEFAULT_REFERENCE_PITCH;
+
+  const { isListening, error, reading, start, stop } = useTuner(tuning, referencePitch, audio.getAudioContext);
+
+  const handleReferencePitchChange = (value: number) => {
+    const clamped = Math.max(REFERENCE_PITCH_RANGE.min, Math.min(REFERENCE_PITCH_RANGE.max, value));
+    updateSettings({ referencePitch: clamped });
+  };
+
+  const isInTune = reading !== null && Math.abs(reading.stringCents) <= IN_TUNE_CENTS;
+  // メーターの針の位置（-50〜+50セントを0〜100%に）
+  const needlePercent = reading ? 50 + Math.max(-50, Math.min(50, reading.cents)) : 50;
+  const targetStringIndex = reading ? 6 - reading.stringNumber : -1;
+
+  return (
+    <div className={clsx('space-y-8', className)}>
+      {/* 設定 */}
+      <section className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-6">
+        <div className="flex flex-wrap items-end gap-6">
+          <label className="flex flex-col text-sm font-medium text-gray-700 dark:text-gray-300">
+            チューニング
+            <select
+              value={settings.tuning}
+              onChange={e => updateSettings({ tuning: e.target.value as TuningId })}
+              className="mt-1 px-3 py-2 rounded-lg border border-gray-300 bg-white text-gray-900
+                       dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+            >
+              {TUNING_IDS.map(id => (
+                <option key={id} value={id}>
+                  {TUNING_PRESETS[id].name} ({TUNING_PRESETS[id].labels.join(' ')})
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <div className="flex flex-col text-sm font-medium text-gray-700 dark:text-gray-300">
+            <span id="reference-pitch-label">基準ピッチ（A4）</span>
+            <div className="mt-1 flex items-center gap-2" role="group" aria-labelledby="reference-pitch-label">
+              <button
+                onClick={() => handleReferencePitchChange(referencePitch - 1)}
+                disabled={referencePitch <= REFERENCE_PITCH_RANGE.min}
+                className="w-9 h-9 rounded-lg border border-gray-300 bg-white hover:bg-gray-100 disabled:opacity-50
+                         dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                aria-label="基準ピッチを1Hz下げる"
+              >
+                −
+              </button>
+              <span className="w-20 text-center text-lg font-semibold text-gray-900 dark:text-white">
+                {referencePitch} Hz
+              </span>
+              <button
+                onClick={() => handleReferencePitchChange(referencePitch + 1)}
+                disabled={referencePitch >= REFERENCE_PITCH_RANGE.max}
+                className="w-9 h-9 rounded-lg border border-gray-300 bg-white hover:bg-gray-100 disabled:opacity-50
+                         dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                aria-label="基準ピッチを1Hz上げる"
+              >
+                ＋
+              </button>
+              {referencePitch !== DEFAULT_REFERENCE_PITCH && (
+                <button
+                  onClick={() => handleReferencePitchChange(DEFAULT_REFERENCE_PITCH)}
+                  className="text-blue-500 hover:text-blue-600 text-sm"
+                >
+                  440Hzに戻す
+                </button>
+              )}
+            </div>
+          </div>
+
+          {isListening ? (
+            <Button variant="danger" onClick={stop} className="ml-auto">
+              ⏹ 停止
+            </Button>
+          ) : (
+            <Button onClick={() => start()} className="ml-auto">
+              🎤 チューニング開始
+            </Button>
+          )}
+        </div>
+        {error && <p role="alert" className="mt-3 text-sm text-red-600">{error}</p>}
+      </section>
+
+      {/* メーター */}
+      <section className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-6 space-y-6">
+        <div className="text-center" aria-live="polite">
+          <div
+            className={clsx(
+              'text-7xl font-bold',
+              !reading ? 'text-gray-300 dark:text-gray-600' : isInTune ? 'text-green-600' : 'text-gray-900 dark:text-white'
+            )}
+          >
+            {reading ? reading.note : '–'}
+            {reading && <sub className="text-2xl font-semibold text-gray-500">{reading.octave}</sub>}
+          </div>
+          <div className="mt-2 text-gray-600 dark:text-gray-400">
+            {reading
+              ? `${reading.frequency.toFixed(1)} Hz（${formatCents(reading.cents)} セント）`
+              : isListening ? '弦を1本ずつ鳴らしてください' : 'マイクを開始してください'}
+          </div>
+        </div>
+
+        <div className="relative h-10" aria-hidden="true">
+          <div className="absolute inset-x-0 top-1/2 h-1 -translate-y-1/2 rounded-full bg-gray-200 dark:bg-gray-700" />
+          <div
+            className="absolute top-0 h-full bg-green-200 dark:bg-green-900"
+            style={{ left: `${50 - IN_TUNE_CENTS}%`, width: `${IN_TUNE_CENTS * 2}%` }}
+          />
+          <div
+            className={clsx(
+              'absolute top-0 h-full w-1 -translate-x-1/2 rounded transition-all duration-100',
+              isInTune ? 'bg-green-600' : 'bg-red-500'
+            )}
+            style={{ left: `${needlePercent}%` }}
+          />
+          <div className="absolute -bottom-5 inset-x-0 flex justify-between text-xs text-gray-500">
+            <span>-50</span>
+            <span>0</span>
+            <span>+50</span>
+          </div>
+        </div>
+
+        {/* 目標の弦 */}
+        <div className="pt-4">
+          <div className="grid grid-cols-6 gap-2">
+            {tuning.labels.map((label, index) => (
+              <div
+                key={index}
+                className={clsx(
+                  'rounded-lg border p-2 text-center',
+                  index === targetStringIndex
+                    ? isInTune
+                      ? 'border-green-500 bg-green-50 text-green-800'
+                      : 'border-blue-500 bg-blue-50 text-blue-800'
+                    : 'border-gray-200 text-gray-500 dark:border-gray-700 dark:text-gray-400'
+                )}
+              >
+                <div className="text-xs">{6 - index}弦</div>
+                <div className="text-lg font-semibold">{label}</div>
+              </div>
+            ))}
+          </div>
+          {reading && (
+            <p className={clsx('mt-3 text-center font-medium', isInTune ? 'text-green-700' : 'text-gray-700 dark:text-gray-300')}>
+              {reading.stringNumber}弦（{tuning.labels[targetStringIndex]}・{reading.targetFrequency.toFixed(1)} Hz）まで
+              {' '}{formatCents(reading.stringCents)} セント: {getAdjustmentLabel(reading.stringCents)}
+            </p>
+          )}
+        </div>
+      </section>
+    </div>
+  );
+};
+
+export default Tuner;
@@ -0,0 +1,6 @@
+/**
+ * Tuner Components - Export Module
+ * チューナー関連コンポーネントの一元エクスポート
+ */
+
+export { Tuner } from './Tuner';
@@ -1,6 +1,9 @@
 'use client';
 
 import React from 'react';
+import { ChordPlaybackSettings, ChordPlaybackStyle, InstrumentType } from '@/types';
+import { INSTRUMENT_VOICES } from '@/lib/karplus-strong';
+import { PLAYBACK_STYLE_LABELS, STRUM_SPEED_OPTIONS } from '@/lib/playback-patterns';
 import { Button } from './Button';
 
 /**
@@ -19,12 +22,20 @@ interface AudioControlsProps {
   volume: number;
   /** 効果音の音量 (0-1) */
   effectsVolume: number;
+  /** 楽器の音色（onInstrumentChangeと併せて指定すると選択欄を表示） */
+  instrument?: InstrumentType;
+  /** コード再生設定（onPlaybackSettingsChangeと併せて指定すると選択欄を表示） */
+  playbackSettings?: ChordPlaybackSettings;
   /** 音声ON/OFF切り替え */
   onToggle: () => void;
   /** 楽器音音量変更 */
   onVolumeChange: (volume: number) => void;
   /** 効果音音量変更 */
   onEffectsVolumeChange: (volume: number) => void;
+  /** 楽器の音色変更 */
+  onInstrumentChange?: (instrument: InstrumentType) => void;
+  /** コード再生設定の変更 */
+  onPlaybackSettingsChange?: (changes: Partial<ChordPlaybackSettings>) => void;
   /** 音声有効化（初期化） */
   onEnable: () => void;
   /** コンパクト表示モード */
@@ -33,6 +44,89 @@ interface AudioControlsProps {
   className?: string;
 }
 
+/**
+ * コード再生方法の選択コンポーネントのプロパティ
+ */
+interface PlaybackStyleControlsProps {
+  /** コード再生設定 */
+  settings: ChordPlaybackSettings;
+  /** 再生設定の変更 */
+  onChange: (changes: Partial<ChordPlaybackSettings>) => void;
+  /** クラス名 */
+  className?: string;
+}
+
+/**
+ * アルペジオ・フィンガーピッキングの音の間隔の範囲（ミリ秒）
+ */
+const ARPEGGIO_INTERVAL_RANGE = { min: 80, max: 600, step: 10 } as const;
+
+/**
+ * コード再生方法の選択コンポーネント
+ * 再生方法に応じてストローク速度または音の間隔を設定できる
+ */
+export const PlaybackStyleControls: React.FC<PlaybackStyleControlsProps> = ({
+  settings,
+  onChange,
+  className = '',
+}) => {
+  const isStroke = settings.style === 'down' || settings.style === 'up';
+
+  return (
+    <div className={`flex flex-wrap items-center gap-3 text-sm text-gray-700 ${className}`}>
+      <select
+        value={settings.style}
+        onChange={(e) => onChange({ style: e.target.value as ChordPlaybackStyle })}
+        className="px-2 py-1 border border-gray-300 rounded-lg bg-white text-gray-700
+                 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        aria-label="コードの再生方法"
+      >
+        {(Object.keys(PLAYBACK_STYLE_LABELS) as ChordPlaybackStyle[]).map(style => (
+          <option key={style} value={style}>
+            {PLAYBACK_STYLE_LABELS[style]}
+          </option>
+        ))}
+      </select>
+
+      {isStroke && (
+        <label className="flex items-center gap-2">
+          ストローク速度
+          <select
+            value={settings.strumSpeed}
+            onChange={(e) => onChange({ strumSpeed: Number(e.target.value) })}
+            className="px-2 py-1 border border-gray-300 rounded-lg bg-white"
+          >
+            {STRUM_SPEED_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      {!isStroke && settings.style !== 'block' && (
+        <label className="flex items-center gap-2">
+          音の間隔
+          <input
+            type="range"
+            min={ARPEGGIO_INTERVAL_RANGE.min}
+            max={ARPEGGIO_INTERVAL_RANGE.max}
+            step={ARPEGGIO_INTERVAL_RANGE.step}
+            value={settings.arpeggioInterval}
+            onChange={(e) => onChange({ arpeggioInterval: Number(e.target.value) })}
+            className="w-24 cursor-pointer focus:outline-none focus:ring-2 focus:ring-blue-500"
+            aria-label="音の間隔"
+          />
+          <span className="text-xs text-gray-500 w-14 text-right">
+            {settings.arpeggioInterval}ms
+          </span>
+        </label>
+      )}
+    </div>
+  );
+};
+
 /**
  * 音声制御コンポーネント
  * Web Audio API による音声制御のUIを提供
@@ -44,9 +138,13 @@ export const AudioControls: React.FC<AudioControlsProps> = ({
   audioContextState,
   volume,
   effectsVolume,
+  instrument,
+  playbackSettings,
   onToggle,
   onVolumeChange,
   onEffectsVolumeChange,
+  onInstrumentChange,
+  onPlaybackSettingsChange,
   onEnable,
   compact = false,
   className = '',
@@ -198,6 +296,31 @@ export const AudioControls: React.FC<AudioControlsProps> = ({
               {Math.round(effectsVolume * 100)}%
             </span>
           </div>
+
+          {/* 楽器の音色 */}
+          {instrument && onInstrumentChange && (
+            <select
+              value={instrument}
+              onChange={(e) => onInstrumentChange(e.target.value as InstrumentType)}
+              className="px-2 py-1 text-sm border border-gray-300 rounded-lg bg-white text-gray-700
+                       focus:outline-none focus:ring-2 focus:ring-blue-500"
+              aria-label="楽器の音色"
+            >
+              {(Object.keys(INSTRUMENT_VOICES) as InstrumentType[]).map(id => (
+                <option key={id} value={id}>
+                  {INSTRUMENT_VOICES[id].label}
+                </option>
+              ))}
+            </select>
+          )}
+
+          {/* コードの再生方法 */}
+          {playbackSettings && onPlaybackSettingsChange && (
+            <PlaybackStyleControls
+              settings={playbackSettings}
+              onChange={onPlaybackSettingsChange}
+            />
+          )}
         </>
       )}
 
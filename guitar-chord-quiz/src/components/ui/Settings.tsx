@@ -12,9 +12,17 @@ import { useGameSettings } from '../../hooks/useLocalStorage';
 import { useTheme, Theme } from '../../hooks/useTheme';
 import { useAudio } from '../../hooks/useAudio';
 import { AudioControls } from './AudioControls';
-import { DifficultyLevel } from '../../types';
+import { DifficultyLevel, DistractorLevel, MultipleChoiceSettings, TuningId, DEFAULT_MULTIPLE_CHOICE_SETTINGS } from '../../types';
+import { TUNING_IDS, TUNING_PRESETS } from '../../data/tuning-presets';
+import { MAX_CAPO_POSITION } from '../../lib/transposition';
+import { CHOICE_COUNT_RANGE, DISTRACTOR_LEVEL_LABELS } from '../../lib/distractors';
 import clsx from 'clsx';
 
+/**
+ * 選択肢の数の候補
+ */
+const CHOICE_COUNT_OPTIONS = Array.from({ length: CHOICE_COUNT_RANGE.max - CHOICE_COUNT_RANGE.min + 1 }, (_, i) => CHOICE_COUNT_RANGE.min + i);
+
 /**
  * 設定コンポーネントのプロパティ
  */
@@ -53,6 +61,18 @@ export const Settings: React.FC<SettingsProps> = ({
     updateSettings({ [key]: value });
   }, [updateSettings]);
 
+  // 選択式回答の設定（難易度ごと）
+  const multipleChoice = settings.multipleChoice ?? DEFAULT_MULTIPLE_CHOICE_SETTINGS;
+  const updateMultipleChoice = useCallback((
+    difficulty: DifficultyLevel,
+    value: Partial<MultipleChoiceSettings>
+  ) => {
+    updateSetting('multipleChoice', {
+      ...multipleChoice,
+      [difficulty]: { ...multipleChoice[difficulty], ...value },
+    });
+  }, [multipleChoice, updateSetting]);
+
   // データリセット
   const handleResetData = useCallback(() => {
     if (resetConfirm) {
@@ -192,6 +212,10 @@ export const Settings: React.FC<SettingsProps> = ({
               onToggle={audioControls.toggleAudio}
               onVolumeChange={audioControls.changeVolume}
               onEffectsVolumeChange={audioControls.changeEffectsVolume}
+              instrument={audioControls.instrument}
+              onInstrumentChange={audioControls.changeInstrument}
+              playbackSettings={audioControls.playbackSettings}
+              onPlaybackSettingsChange={audioControls.changePlaybackSettings}
               onEnable={audioControls.enableAudio}
               isInitialized={audioControls.isInitialized}
               compact={false}
@@ -199,6 +223,30 @@ export const Settings: React.FC<SettingsProps> = ({
           </div>
         </div>
 
+        {/* チューニング設定 */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            🎸 チューニング
+          </label>
+          <select
+            value={settings.tuning}
+            onChange={(e) => updateSetting('tuning', e.target.value as TuningId)}
+            className="w-full p-3 border border-gray-300 rounded-lg text-gray-900 bg-white
+                     focus:border-blue-500 focus:ring-2 focus:ring-blue-500 focus:ring-opacity-20
+                     dark:border-gray-600 dark:bg-gray-700 dark:text-white dark:focus:border-blue-400
+                     transition-all duration-150"
+          >
+            {TUNING_IDS.map((tuningId) => (
+              <option key={tuningId} value={tuningId}>
+                {TUNING_PRESETS[tuningId].name} ({TUNING_PRESETS[tuningId].labels.join(' ')})
+              </option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+            出題されるコードと指板の弦名・音程が選択したチューニングに切り替わります
+          </p>
+        </div>
+
         {/* カポタスト設定 */}
         <div>
           <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
@@ -209,7 +257,7 @@ export const Settings: React.FC<SettingsProps> = ({
               <input
                 type="range"
                 min="0"
-                max="12"
+                max={MAX_CAPO_POSITION}
                 value={settings.capoPosition}
                 onChange={(e) => updateSetting('capoPosition', parseInt(e.target.value))}
                 className="flex-1 h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer
@@ -221,11 +269,52 @@ export const Settings: React.FC<SettingsProps> = ({
               </span>
             </div>
             <p className="text-xs text-gray-500 dark:text-gray-400">
-              カポタストを使用してキーを調整できます
+              クイズのコードをカポからのフォームで表示し、実音のコード名（例: カポ2のCフォーム → D）で答えます
             </p>
           </div>
         </div>
 
+        {/* 選択式回答設定 */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            🔘 選択式回答
+          </label>
+          <div className="space-y-2">
+            {(Object.keys(DEFAULT_MULTIPLE_CHOICE_SETTINGS) as DifficultyLevel[]).map((difficulty) => (
+              <div key={difficulty} className="flex items-center gap-2">
+                <span className="text-sm text-gray-700 dark:text-gray-300 w-12">
+                  {getDifficultyLabel(difficulty)}
+                </span>
+                <select
+                  value={multipleChoice[difficulty].optionCount}
+                  onChange={(e) => updateMultipleChoice(difficulty, { optionCount: parseInt(e.target.value) })}
+                  className="flex-1 p-2 border border-gray-300 rounded-lg text-sm text-gray-900 bg-white
+                           dark:border-gray-600 dark:bg-gray-700 dark:text-white focus:ring-2 focus:ring-blue-500"
+                  aria-label={`${getDifficultyLabel(difficulty)}の選択肢の数`}
+                >
+                  {CHOICE_COUNT_OPTIONS.map((count) => (
+                    <option key={count} value={count}>{count}択</option>
+                  ))}
+                </select>
+                <select
+                  value={multipleChoice[difficulty].distractorLevel}
+                  onChange={(e) => updateMultipleChoice(difficulty, { distractorLevel: e.target.value as DistractorLevel })}
+                  className="flex-1 p-2 border border-gray-300 rounded-lg text-sm text-gray-900 bg-white
+                           dark:border-gray-600 dark:bg-gray-700 dark:text-white focus:ring-2 focus:ring-blue-500"
+                  aria-label={`${getDifficultyLabel(difficulty)}のひっかけ選択肢`}
+                >
+                  {(Object.keys(DISTRACTOR_LEVEL_LABELS) as DistractorLevel[]).map((level) => (
+                    <option key={level} value={level}>{DISTRACTOR_LEVEL_LABELS[level]}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+            選択式で回答するときの選択肢の数と、ひっかけ選択肢（同じルート音・同じ形・過去に間違えたコード）の多さ
+          </p>
+        </div>
+
         {/* アクセシビリティ設定 */}
         <div>
           <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
@@ -9,7 +9,9 @@
 
 import React, { useState, useMemo } from 'react';
 import { useScoreHistory } from '../../hooks/useLocalStorage';
-import { DifficultyLevel } from '../../types';
+import { WeakSpotAnalysis } from './WeakSpotAnalysis';
+import { CHORD_QUESTION_SOURCES, INTERVAL_QUESTION_SOURCES } from '../../lib/chord-analytics';
+import { DifficultyLevel, QuizMode } from '../../types';
 import clsx from 'clsx';
 
 /**
@@ -37,9 +39,17 @@ export const Statistics: React.FC<StatisticsProps> = ({
   const { history, getStats, clearHistory } = useScoreHistory();
   const [showClearConfirm, setShowClearConfirm] = useState(false);
   const [selectedDifficulty, setSelectedDifficulty] = useState<DifficultyLevel | 'all'>('all');
+  const [selectedMode, setSelectedMode] = useState<QuizMode | 'all'>('all');
 
   const stats = getStats();
 
+  // 出題形式で絞り込んだ履歴（mode未記録の旧データはvisual扱い）
+  const modeHistory = useMemo(() => {
+    return selectedMode === 'all'
+      ? history
+      : history.filter(record => (record.mode ?? 'visual') === selectedMode);
+  }, [history, selectedMode]);
+
   // 難易度別の統計計算
   const difficultyStats = useMemo(() => {
     if (!history.length) return null;
@@ -49,8 +59,8 @@ export const Statistics: React.FC<StatisticsProps> = ({
 
     difficulties.forEach(diff => {
       const filteredHistory = diff === 'all'
-        ? history
-        : history.filter(record => record.difficulty === diff);
+        ? modeHistory
+        : modeHistory.filter(record => record.difficulty === diff);
 
       if (filteredHistory.length > 0) {
         result[diff] = {
@@ -68,14 +78,14 @@ export const Statistics: React.FC<StatisticsProps> = ({
     });
 
     return result;
-  }, [history]);
+  }, [history, modeHistory]);
 
   // 最近のゲーム履歴（選択された難易度）
   const filteredHistory = useMemo(() => {
     return selectedDifficulty === 'all'
-      ? history
-      : history.filter(record => record.difficulty === selectedDifficulty);
-  }, [history, selectedDifficulty]);
+      ? modeHistory
+      : modeHistory.filter(record => record.difficulty === selectedDifficulty);
+  }, [modeHistory, selectedDifficulty]);
 
   // フォーマット関数
   const formatTime = (seconds: number) => {
@@ -131,6 +141,12 @@ export const Statistics: React.FC<StatisticsProps> = ({
             最初のゲームを始めて統計を確認しましょう！
           </p>
         </div>
+
+        {/* 苦手分析（回答記録のみある場合） */}
+        {!compact && <WeakSpotAnalysis className="mt-6" sources={CHORD_QUESTION_SOURCES} />}
+        {!compact && (
+          <WeakSpotAnalysis className="mt-6" sources={INTERVAL_QUESTION_SOURCES} title="🎵 音程の苦手分析" itemLabel="音程" />
+        )}
       </div>
     );
   }
@@ -189,6 +205,30 @@ export const Statistics: React.FC<StatisticsProps> = ({
               </button>
             ))}
           </div>
+          <div className="flex flex-wrap gap-2 mt-2">
+            {[
+              { value: 'all', label: '🎮 全モード' },
+              { value: 'visual', label: '👀 指板' },
+              { value: 'ear', label: '👂 聴音' },
+              { value: 'reverse', label: '✋ 逆引き' },
+            ].map(({ value, label }) => (
+              <button
+                key={value}
+                onClick={() => setSelectedMode(value as QuizMode | 'all')}
+                className={clsx(
+                  'px-3 py-2 text-sm rounded-lg transition-all duration-200',
+                  'focus:ring-2 focus:ring-blue-500 focus:ring-offset-2',
+                  selectedMode === value
+                    ? 'bg-blue-500 text-white shadow-md'
+                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200',
+                  'dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600'
+                )}
+                aria-pressed={selectedMode === value}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
         </div>
       )}
 
@@ -271,6 +311,12 @@ export const Statistics: React.FC<StatisticsProps> = ({
                   <span className="text-xs">
                     {getDifficultyEmoji(record.difficulty)}
                   </span>
+                  {record.mode === 'ear' && (
+                    <span className="text-xs" title="聴音モード">👂</span>
+                  )}
+                  {record.mode === 'reverse' && (
+                    <span className="text-xs" title="逆引きクイズ">✋</span>
+                  )}
                 </div>
                 <div className="text-sm text-gray-600 dark:text-gray-400">
                   正解率: {Math.round((record.correctAnswers / record.totalQuestions) * 100)}% •
@@ -291,11 +337,17 @@ export const Statistics: React.FC<StatisticsProps> = ({
           ))}
           {filteredHistory.length === 0 && (
             <div className="text-center py-4 text-gray-500 dark:text-gray-400">
-              この難易度のデータがありません
+              この条件のデータがありません
             </div>
           )}
         </div>
       </div>
+
+      {/* 苦手分析 */}
+      {!compact && <WeakSpotAnalysis className="mt-6" sources={CHORD_QUESTION_SOURCES} />}
+      {!compact && (
+        <WeakSpotAnalysis className="mt-6" sources={INTERVAL_QUESTION_SOURCES} title="🎵 音程の苦手分析" itemLabel="音程" />
+      )}
     </div>
   );
 };
@@ -0,0 +1,183 @@
+'use client';
+
+/**
+ * 苦手分析コンポーネント
+ *
+ * @description 問題ごとの回答記録から苦手なコード・取り違え・回答時間の推移を表示
+ * @author Claude Code
+ */
+
+import React, { useMemo } from 'react';
+import { useQuestionEvents } from '../../hooks/useLocalStorage';
+import {
+  QuestionSource,
+  filterEventsBySource,
+  getWeakestChords,
+  getCommonConfusions,
+  getResponseTimeTrends,
+} from '../../lib/chord-analytics';
+import clsx from 'clsx';
+
+/**
+ * 苦手分析コンポーネントのプロパティ
+ */
+interface WeakSpotAnalysisProps {
+  /** 追加のCSSクラス */
+  className?: string;
+  /** 各リストの最大表示件数 */
+  limit?: number;
+  /** 集計する出題元（省略時はすべて） */
+  sources?: QuestionSource[];
+  /** 見出し */
+  title?: string;
+  /** 出題対象の呼び方（例: "コード"、"音程"） */
+  itemLabel?: string;
+}
+
+/**
+ * 回答時間の推移を表す簡易スパークライン
+ */
+const Sparkline: React.FC<{ values: number[] }> = ({ values }) => {
+  const max = Math.max(...values, 1);
+  const width = 80;
+  const height = 24;
+  const step = values.length > 1 ? width / (values.length - 1) : 0;
+  const points = values
+    .map((value, index) => `${index * step},${height - (value / max) * height}`)
+    .join(' ');
+
+  return (
+    <svg width={width} height={height} className="text-blue-500" aria-hidden="true">
+      <polyline points={points} fill="none" stroke="currentColor" strokeWidth={2} />
+    </svg>
+  );
+};
+
+/**
+ * 苦手分析コンポーネント
+ *
+ * @example
+ * ```tsx
+ * <WeakSpotAnalysis limit={5} />
+ * ```
+ */
+export const WeakSpotAnalysis: React.FC<WeakSpotAnalysisProps> = ({
+  className = '',
+  limit = 5,
+  sources,
+  title = '🔍 苦手分析',
+  itemLabel = 'コード',
+}) => {
+  const { events: allEvents, clearEvents } = useQuestionEvents();
+  const events = useMemo(() => filterEventsBySource(allEvents, sources), [allEvents, sources]);
+
+  const weakestChords = useMemo(() => getWeakestChords(events, limit), [events, limit]);
+  const confusions = useMemo(() => getCommonConfusions(events, limit), [events, limit]);
+  const trends = useMemo(() => getResponseTimeTrends(events).slice(0, limit), [events, limit]);
+
+  if (events.length === 0) return null;
+
+  return (
+    <div className={clsx('space-y-6', className)}>
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+          {title}
+        </h3>
+        <button
+          onClick={() => clearEvents(sources)}
+          className="px-3 py-1 text-xs rounded-lg bg-gray-200 text-gray-700 hover:bg-gray-300
+                   focus:ring-2 focus:ring-gray-500 focus:ring-offset-2 transition-all duration-200
+                   dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600"
+        >
+          🗑️ 回答記録を削除
+        </button>
+      </div>
+
+      {/* 苦手なコード */}
+      <div>
+        <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
+          正答率の低い{itemLabel}
+        </h4>
+        {weakestChords.length > 0 ? (
+          <ul className="space-y-2">
+            {weakestChords.map(mastery => (
+              <li key={mastery.chordKey} className="flex items-center gap-3">
+                <span className="w-16 font-bold text-gray-900 dark:text-white">{mastery.chordName}</span>
+                <div className="flex-1 bg-gray-200 dark:bg-gray-700 rounded-full h-3 overflow-hidden">
+                  <div
+                    className="h-full bg-gradient-to-r from-red-500 to-orange-500"
+                    style={{ width: `${mastery.accuracy}%` }}
+                  />
+                </div>
+                <span className="w-28 text-right text-xs text-gray-600 dark:text-gray-400">
+                  {Math.round(mastery.accuracy)}% ({mastery.correct}/{mastery.attempts})
+                </span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500 dark:text-gray-400">間違えた{itemLabel}はありません 🎉</p>
+        )}
+      </div>
+
+      {/* 取り違え */}
+      <div>
+        <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
+          よくある取り違え
+        </h4>
+        {confusions.length > 0 ? (
+          <ul className="space-y-1">
+            {confusions.map(confusion => (
+              <li
+                key={`${confusion.chordKey}-${confusion.answer}`}
+                className="flex justify-between text-sm p-2 bg-gray-50 dark:bg-gray-700 rounded-lg"
+              >
+                <span className="text-gray-900 dark:text-white">
+                  <span className="font-bold">{confusion.chordName}</span>
+                  {' を '}
+                  <span className="font-bold text-red-600 dark:text-red-400">{confusion.answer}</span>
+                  {' と回答'}
+                </span>
+                <span className="text-gray-600 dark:text-gray-400">{confusion.count}回</span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500 dark:text-gray-400">取り違えの記録はありません</p>
+        )}
+      </div>
+
+      {/* 回答時間の推移 */}
+      <div>
+        <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
+          回答時間の推移
+        </h4>
+        {trends.length > 0 ? (
+          <ul className="space-y-2">
+            {trends.map(trend => (
+              <li key={trend.chordKey} className="flex items-center gap-3 text-sm">
+                <span className="w-16 font-bold text-gray-900 dark:text-white">{trend.chordName}</span>
+                <Sparkline values={trend.responseTimes} />
+                <span className="flex-1 text-right text-gray-600 dark:text-gray-400">
+                  {trend.earlierAverage.toFixed(1)}秒 → {trend.recentAverage.toFixed(1)}秒
+                </span>
+                <span className={clsx(
+                  'w-16 text-right font-medium',
+                  trend.change <= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'
+                )}>
+                  {trend.change <= 0 ? '▼' : '▲'} {Math.abs(trend.change).toFixed(1)}秒
+                </span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            同じ{itemLabel}に2回以上回答すると推移が表示されます
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default WeakSpotAnalysis;
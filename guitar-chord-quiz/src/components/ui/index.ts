@@ -6,7 +6,7 @@
 export { Button } from './Button';
 export type { ButtonProps, ButtonVariant, ButtonSize } from './Button';
 
-export { AudioControls } from './AudioControls';
+export { AudioControls, PlaybackStyleControls } from './AudioControls';
 
 export { AudioVisualizer, AudioIndicator } from './AudioVisualizer';
 
@@ -31,6 +31,8 @@ export { Settings, SettingsModal } from './Settings';
 
 export { Statistics } from './Statistics';
 
+export { WeakSpotAnalysis } from './WeakSpotAnalysis';
+
 // 今後追加されるUIコンポーネントをここからエクスポート
 // 例: export { Card } from './Card';
 // 例: export { Input } from './Input';
\ No newline at end of file
@@ -5,7 +5,10 @@
  * @author Claude Code
  */
 
-import { ChordPattern, DifficultyLevel, NoteName, ChordQuality } from '../types';
+import { ChordPattern, DifficultyLevel, NoteName, ChordQuality, TuningId, MusicalKey } from '../types';
+import { getPitchClasses, toSharpNoteName } from '../lib/theory';
+import { getChordSuffix, transposeChordTo } from '../lib/transposition';
+import { getTuning } from './tuning-presets';
 
 // =============================================================================
 // Chord Patterns Database - コードパターンデータベース
@@ -84,6 +87,7 @@ const BEGINNER_CHORDS: ChordPattern[] = [
     name: 'F',
     frets: [1, 3, 3, 2, 1, 1],
     fingers: [1, 3, 4, 2, 1, 1],
+    barres: [{ fret: 1, fromString: 6, toString: 1, finger: 1 }],
     difficulty: 'beginner',
     root: 'F',
     quality: 'major'
@@ -107,6 +111,7 @@ const INTERMEDIATE_CHORDS: ChordPattern[] = [
     name: 'Bm',
     frets: [null, 2, 4, 4, 3, 2],
     fingers: [null, 1, 3, 4, 2, 1],
+    barres: [{ fret: 2, fromString: 5, toString: 1, finger: 1 }],
     difficulty: 'intermediate',
     root: 'B',
     quality: 'minor'
@@ -115,14 +120,16 @@ const INTERMEDIATE_CHORDS: ChordPattern[] = [
     name: 'B',
     frets: [null, 2, 4, 4, 4, 2],
     fingers: [null, 1, 2, 3, 4, 1],
+    barres: [{ fret: 2, fromString: 5, toString: 1, finger: 1 }],
     difficulty: 'intermediate',
     root: 'B',
     quality: 'major'
   },
   {
     name: 'C#m',
-    frets: [null, null, 6, 6, 5, 4],
-    fingers: [null, null, 3, 4, 2, 1],
+    frets: [null, 4, 6, 6, 5, 4],
+    fingers: [null, 1, 3, 4, 2, 1],
+    barres: [{ fret: 4, fromString: 5, toString: 1, finger: 1 }],
     difficulty: 'intermediate',
     root: 'C#',
     quality: 'minor'
@@ -131,6 +138,7 @@ const INTERMEDIATE_CHORDS: ChordPattern[] = [
     name: 'F#m',
     frets: [2, 4, 4, 2, 2, 2],
     fingers: [1, 3, 4, 1, 1, 1],
+    barres: [{ fret: 2, fromString: 6, toString: 1, finger: 1 }],
     difficulty: 'intermediate',
     root: 'F#',
     quality: 'minor'
@@ -179,6 +187,7 @@ const INTERMEDIATE_CHORDS: ChordPattern[] = [
     name: 'F#',
     frets: [2, 4, 4, 3, 2, 2],
     fingers: [1, 3, 4, 2, 1, 1],
+    barres: [{ fret: 2, fromString: 6, toString: 1, finger: 1 }],
     difficulty: 'intermediate',
     root: 'F#',
     quality: 'major'
@@ -187,6 +196,7 @@ const INTERMEDIATE_CHORDS: ChordPattern[] = [
     name: 'Bb',
     frets: [null, 1, 3, 3, 3, 1],
     fingers: [null, 1, 2, 3, 4, 1],
+    barres: [{ fret: 1, fromString: 5, toString: 1, finger: 1 }],
     difficulty: 'intermediate',
     root: 'A#',
     quality: 'major'
@@ -195,6 +205,7 @@ const INTERMEDIATE_CHORDS: ChordPattern[] = [
     name: 'Gm',
     frets: [3, 5, 5, 3, 3, 3],
     fingers: [1, 3, 4, 1, 1, 1],
+    barres: [{ fret: 3, fromString: 6, toString: 1, finger: 1 }],
     difficulty: 'intermediate',
     root: 'G',
     quality: 'minor'
@@ -203,6 +214,7 @@ const INTERMEDIATE_CHORDS: ChordPattern[] = [
     name: 'Cm',
     frets: [null, 3, 5, 5, 4, 3],
     fingers: [null, 1, 3, 4, 2, 1],
+    barres: [{ fret: 3, fromString: 5, toString: 1, finger: 1 }],
     difficulty: 'intermediate',
     root: 'C',
     quality: 'minor'
@@ -242,6 +254,7 @@ const ADVANCED_CHORDS: ChordPattern[] = [
     name: 'Dm7',
     frets: [null, null, 0, 2, 1, 1],
     fingers: [null, null, null, 2, 1, 1],
+    barres: [{ fret: 1, fromString: 2, toString: 1, finger: 1 }],
     difficulty: 'advanced',
     root: 'D',
     quality: 'minor7'
@@ -256,8 +269,8 @@ const ADVANCED_CHORDS: ChordPattern[] = [
   },
   {
     name: 'Fadd9',
-    frets: [1, 3, 1, 2, 1, 1],
-    fingers: [1, 4, 1, 3, 1, 1],
+    frets: [null, null, 3, 2, 1, 3],
+    fingers: [null, null, 3, 2, 1, 4],
     difficulty: 'advanced',
     root: 'F',
     quality: 'major'
@@ -266,6 +279,7 @@ const ADVANCED_CHORDS: ChordPattern[] = [
     name: 'Fmaj7',
     frets: [1, 3, 2, 2, 1, 0],
     fingers: [1, 4, 2, 3, 1, null],
+    barres: [{ fret: 1, fromString: 6, toString: 2, finger: 1 }],
     difficulty: 'advanced',
     root: 'F',
     quality: 'major7'
@@ -312,36 +326,187 @@ const ADVANCED_CHORDS: ChordPattern[] = [
   }
 ];
 
+/**
+ * 変則チューニング用コードパターン
+ * 各ボイシングは tuning で指定したチューニングでのみ出題される
+ */
+const ALTERNATE_TUNING_CHORDS: ChordPattern[] = [
+  // Drop D
+  {
+    name: 'D',
+    frets: [0, 0, 0, 2, 3, 2],
+    fingers: [null, null, null, 1, 3, 2],
+    difficulty: 'beginner',
+    root: 'D',
+    quality: 'major',
+    tuning: 'dropD'
+  },
+  {
+    name: 'Dm',
+    frets: [0, 0, 0, 2, 3, 1],
+    fingers: [null, null, null, 2, 3, 1],
+    difficulty: 'beginner',
+    root: 'D',
+    quality: 'minor',
+    tuning: 'dropD'
+  },
+  {
+    name: 'G',
+    frets: [5, 2, 0, 0, 0, 3],
+    fingers: [3, 1, null, null, null, 4],
+    difficulty: 'intermediate',
+    root: 'G',
+    quality: 'major',
+    tuning: 'dropD'
+  },
+  // DADGAD
+  {
+    name: 'Dsus4',
+    frets: [0, 0, 0, 0, 0, 0],
+    fingers: [null, null, null, null, null, null],
+    difficulty: 'beginner',
+    root: 'D',
+    quality: 'sus4',
+    tuning: 'dadgad'
+  },
+  {
+    name: 'D',
+    frets: [0, 0, 4, 2, 0, 0],
+    fingers: [null, null, 2, 1, null, null],
+    difficulty: 'intermediate',
+    root: 'D',
+    quality: 'major',
+    tuning: 'dadgad'
+  },
+  {
+    name: 'G',
+    frets: [5, null, 0, 0, 2, 5],
+    fingers: [2, null, null, null, 1, 3],
+    difficulty: 'intermediate',
+    root: 'G',
+    quality: 'major',
+    tuning: 'dadgad'
+  },
+  // Open G
+  {
+    name: 'G',
+    frets: [null, 0, 0, 0, 0, 0],
+    fingers: [null, null, null, null, null, null],
+    difficulty: 'beginner',
+    root: 'G',
+    quality: 'major',
+    tuning: 'openG'
+  },
+  {
+    name: 'C',
+    frets: [null, 5, 5, 5, 5, 5],
+    fingers: [null, 1, 1, 1, 1, 1],
+    barres: [{ fret: 5, fromString: 5, toString: 1, finger: 1 }],
+    difficulty: 'intermediate',
+    root: 'C',
+    quality: 'major',
+    tuning: 'openG'
+  },
+  {
+    name: 'D',
+    frets: [null, 7, 7, 7, 7, 7],
+    fingers: [null, 1, 1, 1, 1, 1],
+    barres: [{ fret: 7, fromString: 5, toString: 1, finger: 1 }],
+    difficulty: 'intermediate',
+    root: 'D',
+    quality: 'major',
+    tuning: 'openG'
+  },
+  // Half-step Down
+  {
+    name: 'Eb',
+    frets: [0, 2, 2, 1, 0, 0],
+    fingers: [null, 2, 3, 1, null, null],
+    difficulty: 'beginner',
+    root: 'D#',
+    quality: 'major',
+    tuning: 'halfStepDown'
+  },
+  {
+    name: 'Ebm',
+    frets: [0, 2, 2, 0, 0, 0],
+    fingers: [null, 2, 3, null, null, null],
+    difficulty: 'beginner',
+    root: 'D#',
+    quality: 'minor',
+    tuning: 'halfStepDown'
+  },
+  {
+    name: 'Ab',
+    frets: [null, 0, 2, 2, 2, 0],
+    fingers: [null, null, 2, 3, 1, null],
+    difficulty: 'beginner',
+    root: 'G#',
+    quality: 'major',
+    tuning: 'halfStepDown'
+  },
+  {
+    name: 'Db',
+    frets: [null, null, 0, 2, 3, 2],
+    fingers: [null, null, null, 1, 3, 2],
+    difficulty: 'beginner',
+    root: 'C#',
+    quality: 'major',
+    tuning: 'halfStepDown'
+  }
+];
+
 /**
  * 全コードパターンのマスターリスト
  */
 export const CHORD_PATTERNS: ChordPattern[] = [
   ...BEGINNER_CHORDS,
   ...INTERMEDIATE_CHORDS,
-  ...ADVANCED_CHORDS
+  ...ADVANCED_CHORDS,
+  ...ALTERNATE_TUNING_CHORDS
 ];
 
 // =============================================================================
 // Utility Functions - ユーティリティ関数
 // =============================================================================
 
+/**
+ * コードが指定チューニング用のボイシングかを判定
+ * tuning 未指定のコードは標準チューニング用として扱う
+ */
+export const matchesTuning = (chord: ChordPattern, tuning: TuningId): boolean => {
+  return (chord.tuning ?? 'standard') === tuning;
+};
+
+/**
+ * チューニング別でコードをフィルタリング
+ */
+export const getChordsByTuning = (tuning: TuningId): ChordPattern[] => {
+  return CHORD_PATTERNS.filter(chord => matchesTuning(chord, tuning));
+};
+
 /**
  * 難易度別でコードをフィルタリング
+ * tuning を指定した場合はそのチューニング用のボイシングのみ返す
  */
-export const getChordsByDifficulty = (difficulty: DifficultyLevel): ChordPattern[] => {
-  return CHORD_PATTERNS.filter(chord => chord.difficulty === difficulty);
+export const getChordsByDifficulty = (difficulty: DifficultyLevel, tuning?: TuningId): ChordPattern[] => {
+  return CHORD_PATTERNS.filter(chord =>
+    chord.difficulty === difficulty && (!tuning || matchesTuning(chord, tuning))
+  );
 };
 
 /**
  * ランダムにコードを選択
  */
-export const getRandomChord = (difficulty?: DifficultyLevel): ChordPattern => {
-  const targetChords = difficulty 
-    ? getChordsByDifficulty(difficulty)
-    : CHORD_PATTERNS;
+export const getRandomChord = (difficulty?: DifficultyLevel, tuning: TuningId = 'standard'): ChordPattern => {
+  const difficultyChords = difficulty ? getChordsByDifficulty(difficulty, tuning) : [];
+  // 該当難易度のボイシングがないチューニングではチューニング内の全コードから選択
+  const targetChords = difficultyChords.length > 0
+    ? difficultyChords
+    : getChordsByTuning(tuning);
   
   if (targetChords.length === 0) {
-    throw new Error(`No chords found for difficulty: ${difficulty}`);
+    throw new Error(`No chords found for tuning: ${tuning}`);
   }
   
   const randomIndex = Math.floor(Math.random() * targetChords.length);
@@ -355,6 +520,47 @@ export const getChordByName = (name: string): ChordPattern | undefined => {
   return CHORD_PATTERNS.find(chord => chord.name === name);
 };
 
+/**
+ * コード詳細ページ用のURLスラッグを生成
+ * 
+ * "#" と "/" はURLで使えないため置き換え、変則チューニングのボイシングはチューニングIDを付ける
+ * 
+ * @example
+ * ```typescript
+ * getChordSlug({ name: 'F#m' }); // 'Fsharpm'
+ * getChordSlug({ name: 'D', tuning: 'dropD' }); // 'D--dropD'
+ * ```
+ */
+export const getChordSlug = (chord: Pick<ChordPattern, 'name' | 'tuning'>): string => {
+  const name = chord.name.replace(/#/g, 'sharp').replace(/\//g, '-on-');
+  return chord.tuning && chord.tuning !== 'standard' ? `${name}--${chord.tuning}` : name;
+};
+
+/**
+ * URLスラッグからコードを検索
+ */
+export const getChordBySlug = (slug: string): ChordPattern | undefined => {
+  return CHORD_PATTERNS.find(chord => getChordSlug(chord) === slug);
+};
+
+/**
+ * 同じコードの他のボイシングを取得
+ * 
+ * ルート音が同じで、構成音（ピッチクラス）の集合が一致するものを同じコードとみなす
+ * （例: Cadd9 と Cadd9/E、標準チューニングとオープンGの C）
+ */
+export const getOtherVoicings = (chord: ChordPattern): ChordPattern[] => {
+  const toPitchClassKey = (target: ChordPattern) =>
+    [...getPitchClasses(target.frets, getTuning(target.tuning))].sort().join(',');
+  const key = toPitchClassKey(chord);
+  
+  return CHORD_PATTERNS.filter(candidate =>
+    candidate !== chord &&
+    candidate.root === chord.root &&
+    toPitchClassKey(candidate) === key
+  );
+};
+
 /**
  * ルート音でコードをフィルタリング
  */
@@ -376,9 +582,15 @@ export const filterChords = (options: {
   difficulty?: DifficultyLevel;
   root?: NoteName;
   quality?: ChordQuality;
+  tuning?: TuningId;
 }): ChordPattern[] => {
   let filteredChords = [...CHORD_PATTERNS];
   
+  if (options.tuning) {
+    const tuning = options.tuning;
+    filteredChords = filteredChords.filter(chord => matchesTuning(chord, tuning));
+  }
+  
   if (options.difficulty) {
     filteredChords = filteredChords.filter(chord => chord.difficulty === options.difficulty);
   }
@@ -417,20 +629,39 @@ export const getChordStatistics = () => {
 };
 
 /**
- * カポタストを考慮したフレット位置の調整
+ * 指定したルート・サフィックスのボイシングを取得
+ * 
+ * 登録済みのボイシングがあれば最も易しいものを、なければ同じサフィックスの形を
+ * 平行移動したもの（易しく、低いフレットのもの）を返す
+ * 
+ * @param root ルート音
+ * @param suffix コード名のサフィックス（例: "m7"）
+ * @param tuning チューニング
+ * @param key 平行移動したコード名の表記の基準にする調
+ * @returns ボイシング（見つからない場合はnull）
  */
-export const adjustForCapo = (chord: ChordPattern, capoPosition: number): ChordPattern => {
-  if (capoPosition === 0) return chord;
-  
-  const adjustedFrets = chord.frets.map(fret => {
-    if (fret === null) return null;
-    return Math.max(0, fret - capoPosition);
-  });
-  
-  return {
-    ...chord,
-    frets: adjustedFrets
-  };
+export const findChordVoicing = (
+  root: NoteName,
+  suffix: string,
+  tuning: TuningId = 'standard',
+  key?: MusicalKey
+): ChordPattern | null => {
+  const candidates = getChordsByTuning(tuning)
+    .filter(chord => getChordSuffix(chord.name) === suffix)
+    .sort((a, b) => DIFFICULTY_ORDER[a.difficulty] - DIFFICULTY_ORDER[b.difficulty]);
+
+  const registered = candidates.find(chord => toSharpNoteName(chord.root) === root);
+  if (registered) return registered;
+
+  const maxFret = (chord: ChordPattern) => Math.max(...chord.frets.map(fret => fret ?? 0));
+  const transposed = candidates
+    .flatMap(chord => transposeChordTo(chord, root, key) ?? [])
+    .sort((a, b) =>
+      DIFFICULTY_ORDER[a.difficulty] - DIFFICULTY_ORDER[b.difficulty] ||
+      maxFret(a) - maxFret(b)
+    );
+
+  return transposed[0] ?? null;
 };
 
 /**
@@ -443,17 +674,8 @@ export const calculateFingeringDifficulty = (chord: ChordPattern): number => {
   const usedFingers = chord.fingers.filter(finger => finger !== null).length;
   difficulty += usedFingers;
   
-  // バレーコードの検出（同じ指番号が複数ある場合）
-  const fingerCounts = chord.fingers.reduce((acc, finger) => {
-    if (finger !== null) {
-      acc[finger] = (acc[finger] || 0) + 1;
-    }
-    return acc;
-  }, {} as Record<number, number>);
-  
-  Object.values(fingerCounts).forEach(count => {
-    if (count > 1) difficulty += 2; // バレーコードはより難しい
-  });
+  // バレーコードはより難しい
+  difficulty += (chord.barres ?? []).length * 2;
   
   // 高いフレットは難しい
   const maxFret = Math.max(...chord.frets.filter(fret => fret !== null) as number[]);
@@ -466,6 +688,15 @@ export const calculateFingeringDifficulty = (chord: ChordPattern): number => {
 // Constants - 定数
 // =============================================================================
 
+/**
+ * 難易度の並び順
+ */
+const DIFFICULTY_ORDER: Record<DifficultyLevel, number> = {
+  beginner: 0,
+  intermediate: 1,
+  advanced: 2,
+};
+
 /**
  * 難易度別の統計情報
  */
@@ -473,6 +704,7 @@ export const DIFFICULTY_STATS = {
   beginner: BEGINNER_CHORDS.length,
   intermediate: INTERMEDIATE_CHORDS.length,
   advanced: ADVANCED_CHORDS.length,
+  alternateTuning: ALTERNATE_TUNING_CHORDS.length,
   total: CHORD_PATTERNS.length
 } as const;
 
@@ -3,9 +3,8 @@
  * 静的データの一元エクスポート
  */
 
+export { STANDARD_TUNING, TUNING_PRESETS, TUNING_IDS, getTuning } from './tuning-presets';
+
 // 今後追加される静的データをここからエクスポート
 // 例: export { chordDatabase } from './chord-database';
-// 例: export { tuningPresets } from './tuning-presets';
-// 例: export { difficultyLevels } from './difficulty-levels';
-
-export {};
\ No newline at end of file
+// 例: export { difficultyLevels } from './difficulty-levels';
\ No newline at end of file
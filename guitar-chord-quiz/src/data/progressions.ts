@@ -0,0 +1,129 @@
+/**
+ * Chord Progressions Database
+ *
+ * @description ローマ数字表記のコード進行のデータベースと、調に合わせたボイシングの取得
+ * @author Claude Code
+ */
+
+import { ChordDifficulty, ChordPattern, KeyMode, MusicalKey, TuningId } from '../types';
+import {
+  ALL_KEYS,
+  KeyChord,
+  QUALITY_SUFFIXES,
+  getDiatonicChords,
+  resolveRomanNumeral,
+} from '../lib/harmony';
+import { findChordVoicing } from './chord-patterns';
+
+// =============================================================================
+// Types - 型定義
+// =============================================================================
+
+/**
+ * コード進行
+ */
+export interface ChordProgression {
+  /** 識別子 */
+  id: string;
+  /** 表示名 */
+  name: string;
+  /** 調の種類 */
+  mode: KeyMode;
+  /** ローマ数字表記のコード */
+  numerals: string[];
+  /** 難易度レベル */
+  difficulty: ChordDifficulty;
+}
+
+/**
+ * 調に当てはめたコード進行の1コード
+ */
+export interface ProgressionStep extends KeyChord {
+  /** 再生・表示に使うボイシング（見つからない場合はnull） */
+  voicing: ChordPattern | null;
+}
+
+// =============================================================================
+// Progressions Database - コード進行データベース
+// =============================================================================
+
+/**
+ * コード進行の一覧
+ */
+export const CHORD_PROGRESSIONS: ChordProgression[] = [
+  { id: 'pop', name: 'ポップ進行', mode: 'major', numerals: ['I', 'V', 'vi', 'IV'], difficulty: 'beginner' },
+  { id: 'fifties', name: '50年代進行', mode: 'major', numerals: ['I', 'vi', 'IV', 'V'], difficulty: 'beginner' },
+  { id: 'three-chord', name: 'スリーコード', mode: 'major', numerals: ['I', 'IV', 'V', 'I'], difficulty: 'beginner' },
+  { id: 'komuro', name: '小室進行', mode: 'major', numerals: ['vi', 'IV', 'V', 'I'], difficulty: 'beginner' },
+  { id: 'royal-road', name: '王道進行', mode: 'major', numerals: ['IV', 'V', 'iii', 'vi'], difficulty: 'intermediate' },
+  {
+    id: 'canon',
+    name: 'カノン進行',
+    mode: 'major',
+    numerals: ['I', 'V', 'vi', 'iii', 'IV', 'I', 'IV', 'V'],
+    difficulty: 'intermediate',
+  },
+  { id: 'two-five-one', name: 'ツーファイブワン', mode: 'major', numerals: ['ii7', 'V7', 'Imaj7'], difficulty: 'advanced' },
+  { id: 'mixolydian', name: 'ミクソリディアン・ロック', mode: 'major', numerals: ['I', 'bVII', 'IV', 'I'], difficulty: 'advanced' },
+  { id: 'marusa', name: '丸サ進行', mode: 'major', numerals: ['IVmaj7', 'III7', 'vi7', 'I'], difficulty: 'advanced' },
+  { id: 'minor-epic', name: 'マイナー・ポップ進行', mode: 'minor', numerals: ['i', 'VI', 'III', 'VII'], difficulty: 'beginner' },
+  { id: 'minor-three', name: 'マイナー・スリーコード', mode: 'minor', numerals: ['i', 'iv', 'v', 'i'], difficulty: 'beginner' },
+  { id: 'minor-cadence', name: 'マイナー・ケーデンス', mode: 'minor', numerals: ['i', 'iv', 'V', 'i'], difficulty: 'intermediate' },
+  { id: 'andalusian', name: 'アンダルシア進行', mode: 'minor', numerals: ['i', 'VII', 'VI', 'V'], difficulty: 'intermediate' },
+];
+
+// =============================================================================
+// Utility Functions - ユーティリティ関数
+// =============================================================================
+
+/**
+ * ローマ数字表記の進行を表示用に整形（例: "I – V – vi – IV"）
+ */
+export const formatNumerals = (numerals: string[]): string => numerals.join(' – ');
+
+/**
+ * 調の種類でコード進行をフィルタリング
+ */
+export const getProgressionsByMode = (mode: KeyMode): ChordProgression[] => {
+  return CHORD_PROGRESSIONS.filter(progression => progression.mode === mode);
+};
+
+/**
+ * コード進行を調に当てはめ、各コードのボイシングを取得
+ *
+ * 登録済みのボイシングがないコードは同じ種類の形を平行移動して使う
+ */
+export const getProgressionSteps = (
+  progression: ChordProgression,
+  key: MusicalKey,
+  tuning: TuningId = 'standard'
+): ProgressionStep[] => {
+  return progression.numerals.map(numeral => {
+    const chord = resolveRomanNumeral(numeral, key);
+    return {
+      ...chord,
+      voicing: findChordVoicing(chord.root, QUALITY_SUFFIXES[chord.quality], tuning, key),
+    };
+  });
+};
+
+/**
+ * すべてのコードのボイシングがそろう調
+ */
+export const getPlayableKeys = (progression: ChordProgression, tuning: TuningId = 'standard'): MusicalKey[] => {
+  return ALL_KEYS.filter(key =>
+    key.mode === progression.mode &&
+    getProgressionSteps(progression, key, tuning).every(step => step.voicing !== null)
+  );
+};
+
+/**
+ * 回答の選択肢（ダイアトニックコードと、同じ調の種類の進行で使うコード）
+ */
+export const getAnswerChoices = (key: MusicalKey): KeyChord[] => {
+  const numerals = [
+    ...getDiatonicChords(key).map(chord => chord.numeral),
+    ...getProgressionsByMode(key.mode).flatMap(progression => progression.numerals),
+  ];
+  return Array.from(new Set(numerals)).map(numeral => resolveRomanNumeral(numeral, key));
+};
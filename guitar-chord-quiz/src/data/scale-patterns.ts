@@ -0,0 +1,310 @@
+/**
+ * Scale & Arpeggio Patterns Database
+ *
+ * @description スケール・アルペジオのポジション（ボックス）パターンのデータベースとユーティリティ関数
+ * @author Claude Code
+ */
+
+import { ChordDifficulty, FretboardNote, NoteName, ScalePattern, ScaleType } from '../types';
+import { INTERVAL_NAMES, NOTE_NAMES, getSemitoneDistance, transposeNote } from '../lib/theory';
+import { getFretKey } from '../lib/fretboard';
+import { STANDARD_TUNING } from './tuning-presets';
+
+// =============================================================================
+// Types - 型定義
+// =============================================================================
+
+/**
+ * スケール・アルペジオの定義
+ * - sequential: 6弦から順に1弦あたり notesPerString 音ずつ並べるボックス（ペンタトニック・3音1弦）
+ * - caged: CAGEDフォームの範囲に含まれる構成音（アルペジオ）
+ */
+interface ScaleDefinition {
+  /** 表示名 */
+  label: string;
+  /** ルートからの半音数 */
+  intervals: number[];
+  /** 難易度レベル */
+  difficulty: ChordDifficulty;
+  /** ポジションの作り方 */
+  system: 'sequential' | 'caged';
+  /** 1弦あたりの音数（sequential のみ） */
+  notesPerString?: number;
+}
+
+// =============================================================================
+// Constants - 定数
+// =============================================================================
+
+/**
+ * スケール・アルペジオの定義一覧
+ */
+const SCALE_DEFINITIONS: Record<ScaleType, ScaleDefinition> = {
+  minorPentatonic: {
+    label: 'マイナー・ペンタトニック',
+    intervals: [0, 3, 5, 7, 10],
+    difficulty: 'beginner',
+    system: 'sequential',
+    notesPerString: 2,
+  },
+  majorPentatonic: {
+    label: 'メジャー・ペンタトニック',
+    intervals: [0, 2, 4, 7, 9],
+    difficulty: 'beginner',
+    system: 'sequential',
+    notesPerString: 2,
+  },
+  majorArpeggio: {
+    label: 'メジャー・アルペジオ',
+    intervals: [0, 4, 7],
+    difficulty: 'intermediate',
+    system: 'caged',
+  },
+  minorArpeggio: {
+    label: 'マイナー・アルペジオ',
+    intervals: [0, 3, 7],
+    difficulty: 'intermediate',
+    system: 'caged',
+  },
+  major: {
+    label: 'メジャー・スケール',
+    intervals: [0, 2, 4, 5, 7, 9, 11],
+    difficulty: 'advanced',
+    system: 'sequential',
+    notesPerString: 3,
+  },
+  naturalMinor: {
+    label: 'ナチュラル・マイナー・スケール',
+    intervals: [0, 2, 3, 5, 7, 8, 10],
+    difficulty: 'advanced',
+    system: 'sequential',
+    notesPerString: 3,
+  },
+};
+
+/**
+ * スケール・アルペジオの種類（表示順）
+ */
+export const SCALE_TYPES = Object.keys(SCALE_DEFINITIONS) as ScaleType[];
+
+/**
+ * 種類ごとの表示名
+ */
+export const SCALE_TYPE_LABELS = Object.fromEntries(
+  SCALE_TYPES.map(type => [type, SCALE_DEFINITIONS[type].label])
+) as Record<ScaleType, string>;
+
+/**
+ * CAGEDフォーム（元になるオープンコードのルート音。表示順）
+ */
+const CAGED_FORMS: NoteName[] = ['C', 'A', 'G', 'E', 'D'];
+
+/**
+ * CAGEDフォームの範囲（フォームの最低フレットからのフレット数）
+ */
+const CAGED_FORM_SPAN = 4;
+
+/**
+ * 6弦開放からの各弦の開放弦の半音数（標準チューニング） - 6弦から1弦
+ */
+const STRING_OFFSETS = STANDARD_TUNING.notes.reduce<number[]>((offsets, note, index) => {
+  if (index === 0) return [0];
+  const previous = offsets[index - 1];
+  return [...offsets, previous + getSemitoneDistance(STANDARD_TUNING.notes[index - 1], note)];
+}, []);
+
+// =============================================================================
+// Pattern Generation - パターン生成
+// =============================================================================
+
+/**
+ * スケールの構成音を取得
+ *
+ * @returns ルートから順の音名
+ */
+export const getScalePitchClasses = (root: NoteName, type: ScaleType): NoteName[] => {
+  return SCALE_DEFINITIONS[type].intervals.map(interval => transposeNote(root, interval));
+};
+
+/**
+ * パターンのフレット範囲
+ */
+const getFretRange = (frets: number[][]): ScalePattern['fretRange'] => {
+  const all = frets.flat();
+  return { start: Math.min(...all), end: Math.max(...all) };
+};
+
+/**
+ * 全体を1オクターブずらしてなるべく低いフレットに収める（開放弦より下にはしない）
+ */
+const normalizeOctave = (frets: number[][]): number[][] => {
+  let shift = 0;
+  const { start } = getFretRange(frets);
+  while (start + shift < 0) shift += 12;
+  while (start + shift - 12 >= 0) shift -= 12;
+  return frets.map(stringFrets => stringFrets.map(fret => fret + shift));
+};
+
+/**
+ * 1弦あたり決まった数の音を並べるボックスを生成
+ *
+ * ポジションnは、スケールのn番目の音から6弦で弾き始め、
+ * 低音弦から順に notesPerString 音ずつ上行して割り当てる
+ */
+const createSequentialPatterns = (root: NoteName, type: ScaleType): ScalePattern[] => {
+  const { intervals, notesPerString = 2, difficulty } = SCALE_DEFINITIONS[type];
+  const rootFret = getSemitoneDistance(STANDARD_TUNING.notes[0], root);
+
+  return intervals.map((_, degree) => {
+    const pitches = Array.from({ length: STRING_OFFSETS.length * notesPerString }, (_, i) => {
+      const step = degree + i;
+      return rootFret + intervals[step % intervals.length] + 12 * Math.floor(step / intervals.length);
+    });
+    const frets = normalizeOctave(
+      STRING_OFFSETS.map((offset, stringIndex) =>
+        pitches.slice(stringIndex * notesPerString, (stringIndex + 1) * notesPerString).map(pitch => pitch - offset)
+      )
+    );
+
+    return {
+      id: `${root}-${type}-${degree + 1}`,
+      root,
+      type,
+      position: degree + 1,
+      positionName: `ポジション${degree + 1}`,
+      frets,
+      fretRange: getFretRange(frets),
+      difficulty,
+    };
+  });
+};
+
+/**
+ * CAGEDフォームのアルペジオを生成
+ *
+ * 各フォームの範囲（オープンコードの形をルートまで平行移動した位置から CAGED_FORM_SPAN フレット）に
+ * 含まれる構成音を並べる。ポジション番号は低いフレットから
+ */
+const createCagedPatterns = (root: NoteName, type: ScaleType): ScalePattern[] => {
+  const { difficulty } = SCALE_DEFINITIONS[type];
+  const pitchClasses = getScalePitchClasses(root, type);
+
+  return CAGED_FORMS
+    .map(form => {
+      const start = getSemitoneDistance(form, root);
+      const frets = STANDARD_TUNING.notes.map(openNote =>
+        Array.from({ length: CAGED_FORM_SPAN + 1 }, (_, i) => start + i).filter(fret =>
+          pitchClasses.includes(transposeNote(openNote, fret))
+        )
+      );
+      return { form, frets };
+    })
+    .sort((a, b) => getFretRange(a.frets).start - getFretRange(b.frets).start)
+    .map(({ form, frets }, index) => ({
+      id: `${root}-${type}-${index + 1}`,
+      root,
+      type,
+      position: index + 1,
+      positionName: `${form}フォーム`,
+      frets,
+      fretRange: getFretRange(frets),
+      difficulty,
+    }));
+};
+
+/**
+ * 全スケール・アルペジオパターンのマスターリスト（12キー × 種類 × ポジション）
+ */
+export const SCALE_PATTERNS: ScalePattern[] = NOTE_NAMES.flatMap(root =>
+  SCALE_TYPES.flatMap(type =>
+    SCALE_DEFINITIONS[type].system === 'caged'
+      ? createCagedPatterns(root, type)
+      : createSequentialPatterns(root, type)
+  )
+);
+
+// =============================================================================
+// Utility Functions - ユーティリティ関数
+// =============================================================================
+
+/**
+ * スケール名を表示用に整形（例: "A マイナー・ペンタトニック"）
+ */
+export const formatScaleName = (scale: Pick<ScalePattern, 'root' | 'type'>): string => {
+  return `${scale.root} ${SCALE_TYPE_LABELS[scale.type]}`;
+};
+
+/**
+ * 種類ごとのポジション名一覧（回答の選択肢）
+ * CAGEDフォームはキーによって並び順が変わるためフォームの表示順で返す
+ */
+export const getPositionNames = (type: ScaleType): string[] => {
+  const { system, intervals } = SCALE_DEFINITIONS[type];
+  return system === 'caged'
+    ? CAGED_FORMS.map(form => `${form}フォーム`)
+    : intervals.map((_, index) => `ポジション${index + 1}`);
+};
+
+/**
+ * 条件に合うパターンを取得
+ */
+export const getScalePatterns = (options: { root?: NoteName; type?: ScaleType } = {}): ScalePattern[] => {
+  return SCALE_PATTERNS.filter(pattern =>
+    (!options.root || pattern.root === options.root) &&
+    (!options.type || pattern.type === options.type)
+  );
+};
+
+/**
+ * ルート・種類・ポジション名からパターンを取得
+ */
+export const findScalePattern = (
+  root: NoteName,
+  type: ScaleType,
+  positionName: string
+): ScalePattern | undefined => {
+  return SCALE_PATTERNS.find(pattern =>
+    pattern.root === root && pattern.type === type && pattern.positionName === positionName
+  );
+};
+
+/**
+ * ランダムにパターンを選択
+ *
+ * @param types 出題する種類（省略時はすべて）
+ */
+export const getRandomScalePattern = (types: ScaleType[] = SCALE_TYPES): ScalePattern => {
+  const targetPatterns = SCALE_PATTERNS.filter(pattern => types.includes(pattern.type));
+
+  if (targetPatterns.length === 0) {
+    throw new Error(`No scale patterns found for types: ${types.join(', ')}`);
+  }
+
+  return targetPatterns[Math.floor(Math.random() * targetPatterns.length)];
+};
+
+/**
+ * パターンをフレットボード表示用の音に変換（ラベルはルートからのインターバル）
+ */
+export const getScalePatternNotes = (pattern: ScalePattern): FretboardNote[] => {
+  return pattern.frets.flatMap((stringFrets, stringIndex) =>
+    stringFrets.map(fret => {
+      const interval = getSemitoneDistance(pattern.root, transposeNote(STANDARD_TUNING.notes[stringIndex], fret));
+      return {
+        stringIndex,
+        fret,
+        label: INTERVAL_NAMES[interval],
+        variant: interval === 0 ? 'root' : 'default',
+      };
+    })
+  );
+};
+
+/**
+ * パターンの押弦キー（"弦番号-フレット"）の集合
+ */
+export const getScalePatternKeys = (pattern: ScalePattern): Set<string> => {
+  return new Set(
+    pattern.frets.flatMap((stringFrets, stringIndex) => stringFrets.map(fret => getFretKey(stringIndex, fret)))
+  );
+};
@@ -0,0 +1,77 @@
+/**
+ * Tuning Presets
+ *
+ * @description 標準・変則チューニングのプリセット定義
+ * @author Claude Code
+ */
+
+import { Tuning, TuningId } from '../types';
+
+// =============================================================================
+// Tuning Presets - チューニングプリセット
+// =============================================================================
+
+/**
+ * 標準チューニング (EADGBE)
+ */
+export const STANDARD_TUNING: Tuning = {
+  id: 'standard',
+  name: 'Standard',
+  notes: ['E', 'A', 'D', 'G', 'B', 'E'],
+  labels: ['E', 'A', 'D', 'G', 'B', 'E'],
+  frequencies: [82.41, 110.00, 146.83, 196.00, 246.94, 329.63],
+};
+
+/**
+ * チューニングプリセット一覧
+ */
+export const TUNING_PRESETS: Record<TuningId, Tuning> = {
+  standard: STANDARD_TUNING,
+  dropD: {
+    id: 'dropD',
+    name: 'Drop D',
+    notes: ['D', 'A', 'D', 'G', 'B', 'E'],
+    labels: ['D', 'A', 'D', 'G', 'B', 'E'],
+    frequencies: [73.42, 110.00, 146.83, 196.00, 246.94, 329.63],
+  },
+  dadgad: {
+    id: 'dadgad',
+    name: 'DADGAD',
+    notes: ['D', 'A', 'D', 'G', 'A', 'D'],
+    labels: ['D', 'A', 'D', 'G', 'A', 'D'],
+    frequencies: [73.42, 110.00, 146.83, 196.00, 220.00, 293.66],
+  },
+  openG: {
+    id: 'openG',
+    name: 'Open G',
+    notes: ['D', 'G', 'D', 'G', 'B', 'D'],
+    labels: ['D', 'G', 'D', 'G', 'B', 'D'],
+    frequencies: [73.42, 98.00, 146.83, 196.00, 246.94, 293.66],
+  },
+  halfStepDown: {
+    id: 'halfStepDown',
+    name: 'Half-step Down',
+    notes: ['D#', 'G#', 'C#', 'F#', 'A#', 'D#'],
+    labels: ['E♭', 'A♭', 'D♭', 'G♭', 'B♭', 'E♭'],
+    frequencies: [77.78, 103.83, 138.59, 185.00, 233.08, 311.13],
+  },
+};
+
+/**
+ * チューニング識別子の一覧（表示順）
+ */
+export const TUNING_IDS = Object.keys(TUNING_PRESETS) as TuningId[];
+
+// =============================================================================
+// Utility Functions - ユーティリティ関数
+// =============================================================================
+
+/**
+ * 識別子からチューニングを取得
+ *
+ * @param id チューニング識別子（省略時は標準チューニング）
+ * @returns チューニング定義
+ */
+export const getTuning = (id: TuningId = 'standard'): Tuning => {
+  return TUNING_PRESETS[id] ?? STANDARD_TUNING;
+};
@@ -1,8 +1,10 @@
 'use client';
 
 import { useEffect, useRef, useState, useCallback } from 'react';
-import { GuitarSynthesizer, SoundEffects, AudioUtils } from '@/lib/audio';
-import { ChordPattern } from '@/types';
+import { GuitarSynthesizer, SoundEffects, AudioUtils, ChordPlaybackOptions } from '@/lib/audio';
+import { ChordPattern, ChordPlaybackSettings, InstrumentType, Tuning } from '@/types';
+import { STANDARD_TUNING } from '@/data/tuning-presets';
+import { DEFAULT_PLAYBACK_SETTINGS } from '@/lib/playback-patterns';
 
 /**
  * 音声制御カスタムフック
@@ -11,10 +13,13 @@ import { ChordPattern } from '@/types';
 export const useAudio = () => {
   const synthesizerRef = useRef<GuitarSynthesizer | null>(null);
   const soundEffectsRef = useRef<SoundEffects | null>(null);
+  const tuningRef = useRef<Tuning>(STANDARD_TUNING);
   
   const [isEnabled, setIsEnabled] = useState(true);
   const [volume, setVolume] = useState(0.3);
   const [effectsVolume, setEffectsVolume] = useState(0.4);
+  const [instrument, setInstrument] = useState<InstrumentType>('acoustic');
+  const [playbackSettings, setPlaybackSettings] = useState<ChordPlaybackSettings>(DEFAULT_PLAYBACK_SETTINGS);
   const [isInitialized, setIsInitialized] = useState(false);
   const [isSupported, setIsSupported] = useState(true);
   const [audioContextState, setAudioContextState] = useState<string>('not-initialized');
@@ -34,9 +39,11 @@ export const useAudio = () => {
       if (!synthesizerRef.current) {
         // シンセサイザーの初期化
         synthesizerRef.current = new GuitarSynthesizer();
+        synthesizerRef.current.setTuning(tuningRef.current);
+        synthesizerRef.current.setInstrument(instrument);
         
         // 効果音エンジンの初期化
-        const audioContext = (synthesizerRef.current as any).audioContext;
+        const audioContext = synthesizerRef.current.getAudioContext();
         if (audioContext) {
           soundEffectsRef.current = new SoundEffects(audioContext);
           
@@ -68,7 +75,7 @@ export const useAudio = () => {
       setIsSupported(false);
       return false;
     }
-  }, [volume, effectsVolume]);
+  }, [volume, effectsVolume, instrument]);
   
   /**
    * ユーザー操作による音声有効化
@@ -98,30 +105,34 @@ export const useAudio = () => {
   }, [initializeAudio, isInitialized]);
   
   /**
-   * コード再生
+   * コード再生（オプションで指定しない項目は保存された再生設定を使う）
    */
-  const playChord = useCallback(async (chordPattern: ChordPattern, duration?: number) => {
+  const playChord = useCallback(async (
+    chordPattern: ChordPattern,
+    duration?: number,
+    options?: ChordPlaybackOptions
+  ) => {
     if (!isEnabled || !isSupported || !synthesizerRef.current) {
       return;
     }
     
     try {
-      await synthesizerRef.current.playChord(chordPattern, duration);
+      await synthesizerRef.current.playChord(chordPattern, duration, { ...playbackSettings, ...options });
     } catch (error) {
       console.error('コード再生エラー:', error);
     }
-  }, [isEnabled, isSupported]);
+  }, [isEnabled, isSupported, playbackSettings]);
   
   /**
    * 単弦再生
    */
-  const playString = useCallback(async (stringIndex: number, fret: number, duration?: number) => {
+  const playString = useCallback(async (stringIndex: number, fret: number, duration?: number, delay?: number) => {
     if (!isEnabled || !isSupported || !synthesizerRef.current) {
       return;
     }
     
     try {
-      await synthesizerRef.current.playString(stringIndex, fret, duration);
+      await synthesizerRef.current.playString(stringIndex, fret, duration, delay);
     } catch (error) {
       console.error('単弦再生エラー:', error);
     }
@@ -196,6 +207,42 @@ export const useAudio = () => {
     }
   }, []);
   
+  /**
+   * チューニング変更
+   */
+  const changeTuning = useCallback((tuning: Tuning) => {
+    tuningRef.current = tuning;
+    
+    if (synthesizerRef.current) {
+      synthesizerRef.current.setTuning(tuning);
+    }
+  }, []);
+  
+  /**
+   * 楽器の音色変更
+   */
+  const changeInstrument = useCallback((newInstrument: InstrumentType) => {
+    setInstrument(newInstrument);
+    
+    if (synthesizerRef.current) {
+      synthesizerRef.current.setInstrument(newInstrument);
+    }
+  }, []);
+  
+  /**
+   * 共有AudioContextの取得（未初期化ならnull）
+   */
+  const getAudioContext = useCallback((): AudioContext | null => {
+    return synthesizerRef.current?.getAudioContext() ?? null;
+  }, []);
+  
+  /**
+   * コード再生設定の変更
+   */
+  const changePlaybackSettings = useCallback((changes: Partial<ChordPlaybackSettings>) => {
+    setPlaybackSettings(prev => ({ ...prev, ...changes }));
+  }, []);
+  
   /**
    * 音声ON/OFF切り替え
    */
@@ -225,6 +272,8 @@ export const useAudio = () => {
       isEnabled,
       volume,
       effectsVolume,
+      instrument,
+      playback: playbackSettings,
     };
     
     try {
@@ -232,7 +281,7 @@ export const useAudio = () => {
     } catch (error) {
       console.warn('音声設定の保存に失敗:', error);
     }
-  }, [isEnabled, volume, effectsVolume]);
+  }, [isEnabled, volume, effectsVolume, instrument, playbackSettings]);
   
   /**
    * 音声設定のローカルストレージ読み込み
@@ -245,11 +294,13 @@ export const useAudio = () => {
         setIsEnabled(settings.isEnabled ?? true);
         setVolume(settings.volume ?? 0.3);
         setEffectsVolume(settings.effectsVolume ?? 0.4);
+        changeInstrument(settings.instrument ?? 'acoustic');
+        setPlaybackSettings({ ...DEFAULT_PLAYBACK_SETTINGS, ...settings.playback });
       }
     } catch (error) {
       console.warn('音声設定の読み込みに失敗:', error);
     }
-  }, []);
+  }, [changeInstrument]);
   
   /**
    * 初期化とクリーンアップ
@@ -281,13 +332,19 @@ export const useAudio = () => {
     audioContextState,
     volume,
     effectsVolume,
+    instrument,
+    playbackSettings,
     
     // 制御関数
     enableAudio,
     toggleAudio,
     changeVolume,
     changeEffectsVolume,
+    changeTuning,
+    changeInstrument,
+    changePlaybackSettings,
     resetAudio,
+    getAudioContext,
     
     // 再生関数
     playChord,
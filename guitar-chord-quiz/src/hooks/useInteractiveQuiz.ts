@@ -1,250 +1,229 @@
 'use client';
 
-import { useState, useCallback, useEffect } from 'react';
-import { ChordPattern, ChordDifficulty } from '@/types';
-import { CHORD_PATTERNS, getChordsByDifficulty } from '@/data/chord-patterns';
+import { useState, useCallback, useEffect, useMemo, useReducer, useRef } from 'react';
+import { ChordPattern, ChordDifficulty, TuningId } from '@/types';
+import { getChordsByDifficulty, getChordsByTuning } from '@/data/chord-patterns';
+import { getTuning } from '@/data/tuning-presets';
+import { identifyChord } from '@/lib/theory';
+import { getChordKey } from '@/lib/spaced-repetition';
+import { patternToFrets, createOpenPattern } from '@/lib/fretboard';
+import {
+  DEFAULT_QUIZ_ENGINE_CONFIG,
+  createQuizEngineState,
+  createQuizReducer,
+  createRandomQuestionSource,
+} from '@/lib/quiz-engine';
+import { useQuestionEvents } from '@/hooks/useLocalStorage';
+
+/**
+ * 1ゲームの最大問題数
+ */
+const MAX_QUESTIONS = 10;
+
+/**
+ * 出題対象のコードを取得
+ * デッキ指定時はデッキのコードを使用し、
+ * 該当難易度のボイシングがないチューニングではチューニング内の全コードを使用
+ */
+const getAvailableChords = (
+  difficulty: ChordDifficulty,
+  tuning: TuningId,
+  chordPool?: ChordPattern[]
+): ChordPattern[] => {
+  if (chordPool && chordPool.length > 0) return chordPool;
+
+  const chords = getChordsByDifficulty(difficulty, tuning);
+  return chords.length > 0 ? chords : getChordsByTuning(tuning);
+};
+
+/**
+ * 段階的なヒント（使用したヒント数だけ先頭から表示する）
+ */
+const getChordHints = (chord: ChordPattern): string[] => {
+  const soundingFrets = chord.frets.filter((fret): fret is number => fret !== null);
+
+  return [
+    `このコードは${chord.frets.filter(f => f !== null && f > 0).length}本の弦を押弦します`,
+    chord.frets.includes(null)
+      ? `ミュートする弦: ${chord.frets.flatMap((f, index) => (f === null ? [`${6 - index}弦`] : [])).join('・')}`
+      : 'このコードは6本すべての弦を鳴らします',
+    `使用するフレットは${Math.min(...soundingFrets)}〜${Math.max(...soundingFrets)}フレットの範囲です`,
+    `このコードの種類は${chord.name.includes('m') && !chord.name.includes('maj') ? 'マイナー' : 'メジャー'}コードです`,
+    `ルート音は${chord.name.charAt(0)}です`,
+    `${chord.category || 'その他'}カテゴリのコードです`,
+  ];
+};
 
 /**
  * インタラクティブクイズ状態管理フック
  * ユーザーがフレットボード上でコードを作成するクイズモードの状態管理
+ *
+ * 状態遷移・スコア計算はクイズエンジン（lib/quiz-engine）で行い、コード名を答えるクイズと共通にする。
+ * 各問題は最初の答え合わせのみ採点する
  */
-interface InteractiveQuizState {
-  /** 現在の問題 */
-  currentChord: ChordPattern | null;
-  /** ユーザーの回答パターン */
-  userPattern: Set<string>;
-  /** 現在のスコア */
-  score: number;
-  /** 使用済みヒント */
-  hints: string[];
-  /** 使用済みヒント数 */
-  hintsUsed: number;
-  /** 最大ヒント数 */
-  maxHints: number;
-  /** 問題番号 */
-  questionNumber: number;
-  /** 総問題数 */
-  totalQuestions: number;
-  /** クイズ状態 */
-  quizStatus: 'idle' | 'playing' | 'paused' | 'completed';
-  /** 正解数 */
-  correctAnswers: number;
-  /** 開始時刻 */
-  startTime: number | null;
-  /** 経過時間（秒） */
-  elapsedTime: number;
-  /** 利用可能なコード一覧 */
-  availableChords: ChordPattern[];
-}
+export const useInteractiveQuiz = (
+  difficulty: ChordDifficulty,
+  tuning: TuningId = 'standard',
+  chordPool?: ChordPattern[]
+) => {
+  // 出題元（最大10問）
+  const availableChords = useMemo(
+    () => getAvailableChords(difficulty, tuning, chordPool),
+    [difficulty, tuning, chordPool]
+  );
+  const questionSource = useMemo(() => createRandomQuestionSource(availableChords), [availableChords]);
+  const totalQuestions = Math.min(availableChords.length, MAX_QUESTIONS);
 
-export const useInteractiveQuiz = (difficulty: ChordDifficulty) => {
-  const [state, setState] = useState<InteractiveQuizState>(() => {
-    const chords = getChordsByDifficulty(difficulty);
-    return {
-      currentChord: null,
-      userPattern: new Set(),
-      score: 0,
-      hints: [],
-      hintsUsed: 0,
-      maxHints: 3,
-      questionNumber: 0,
-      totalQuestions: Math.min(chords.length, 10), // 最大10問
-      quizStatus: 'idle',
-      correctAnswers: 0,
-      startTime: null,
-      elapsedTime: 0,
-      availableChords: chords,
-    };
-  });
+  // 状態管理（クイズエンジン）
+  const reducer = useMemo(
+    () => createQuizReducer({ ...DEFAULT_QUIZ_ENGINE_CONFIG, questionLimit: totalQuestions }),
+    [totalQuestions]
+  );
+  const [state, dispatch] = useReducer(reducer, difficulty, createQuizEngineState);
 
-  /**
-   * 新しい問題を生成
-   */
-  const generateNewQuestion = useCallback(() => {
-    if (state.availableChords.length === 0) return;
-    
-    const randomIndex = Math.floor(Math.random() * state.availableChords.length);
-    const newChord = state.availableChords[randomIndex];
-    
-    setState(prev => ({
-      ...prev,
-      currentChord: newChord,
-      userPattern: new Set(),
-      hints: [],
-      hintsUsed: 0,
-      questionNumber: prev.questionNumber + 1,
-    }));
-  }, [state.availableChords]);
+  // ユーザーの回答パターン（"弦番号-フレット"、フレットは x = ミュート・0 = 開放弦・1以上 = 押弦）
+  const [userPattern, setUserPattern] = useState<Set<string>>(createOpenPattern);
+
+  // 回答記録
+  const { recordEvent } = useQuestionEvents();
+  const questionStartTime = useRef<number>(0);
 
   /**
-   * ヒントを生成
+   * 新しい問題を出題（最大問題数に達していればクイズ終了）
    */
-  const generateHint = useCallback((chord: ChordPattern): string => {
-    const existingHints = state.hints;
-    
-    // 段階的ヒント生成
-    const hintOptions = [
-      `このコードは${chord.frets.filter(f => f !== null).length}本の弦を押弦します`,
-      `使用するフレットは${Math.min(...chord.frets.filter(f => f !== null) as number[])}〜${Math.max(...chord.frets.filter(f => f !== null) as number[])}フレットの範囲です`,
-      `このコードの種類は${chord.name.includes('m') && !chord.name.includes('maj') ? 'マイナー' : 'メジャー'}コードです`,
-      `ルート音は${chord.name.charAt(0)}です`,
-      `${chord.category || 'その他'}カテゴリのコードです`,
-    ];
-    
-    // まだ使用されていないヒントを選択
-    const availableHints = hintOptions.filter(hint => !existingHints.includes(hint));
-    if (availableHints.length === 0) return '追加のヒントはありません';
-    
-    return availableHints[0];
-  }, [state.hints]);
+  const generateNewQuestion = useCallback(() => {
+    dispatch({ type: 'NEXT_CHORD', chord: questionSource.next(state) });
+    setUserPattern(createOpenPattern());
+    questionStartTime.current = Date.now();
+  }, [questionSource, state]);
 
   /**
    * ヒント要求
    */
   const requestHint = useCallback(() => {
-    if (!state.currentChord || state.hintsUsed >= state.maxHints) return;
-    
-    const newHint = generateHint(state.currentChord);
-    setState(prev => ({
-      ...prev,
-      hints: [...prev.hints, newHint],
-      hintsUsed: prev.hintsUsed + 1,
-      score: Math.max(0, prev.score - 10), // ヒント使用でスコア減点
-    }));
-  }, [state.currentChord, state.hintsUsed, state.maxHints, generateHint]);
+    dispatch({ type: 'USE_HINT' });
+  }, []);
 
   /**
    * 回答処理
    */
-  const submitAnswer = useCallback((isCorrect: boolean, userPattern: Set<string>) => {
-    setState(prev => {
-      const timeBonus = Math.max(0, 100 - prev.elapsedTime); // 時間ボーナス
-      const baseScore = isCorrect ? 100 : 0;
-      const hintPenalty = prev.hintsUsed * 10;
-      const finalScore = baseScore + timeBonus - hintPenalty;
-      
-      return {
-        ...prev,
-        userPattern,
-        score: prev.score + Math.max(0, finalScore),
-        correctAnswers: prev.correctAnswers + (isCorrect ? 1 : 0),
-      };
+  const submitAnswer = useCallback((isCorrect: boolean, pattern: Set<string>) => {
+    if (!state.currentChord || state.status !== 'playing') return;
+
+    // 押弦パターンをコード名として記録（判定できない場合はフレット表記）
+    const frets = patternToFrets(pattern);
+    const identified = identifyChord(frets, getTuning(tuning));
+    const answer = isCorrect
+      ? state.currentChord.name
+      : identified?.name ?? frets.map(fret => fret ?? 'x').join('-');
+
+    recordEvent({
+      source: 'interactive',
+      chordKey: getChordKey(state.currentChord),
+      chordName: state.currentChord.name,
+      answer,
+      isCorrect,
+      responseTime: (Date.now() - questionStartTime.current) / 1000,
+      hintsUsed: state.hintsUsed,
+      difficulty,
     });
-  }, []);
+
+    dispatch({ type: 'SUBMIT_ANSWER', answer, result: isCorrect ? 'correct' : 'incorrect' });
+    setUserPattern(pattern);
+  }, [state.currentChord, state.status, state.hintsUsed, tuning, difficulty, recordEvent]);
 
   /**
    * 次の問題へ進む
    */
-  const nextQuestion = useCallback(() => {
-    if (state.questionNumber >= state.totalQuestions) {
-      setState(prev => ({ ...prev, quizStatus: 'completed' }));
-      return;
-    }
-    
-    generateNewQuestion();
-  }, [state.questionNumber, state.totalQuestions, generateNewQuestion]);
+  const nextQuestion = generateNewQuestion;
 
   /**
    * クイズ開始
    */
   const startQuiz = useCallback(() => {
-    setState(prev => ({
-      ...prev,
-      quizStatus: 'playing',
-      startTime: Date.now(),
-      questionNumber: 0,
-      score: 0,
-      correctAnswers: 0,
-      elapsedTime: 0,
-    }));
-    generateNewQuestion();
-  }, [generateNewQuestion]);
+    const chord = questionSource.next(createQuizEngineState(difficulty));
+    if (!chord) return;
+
+    dispatch({ type: 'START_QUIZ', difficulty, chord });
+    setUserPattern(createOpenPattern());
+    questionStartTime.current = Date.now();
+  }, [questionSource, difficulty]);
 
   /**
    * クイズリセット
    */
   const resetQuiz = useCallback(() => {
-    const chords = getChordsByDifficulty(difficulty);
-    setState({
-      currentChord: null,
-      userPattern: new Set(),
-      score: 0,
-      hints: [],
-      hintsUsed: 0,
-      maxHints: 3,
-      questionNumber: 0,
-      totalQuestions: Math.min(chords.length, 10),
-      quizStatus: 'idle',
-      correctAnswers: 0,
-      startTime: null,
-      elapsedTime: 0,
-      availableChords: chords,
-    });
+    dispatch({ type: 'RESET_QUIZ', difficulty });
+    setUserPattern(createOpenPattern());
   }, [difficulty]);
 
   /**
    * クイズ一時停止/再開
    */
   const togglePause = useCallback(() => {
-    setState(prev => ({
-      ...prev,
-      quizStatus: prev.quizStatus === 'playing' ? 'paused' : 'playing',
-    }));
-  }, []);
+    dispatch({ type: state.isPaused ? 'RESUME_QUIZ' : 'PAUSE_QUIZ' });
+  }, [state.isPaused]);
 
   /**
    * パターンクリア
    */
   const clearPattern = useCallback(() => {
-    setState(prev => ({
-      ...prev,
-      userPattern: new Set(),
-    }));
+    setUserPattern(createOpenPattern());
   }, []);
 
   /**
-   * タイマー更新
+   * タイマー更新（経過時間は出題中のみ進む）
    */
+  const isTimerRunning = state.status === 'playing' && !state.isPaused;
   useEffect(() => {
-    let interval: NodeJS.Timeout | null = null;
-    
-    if (state.quizStatus === 'playing' && state.startTime) {
-      interval = setInterval(() => {
-        setState(prev => ({
-          ...prev,
-          elapsedTime: Math.floor((Date.now() - (prev.startTime || 0)) / 1000),
-        }));
-      }, 1000);
-    }
-    
-    return () => {
-      if (interval) clearInterval(interval);
-    };
-  }, [state.quizStatus, state.startTime]);
+    if (!isTimerRunning) return;
+
+    const interval = setInterval(() => dispatch({ type: 'TICK' }), 1000);
+    return () => clearInterval(interval);
+  }, [isTimerRunning]);
+
+  /**
+   * クイズ状態（表示用）
+   */
+  const quizStatus: 'idle' | 'playing' | 'paused' | 'completed' =
+    state.status === 'idle' ? 'idle'
+      : state.status === 'finished' ? 'completed'
+        : state.isPaused ? 'paused'
+          : 'playing';
+
+  /**
+   * 使用済みヒント
+   */
+  const hints = useMemo(
+    () => (state.currentChord ? getChordHints(state.currentChord).slice(0, state.hintsUsed) : []),
+    [state.currentChord, state.hintsUsed]
+  );
 
   /**
    * 統計情報計算
    */
   const statistics = {
     accuracy: state.questionNumber > 0 ? (state.correctAnswers / state.questionNumber) * 100 : 0,
-    averageTime: state.questionNumber > 0 ? state.elapsedTime / state.questionNumber : 0,
-    hintsPerQuestion: state.questionNumber > 0 ? state.hintsUsed / state.questionNumber : 0,
+    averageTime: state.questionNumber > 0 ? state.timeElapsed / state.questionNumber : 0,
+    hintsPerQuestion: state.questionNumber > 0 ? state.totalHintsUsed / state.questionNumber : 0,
     totalScore: state.score,
   };
 
   return {
     // 状態
     currentChord: state.currentChord,
-    userPattern: state.userPattern,
+    userPattern,
     score: state.score,
-    hints: state.hints,
+    hints,
     hintsUsed: state.hintsUsed,
-    maxHints: state.maxHints,
+    totalHintsUsed: state.totalHintsUsed,
+    maxHints: DEFAULT_QUIZ_ENGINE_CONFIG.maxHints,
     questionNumber: state.questionNumber,
-    totalQuestions: state.totalQuestions,
-    quizStatus: state.quizStatus,
+    totalQuestions,
+    quizStatus,
+    answered: state.status === 'answered',
     correctAnswers: state.correctAnswers,
-    elapsedTime: state.elapsedTime,
+    elapsedTime: state.timeElapsed,
     statistics,
     
     // アクション
@@ -7,8 +7,47 @@
 
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
-import { ChordPattern, GameSettings, DifficultyLevel } from '../types';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import {
+  ChordPattern,
+  ChordChangeRecord,
+  ChordDeck,
+  CustomChord,
+  GameSettings,
+  PositionAccuracy,
+  DifficultyLevel,
+  QuizMode,
+  GameMode,
+  TuningId,
+  DEFAULT_GAME_SETTINGS,
+  isTuningId,
+} from '../types';
+import {
+  ReviewSchedule,
+  ReviewQuality,
+  createReviewItem,
+  scheduleReview,
+  getDueItems,
+  countDueToday,
+} from '../lib/spaced-repetition';
+import { QuestionEvent, QuestionSource } from '../lib/chord-analytics';
+import {
+  CUSTOM_CHORD_ID_PREFIX,
+  DECK_ID_PREFIX,
+  createId,
+  resolveDeckChords,
+  validateCustomChord,
+} from '../lib/custom-chords';
+import { PositionAttempt, recordPositionAttempts } from '../lib/note-trainer';
+import { compareGameResults } from '../lib/game-modes';
+import { QuizEngineState } from '../lib/quiz-engine';
+import {
+  QuizSession,
+  QuizSessionConfig,
+  createQuizSession,
+  isResumableState,
+  isSessionCheckpoint,
+} from '../lib/quiz-session';
 
 // =============================================================================
 // Types - 型定義
@@ -38,6 +77,10 @@ export interface ScoreRecord {
   hintsUsed: number;
   /** ゲームID（重複チェック用） */
   gameId?: string;
+  /** 出題形式（旧バージョンの記録では省略、visual扱い） */
+  mode?: QuizMode;
+  /** ゲームモード（旧バージョンの記録では省略、endless扱い） */
+  gameMode?: GameMode;
 }
 
 /**
@@ -75,8 +118,20 @@ export const STORAGE_KEYS = {
   SCORE_HISTORY: 'guitar-quiz-scores',
   USER_PREFERENCES: 'guitar-quiz-preferences',
   QUIZ_STATE: 'guitar-quiz-state',
+  REVIEW_SCHEDULE: 'guitar-quiz-review',
+  QUESTION_EVENTS: 'guitar-quiz-question-events',
+  CUSTOM_CHORDS: 'guitar-quiz-custom-chords',
+  CHORD_DECKS: 'guitar-quiz-decks',
+  CHORD_CHANGE_RECORDS: 'guitar-quiz-chord-changes',
+  NOTE_TRAINER_STATS: 'guitar-quiz-note-trainer',
+  QUIZ_SESSION: 'guitar-quiz-session',
 } as const;
 
+/**
+ * 保持する回答記録の最大件数
+ */
+const MAX_QUESTION_EVENTS = 1000;
+
 // =============================================================================
 // Utility Functions - ユーティリティ関数
 // =============================================================================
@@ -213,14 +268,17 @@ export const useLocalStorage = <T>(
     }
   }, [key, storedValue]);
 
-  // 他のタブでの変更を監視
+  // 他のタブ（storage）・同じタブの別のインスタンス（localStorage）での変更を監視
   useEffect(() => {
     if (typeof window === 'undefined') return;
 
     const handleStorageChange = (e: StorageEvent) => {
       if (e.key === key && e.newValue !== null) {
+        const { newValue } = e;
         try {
-          setStoredValue(JSON.parse(e.newValue));
+          const parsed = JSON.parse(newValue);
+          // 自分が保存した値と同じなら更新しない（参照が変わって再描画されないように）
+          setStoredValue(prev => (JSON.stringify(prev) === newValue ? prev : parsed));
         } catch (error) {
           console.warn(`Error parsing localStorage change for key "${key}":`, error);
         }
@@ -228,7 +286,11 @@ export const useLocalStorage = <T>(
     };
 
     window.addEventListener('storage', handleStorageChange);
-    return () => window.removeEventListener('storage', handleStorageChange);
+    window.addEventListener('localStorage', handleStorageChange as EventListener);
+    return () => {
+      window.removeEventListener('storage', handleStorageChange);
+      window.removeEventListener('localStorage', handleStorageChange as EventListener);
+    };
   }, [key]);
 
   return [storedValue, setValue];
@@ -250,9 +312,16 @@ export const useGameSettings = () => {
     soundEnabled: true,
     capoPosition: 0,
     theme: 'light',
+    tuning: 'standard',
   };
 
-  const [settings, setSettings] = useLocalStorage(STORAGE_KEYS.GAME_SETTINGS, defaultSettings);
+  const [storedSettings, setSettings] = useLocalStorage(STORAGE_KEYS.GAME_SETTINGS, defaultSettings);
+
+  // 旧バージョンで保存された設定に不足している項目をデフォルト値で補完
+  const settings = useMemo<GameSettings>(
+    () => ({ ...DEFAULT_GAME_SETTINGS, ...storedSettings }),
+    [storedSettings]
+  );
 
   // 設定の部分更新
   const updateSettings = useCallback((updates: Partial<GameSettings>) => {
@@ -272,7 +341,8 @@ export const useGameSettings = () => {
       typeof settingsToValidate.capoPosition === 'number' &&
       settingsToValidate.capoPosition >= 0 &&
       settingsToValidate.capoPosition <= 12 &&
-      ['light', 'dark'].includes(settingsToValidate.theme)
+      ['light', 'dark'].includes(settingsToValidate.theme) &&
+      isTuningId(settingsToValidate.tuning)
     );
   }, []);
 
@@ -350,6 +420,21 @@ export const useScoreHistory = () => {
     return history.filter(record => record.difficulty === difficulty);
   }, [history]);
 
+  // ゲームモード別のハイスコアを取得（モードの順位付けに従う。mode未記録の旧データはvisual扱い）
+  const getHighScores = useCallback((
+    gameMode: GameMode,
+    difficulty?: DifficultyLevel,
+    quizMode?: QuizMode,
+    limit: number = 5
+  ): ScoreRecord[] => {
+    return history
+      .filter(record => (record.gameMode ?? 'endless') === gameMode)
+      .filter(record => !difficulty || record.difficulty === difficulty)
+      .filter(record => !quizMode || (record.mode ?? 'visual') === quizMode)
+      .sort((a, b) => compareGameResults(gameMode, a, b))
+      .slice(0, limit);
+  }, [history]);
+
   // 履歴をクリア
   const clearHistory = useCallback(() => {
     setHistory([]);
@@ -382,6 +467,7 @@ export const useScoreHistory = () => {
     getStats,
     getHistoryByDateRange,
     getHistoryByDifficulty,
+    getHighScores,
     clearHistory,
     removeRecord,
     exportData,
@@ -389,6 +475,325 @@ export const useScoreHistory = () => {
   };
 };
 
+/**
+ * 問題ごとの回答記録管理フック
+ * 
+ * @returns 回答記録と操作関数
+ * 
+ * @example
+ * ```typescript
+ * const { events, recordEvent } = useQuestionEvents();
+ * recordEvent({ source: 'quiz', chordKey: 'Am', chordName: 'Am', answer: 'A', ... });
+ * ```
+ */
+export const useQuestionEvents = () => {
+  const [events, setEvents] = useLocalStorage<QuestionEvent[]>(STORAGE_KEYS.QUESTION_EVENTS, []);
+
+  // 回答記録を追加
+  const recordEvent = useCallback((event: Omit<QuestionEvent, 'timestamp'>) => {
+    const newEvent: QuestionEvent = {
+      ...event,
+      timestamp: new Date().toISOString(),
+    };
+
+    // 最新の記録を保持（メモリ使用量を制限）
+    setEvents(prev => [...prev, newEvent].slice(-MAX_QUESTION_EVENTS));
+  }, [setEvents]);
+
+  // 回答記録をクリア（出題元を指定した場合はその記録のみ）
+  const clearEvents = useCallback((sources?: QuestionSource[]) => {
+    setEvents(prev => (sources ? prev.filter(event => !sources.includes(event.source)) : []));
+  }, [setEvents]);
+
+  return {
+    events,
+    recordEvent,
+    clearEvents,
+  };
+};
+
+/**
+ * コード復習スケジュール管理フック
+ * 
+ * @param tuning - 今日の復習対象数（dueToday）を数えるチューニング（省略時はすべて）
+ * @returns 復習スケジュールと操作関数
+ * 
+ * @example
+ * ```typescript
+ * const { schedule, recordReview, dueToday } = useReviewSchedule(settings.tuning);
+ * recordReview('Am', 4);
+ * ```
+ */
+export const useReviewSchedule = (tuning?: TuningId) => {
+  const [schedule, setSchedule] = useLocalStorage<ReviewSchedule>(STORAGE_KEYS.REVIEW_SCHEDULE, {});
+
+  // 回答結果を記録して次回の復習日を更新
+  const recordReview = useCallback((chordKey: string, quality: ReviewQuality) => {
+    setSchedule(prev => {
+      const now = new Date();
+      const item = prev[chordKey] ?? createReviewItem(chordKey, now);
+      return { ...prev, [chordKey]: scheduleReview(item, quality, now) };
+    });
+  }, [setSchedule]);
+
+  // 期限切れの復習アイテムを取得
+  const getDueReviews = useCallback((now: Date = new Date()) => {
+    return getDueItems(schedule, now);
+  }, [schedule]);
+
+  // スケジュールをクリア
+  const clearSchedule = useCallback(() => {
+    setSchedule({});
+  }, [setSchedule]);
+
+  return {
+    schedule,
+    dueToday: countDueToday(schedule, new Date(), tuning),
+    recordReview,
+    getDueReviews,
+    clearSchedule,
+  };
+};
+
+/**
+ * ユーザー定義コード管理フック
+ * 
+ * @returns ユーザー定義コードと操作関数
+ * 
+ * @example
+ * ```typescript
+ * const { customChords, saveCustomChord } = useCustomChords();
+ * const errors = saveCustomChord({ name: 'Cmaj9', frets: [...], ... });
+ * ```
+ */
+export const useCustomChords = () => {
+  const [customChords, setCustomChords] = useLocalStorage<CustomChord[]>(STORAGE_KEYS.CUSTOM_CHORDS, []);
+
+  // コードを検証して保存（idを指定すると上書き）
+  const saveCustomChord = useCallback((chord: ChordPattern, id?: string): string[] => {
+    const errors = validateCustomChord(chord);
+    if (errors.length > 0) return errors;
+
+    setCustomChords(prev => {
+      const existing = id ? prev.find(item => item.id === id) : undefined;
+      const saved: CustomChord = {
+        ...chord,
+        name: chord.name.trim(),
+        id: existing?.id ?? createId(CUSTOM_CHORD_ID_PREFIX),
+        createdAt: existing?.createdAt ?? new Date().toISOString(),
+      };
+
+      return existing
+        ? prev.map(item => (item.id === existing.id ? saved : item))
+        : [...prev, saved];
+    });
+    return [];
+  }, [setCustomChords]);
+
+  // コードを削除
+  const deleteCustomChord = useCallback((id: string) => {
+    setCustomChords(prev => prev.filter(chord => chord.id !== id));
+  }, [setCustomChords]);
+
+  return {
+    customChords,
+    saveCustomChord,
+    deleteCustomChord,
+  };
+};
+
+/**
+ * コードデッキ管理フック
+ * 
+ * @returns デッキと操作関数
+ * 
+ * @example
+ * ```typescript
+ * const { decks, saveDeck, getDeckChords } = useChordDecks();
+ * saveDeck('今週の課題', ['C', 'Am', 'custom-abc']);
+ * ```
+ */
+export const useChordDecks = () => {
+  const [decks, setDecks] = useLocalStorage<ChordDeck[]>(STORAGE_KEYS.CHORD_DECKS, []);
+  const { customChords } = useCustomChords();
+
+  // デッキを保存（idを指定すると上書き）
+  const saveDeck = useCallback((name: string, chordIds: string[], id?: string) => {
+    setDecks(prev => {
+      const existing = id ? prev.find(deck => deck.id === id) : undefined;
+      const saved: ChordDeck = {
+        id: existing?.id ?? createId(DECK_ID_PREFIX),
+        name: name.trim(),
+        chordIds: Array.from(new Set(chordIds)),
+        createdAt: existing?.createdAt ?? new Date().toISOString(),
+      };
+
+      return existing
+        ? prev.map(deck => (deck.id === existing.id ? saved : deck))
+        : [...prev, saved];
+    });
+  }, [setDecks]);
+
+  // デッキを削除
+  const deleteDeck = useCallback((id: string) => {
+    setDecks(prev => prev.filter(deck => deck.id !== id));
+  }, [setDecks]);
+
+  // デッキの収録コードを取得（デッキがなければ空配列）
+  const getDeckChords = useCallback((id: string): ChordPattern[] => {
+    const deck = decks.find(item => item.id === id);
+    return deck ? resolveDeckChords(deck, customChords) : [];
+  }, [decks, customChords]);
+
+  return {
+    decks,
+    saveDeck,
+    deleteDeck,
+    getDeckChords,
+  };
+};
+
+/**
+ * コードチェンジ練習の自己ベスト管理フック
+ * 
+ * @returns コードの組み合わせごとの自己ベストと操作関数
+ * 
+ * @example
+ * ```typescript
+ * const { records, recordResult } = useChordChangeRecords();
+ * const improved = recordResult(['Am|C'], { changesPerMinute: 30, bpm: 60, beatsPerChord: 2, date });
+ * ```
+ */
+export const useChordChangeRecords = () => {
+  const [records, setRecords] = useLocalStorage<Record<string, ChordChangeRecord>>(
+    STORAGE_KEYS.CHORD_CHANGE_RECORDS,
+    {}
+  );
+
+  // 結果を記録（自己ベストを更新した組み合わせのキーを返す）
+  const recordResult = useCallback((pairKeys: string[], result: ChordChangeRecord): string[] => {
+    const improved = pairKeys.filter(key =>
+      result.changesPerMinute > (records[key]?.changesPerMinute ?? 0)
+    );
+    if (improved.length === 0) return [];
+
+    setRecords(prev => {
+      const next = { ...prev };
+      improved.forEach(key => {
+        next[key] = result;
+      });
+      return next;
+    });
+    return improved;
+  }, [records, setRecords]);
+
+  return {
+    records,
+    recordResult,
+  };
+};
+
+/**
+ * 音名トレーニングの位置ごとの正答数管理フック
+ * 
+ * @returns 位置（"弦番号-フレット"）ごとの正答数と操作関数
+ * 
+ * @example
+ * ```typescript
+ * const { stats, recordAttempts } = useNoteTrainerStats();
+ * recordAttempts([{ key: '1-3', isCorrect: true }]);
+ * ```
+ */
+export const useNoteTrainerStats = () => {
+  const [stats, setStats] = useLocalStorage<Record<string, PositionAccuracy>>(
+    STORAGE_KEYS.NOTE_TRAINER_STATS,
+    {}
+  );
+
+  // 回答結果を記録
+  const recordAttempts = useCallback((attempts: PositionAttempt[]) => {
+    setStats(prev => recordPositionAttempts(prev, attempts));
+  }, [setStats]);
+
+  // 記録をリセット
+  const resetStats = useCallback(() => {
+    setStats({});
+  }, [setStats]);
+
+  return {
+    stats,
+    recordAttempts,
+    resetStats,
+  };
+};
+
+/**
+ * 途中のゲーム（セッション）管理フック
+ * 
+ * @returns 保存されたセッション（なければnull）と操作関数
+ * 
+ * @example
+ * ```typescript
+ * const { session, saveSession, clearSession } = useQuizSession();
+ * saveSession(config, state); // 終了した状態なら保存済みのセッションを破棄
+ * ```
+ */
+export const useQuizSession = () => {
+  const [session, setSession] = useLocalStorage<QuizSession | null>(STORAGE_KEYS.QUIZ_SESSION, null);
+
+  // 最後に保存した状態と、まだ保存していない最新のセッション（経過時間だけの変化はページを離れるときに保存）
+  const savedStateRef = useRef<QuizEngineState | null>(null);
+  const pendingSessionRef = useRef<QuizSession | null>(null);
+
+  // 進行中の状態を保存（開始前の状態では保存済みのセッションを残し、終了した状態なら破棄）
+  const saveSession = useCallback((config: QuizSessionConfig, state: QuizEngineState) => {
+    if (state.status === 'idle') return;
+
+    if (!isResumableState(state)) {
+      savedStateRef.current = null;
+      pendingSessionRef.current = null;
+      setSession(null);
+      return;
+    }
+
+    const next = createQuizSession(config, state);
+    if (isSessionCheckpoint(savedStateRef.current, state)) {
+      savedStateRef.current = state;
+      pendingSessionRef.current = null;
+      setSession(next);
+    } else {
+      pendingSessionRef.current = next;
+    }
+  }, [setSession]);
+
+  // セッションを破棄
+  const clearSession = useCallback(() => {
+    savedStateRef.current = null;
+    pendingSessionRef.current = null;
+    setSession(null);
+  }, [setSession]);
+
+  // ページを離れるときに未保存の経過時間を保存
+  useEffect(() => {
+    if (typeof window === 'undefined') return;
+
+    const handlePageHide = () => {
+      if (!pendingSessionRef.current) return;
+      setSession(pendingSessionRef.current);
+      pendingSessionRef.current = null;
+    };
+
+    window.addEventListener('pagehide', handlePageHide);
+    return () => window.removeEventListener('pagehide', handlePageHide);
+  }, [setSession]);
+
+  return {
+    session,
+    saveSession,
+    clearSession,
+  };
+};
+
 /**
  * ユーザー設定管理フック（UIプリファレンス用）
  * 
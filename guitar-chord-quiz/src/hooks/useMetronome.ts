@@ -0,0 +1,100 @@
+/**
+ * メトロノーム カスタムフック
+ *
+ * @description useAudioの共有AudioContextでメトロノームを鳴らし、発音に合わせて拍を通知するReactフック
+ * @author Claude Code
+ */
+
+'use client';
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Metronome } from '../lib/metronome';
+
+/**
+ * メトロノームを制御するカスタムフック
+ *
+ * 拍はクリック音より先にスケジュールされるため、表示の更新は
+ * 実際の発音時刻まで遅らせてから行う
+ *
+ * @param getAudioContext 共有AudioContextの取得関数（useAudio().getAudioContext）
+ * @returns 現在の拍と操作関数
+ *
+ * @example
+ * ```typescript
+ * const audio = useAudio();
+ * const { beat, start, stop } = useMetronome(audio.getAudioContext);
+ * start(80, 4);
+ * ```
+ */
+export const useMetronome = (getAudioContext: () => AudioContext | null) => {
+  const metronomeRef = useRef<Metronome | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const timeoutsRef = useRef<Set<ReturnType<typeof setTimeout>>>(new Set());
+
+  // 最後に鳴った拍（開始前は-1）
+  const [beat, setBeat] = useState(-1);
+  const [isRunning, setIsRunning] = useState(false);
+
+  // 予約済みの表示更新を取り消す
+  const clearPendingBeats = useCallback(() => {
+    timeoutsRef.current.forEach(clearTimeout);
+    timeoutsRef.current.clear();
+  }, []);
+
+  // 停止
+  const stop = useCallback(() => {
+    metronomeRef.current?.stop();
+    clearPendingBeats();
+    setIsRunning(false);
+  }, [clearPendingBeats]);
+
+  // 開始（AudioContextが使えない場合はfalse）
+  const start = useCallback(async (bpm: number, accentEvery: number): Promise<boolean> => {
+    const audioContext = getAudioContext();
+    if (!audioContext) return false;
+
+    if (audioContext.state === 'suspended') {
+      await audioContext.resume();
+    }
+
+    // 音声システムが作り直された場合はメトロノームも作り直す
+    if (!metronomeRef.current || audioContextRef.current !== audioContext) {
+      metronomeRef.current?.stop();
+      metronomeRef.current = new Metronome(audioContext);
+      audioContextRef.current = audioContext;
+    }
+
+    clearPendingBeats();
+    setBeat(-1);
+    setIsRunning(true);
+
+    metronomeRef.current.start({
+      bpm,
+      accentEvery,
+      onBeat: (beatIndex, time) => {
+        const delay = Math.max(0, (time - audioContext.currentTime) * 1000);
+        const timeoutId = setTimeout(() => {
+          timeoutsRef.current.delete(timeoutId);
+          setBeat(beatIndex);
+        }, delay);
+        timeoutsRef.current.add(timeoutId);
+      },
+    });
+    return true;
+  }, [getAudioContext, clearPendingBeats]);
+
+  // アンマウント時に停止
+  useEffect(() => {
+    return () => {
+      metronomeRef.current?.stop();
+      clearPendingBeats();
+    };
+  }, [clearPendingBeats]);
+
+  return {
+    beat,
+    isRunning,
+    start,
+    stop,
+  };
+};
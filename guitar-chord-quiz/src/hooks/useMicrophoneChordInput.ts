@@ -0,0 +1,140 @@
+/**
+ * マイクコード入力 カスタムフック
+ *
+ * @description マイクで録音したギターの音を解析し、出題コードが弾かれたかを判定するReactフック
+ * @author Claude Code
+ */
+
+'use client';
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { ChordPattern, Tuning } from '../types';
+import { detectChord, ChordDetectionResult } from '../lib/chord-detection';
+import { useMicrophoneInput } from './useMicrophoneInput';
+
+// =============================================================================
+// Types - 型定義
+// =============================================================================
+
+/**
+ * マイクコード入力フックのオプション
+ */
+interface MicrophoneChordInputOptions {
+  /** 判定対象のコード */
+  chord: ChordPattern | null;
+  /** 判定対象のチューニング */
+  tuning: Tuning;
+  /** 出題コードが弾かれたときのコールバック */
+  onMatch: () => void;
+  /** 共有AudioContextの取得関数（useAudio().getAudioContext。未初期化なら独自に作成） */
+  getAudioContext?: () => AudioContext | null;
+}
+
+// =============================================================================
+// Constants - 定数
+// =============================================================================
+
+/**
+ * 解析するフレームのサンプル数
+ */
+const FRAME_SIZE = 8192;
+
+/**
+ * 解析間隔（ミリ秒）
+ */
+const ANALYSIS_INTERVAL_MS = 200;
+
+/**
+ * 判定に使う直近のフレーム数
+ */
+const FRAME_HISTORY = 3;
+
+/**
+ * 一致とみなすのに必要な連続一致回数（誤検出防止）
+ */
+const REQUIRED_CONSECUTIVE_MATCHES = 2;
+
+// =============================================================================
+// Hook - フック
+// =============================================================================
+
+/**
+ * マイクでコードを回答するカスタムフック
+ *
+ * @param options 判定対象のコードとコールバック
+ * @returns 録音状態・直近の判定結果と操作関数
+ *
+ * @example
+ * ```typescript
+ * const mic = useMicrophoneChordInput({ chord, tuning, onMatch: () => submit(chord.name) });
+ * await mic.start();
+ * ```
+ */
+export const useMicrophoneChordInput = ({
+  chord,
+  tuning,
+  onMatch,
+  getAudioContext,
+}: MicrophoneChordInputOptions) => {
+  const [lastResult, setLastResult] = useState<ChordDetectionResult | null>(null);
+
+  // 解析ループから最新の値を参照する
+  const chordRef = useRef(chord);
+  const tuningRef = useRef(tuning);
+  const onMatchRef = useRef(onMatch);
+  chordRef.current = chord;
+  tuningRef.current = tuning;
+  onMatchRef.current = onMatch;
+
+  const framesRef = useRef<Float32Array[]>([]);
+  const matchCountRef = useRef(0);
+
+  // フレームごとの判定
+  const handleFrame = useCallback((frame: Float32Array, sampleRate: number) => {
+    const target = chordRef.current;
+    if (!target) return;
+
+    framesRef.current = [...framesRef.current, frame].slice(-FRAME_HISTORY);
+
+    const result = detectChord(framesRef.current, sampleRate, target, tuningRef.current);
+    setLastResult(result);
+
+    matchCountRef.current = result.isMatch ? matchCountRef.current + 1 : 0;
+    if (matchCountRef.current >= REQUIRED_CONSECUTIVE_MATCHES) {
+      // 同じ音で次の問題まで判定し続けないようにリセット
+      matchCountRef.current = 0;
+      framesRef.current = [];
+      onMatchRef.current();
+    }
+  }, []);
+
+  const microphone = useMicrophoneInput({
+    frameSize: FRAME_SIZE,
+    intervalMs: ANALYSIS_INTERVAL_MS,
+    onFrame: handleFrame,
+    getAudioContext,
+  });
+  const { stop: stopMicrophone } = microphone;
+
+  // 録音を停止
+  const stop = useCallback(() => {
+    stopMicrophone();
+    framesRef.current = [];
+    matchCountRef.current = 0;
+  }, [stopMicrophone]);
+
+  // 問題が変わったら前の問題の音を判定に使わない
+  useEffect(() => {
+    framesRef.current = [];
+    matchCountRef.current = 0;
+    setLastResult(null);
+  }, [chord]);
+
+  return {
+    isListening: microphone.isListening,
+    error: microphone.error,
+    lastResult,
+    start: microphone.start,
+    stop,
+  };
+};
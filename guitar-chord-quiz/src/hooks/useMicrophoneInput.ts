@@ -0,0 +1,189 @@
+/**
+ * マイク入力 カスタムフック
+ *
+ * @description マイクの音を一定間隔でPCMフレームとして取り出すReactフック（コード判定・チューナー共通）
+ * @author Claude Code
+ */
+
+'use client';
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+
+// =============================================================================
+// Types - 型定義
+// =============================================================================
+
+/**
+ * マイク入力フックのオプション
+ */
+interface MicrophoneInputOptions {
+  /** 1フレームのサンプル数（AnalyserNodeのfftSize。2の累乗） */
+  frameSize: number;
+  /** フレームを取り出す間隔（ミリ秒） */
+  intervalMs: number;
+  /** フレームごとのコールバック */
+  onFrame: (frame: Float32Array, sampleRate: number) => void;
+  /** 共有AudioContextの取得関数（useAudio().getAudioContext。未初期化なら独自に作成） */
+  getAudioContext?: () => AudioContext | null;
+}
+
+// =============================================================================
+// Hook - フック
+// =============================================================================
+
+/**
+ * マイクの音をPCMフレームで受け取るカスタムフック
+ *
+ * 音程解析のため、ブラウザのエコー除去・ノイズ抑制・自動ゲインは無効にする。
+ * 解析用のAnalyserNodeは出力に接続しないので、マイクの音がスピーカーから出ることはない
+ *
+ * @param options フレームの大きさ・間隔とコールバック
+ * @returns 録音状態と操作関数
+ *
+ * @example
+ * ```typescript
+ * const mic = useMicrophoneInput({ frameSize: 4096, intervalMs: 100, onFrame: (frame, rate) => {} });
+ * await mic.start();
+ * ```
+ */
+export const useMicrophoneInput = ({
+  frameSize,
+  intervalMs,
+  onFrame,
+  getAudioContext,
+}: MicrophoneInputOptions) => {
+  const [isListening, setIsListening] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // 解析ループから最新のコールバックを参照する
+  const onFrameRef = useRef(onFrame);
+  onFrameRef.current = onFrame;
+
+  const streamRef = useRef<MediaStream | null>(null);
+  const sourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
+  const ownedContextRef = useRef<AudioContext | null>(null);
+  const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  // 開始処理の世代（停止・アンマウントで進め、待機中の開始処理を取り消す）
+  const attemptRef = useRef(0);
+  // 待機中の開始処理（続けて呼ばれてもマイクを二重に開かない）
+  const pendingStartRef = useRef<Promise<boolean> | null>(null);
+
+  // 録音を停止してリソースを解放
+  const stop = useCallback(() => {
+    attemptRef.current += 1;
+    pendingStartRef.current = null;
+    if (timerRef.current !== null) {
+      clearInterval(timerRef.current);
+      timerRef.current = null;
+    }
+    sourceRef.current?.disconnect();
+    sourceRef.current = null;
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    if (ownedContextRef.current && ownedContextRef.current.state !== 'closed') {
+      ownedContextRef.current.close();
+    }
+    ownedContextRef.current = null;
+
+    setIsListening(false);
+  }, []);
+
+  // 録音を開始
+  const start = useCallback((): Promise<boolean> => {
+    if (timerRef.current !== null) return Promise.resolve(true);
+    if (pendingStartRef.current) return pendingStartRef.current;
+
+    if (typeof navigator === 'undefined' || !navigator.mediaDevices?.getUserMedia) {
+      setError('このブラウザはマイク入力に対応していません');
+      return Promise.resolve(false);
+    }
+
+    const attempt = ++attemptRef.current;
+    const isCancelled = () => attempt !== attemptRef.current;
+
+    const begin = async (): Promise<boolean> => {
+      let stream: MediaStream | null = null;
+      let ownedContext: AudioContext | null = null;
+
+      // 待機中に停止・アンマウントされた場合は、この開始処理で開いたものだけを解放する
+      const release = () => {
+        stream?.getTracks().forEach(track => track.stop());
+        if (ownedContext && ownedContext.state !== 'closed') {
+          ownedContext.close();
+        }
+      };
+
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false },
+        });
+        if (isCancelled()) {
+          release();
+          return false;
+        }
+
+        let audioContext = getAudioContext?.() ?? null;
+        if (!audioContext) {
+          audioContext = new AudioContext();
+          ownedContext = audioContext;
+        }
+        if (audioContext.state === 'suspended') {
+          await audioContext.resume();
+          if (isCancelled()) {
+            release();
+            return false;
+          }
+        }
+
+        const source = audioContext.createMediaStreamSource(stream);
+        const analyser = audioContext.createAnalyser();
+        analyser.fftSize = frameSize;
+        source.connect(analyser);
+
+        streamRef.current = stream;
+        ownedContextRef.current = ownedContext;
+        sourceRef.current = source;
+
+        const sampleRate = audioContext.sampleRate;
+        timerRef.current = setInterval(() => {
+          const frame = new Float32Array(frameSize);
+          analyser.getFloatTimeDomainData(frame);
+          onFrameRef.current(frame, sampleRate);
+        }, intervalMs);
+
+        setError(null);
+        setIsListening(true);
+        return true;
+      } catch (err) {
+        release();
+        if (isCancelled()) return false;
+
+        console.error('マイクの開始に失敗:', err);
+        stop();
+        setError(
+          err instanceof DOMException && err.name === 'NotAllowedError'
+            ? 'マイクの使用が許可されていません。ブラウザの設定を確認してください'
+            : 'マイクを開始できませんでした'
+        );
+        return false;
+      }
+    };
+
+    const starting = begin();
+    pendingStartRef.current = starting;
+    starting.finally(() => {
+      if (pendingStartRef.current === starting) pendingStartRef.current = null;
+    });
+    return starting;
+  }, [frameSize, intervalMs, getAudioContext, stop]);
+
+  // アンマウント時に停止
+  useEffect(() => stop, [stop]);
+
+  return {
+    isListening,
+    error,
+    start,
+    stop,
+  };
+};
@@ -0,0 +1,69 @@
+/**
+ * コード進行再生 カスタムフック
+ *
+ * @description テンポに合わせてコードを順に再生し、再生中のコードを通知するReactフック
+ * @author Claude Code
+ */
+
+'use client';
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { ChordPattern } from '../types';
+import { getBeatsDuration } from '../lib/metronome';
+
+/**
+ * コード進行を再生するカスタムフック
+ *
+ * @param playChord コードの再生関数（useAudio().playChord）
+ * @returns 再生中のコードの位置と操作関数
+ *
+ * @example
+ * ```typescript
+ * const audio = useAudio();
+ * const { currentIndex, play, stop } = useProgressionPlayer(audio.playChord);
+ * play([c, g, am, f], 90, 4);
+ * ```
+ */
+export const useProgressionPlayer = (
+  playChord: (chord: ChordPattern, duration?: number) => Promise<void>
+) => {
+  const timeoutsRef = useRef<ReturnType<typeof setTimeout>[]>([]);
+
+  // 再生中のコードの位置（停止中はnull）
+  const [currentIndex, setCurrentIndex] = useState<number | null>(null);
+
+  // 再生を停止
+  const stop = useCallback(() => {
+    timeoutsRef.current.forEach(clearTimeout);
+    timeoutsRef.current = [];
+    setCurrentIndex(null);
+  }, []);
+
+  // コードごとの拍数に合わせて順に再生
+  const play = useCallback((chords: ChordPattern[], bpm: number, beatsPerChord: number) => {
+    stop();
+    if (chords.length === 0) return;
+
+    const chordSeconds = getBeatsDuration(beatsPerChord, bpm);
+    chords.forEach((chord, index) => {
+      timeoutsRef.current.push(setTimeout(() => {
+        setCurrentIndex(index);
+        playChord(chord, chordSeconds);
+      }, index * chordSeconds * 1000));
+    });
+    timeoutsRef.current.push(setTimeout(() => {
+      timeoutsRef.current = [];
+      setCurrentIndex(null);
+    }, chords.length * chordSeconds * 1000));
+  }, [playChord, stop]);
+
+  // アンマウント時に停止
+  useEffect(() => stop, [stop]);
+
+  return {
+    currentIndex,
+    isPlaying: currentIndex !== null,
+    play,
+    stop,
+  };
+};
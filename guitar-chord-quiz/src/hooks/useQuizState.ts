@@ -7,9 +7,22 @@
 
 'use client';
 
-import { useState, useCallback, useEffect, useRef } from 'react';
-import { ChordPattern, QuizState, DifficultyLevel, GameStatistics } from '../types';
-import { getRandomChord, getChordsByDifficulty } from '../data/chord-patterns';
+import { useState, useCallback, useEffect, useMemo, useReducer, useRef } from 'react';
+import { ChordPattern, QuizState, DifficultyLevel, GameStatistics, TuningId, ChordSelectionMode, GameMode } from '../types';
+import { getRandomChord, getChordsByTuning } from '../data/chord-patterns';
+import { getChordKey, getReviewQuality, selectNextReviewChord } from '../lib/spaced-repetition';
+import { applyCapo } from '../lib/transposition';
+import { ChordAnswerResult, gradeChordAnswer } from '../lib/chord-symbols';
+import { GAME_MODES, GameOverReason } from '../lib/game-modes';
+import {
+  ChordQuestionSource,
+  DEFAULT_QUIZ_ENGINE_CONFIG,
+  QuizEngineState,
+  createQuizEngineState,
+  createQuizReducer,
+  createRandomQuestionSource,
+} from '../lib/quiz-engine';
+import { useReviewSchedule, useQuestionEvents } from './useLocalStorage';
 
 // =============================================================================
 // Types - 型定義
@@ -20,13 +33,17 @@ import { getRandomChord, getChordsByDifficulty } from '../data/chord-patterns';
  */
 interface UseQuizStateReturn {
   /** 現在のクイズ状態 */
-  state: QuizState;
+  state: QuizEngineState;
   /** ゲームがアクティブかどうか */
   gameActive: boolean;
   /** 結果表示中かどうか */
   showResult: boolean;
   /** 最後の回答が正解かどうか */
   lastAnswerCorrect: boolean | null;
+  /** 最後の回答の判定結果（partial: ルート音のみ正解） */
+  lastAnswerResult: ChordAnswerResult | null;
+  /** ゲームが終了した理由（ゲームモードの終了条件を満たすまではnull） */
+  gameOver: GameOverReason | null;
   /** ゲーム統計 */
   statistics: GameStatistics;
   /** ゲーム開始 */
@@ -35,10 +52,14 @@ interface UseQuizStateReturn {
   resetQuiz: () => void;
   /** 回答提出 */
   submitAnswer: (answer: string) => boolean;
-  /** 次のコードに進む */
+  /** 次のコードに進む（回答後の結果表示中のみ） */
   nextChord: () => void;
-  /** ヒント使用 */
+  /** 回答せずに次のコードに進む（スキップできるゲームモードのみ） */
+  skipChord: () => void;
+  /** ヒント使用（使えない場合は空文字） */
   useHint: () => string;
+  /** 1問あたりのヒントの上限 */
+  maxHints: number;
   /** ゲーム一時停止 */
   pauseGame: () => void;
   /** ゲーム再開 */
@@ -60,10 +81,6 @@ const STORAGE_KEYS = {
  * ゲーム設定
  */
 interface GameSettings {
-  /** 自動進行するかどうか */
-  autoProgress: boolean;
-  /** 自動進行の遅延時間（ミリ秒） */
-  autoProgressDelay: number;
   /** ヒント機能を有効にするか */
   hintsEnabled: boolean;
   /** タイマー表示を有効にするか */
@@ -76,73 +93,25 @@ interface GameSettings {
 // Utility Functions - ユーティリティ関数
 // =============================================================================
 
-/**
- * 初期クイズ状態を生成
- */
-const createInitialState = (difficulty: DifficultyLevel): QuizState => ({
-  currentChord: null,
-  userAnswer: null,
-  score: 0,
-  streak: 0,
-  totalAnswers: 0,
-  correctAnswers: 0,
-  timeElapsed: 0,
-  difficulty,
-  hintsUsed: 0,
-  isGameActive: false,
-  currentRound: 0,
-});
-
 /**
  * 統計情報を計算
  */
-const calculateStatistics = (state: QuizState): GameStatistics => {
+const calculateStatistics = (state: QuizEngineState): GameStatistics => {
   const accuracy = state.totalAnswers > 0 ? (state.correctAnswers / state.totalAnswers) * 100 : 0;
   const averageTime = state.totalAnswers > 0 ? state.timeElapsed / state.totalAnswers : 0;
   
   return {
     gamesPlayed: state.currentRound,
     totalScore: state.score,
-    bestStreak: state.streak, // 実際の実装では最高記録を保存すべき
+    bestStreak: state.bestStreak,
     accuracy,
     averageTimePerQuestion: averageTime,
     totalTimeElapsed: state.timeElapsed,
-    hintsUsed: state.hintsUsed,
+    hintsUsed: state.totalHintsUsed,
     difficulty: state.difficulty,
   };
 };
 
-/**
- * スコア計算
- */
-const calculateScore = (
-  isCorrect: boolean,
-  timeElapsed: number,
-  hintsUsed: number,
-  streak: number,
-  difficulty: DifficultyLevel
-): number => {
-  if (!isCorrect) return 0;
-
-  // 基本スコア（難易度に応じて変動）
-  const baseScore = {
-    beginner: 10,
-    intermediate: 15,
-    advanced: 20,
-  }[difficulty];
-
-  // 時間ボーナス（30秒以内で満点、それ以降は減点）
-  const timeBonus = Math.max(0, Math.floor((30 - timeElapsed) / 3));
-  
-  // ストリークボーナス
-  const streakBonus = Math.min(streak * 2, 20);
-  
-  // ヒント使用によるペナルティ
-  const hintPenalty = hintsUsed * 2;
-
-  return Math.max(1, baseScore + timeBonus + streakBonus - hintPenalty);
-};
-
 /**
  * ローカルストレージからデータを読み込み
  */
@@ -171,14 +140,37 @@ const saveToStorage = <T>(key: string, value: T): void => {
   }
 };
 
+/**
+ * 保存済みの状態を開始前の状態として復元（旧バージョンのQuizStateにはエンジンの項目を補う）
+ */
+const restoreState = (difficulty: DifficultyLevel): QuizEngineState => ({
+  ...createQuizEngineState(difficulty),
+  ...loadFromStorage<Partial<QuizState>>(STORAGE_KEYS.QUIZ_STATE, {}),
+  status: 'idle',
+  isGameActive: false,
+  isPaused: false,
+  lastResult: null,
+  gameOver: null,
+});
+
 // =============================================================================
 // Main Hook - メインフック
 // =============================================================================
 
 /**
  * クイズ状態管理カスタムフック
+ *
+ * 状態遷移はクイズエンジン（lib/quiz-engine）のreducerで行い、
+ * このフックは出題元・タイマー・回答記録・ローカルストレージへの保存を受け持つ。
+ * 回答後に次のコードへ自動で進むタイミングは呼び出し側（結果表示の長さを決めるコンポーネント）が持つ
  * 
  * @param difficulty - 初期難易度
+ * @param tuning - 出題するコードのチューニング
+ * @param selectionMode - 出題コードの選び方（review: 復習期限の来たコードを優先）
+ * @param chordPool - 出題対象のコード（デッキ指定時。難易度・チューニングより優先）
+ * @param capoPosition - カポタストの位置（出題コードの形をカポ基準で押さえ、実音のコード名を正解とする）
+ * @param gameMode - ゲームモード（終了条件。endlessでは終了しない）
+ * @param savedState - 途中から再開する状態（保存されたセッションから復元したもの）
  * @returns クイズ状態と操作関数
  * 
  * @example
@@ -192,36 +184,81 @@ const saveToStorage = <T>(key: string, value: T): void => {
  * } = useQuizState('beginner');
  * ```
  */
-export const useQuizState = (difficulty: DifficultyLevel): UseQuizStateReturn => {
-  // 状態管理
-  const [state, setState] = useState<QuizState>(() => 
-    loadFromStorage(STORAGE_KEYS.QUIZ_STATE, createInitialState(difficulty))
+export const useQuizState = (
+  difficulty: DifficultyLevel,
+  tuning: TuningId = 'standard',
+  selectionMode: ChordSelectionMode = 'random',
+  chordPool?: ChordPattern[],
+  capoPosition: number = 0,
+  gameMode: GameMode = 'endless',
+  savedState?: QuizEngineState
+): UseQuizStateReturn => {
+  // 状態管理（クイズエンジン）
+  const reducer = useMemo(
+    () => createQuizReducer({ ...DEFAULT_QUIZ_ENGINE_CONFIG, gameMode }),
+    [gameMode]
   );
-  
-  const [gameActive, setGameActive] = useState(false);
-  const [showResult, setShowResult] = useState(false);
-  const [lastAnswerCorrect, setLastAnswerCorrect] = useState<boolean | null>(null);
-  const [isPaused, setIsPaused] = useState(false);
+  const [state, dispatch] = useReducer(
+    reducer,
+    difficulty,
+    initialDifficulty => savedState ?? restoreState(initialDifficulty)
+  );
+
+  // 遅延実行（自動進行）からも最新の状態で次のコードを選ぶための参照
+  const stateRef = useRef(state);
+  useEffect(() => {
+    stateRef.current = state;
+  }, [state]);
   
   // 設定
   const [settings] = useState<GameSettings>(() => 
     loadFromStorage(STORAGE_KEYS.SETTINGS, {
-      autoProgress: true,
-      autoProgressDelay: 2000,
       hintsEnabled: true,
       timerEnabled: true,
       audioEnabled: false,
     })
   );
 
-  // タイマー用ref
-  const timerRef = useRef<NodeJS.Timeout | undefined>(undefined);
-  const autoProgressRef = useRef<NodeJS.Timeout | undefined>(undefined);
-  const questionStartTime = useRef<number>(0);
+  // 経過時間を最後に計測した時刻（出題・再開時に合わせ、計測した分をエンジンに渡す）
+  const lastMeasuredAt = useRef<number>(0);
+  const measureElapsed = useCallback((): number => {
+    const now = Date.now();
+    const elapsed = now - lastMeasuredAt.current;
+    lastMeasuredAt.current = now;
+    return elapsed;
+  }, []);
+
+  // 復習スケジュール
+  const { schedule, recordReview } = useReviewSchedule();
+  const { recordEvent } = useQuestionEvents();
 
   // 統計情報を計算
   const statistics = calculateStatistics(state);
 
+  // 出題元
+  const questionSource = useMemo<ChordQuestionSource>(() => {
+    const poolSource = chordPool && chordPool.length > 0 ? createRandomQuestionSource(chordPool) : null;
+
+    return {
+      next: current => {
+        const previousKey = current.currentChord ? getChordKey(current.currentChord) : undefined;
+
+        if (poolSource && chordPool) {
+          const reviewChord = selectionMode === 'review'
+            ? selectNextReviewChord(schedule, chordPool, new Date(), previousKey)
+            : null;
+          return reviewChord ?? poolSource.next(current);
+        }
+        if (selectionMode === 'review') {
+          // 復習モードでは難易度を問わず期限切れ→未学習の順に出題し、なければランダム
+          const reviewChord = selectNextReviewChord(schedule, getChordsByTuning(tuning), new Date(), previousKey);
+          return reviewChord ?? getRandomChord(undefined, tuning);
+        }
+        return getRandomChord(current.difficulty, tuning);
+      },
+    };
+  }, [selectionMode, schedule, tuning, chordPool]);
+
   // ローカルストレージに状態を保存
   useEffect(() => {
     saveToStorage(STORAGE_KEYS.QUIZ_STATE, state);
@@ -230,199 +267,157 @@ export const useQuizState = (difficulty: DifficultyLevel): UseQuizStateReturn =>
   // ゲーム開始
   const startQuiz = useCallback(() => {
     try {
-      const randomChord = getRandomChord(difficulty);
-      const newState: QuizState = {
-        ...createInitialState(difficulty),
-        currentChord: randomChord,
-        isGameActive: true,
-        currentRound: state.currentRound + 1,
-      };
-      
-      setState(newState);
-      setGameActive(true);
-      setShowResult(false);
-      setLastAnswerCorrect(null);
-      setIsPaused(false);
-      questionStartTime.current = Date.now();
+      const chord = questionSource.next(createQuizEngineState(difficulty));
+      if (!chord) return;
+
+      dispatch({ type: 'START_QUIZ', difficulty, chord });
+      lastMeasuredAt.current = Date.now();
     } catch (error) {
       console.error('Failed to start quiz:', error);
     }
-  }, [difficulty, state.currentRound]);
+  }, [difficulty, questionSource]);
 
   // クイズリセット
   const resetQuiz = useCallback(() => {
-    setState(createInitialState(difficulty));
-    setGameActive(false);
-    setShowResult(false);
-    setLastAnswerCorrect(null);
-    setIsPaused(false);
-    
-    // タイマーをクリア
-    if (timerRef.current) clearInterval(timerRef.current);
-    if (autoProgressRef.current) clearTimeout(autoProgressRef.current);
+    dispatch({ type: 'RESET_QUIZ', difficulty });
   }, [difficulty]);
 
-  // 回答提出
-  const submitAnswer = useCallback((answer: string): boolean => {
-    if (!state.currentChord || !gameActive || showResult) return false;
-
-    const isCorrect = answer.toLowerCase().trim() === state.currentChord.name.toLowerCase().trim();
-    const questionTime = Math.floor((Date.now() - questionStartTime.current) / 1000);
-    
-    // スコア計算
-    const points = calculateScore(
-      isCorrect, 
-      questionTime, 
-      state.hintsUsed, 
-      state.streak, 
-      state.difficulty
-    );
-
-    setState(prev => ({
-      ...prev,
-      userAnswer: answer,
-      score: prev.score + points,
-      streak: isCorrect ? prev.streak + 1 : 0,
-      totalAnswers: prev.totalAnswers + 1,
-      correctAnswers: prev.correctAnswers + (isCorrect ? 1 : 0),
-      timeElapsed: prev.timeElapsed + questionTime,
-    }));
-
-    setLastAnswerCorrect(isCorrect);
-    setShowResult(true);
-
-    // 自動進行設定
-    if (settings.autoProgress) {
-      autoProgressRef.current = setTimeout(() => {
-        nextChord();
-      }, settings.autoProgressDelay);
-    }
-
-    return isCorrect;
-  }, [state, gameActive, showResult, settings]);
-
-  // 次のコードに進む
-  const nextChord = useCallback(() => {
-    if (!gameActive) return;
-
+  // 次のコードを出題（NEXT_CHORD: 回答後、SKIP_CHORD: 回答せずに）
+  const presentNextChord = useCallback((type: 'NEXT_CHORD' | 'SKIP_CHORD') => {
     try {
-      const randomChord = getRandomChord(state.difficulty);
-      setState(prev => ({
-        ...prev,
-        currentChord: randomChord,
-        userAnswer: null,
-        hintsUsed: 0, // 新しい問題でヒント使用回数をリセット
-      }));
-      
-      setShowResult(false);
-      setLastAnswerCorrect(null);
-      questionStartTime.current = Date.now();
-      
-      // 自動進行タイマーをクリア
-      if (autoProgressRef.current) {
-        clearTimeout(autoProgressRef.current);
-      }
+      const chord = questionSource.next(stateRef.current);
+      dispatch(type === 'SKIP_CHORD' ? { type, chord, elapsedMs: measureElapsed() } : { type, chord });
+      lastMeasuredAt.current = Date.now();
     } catch (error) {
       console.error('Failed to load next chord:', error);
     }
-  }, [gameActive, state.difficulty]);
+  }, [questionSource, measureElapsed]);
+
+  // 次のコードに進む（結果表示中のみ。終了条件を満たしていればゲーム終了）
+  const nextChord = useCallback(() => {
+    const current = stateRef.current;
+    if (current.status !== 'answered' || current.isPaused) return;
+
+    presentNextChord('NEXT_CHORD');
+  }, [presentNextChord]);
+
+  // 回答せずに次のコードに進む（出題中のみ）
+  const skipChord = useCallback(() => {
+    const current = stateRef.current;
+    if (current.status !== 'playing' || current.isPaused || !GAME_MODES[gameMode].allowSkip) return;
+
+    presentNextChord('SKIP_CHORD');
+  }, [presentNextChord, gameMode]);
+
+  // 回答提出
+  const submitAnswer = useCallback((answer: string): boolean => {
+    if (!state.currentChord || state.status !== 'playing' || state.isPaused) return false;
+
+    // 表記ゆれ（異名同音・品質の別表記）は意味で比較する
+    const soundingChord = applyCapo(state.currentChord, capoPosition);
+    const result = gradeChordAnswer(answer, soundingChord.name);
+    const isCorrect = result === 'correct';
+    const elapsedMs = measureElapsed();
+    const responseTime = (state.questionTimeMs + elapsedMs) / 1000;
+
+    dispatch({ type: 'SUBMIT_ANSWER', answer, result, elapsedMs });
+
+    // 回答記録は実音のコード、復習スケジュールは押さえる形で更新
+    recordEvent({
+      source: 'quiz',
+      chordKey: getChordKey(soundingChord),
+      chordName: soundingChord.name,
+      answer: answer.trim(),
+      isCorrect,
+      responseTime,
+      hintsUsed: state.hintsUsed,
+      difficulty: state.difficulty,
+    });
+    recordReview(getChordKey(state.currentChord), getReviewQuality(isCorrect, responseTime, state.hintsUsed));
+
+    return isCorrect;
+  }, [state, capoPosition, measureElapsed, recordReview, recordEvent]);
 
   // ヒント使用
   const useHint = useCallback((): string => {
-    if (!state.currentChord || !settings.hintsEnabled) return '';
+    if (
+      !state.currentChord ||
+      !settings.hintsEnabled ||
+      state.status !== 'playing' ||
+      state.isPaused ||
+      state.hintsUsed >= DEFAULT_QUIZ_ENGINE_CONFIG.maxHints
+    ) {
+      return '';
+    }
 
-    setState(prev => ({
-      ...prev,
-      hintsUsed: prev.hintsUsed + 1,
-    }));
+    dispatch({ type: 'USE_HINT' });
 
-    // ヒント内容を生成
-    const chord = state.currentChord;
+    // ヒント内容を生成（使うごとに答えに近づく。カポ使用時は実音のコード）
+    const chord = applyCapo(state.currentChord, capoPosition);
     const hints = [
-      `ルート音は${chord.root}です`,
+      `このコードは${chord.frets.filter(fret => fret !== null && fret > 0).length}本の弦を押弦します`,
       `コード品質は${chord.quality}です`,
-      `難易度は${chord.difficulty}です`,
-      `最初の文字は${chord.name.charAt(0)}です`,
+      `ルート音は${chord.root}です`,
     ];
 
     return hints[Math.min(state.hintsUsed, hints.length - 1)];
-  }, [state.currentChord, state.hintsUsed, settings.hintsEnabled]);
+  }, [state.currentChord, state.status, state.isPaused, state.hintsUsed, settings.hintsEnabled, capoPosition]);
 
-  // ゲーム一時停止
+  // ゲーム一時停止（止めるまでの経過時間を計上してから止める）
   const pauseGame = useCallback(() => {
-    setIsPaused(true);
-    if (timerRef.current) clearInterval(timerRef.current);
-    if (autoProgressRef.current) clearTimeout(autoProgressRef.current);
-  }, []);
+    if (stateRef.current.isPaused) return;
 
-  // ゲーム再開
+    dispatch({ type: 'TICK', elapsedMs: measureElapsed() });
+    dispatch({ type: 'PAUSE_QUIZ' });
+  }, [measureElapsed]);
+
+  // ゲーム再開（止めていた間は経過時間に含めない。結果表示中に止めていた場合は次のコードへ進む）
   const resumeGame = useCallback(() => {
-    setIsPaused(false);
-    questionStartTime.current = Date.now();
-  }, []);
+    if (!stateRef.current.isPaused) return;
 
-  // 難易度変更
+    dispatch({ type: 'RESUME_QUIZ' });
+    lastMeasuredAt.current = Date.now();
+    if (stateRef.current.status === 'answered') presentNextChord('NEXT_CHORD');
+  }, [presentNextChord]);
+
+  // 難易度変更（出題中なら新しい難易度のコードに差し替える）
   const changeDifficulty = useCallback((newDifficulty: DifficultyLevel) => {
-    setState(prev => ({
-      ...prev,
-      difficulty: newDifficulty,
-    }));
-    
-    // ゲーム中の場合は新しい難易度でコードを取得
-    if (gameActive && !showResult) {
-      try {
-        const randomChord = getRandomChord(newDifficulty);
-        setState(prev => ({
-          ...prev,
-          currentChord: randomChord,
-          hintsUsed: 0,
-        }));
-        questionStartTime.current = Date.now();
-      } catch (error) {
-        console.error('Failed to change difficulty:', error);
-      }
+    try {
+      const chord = state.status === 'playing'
+        ? questionSource.next({ ...state, difficulty: newDifficulty })
+        : null;
+      dispatch({ type: 'CHANGE_DIFFICULTY', difficulty: newDifficulty, chord });
+      if (chord) lastMeasuredAt.current = Date.now();
+    } catch (error) {
+      console.error('Failed to change difficulty:', error);
     }
-  }, [gameActive, showResult]);
+  }, [state, questionSource]);
 
-  // タイマー管理
+  // タイマー管理（経過時間は出題中のみ進む。制限時間のあるモードはタイマー表示の設定にかかわらず動かす）
+  const isTimerRunning = state.status === 'playing' && !state.isPaused &&
+    (settings.timerEnabled || GAME_MODES[gameMode].timeLimit !== undefined);
   useEffect(() => {
-    if (gameActive && !showResult && !isPaused && settings.timerEnabled) {
-      timerRef.current = setInterval(() => {
-        setState(prev => ({
-          ...prev,
-          timeElapsed: prev.timeElapsed + 1,
-        }));
-      }, 1000);
-    } else {
-      if (timerRef.current) {
-        clearInterval(timerRef.current);
-      }
-    }
-
-    return () => {
-      if (timerRef.current) clearInterval(timerRef.current);
-    };
-  }, [gameActive, showResult, isPaused, settings.timerEnabled]);
+    if (!isTimerRunning) return;
 
-  // クリーンアップ
-  useEffect(() => {
-    return () => {
-      if (timerRef.current) clearInterval(timerRef.current);
-      if (autoProgressRef.current) clearTimeout(autoProgressRef.current);
-    };
-  }, []);
+    const timer = setInterval(() => dispatch({ type: 'TICK', elapsedMs: measureElapsed() }), 1000);
+    return () => clearInterval(timer);
+  }, [isTimerRunning, measureElapsed]);
 
   return {
     state,
-    gameActive,
-    showResult,
-    lastAnswerCorrect,
+    gameActive: state.status !== 'idle',
+    showResult: state.status === 'answered',
+    lastAnswerCorrect: state.lastResult === null ? null : state.lastResult === 'correct',
+    lastAnswerResult: state.lastResult,
+    gameOver: state.gameOver,
     statistics,
     startQuiz,
     resetQuiz,
     submitAnswer,
     nextChord,
+    skipChord,
     useHint,
+    maxHints: DEFAULT_QUIZ_ENGINE_CONFIG.maxHints,
     pauseGame,
     resumeGame,
     changeDifficulty,
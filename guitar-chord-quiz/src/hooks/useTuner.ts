@@ -0,0 +1,114 @@
+/**
+ * チューナー カスタムフック
+ *
+ * @description マイクで録音した単音のピッチを検出し、チューナー表示を更新するReactフック
+ * @author Claude Code
+ */
+
+'use client';
+
+import { useState, useRef, useCallback } from 'react';
+import { Tuning } from '../types';
+import { detectPitch, getTunerReading, TunerReading } from '../lib/pitch-detection';
+import { useMicrophoneInput } from './useMicrophoneInput';
+
+// =============================================================================
+// Constants - 定数
+// =============================================================================
+
+/**
+ * 解析するフレームのサンプル数（低音弦の数周期分）
+ */
+const FRAME_SIZE = 4096;
+
+/**
+ * 解析間隔（ミリ秒）
+ */
+const ANALYSIS_INTERVAL_MS = 100;
+
+/**
+ * 表示のばらつきを抑えるために中央値を取る検出回数
+ */
+const SMOOTHING_WINDOW = 3;
+
+/**
+ * 検出結果として採用する明瞭さの下限
+ */
+const MIN_CLARITY = 0.8;
+
+// =============================================================================
+// Hook - フック
+// =============================================================================
+
+/**
+ * チューナーのカスタムフック
+ *
+ * 音が途切れても直前の表示は残し、次に検出したときに更新する
+ *
+ * @param tuning 目標のチューニング
+ * @param referencePitch 基準ピッチ A4 の周波数（Hz）
+ * @param getAudioContext 共有AudioContextの取得関数（省略時は独自に作成）
+ * @returns 録音状態・表示内容と操作関数
+ *
+ * @example
+ * ```typescript
+ * const tuner = useTuner(tuning, 440);
+ * await tuner.start();
+ * ```
+ */
+export const useTuner = (
+  tuning: Tuning,
+  referencePitch: number,
+  getAudioContext?: () => AudioContext | null
+) => {
+  const [reading, setReading] = useState<TunerReading | null>(null);
+
+  // 解析ループから最新の値を参照する
+  const tuningRef = useRef(tuning);
+  const referencePitchRef = useRef(referencePitch);
+  tuningRef.current = tuning;
+  referencePitchRef.current = referencePitch;
+
+  const recentFrequenciesRef = useRef<number[]>([]);
+
+  // フレームごとのピッチ検出
+  const handleFrame = useCallback((frame: Float32Array, sampleRate: number) => {
+    const pitch = detectPitch(frame, sampleRate);
+    if (!pitch || pitch.clarity < MIN_CLARITY) return;
+
+    const recent = [...recentFrequenciesRef.current, pitch.frequency].slice(-SMOOTHING_WINDOW);
+    recentFrequenciesRef.current = recent;
+    const median = [...recent].sort((a, b) => a - b)[Math.floor(recent.length / 2)];
+
+    setReading(getTunerReading(median, tuningRef.current, referencePitchRef.current));
+  }, []);
+
+  const microphone = useMicrophoneInput({
+    frameSize: FRAME_SIZE,
+    intervalMs: ANALYSIS_INTERVAL_MS,
+    onFrame: handleFrame,
+    getAudioContext,
+  });
+  const { start: startMicrophone, stop: stopMicrophone } = microphone;
+
+  // 開始
+  const start = useCallback(() => {
+    recentFrequenciesRef.current = [];
+    setReading(null);
+    return startMicrophone();
+  }, [startMicrophone]);
+
+  // 停止
+  const stop = useCallback(() => {
+    stopMicrophone();
+    recentFrequenciesRef.current = [];
+  }, [stopMicrophone]);
+
+  return {
+    isListening: microphone.isListening,
+    error: microphone.error,
+    reading,
+    start,
+    stop,
+  };
+};
@@ -1,15 +1,30 @@
 'use client';
 
-import { ChordPattern } from '@/types';
+import { ChordPattern, ChordPlaybackSettings, InstrumentType, Tuning } from '@/types';
+import { STANDARD_TUNING } from '@/data/tuning-presets';
+import { INSTRUMENT_VOICES, renderPluckedString } from './karplus-strong';
+import { DEFAULT_PLAYBACK_SETTINGS, getPlaybackSchedule } from './playback-patterns';
+
+/**
+ * コード再生オプション（省略した項目はデフォルトの再生設定を使う）
+ */
+export type ChordPlaybackOptions = Partial<ChordPlaybackSettings>;
+
+/**
+ * 生成済み波形のキャッシュ上限（超えたら破棄して作り直す）
+ */
+const MAX_CACHED_BUFFERS = 128;
 
 /**
  * ギター音合成エンジン
- * Web Audio APIを使用してギター音を合成・再生
+ * Web Audio APIを使用してギター音を合成・再生（Karplus-Strong法による撥弦モデル）
  */
 export class GuitarSynthesizer {
   private audioContext!: AudioContext;
   private masterGain!: GainNode;
   private initialized: boolean = false;
+  private instrument: InstrumentType = 'acoustic';
+  private bufferCache = new Map<string, AudioBuffer>();
   
   constructor() {
     this.initializeAudioContext();
@@ -38,16 +53,26 @@ export class GuitarSynthesizer {
   
   /**
    * 各弦の開放弦周波数（Hz）
-   * 6弦から1弦の順序（標準チューニング）
+   * 6弦から1弦の順序（初期値は標準チューニング、setTuningで変更）
+   */
+  private openStringFrequencies: number[] = [...STANDARD_TUNING.frequencies];
+  
+  /**
+   * チューニング設定
+   */
+  public setTuning(tuning: Tuning): void {
+    this.openStringFrequencies = [...tuning.frequencies];
+  }
+  
+  /**
+   * 楽器の音色設定
    */
-  private readonly openStringFrequencies = [
-    82.41,  // 6弦 E2
-    110.00, // 5弦 A2  
-    146.83, // 4弦 D3
-    196.00, // 3弦 G3
-    246.94, // 2弦 B3
-    329.63  // 1弦 E4
-  ];
+  public setInstrument(instrument: InstrumentType): void {
+    if (instrument === this.instrument) return;
+    
+    this.instrument = instrument;
+    this.bufferCache.clear();
+  }
   
   /**
    * フレット位置から周波数を計算
@@ -63,33 +88,50 @@ export class GuitarSynthesizer {
     return openFreq * Math.pow(2, fret / 12);
   }
   
+  /**
+   * 撥弦音の波形を取得（同じ音色・弦・周波数・長さはキャッシュを再利用）
+   */
+  private getPluckBuffer(frequency: number, duration: number, stringIndex: number): AudioBuffer {
+    const key = `${this.instrument}:${stringIndex}:${frequency.toFixed(2)}:${duration}`;
+    const cached = this.bufferCache.get(key);
+    if (cached) return cached;
+    
+    const { sampleRate } = this.audioContext;
+    const samples = renderPluckedString(frequency, {
+      sampleRate,
+      duration,
+      stringIndex,
+      voice: INSTRUMENT_VOICES[this.instrument],
+    });
+    
+    const buffer = this.audioContext.createBuffer(1, samples.length, sampleRate);
+    buffer.getChannelData(0).set(samples);
+    
+    if (this.bufferCache.size >= MAX_CACHED_BUFFERS) {
+      this.bufferCache.clear();
+    }
+    this.bufferCache.set(key, buffer);
+    return buffer;
+  }
+  
   /**
    * 単音を再生
    */
-  private playNote(frequency: number, duration: number = 2, delay: number = 0): void {
+  private playNote(frequency: number, duration: number = 2, delay: number = 0, stringIndex: number = 0): void {
     if (!this.initialized || !this.audioContext) return;
     
     const now = this.audioContext.currentTime + delay;
+    const voice = INSTRUMENT_VOICES[this.instrument];
     
-    // オシレーター（音源）の作成
-    const oscillator = this.audioContext.createOscillator();
-    oscillator.type = 'sawtooth'; // ギターらしい波形
-    oscillator.frequency.setValueAtTime(frequency, now);
-    
-    // エンベロープ用ゲインノード
-    const gainNode = this.audioContext.createGain();
-    gainNode.gain.setValueAtTime(0, now);
-    gainNode.gain.linearRampToValueAtTime(0.8, now + 0.01);  // Attack
-    gainNode.gain.exponentialRampToValueAtTime(0.3, now + 0.1);  // Decay
-    gainNode.gain.setValueAtTime(0.3, now + 0.1);  // Sustain開始
-    gainNode.gain.exponentialRampToValueAtTime(0.1, now + duration * 0.7);  // Sustain減衰
-    gainNode.gain.exponentialRampToValueAtTime(0.001, now + duration);  // Release
+    // 音源（撥弦モデルで生成した波形）
+    const source = this.audioContext.createBufferSource();
+    source.buffer = this.getPluckBuffer(frequency, duration, stringIndex);
     
-    // ローパスフィルター（音色調整）
-    const filter = this.audioContext.createBiquadFilter();
-    filter.type = 'lowpass';
-    filter.frequency.setValueAtTime(2000 + frequency * 0.5, now);  // 周波数に応じて調整
-    filter.Q.setValueAtTime(1.2, now);
+    // ボディ共鳴（音色調整）
+    const bodyFilter = this.audioContext.createBiquadFilter();
+    bodyFilter.type = 'lowpass';
+    bodyFilter.frequency.setValueAtTime(voice.bodyCutoff, now);
+    bodyFilter.Q.setValueAtTime(0.8, now);
     
     // ハイパスフィルター（低域カット）
     const highPassFilter = this.audioContext.createBiquadFilter();
@@ -98,20 +140,22 @@ export class GuitarSynthesizer {
     highPassFilter.Q.setValueAtTime(0.7, now);
     
     // 接続チェーン
-    oscillator.connect(filter);
-    filter.connect(highPassFilter);
-    highPassFilter.connect(gainNode);
-    gainNode.connect(this.masterGain);
+    source.connect(bodyFilter);
+    bodyFilter.connect(highPassFilter);
+    highPassFilter.connect(this.masterGain);
     
-    // 再生開始・停止
-    oscillator.start(now);
-    oscillator.stop(now + duration);
+    // 再生開始
+    source.start(now);
   }
   
   /**
-   * コード再生（複数音同時）
+   * コード再生（ストローク・アルペジオ・フィンガーピッキング）
    */
-  public async playChord(chordPattern: ChordPattern, duration: number = 2): Promise<void> {
+  public async playChord(
+    chordPattern: ChordPattern,
+    duration: number = 2,
+    options: ChordPlaybackOptions = {}
+  ): Promise<void> {
     if (!this.initialized) {
       console.warn('AudioContextが初期化されていません');
       return;
@@ -127,21 +171,19 @@ export class GuitarSynthesizer {
       }
     }
     
-    // 各弦を順次再生（ストラミング効果）
-    chordPattern.frets.forEach((fret, stringIndex) => {
-      if (fret !== null) {
-        const frequency = this.getFrequency(stringIndex, fret);
-        // 弦ごとに少しずつタイミングをずらす（20ms間隔）
-        const delay = stringIndex * 0.02;
-        this.playNote(frequency, duration, delay);
-      }
+    // 再生方法に応じたタイミングで各弦を発音（ミュート弦は鳴らさない）
+    const schedule = getPlaybackSchedule(chordPattern.frets, { ...DEFAULT_PLAYBACK_SETTINGS, ...options });
+    schedule.forEach(({ stringIndex, fret, time }) => {
+      this.playNote(this.getFrequency(stringIndex, fret), duration, time, stringIndex);
     });
   }
   
   /**
    * 単弦再生
+   * 
+   * @param delay 発音までの時間（秒）。複数の音を順に鳴らす場合に使用
    */
-  public async playString(stringIndex: number, fret: number, duration: number = 1): Promise<void> {
+  public async playString(stringIndex: number, fret: number, duration: number = 1, delay: number = 0): Promise<void> {
     if (!this.initialized) {
       console.warn('AudioContextが初期化されていません');
       return;
@@ -157,7 +199,7 @@ export class GuitarSynthesizer {
     }
     
     const frequency = this.getFrequency(stringIndex, fret);
-    this.playNote(frequency, duration);
+    this.playNote(frequency, duration, delay, stringIndex);
   }
   
   /**
@@ -171,6 +213,13 @@ export class GuitarSynthesizer {
     this.masterGain.gain.setValueAtTime(clampedVolume, now);
   }
   
+  /**
+   * AudioContextを取得（効果音・メトロノームと共有する）
+   */
+  public getAudioContext(): AudioContext | null {
+    return this.initialized ? this.audioContext : null;
+  }
+  
   /**
    * AudioContextの状態確認
    */
@@ -182,6 +231,8 @@ export class GuitarSynthesizer {
    * リソース解放
    */
   public dispose(): void {
+    this.bufferCache.clear();
+    
     if (this.audioContext && this.audioContext.state !== 'closed') {
       this.audioContext.close();
       this.initialized = false;
@@ -326,9 +377,9 @@ export const AudioUtils = {
   },
   
   /**
-   * 音名から周波数を計算（A4=440Hzベース）
+   * 音名から周波数を計算（基準ピッチ A4 はデフォルト440Hz）
    */
-  noteToFrequency(note: string, octave: number): number {
+  noteToFrequency(note: string, octave: number, referencePitch: number = 440): number {
     const noteMap: { [key: string]: number } = {
       'C': -9, 'C#': -8, 'D': -7, 'D#': -6, 'E': -5, 'F': -4,
       'F#': -3, 'G': -2, 'G#': -1, 'A': 0, 'A#': 1, 'B': 2
@@ -339,9 +390,8 @@ export const AudioUtils = {
       throw new Error(`無効な音名: ${note}`);
     }
     
-    const A4 = 440; // A4の周波数
     const semitoneOffset = (octave - 4) * 12 + noteOffset;
-    return A4 * Math.pow(2, semitoneOffset / 12);
+    return referencePitch * Math.pow(2, semitoneOffset / 12);
   },
   
   /**
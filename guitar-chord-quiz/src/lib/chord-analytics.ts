@@ -0,0 +1,262 @@
+/**
+ * Chord Analytics
+ *
+ * @description 問題ごとの回答記録からコード別の習熟度・苦手傾向を集計
+ * @author Claude Code
+ */
+
+import { DifficultyLevel } from '../types';
+
+// =============================================================================
+// Types - 型定義
+// =============================================================================
+
+/**
+ * 回答記録の出題元
+ * - quiz: 指板からコード名を答えるクイズ
+ * - interactive: コード名から押弦位置を作るクイズ
+ * - interval: 音程トレーニング（chordKey・chordName には音程を記録）
+ */
+export type QuestionSource = 'quiz' | 'interactive' | 'interval';
+
+/**
+ * 1問ごとの回答記録
+ */
+export interface QuestionEvent {
+  /** 回答日時（ISO文字列） */
+  timestamp: string;
+  /** 出題元 */
+  source: QuestionSource;
+  /** 出題コードの識別キー */
+  chordKey: string;
+  /** 出題コード名 */
+  chordName: string;
+  /** ユーザーの回答（インタラクティブモードでは押弦から判定したコード名） */
+  answer: string;
+  /** 正解かどうか */
+  isCorrect: boolean;
+  /** 回答時間（秒） */
+  responseTime: number;
+  /** 使用したヒント数 */
+  hintsUsed: number;
+  /** 出題時の難易度 */
+  difficulty: DifficultyLevel;
+}
+
+/**
+ * コード別の習熟度
+ */
+export interface ChordMastery {
+  /** コード識別キー */
+  chordKey: string;
+  /** コード名 */
+  chordName: string;
+  /** 出題回数 */
+  attempts: number;
+  /** 正解数 */
+  correct: number;
+  /** 正答率（%） */
+  accuracy: number;
+  /** 平均回答時間（秒） */
+  averageResponseTime: number;
+  /** 最終回答日時（ISO文字列） */
+  lastAttempt: string;
+}
+
+/**
+ * 取り違えの組み合わせ（例: Am を A と回答）
+ */
+export interface ChordConfusion {
+  /** 出題コード識別キー */
+  chordKey: string;
+  /** 出題コード名 */
+  chordName: string;
+  /** 誤答 */
+  answer: string;
+  /** 発生回数 */
+  count: number;
+}
+
+/**
+ * コード別の回答時間の推移
+ */
+export interface ResponseTimeTrend {
+  /** コード識別キー */
+  chordKey: string;
+  /** コード名 */
+  chordName: string;
+  /** 回答時間の推移（古い順、秒） */
+  responseTimes: number[];
+  /** 前半の平均回答時間（秒） */
+  earlierAverage: number;
+  /** 後半の平均回答時間（秒） */
+  recentAverage: number;
+  /** 変化量（秒、負の値は速くなった） */
+  change: number;
+}
+
+// =============================================================================
+// Constants - 定数
+// =============================================================================
+
+/**
+ * コードを出題する出題元
+ */
+export const CHORD_QUESTION_SOURCES: QuestionSource[] = ['quiz', 'interactive'];
+
+/**
+ * 音程を出題する出題元
+ */
+export const INTERVAL_QUESTION_SOURCES: QuestionSource[] = ['interval'];
+
+// =============================================================================
+// Utility Functions - ユーティリティ関数
+// =============================================================================
+
+/**
+ * 平均値を計算（空配列は0）
+ */
+const average = (values: number[]): number => {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+};
+
+/**
+ * 回答記録をコード識別キーごとに古い順でまとめる
+ */
+const groupByChord = (events: QuestionEvent[]): Map<string, QuestionEvent[]> => {
+  const sorted = [...events].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+  return sorted.reduce((groups, event) => {
+    const group = groups.get(event.chordKey) ?? [];
+    group.push(event);
+    groups.set(event.chordKey, group);
+    return groups;
+  }, new Map<string, QuestionEvent[]>());
+};
+
+// =============================================================================
+// Analytics - 集計
+// =============================================================================
+
+/**
+ * 出題元で回答記録を絞り込む
+ *
+ * @param events 回答記録
+ * @param sources 対象の出題元（省略時はすべて）
+ */
+export const filterEventsBySource = (events: QuestionEvent[], sources?: QuestionSource[]): QuestionEvent[] => {
+  return sources ? events.filter(event => sources.includes(event.source)) : events;
+};
+
+/**
+ * コード別の習熟度を集計
+ *
+ * @param events 回答記録
+ * @returns コード別習熟度（出題回数の多い順）
+ */
+export const getChordMastery = (events: QuestionEvent[]): ChordMastery[] => {
+  return Array.from(groupByChord(events).entries())
+    .map(([chordKey, chordEvents]) => {
+      const correct = chordEvents.filter(event => event.isCorrect).length;
+
+      return {
+        chordKey,
+        chordName: chordEvents[0].chordName,
+        attempts: chordEvents.length,
+        correct,
+        accuracy: (correct / chordEvents.length) * 100,
+        averageResponseTime: average(chordEvents.map(event => event.responseTime)),
+        lastAttempt: chordEvents[chordEvents.length - 1].timestamp,
+      };
+    })
+    .sort((a, b) => b.attempts - a.attempts);
+};
+
+/**
+ * 苦手なコードを取得（正答率の低い順、同率なら回答が遅い順）
+ *
+ * @param events 回答記録
+ * @param limit 最大件数
+ * @param minAttempts 集計対象とする最低出題回数
+ * @returns 苦手なコード一覧
+ */
+export const getWeakestChords = (
+  events: QuestionEvent[],
+  limit: number = 5,
+  minAttempts: number = 1
+): ChordMastery[] => {
+  return getChordMastery(events)
+    .filter(mastery => mastery.attempts >= minAttempts && mastery.correct < mastery.attempts)
+    .sort((a, b) =>
+      a.accuracy - b.accuracy ||
+      b.averageResponseTime - a.averageResponseTime
+    )
+    .slice(0, limit);
+};
+
+/**
+ * よくある取り違えを取得
+ *
+ * @param events 回答記録
+ * @param limit 最大件数
+ * @returns 取り違えの組み合わせ（発生回数の多い順）
+ */
+export const getCommonConfusions = (events: QuestionEvent[], limit: number = 5): ChordConfusion[] => {
+  const confusions = new Map<string, ChordConfusion>();
+
+  events
+    .filter(event => !event.isCorrect && event.answer.trim() !== '')
+    .forEach(event => {
+      const answer = event.answer.trim();
+      const key = `${event.chordKey}\u0000${answer.toLowerCase()}`;
+      const existing = confusions.get(key);
+
+      if (existing) {
+        existing.count += 1;
+      } else {
+        confusions.set(key, {
+          chordKey: event.chordKey,
+          chordName: event.chordName,
+          answer,
+          count: 1,
+        });
+      }
+    });
+
+  return Array.from(confusions.values())
+    .sort((a, b) => b.count - a.count)
+    .slice(0, limit);
+};
+
+/**
+ * コード別の回答時間の推移を取得
+ *
+ * 記録を前半・後半に分けて平均を比較する
+ *
+ * @param events 回答記録
+ * @param minAttempts 集計対象とする最低出題回数
+ * @returns 回答時間の推移（変化量の大きい順）
+ */
+export const getResponseTimeTrends = (
+  events: QuestionEvent[],
+  minAttempts: number = 2
+): ResponseTimeTrend[] => {
+  return Array.from(groupByChord(events).entries())
+    .filter(([, chordEvents]) => chordEvents.length >= minAttempts)
+    .map(([chordKey, chordEvents]) => {
+      const responseTimes = chordEvents.map(event => event.responseTime);
+      const half = Math.floor(responseTimes.length / 2);
+      const earlierAverage = average(responseTimes.slice(0, half));
+      const recentAverage = average(responseTimes.slice(half));
+
+      return {
+        chordKey,
+        chordName: chordEvents[0].chordName,
+        responseTimes,
+        earlierAverage,
+        recentAverage,
+        change: recentAverage - earlierAverage,
+      };
+    })
+    .sort((a, b) => Math.abs(b.change) - Math.abs(a.change));
+};
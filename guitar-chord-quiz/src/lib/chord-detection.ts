@@ -0,0 +1,219 @@
+/**
+ * Chord Detection
+ *
+ * @description マイク入力のPCMからクロマグラム（ピッチクラス分布）を求め、出題コードと照合する
+ * @author Claude Code
+ */
+
+import { ChordPattern, NoteName, Tuning } from '../types';
+import { STANDARD_TUNING } from '../data/tuning-presets';
+import { AudioUtils } from './audio';
+import { getNoteName } from './fretboard';
+import { getChordTones, transposeNote, NOTE_NAMES } from './theory';
+
+// =============================================================================
+// Types - 型定義
+// =============================================================================
+
+/**
+ * コード検出結果
+ */
+export interface ChordDetectionResult {
+  /** 音が小さすぎて判定できないか */
+  isSilent: boolean;
+  /** クロマグラム（C〜Bの12要素、最大値1に正規化） */
+  chroma: number[];
+  /** 検出されたピッチクラス（強い順） */
+  detectedNotes: NoteName[];
+  /** 検出されなかった必須構成音 */
+  missingNotes: NoteName[];
+  /** 構成音のエネルギーの割合（0-1） */
+  score: number;
+  /** 出題コードと一致したか */
+  isMatch: boolean;
+}
+
+/**
+ * クロマグラムの解析帯域の1音
+ */
+interface ChromaBin {
+  pitchClass: NoteName;
+  frequency: number;
+}
+
+// =============================================================================
+// Constants - 定数
+// =============================================================================
+
+/**
+ * 解析するオクターブ（ギターの音域: E2〜E6付近）
+ */
+const ANALYSIS_OCTAVES = [2, 3, 4, 5, 6] as const;
+
+/**
+ * 解析する周波数の範囲（Hz）
+ */
+const ANALYSIS_RANGE = { min: 75, max: 1400 } as const;
+
+/**
+ * チューニングのずれを許容する幅（セント）
+ */
+const DETUNE_TOLERANCE_CENTS = 30;
+
+/**
+ * 無音とみなすRMSの閾値
+ */
+export const SILENCE_RMS_THRESHOLD = 0.01;
+
+/**
+ * 鳴っているとみなすクロマの閾値（最大値に対する比）
+ */
+const PRESENCE_THRESHOLD = 0.25;
+
+/**
+ * 一致とみなす構成音エネルギーの割合
+ */
+const MATCH_SCORE_THRESHOLD = 0.65;
+
+/**
+ * 解析する音（ギターの音域の平均律の各音）
+ * 周波数は AudioUtils.noteToFrequency、ピッチクラスは getNoteName で求める
+ */
+const CHROMA_BINS: ChromaBin[] = ANALYSIS_OCTAVES.flatMap(octave =>
+  NOTE_NAMES.map(note => AudioUtils.noteToFrequency(note, octave))
+)
+  .filter(frequency => frequency >= ANALYSIS_RANGE.min && frequency <= ANALYSIS_RANGE.max)
+  .map(frequency => ({ pitchClass: getNoteName(frequency) as NoteName, frequency }));
+
+// =============================================================================
+// Signal Analysis - 信号解析
+// =============================================================================
+
+/**
+ * フレームのRMS（音量）を計算
+ */
+export const getRms = (frame: Float32Array): number => {
+  if (frame.length === 0) return 0;
+
+  let sum = 0;
+  for (let i = 0; i < frame.length; i++) sum += frame[i] * frame[i];
+  return Math.sqrt(sum / frame.length);
+};
+
+/**
+ * Goertzel法で1つの周波数の強さ（パワー）を求める
+ */
+const goertzelPower = (frame: Float32Array, sampleRate: number, frequency: number): number => {
+  const coefficient = 2 * Math.cos((2 * Math.PI * frequency) / sampleRate);
+  let previous = 0;
+  let beforePrevious = 0;
+
+  for (let i = 0; i < frame.length; i++) {
+    const current = frame[i] + coefficient * previous - beforePrevious;
+    beforePrevious = previous;
+    previous = current;
+  }
+
+  return previous * previous + beforePrevious * beforePrevious - coefficient * previous * beforePrevious;
+};
+
+/**
+ * 1フレームのクロマグラムを計算
+ *
+ * ハン窓をかけ、各音の周波数（±許容幅の大きい方）のパワーをピッチクラスごとに合計する
+ *
+ * @param frame PCMフレーム（モノラル、-1〜1）
+ * @param sampleRate サンプリングレート（Hz）
+ * @returns C〜Bの12要素（未正規化）
+ */
+export const computeChromagram = (frame: Float32Array, sampleRate: number): number[] => {
+  const windowed = new Float32Array(frame.length);
+  for (let i = 0; i < frame.length; i++) {
+    windowed[i] = frame[i] * (0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (frame.length - 1)));
+  }
+
+  const detune = Math.pow(2, DETUNE_TOLERANCE_CENTS / 1200);
+  const chroma = new Array<number>(NOTE_NAMES.length).fill(0);
+
+  CHROMA_BINS.forEach(({ pitchClass, frequency }) => {
+    const power = Math.max(
+      goertzelPower(windowed, sampleRate, frequency),
+      goertzelPower(windowed, sampleRate, frequency / detune),
+      goertzelPower(windowed, sampleRate, frequency * detune)
+    );
+    // パワーの平方根（振幅）で合計し、倍音の強い低音に偏りすぎないようにする
+    chroma[NOTE_NAMES.indexOf(pitchClass)] += Math.sqrt(power);
+  });
+
+  return chroma;
+};
+
+// =============================================================================
+// Chord Matching - コード照合
+// =============================================================================
+
+/**
+ * PCMフレームから出題コードが鳴っているかを判定
+ *
+ * 無音でないフレームのクロマグラムを平均し、ルートと必須構成音がすべて検出され、
+ * 構成音（任意構成音を含む）のエネルギーが十分な割合を占めれば一致とする。
+ * gradeVoicing と同じく完全5度は省略してよい
+ *
+ * @param frames PCMフレーム（モノラル、-1〜1）
+ * @param sampleRate サンプリングレート（Hz）
+ * @param chord 出題コード
+ * @param tuning 出題コードのチューニング（省略時は標準チューニング）
+ * @returns 検出結果
+ */
+export const detectChord = (
+  frames: Float32Array[],
+  sampleRate: number,
+  chord: Pick<ChordPattern, 'name' | 'frets'>,
+  tuning: Tuning = STANDARD_TUNING
+): ChordDetectionResult => {
+  const audibleFrames = frames.filter(frame => getRms(frame) >= SILENCE_RMS_THRESHOLD);
+  const silentResult: ChordDetectionResult = {
+    isSilent: true,
+    chroma: new Array<number>(NOTE_NAMES.length).fill(0),
+    detectedNotes: [],
+    missingNotes: [],
+    score: 0,
+    isMatch: false,
+  };
+  if (audibleFrames.length === 0) return silentResult;
+
+  const total = new Array<number>(NOTE_NAMES.length).fill(0);
+  audibleFrames.forEach(frame => {
+    computeChromagram(frame, sampleRate).forEach((value, index) => {
+      total[index] += value;
+    });
+  });
+
+  const peak = Math.max(...total);
+  if (peak <= 0) return silentResult;
+
+  const chroma = total.map(value => value / peak);
+  const detectedNotes = NOTE_NAMES
+    .filter((_, index) => chroma[index] >= PRESENCE_THRESHOLD)
+    .sort((a, b) => chroma[NOTE_NAMES.indexOf(b)] - chroma[NOTE_NAMES.indexOf(a)]);
+
+  const tones = getChordTones(chord, tuning);
+  if (!tones) {
+    return { ...silentResult, isSilent: false, chroma, detectedNotes };
+  }
+
+  const fifth = transposeNote(tones.root, 7);
+  const chordTones = [...tones.required, ...tones.optional];
+  const missingNotes = tones.required.filter(note => note !== fifth && !detectedNotes.includes(note));
+  const chordEnergy = chordTones.reduce((sum, note) => sum + chroma[NOTE_NAMES.indexOf(note)], 0);
+  const score = chordEnergy / chroma.reduce((sum, value) => sum + value, 0);
+
+  return {
+    isSilent: false,
+    chroma,
+    detectedNotes,
+    missingNotes,
+    score,
+    isMatch: missingNotes.length === 0 && score >= MATCH_SCORE_THRESHOLD,
+  };
+};
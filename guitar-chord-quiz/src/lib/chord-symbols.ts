@@ -0,0 +1,213 @@
+/**
+ * Chord Symbol Parser
+ *
+ * @description コードネームの表記ゆれ（異名同音・品質の別表記）を解釈し、意味で比較する
+ * @author Claude Code
+ */
+
+import { ChordQuality, NoteName } from '../types';
+import { toSharpNoteName } from './theory';
+
+// =============================================================================
+// Types - 型定義
+// =============================================================================
+
+/**
+ * 解釈したコードネーム
+ */
+export interface ParsedChordSymbol {
+  /** ルート音（シャープ表記） */
+  root: NoteName;
+  /** コード品質 */
+  quality: ChordQuality;
+  /** テンション・付加音（正規化済み・昇順。例: ["add9"], ["7"], ["b5"]） */
+  extensions: string[];
+  /** ベース音（スラッシュコードでない場合はnull） */
+  bass: NoteName | null;
+}
+
+/**
+ * コード名の回答の判定結果
+ * - correct: 正解（表記が違っても同じコード）
+ * - partial: ルート音のみ正解（品質・付加音・ベース音が違う）
+ * - incorrect: 不正解
+ */
+export type ChordAnswerResult = 'correct' | 'partial' | 'incorrect';
+
+/**
+ * コード品質の表記と、その表記が表す品質・付加音
+ */
+interface QualityNotation {
+  pattern: RegExp;
+  quality: ChordQuality;
+  extensions?: string[];
+}
+
+// =============================================================================
+// Constants - 定数
+// =============================================================================
+
+/**
+ * 7thを含むテンションコードの表記（"C9" はドミナント7th、"Cmaj9" はメジャー7th、"Cm9" はマイナー7thに9thを加えたもの）
+ *
+ * "Cadd9" のような7thを含まない付加音とは区別する
+ */
+const SEVENTH_TENSION_NOTATIONS: readonly QualityNotation[] = ['9', '11', '13'].flatMap(tension => [
+  { pattern: new RegExp(`^(maj|Maj|MAJ|ma|M|Δ)${tension}`), quality: 'major7' as const, extensions: [tension] },
+  { pattern: new RegExp(`^(min|mi|m|-)${tension}`), quality: 'minor7' as const, extensions: [tension] },
+  { pattern: new RegExp(`^${tension}`), quality: 'dominant7' as const, extensions: [tension] },
+]);
+
+/**
+ * コード品質の表記（先頭から順に照合するため、長い表記を先に並べる）
+ *
+ * 大文字の "M" はメジャー、小文字の "m" はマイナーとして区別する
+ */
+const QUALITY_NOTATIONS: readonly QualityNotation[] = [
+  ...SEVENTH_TENSION_NOTATIONS,
+  { pattern: /^(maj7|Maj7|MAJ7|ma7|M7|Δ7|Δ)/, quality: 'major7' },
+  { pattern: /^(m7b5|m7♭5|-7b5|ø7?)/, quality: 'minor7', extensions: ['b5'] },
+  { pattern: /^(min7|mi7|m7|-7)/, quality: 'minor7' },
+  { pattern: /^(dim|°|o)/, quality: 'diminished' },
+  { pattern: /^(aug|\+)/, quality: 'augmented' },
+  { pattern: /^(major|maj|Maj|MAJ|M)/, quality: 'major' },
+  { pattern: /^(minor|min|mi|m|-)/, quality: 'minor' },
+  { pattern: /^(dom7|7)/, quality: 'dominant7' },
+];
+
+/**
+ * テンション・付加音の表記（"(9)" のような括弧付きも可）
+ */
+const EXTENSION_PATTERN = /^\(?(add[#b]?\d+|maj7|M7|Δ7?|[#b]\d+|\d+)\)?/;
+
+/**
+ * コード名（ルート音・サフィックス・ベース音）のパターン
+ */
+const CHORD_SYMBOL_PATTERN = /^([A-Ga-g][#b]?)([^/]*)(?:\/([A-Ga-g][#b]?))?$/;
+
+// =============================================================================
+// Parse Functions - 解釈
+// =============================================================================
+
+/**
+ * 表記ゆれのある記号を統一（♯/♭ → #/b、空白の除去）
+ */
+const normalizeNotation = (symbol: string): string =>
+  symbol.replace(/\s+/g, '').replace(/♯/g, '#').replace(/♭/g, 'b');
+
+/**
+ * テンション・付加音の表記を統一
+ */
+const normalizeExtension = (extension: string): string =>
+  /^(M7|Δ7?)$/.test(extension) ? 'maj7' : extension;
+
+/**
+ * コードネームを解釈
+ *
+ * 品質は m / min / -（マイナー）、maj7 / M7 / Δ（メジャー7th）、dim / °（ディミニッシュ）、
+ * aug / +（オーギュメント）、sus / sus2 / sus4、テンションは add9・9・b5 など、
+ * ベース音は "/E" のようなスラッシュ表記に対応する
+ *
+ * @param symbol コードネーム（例: "Bbmaj7", "A#M7", "C-7", "G7sus4", "Cadd9/E"）
+ * @returns 解釈結果（コードネームとして解釈できない場合はnull）
+ *
+ * @example
+ * ```typescript
+ * parseChordSymbol('BbΔ7'); // { root: 'A#', quality: 'major7', extensions: [], bass: null }
+ * parseChordSymbol('am');   // { root: 'A', quality: 'minor', extensions: [], bass: null }
+ * parseChordSymbol('AM');   // { root: 'A', quality: 'major', extensions: [], bass: null }
+ * ```
+ */
+export const parseChordSymbol = (symbol: string): ParsedChordSymbol | null => {
+  const match = normalizeNotation(symbol).match(CHORD_SYMBOL_PATTERN);
+  if (!match) return null;
+
+  const [, rootName, suffix, bassName] = match;
+  const root = toSharpNoteName(rootName);
+  const bass = bassName ? toSharpNoteName(bassName) : null;
+  if (!root || (bassName && !bass)) return null;
+
+  // 品質
+  const notation = QUALITY_NOTATIONS.find(item => item.pattern.test(suffix));
+  let quality: ChordQuality = notation?.quality ?? 'major';
+  const extensions = [...(notation?.extensions ?? [])];
+  let rest = notation ? suffix.replace(notation.pattern, '') : suffix;
+
+  // sus・テンション・付加音
+  while (rest.length > 0) {
+    const sus = rest.match(/^sus([24])?/);
+    if (sus) {
+      if (quality === 'dominant7') {
+        extensions.push('7');
+      } else if (quality !== 'major') {
+        return null;
+      }
+      quality = sus[1] === '2' ? 'sus2' : 'sus4';
+      rest = rest.slice(sus[0].length);
+      continue;
+    }
+
+    const extension = rest.match(EXTENSION_PATTERN);
+    if (!extension) return null;
+    extensions.push(normalizeExtension(extension[1]));
+    rest = rest.slice(extension[0].length);
+  }
+
+  return {
+    root,
+    quality,
+    extensions: Array.from(new Set(extensions)).sort(),
+    bass: bass && bass !== root ? bass : null,
+  };
+};
+
+// =============================================================================
+// Compare Functions - 比較
+// =============================================================================
+
+/**
+ * 2つのコードネームが同じコードを表すか判定（解釈できない場合は文字列の一致で判定）
+ *
+ * @example
+ * ```typescript
+ * isEquivalentChordSymbol('A#', 'Bb');       // true
+ * isEquivalentChordSymbol('CM7', 'Cmaj7');   // true
+ * isEquivalentChordSymbol('am', 'AM');       // false
+ * ```
+ */
+export const isEquivalentChordSymbol = (a: string, b: string): boolean => {
+  const parsedA = parseChordSymbol(a);
+  const parsedB = parseChordSymbol(b);
+  if (!parsedA || !parsedB) return a.trim() === b.trim();
+
+  return (
+    parsedA.root === parsedB.root &&
+    parsedA.quality === parsedB.quality &&
+    parsedA.bass === parsedB.bass &&
+    parsedA.extensions.join(',') === parsedB.extensions.join(',')
+  );
+};
+
+/**
+ * コード名の回答を判定（ルート音だけ合っている場合は部分正解）
+ *
+ * @param answer ユーザーの回答
+ * @param expected 正解のコード名
+ * @returns 判定結果
+ *
+ * @example
+ * ```typescript
+ * gradeChordAnswer('Bbmaj7', 'A#maj7'); // 'correct'
+ * gradeChordAnswer('Bb7', 'A#maj7');    // 'partial'
+ * gradeChordAnswer('Bmaj7', 'A#maj7');  // 'incorrect'
+ * ```
+ */
+export const gradeChordAnswer = (answer: string, expected: string): ChordAnswerResult => {
+  if (isEquivalentChordSymbol(answer, expected)) return 'correct';
+
+  const parsedAnswer = parseChordSymbol(answer);
+  const parsedExpected = parseChordSymbol(expected);
+  return parsedAnswer && parsedExpected && parsedAnswer.root === parsedExpected.root
+    ? 'partial'
+    : 'incorrect';
+};
@@ -0,0 +1,95 @@
+/**
+ * Custom Chords & Decks
+ *
+ * @description ユーザー定義コードの検証とコードデッキの解決
+ * @author Claude Code
+ */
+
+import { ChordDeck, ChordPattern, CustomChord } from '../types';
+import { getChordBySlug, getChordSlug } from '../data/chord-patterns';
+import { isValidChordPattern } from './fretboard';
+import { toSharpNoteName } from './theory';
+
+// =============================================================================
+// Constants - 定数
+// =============================================================================
+
+/**
+ * ユーザー定義コード・デッキのID接頭辞
+ */
+export const CUSTOM_CHORD_ID_PREFIX = 'custom-';
+export const DECK_ID_PREFIX = 'deck-';
+
+// =============================================================================
+// Identifiers - 識別子
+// =============================================================================
+
+/**
+ * 一意なIDを生成
+ *
+ * @param prefix ID接頭辞
+ * @param now 生成時刻（テスト用）
+ */
+export const createId = (prefix: string, now: number = Date.now()): string => {
+  return `${prefix}${now.toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+};
+
+/**
+ * デッキに登録するコードIDを取得
+ *
+ * ユーザー定義コードはid、組み込みコードはURLスラッグを使う
+ */
+export const getDeckChordId = (chord: ChordPattern | CustomChord): string => {
+  return 'id' in chord ? chord.id : getChordSlug(chord);
+};
+
+// =============================================================================
+// Validation - 検証
+// =============================================================================
+
+/**
+ * ユーザー定義コードを検証
+ *
+ * @param chord 保存するコード
+ * @returns エラーメッセージの一覧（空なら保存可能）
+ */
+export const validateCustomChord = (chord: ChordPattern): string[] => {
+  const errors: string[] = [];
+
+  if (chord.name.trim() === '') {
+    errors.push('コード名を入力してください');
+  }
+  if (!toSharpNoteName(chord.root)) {
+    errors.push('ルート音が正しくありません');
+  }
+  if (chord.frets.every(fret => fret === null)) {
+    errors.push('少なくとも1本の弦を鳴らしてください');
+  }
+  if (!isValidChordPattern(chord)) {
+    errors.push('押弦位置と指番号の組み合わせが正しくありません');
+  }
+
+  return errors;
+};
+
+// =============================================================================
+// Decks - デッキ
+// =============================================================================
+
+/**
+ * デッキの収録コードを解決
+ *
+ * 削除済みのユーザー定義コードなど、見つからないIDは無視する
+ *
+ * @param deck コードデッキ
+ * @param customChords ユーザー定義コード
+ * @returns 出題対象のコード
+ */
+export const resolveDeckChords = (deck: ChordDeck, customChords: CustomChord[]): ChordPattern[] => {
+  const customById = new Map(customChords.map(chord => [chord.id, chord]));
+
+  return deck.chordIds.flatMap(chordId => {
+    const chord = customById.get(chordId) ?? getChordBySlug(chordId);
+    return chord ? [chord] : [];
+  });
+};
@@ -0,0 +1,241 @@
+/**
+ * Answer Choices & Distractors
+ *
+ * @description 選択式回答の選択肢を作成し、出題コードと紛らわしいコードをひっかけ選択肢として選ぶ
+ * @author Claude Code
+ */
+
+import { ChordPattern, DistractorLevel, NoteName } from '../types';
+import { filterChords } from '../data/chord-patterns';
+import { getTuning } from '../data/tuning-presets';
+import { ChordConfusion } from './chord-analytics';
+import { isEquivalentChordSymbol, parseChordSymbol } from './chord-symbols';
+import { getPitchClasses } from './theory';
+import { applyCapo, transposeChordPattern } from './transposition';
+import { shuffleArray } from './utils';
+
+// =============================================================================
+// Types - 型定義
+// =============================================================================
+
+/**
+ * ひっかけ選択肢にする理由
+ * - confusion: 過去に出題コードと取り違えた
+ * - same-root: ルート音が同じで品質が違う
+ * - same-shape: 同じ形を平行移動したコード
+ * - shared-notes: 構成音の大半が共通
+ */
+export type DistractorReason = 'confusion' | 'same-root' | 'same-shape' | 'shared-notes';
+
+/**
+ * ひっかけ選択肢の候補
+ */
+export interface DistractorCandidate {
+  /** コード名 */
+  name: string;
+  /** 紛らわしさ（0 = 紛らわしくない） */
+  score: number;
+  /** 紛らわしい理由 */
+  reasons: DistractorReason[];
+}
+
+/**
+ * 選択肢作成のオプション
+ */
+export interface AnswerChoiceOptions {
+  /** 選択肢の数（正解を含む） */
+  optionCount: number;
+  /** ひっかけ選択肢の難しさ */
+  distractorLevel: DistractorLevel;
+  /** 選択肢の候補にするコード（省略時は同じチューニングの全コード） */
+  pool?: ChordPattern[];
+  /** 過去の取り違え */
+  confusions?: ChordConfusion[];
+  /** カポタストの位置（選択肢を実音のコード名にする） */
+  capoPosition?: number;
+}
+
+// =============================================================================
+// Constants - 定数
+// =============================================================================
+
+/**
+ * 選択肢の数の範囲
+ */
+export const CHOICE_COUNT_RANGE = { min: 4, max: 6 } as const;
+
+/**
+ * ひっかけ選択肢の難しさの表示名
+ */
+export const DISTRACTOR_LEVEL_LABELS: Record<DistractorLevel, string> = {
+  easy: 'やさしい',
+  normal: 'ふつう',
+  hard: '紛らわしい',
+};
+
+/**
+ * ひっかけ選択肢のうち紛らわしい候補から選ぶ割合
+ */
+const CONFUSABLE_RATIO: Record<DistractorLevel, number> = {
+  easy: 0.25,
+  normal: 0.5,
+  hard: 1,
+};
+
+/**
+ * 紛らわしさの重み
+ */
+const DISTRACTOR_WEIGHTS = {
+  CONFUSION: 4,
+  SAME_ROOT: 3,
+  SAME_SHAPE: 2,
+  SHARED_NOTES: 2,
+} as const;
+
+/**
+ * 構成音が共通とみなす割合（共通音 ÷ 両方の構成音）
+ */
+const SHARED_NOTES_THRESHOLD = 0.5;
+
+/**
+ * 同じ形を平行移動する半音数
+ */
+const SHAPE_SHIFTS = [-2, -1, 1, 2];
+
+// =============================================================================
+// Utility Functions - ユーティリティ関数
+// =============================================================================
+
+/**
+ * 2つのコードの構成音が共通する割合
+ */
+const getSharedNoteRatio = (a: ChordPattern, b: ChordPattern): number => {
+  const notesA = new Set(getPitchClasses(a.frets, getTuning(a.tuning)));
+  const notesB = new Set(getPitchClasses(b.frets, getTuning(b.tuning)));
+  const shared = [...notesA].filter(note => notesB.has(note)).length;
+  return shared / new Set([...notesA, ...notesB]).size;
+};
+
+/**
+ * 2つの押弦パターンが同じ形を平行移動したものか判定
+ */
+const isShiftedShape = (a: ChordPattern, b: ChordPattern): boolean => {
+  if (a.frets.some((fret, index) => (fret === null) !== (b.frets[index] === null))) return false;
+
+  const offsets = a.frets.flatMap((fret, index) => {
+    const other = b.frets[index];
+    return fret === null || other === null ? [] : [other - fret];
+  });
+  return offsets.length > 0 && offsets[0] !== 0 && offsets.every(offset => offset === offsets[0]);
+};
+
+// =============================================================================
+// Main Functions - メイン関数
+// =============================================================================
+
+/**
+ * ひっかけ選択肢の候補を紛らわしい順に取得
+ *
+ * 候補は選択肢の候補のコード・同じルート音のコード・出題コードを平行移動したコード・
+ * 過去に取り違えたコード名から集め、出題コードと同じコードは除く
+ *
+ * @param chord 出題コード（カポ基準の形）
+ * @param options 選択肢作成のオプション
+ * @returns 候補（紛らわしい順。同点はランダム）
+ */
+export const getDistractorCandidates = (
+  chord: ChordPattern,
+  options: Omit<AnswerChoiceOptions, 'optionCount' | 'distractorLevel'> = {}
+): DistractorCandidate[] => {
+  const { confusions = [], capoPosition = 0 } = options;
+  const tuning = chord.tuning ?? 'standard';
+  const target = applyCapo(chord, capoPosition);
+  const targetSymbol = parseChordSymbol(target.name);
+
+  const candidates: DistractorCandidate[] = [];
+  const addCandidate = (name: string, score: number, reason?: DistractorReason) => {
+    if (isEquivalentChordSymbol(name, target.name)) return;
+
+    const existing = candidates.find(candidate => isEquivalentChordSymbol(candidate.name, name));
+    const candidate = existing ?? { name, score: 0, reasons: [] };
+    if (!existing) candidates.push(candidate);
+    if (reason && !candidate.reasons.includes(reason)) {
+      candidate.score += score;
+      candidate.reasons.push(reason);
+    }
+  };
+
+  // 選択肢の候補のコード・同じルート音のコード
+  const patterns = [
+    ...(options.pool ?? filterChords({ tuning })),
+    ...filterChords({ root: chord.root as NoteName, tuning }),
+  ].map(pattern => applyCapo(pattern, capoPosition));
+
+  patterns.forEach(pattern => {
+    const symbol = parseChordSymbol(pattern.name);
+    const sharedRatio = getSharedNoteRatio(target, pattern);
+
+    addCandidate(pattern.name, 0);
+    if (symbol && targetSymbol && symbol.root === targetSymbol.root) {
+      addCandidate(pattern.name, DISTRACTOR_WEIGHTS.SAME_ROOT, 'same-root');
+    }
+    if (isShiftedShape(target, pattern)) {
+      addCandidate(pattern.name, DISTRACTOR_WEIGHTS.SAME_SHAPE, 'same-shape');
+    }
+    if (sharedRatio >= SHARED_NOTES_THRESHOLD) {
+      addCandidate(pattern.name, DISTRACTOR_WEIGHTS.SHARED_NOTES * sharedRatio, 'shared-notes');
+    }
+  });
+
+  // 出題コードの形を平行移動したコード
+  SHAPE_SHIFTS.forEach(semitones => {
+    const shifted = transposeChordPattern(target, semitones);
+    if (shifted) addCandidate(shifted.name, DISTRACTOR_WEIGHTS.SAME_SHAPE, 'same-shape');
+  });
+
+  // 過去の取り違え（解釈できるコード名のみ）
+  confusions
+    .filter(confusion => isEquivalentChordSymbol(confusion.chordName, target.name))
+    .filter(confusion => parseChordSymbol(confusion.answer))
+    .forEach(confusion => {
+      addCandidate(confusion.answer, DISTRACTOR_WEIGHTS.CONFUSION + confusion.count, 'confusion');
+    });
+
+  return shuffleArray(candidates).sort((a, b) => b.score - a.score);
+};
+
+/**
+ * 選択式回答の選択肢を作成
+ *
+ * ひっかけ選択肢の一部（難しさに応じた割合）を紛らわしい候補の上位から選び、
+ * 残りを紛らわしくない候補からランダムに選ぶ
+ *
+ * @param chord 出題コード（カポ基準の形）
+ * @param options 選択肢作成のオプション
+ * @returns 正解（実音のコード名）を含む選択肢（ランダムな順。候補が足りない場合は少なくなる）
+ *
+ * @example
+ * ```typescript
+ * createAnswerChoices(getChordByName('Am')!, { optionCount: 4, distractorLevel: 'hard' });
+ * // 例: ['A', 'Am', 'Am7', 'C']
+ * ```
+ */
+export const createAnswerChoices = (chord: ChordPattern, options: AnswerChoiceOptions): string[] => {
+  const target = applyCapo(chord, options.capoPosition ?? 0);
+  const distractorCount = Math.max(0, options.optionCount - 1);
+  const candidates = getDistractorCandidates(chord, options);
+
+  const confusable = candidates.filter(candidate => candidate.score > 0);
+  const confusableCount = Math.ceil(distractorCount * CONFUSABLE_RATIO[options.distractorLevel]);
+  const picked = confusable.slice(0, confusableCount);
+
+  // 残りは紛らわしくない候補を優先して埋める
+  const rest = candidates.filter(candidate => !picked.includes(candidate));
+  const fillers = [
+    ...rest.filter(candidate => candidate.score === 0),
+    ...rest.filter(candidate => candidate.score > 0),
+  ];
+  const distractors = [...picked, ...fillers].slice(0, distractorCount);
+
+  return shuffleArray([target.name, ...distractors.map(candidate => candidate.name)]);
+};
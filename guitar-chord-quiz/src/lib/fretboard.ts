@@ -5,7 +5,8 @@
  * @author Claude Code
  */
 
-import { ChordPattern } from '../types';
+import { ChordBarre, ChordPattern, NoteName, StringState, Tuning } from '../types';
+import { STANDARD_TUNING } from '../data/tuning-presets';
 
 // =============================================================================
 // Constants - 定数定義
@@ -15,7 +16,7 @@ import { ChordPattern } from '../types';
  * 標準的なギターの開放弦周波数 (Hz) - 6弦から1弦
  * E2(82.41) - A2(110.00) - D3(146.83) - G3(196.00) - B3(246.94) - E4(329.63)
  */
-const OPEN_STRING_FREQUENCIES = [82.41, 110.00, 146.83, 196.00, 246.94, 329.63] as const;
+export const OPEN_STRING_FREQUENCIES = [82.41, 110.00, 146.83, 196.00, 246.94, 329.63] as const;
 
 /**
  * 標準的なギターの開放弦音名 - 6弦から1弦
@@ -103,17 +104,19 @@ export const calculateActualFretPosition = (
  * @param stringNumber 弦番号（1-6、1が最高音）
  * @param fret フレット番号（0 = 開放弦）
  * @param capoPosition カポタストの位置（デフォルト: 0）
+ * @param openStringFrequencies 開放弦周波数（6弦から1弦、デフォルト: 標準チューニング）
  * @returns 周波数（Hz）
  */
 export const getStringFrequency = (
   stringNumber: number, 
   fret: number, 
-  capoPosition: number = 0
+  capoPosition: number = 0,
+  openStringFrequencies: readonly number[] = OPEN_STRING_FREQUENCIES
 ): number => {
   // 弦番号を配列インデックスに変換（1-6 → 5-0）
   const stringIndex = 6 - stringNumber;
   
-  if (stringIndex < 0 || stringIndex >= OPEN_STRING_FREQUENCIES.length) {
+  if (stringIndex < 0 || stringIndex >= openStringFrequencies.length) {
     throw new Error(`Invalid string number: ${stringNumber}. Must be 1-6.`);
   }
   
@@ -125,7 +128,7 @@ export const getStringFrequency = (
   const actualFret = fret + capoPosition;
   
   // 開放弦周波数 × セミトーン比^フレット数
-  const openFrequency = OPEN_STRING_FREQUENCIES[stringIndex];
+  const openFrequency = openStringFrequencies[stringIndex];
   return openFrequency * Math.pow(SEMITONE_RATIO, actualFret);
 };
 
@@ -133,15 +136,14 @@ export const getStringFrequency = (
  * 周波数から音名を取得
  * 
  * @param frequency 周波数（Hz）
+ * @param referencePitch 基準ピッチ A4 の周波数（Hz、デフォルト: 440）
  * @returns 音名（例: "C", "C#", "D"）
  */
-export const getNoteName = (frequency: number): string => {
-  // A4 = 440Hz を基準とした音名計算
-  const A4_FREQUENCY = 440;
+export const getNoteName = (frequency: number, referencePitch: number = 440): string => {
   const noteNames = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
   
   // A4からのセミトーン差を計算
-  const semitonesFromA4 = Math.round(12 * Math.log2(frequency / A4_FREQUENCY));
+  const semitonesFromA4 = Math.round(12 * Math.log2(frequency / referencePitch));
   
   // A = 9番目の音（0ベース）なので、9を加算してから12で剰余
   const noteIndex = ((semitonesFromA4 + 9) % 12 + 12) % 12;
@@ -149,6 +151,109 @@ export const getNoteName = (frequency: number): string => {
   return noteNames[noteIndex];
 };
 
+/**
+ * チューニングを考慮した押弦位置の音名を取得
+ * 
+ * @param stringNumber 弦番号（1-6、1が最高音）
+ * @param fret フレット番号（0 = 開放弦）
+ * @param tuning チューニング（デフォルト: 標準チューニング）
+ * @returns 音名（例: "C", "C#", "D"）
+ */
+export const getNoteAtPosition = (
+  stringNumber: number,
+  fret: number,
+  tuning: Tuning = STANDARD_TUNING
+): NoteName => {
+  return getNoteName(getStringFrequency(stringNumber, fret, 0, tuning.frequencies)) as NoteName;
+};
+
+/**
+ * 押弦パターンでミュートを表すフレット表記（"弦番号-x"）
+ */
+export const MUTED_FRET_KEY = 'x';
+
+/**
+ * フレット位置から弦の状態を取得
+ * 
+ * @param fret フレット位置（null = ミュート、0 = 開放弦）
+ * @returns 弦の状態
+ */
+export const getStringState = (fret: number | null): StringState => {
+  if (fret === null) return 'muted';
+  return fret === 0 ? 'open' : 'fretted';
+};
+
+/**
+ * 押弦パターン（"弦番号-フレット"の集合）をフレット配列に変換
+ * 
+ * フレット表記は "x" = ミュート、"0" = 開放弦、1以上 = 押弦。
+ * キーのない弦はミュートとして扱う。
+ * 
+ * @param pattern 押弦キーの集合（弦番号は1始まりでフレット配列のインデックス順、6弦→1弦）
+ * @returns 各弦のフレット位置（null = 発音しない）
+ */
+export const patternToFrets = (pattern: Iterable<string>): (number | null)[] => {
+  const frets: (number | null)[] = Array(6).fill(null);
+  
+  Array.from(pattern).forEach(key => {
+    const [stringPart, fretPart] = key.split('-');
+    const stringNumber = Number(stringPart);
+    if (stringNumber < 1 || stringNumber > 6) return;
+
+    if (fretPart === MUTED_FRET_KEY) {
+      frets[stringNumber - 1] = null;
+    } else if (fretPart !== '' && !Number.isNaN(Number(fretPart))) {
+      frets[stringNumber - 1] = Number(fretPart);
+    }
+  });
+  
+  return frets;
+};
+
+/**
+ * フレット配列を押弦パターンに変換（patternToFretsの逆変換）
+ * 
+ * すべての弦に状態を持たせる（ミュートは "弦番号-x"）
+ * 
+ * @param frets 各弦のフレット位置（6弦から1弦、null = ミュート）
+ * @returns 押弦キーの集合
+ */
+export const fretsToPattern = (frets: (number | null)[]): Set<string> => {
+  return new Set(
+    frets.map((fret, index) => `${index + 1}-${fret === null ? MUTED_FRET_KEY : fret}`)
+  );
+};
+
+/**
+ * 全弦開放の押弦パターンを作成（回答入力の初期状態）
+ */
+export const createOpenPattern = (): Set<string> => fretsToPattern(Array(6).fill(0));
+
+/**
+ * 押弦キー（"弦番号-フレット"）を作成
+ * 
+ * @param stringIndex 弦のインデックス（0 = 6弦）
+ * @param fret フレット位置（0 = 開放弦）
+ * @returns 押弦キー（弦番号は1始まりでフレット配列のインデックス順）
+ */
+export const getFretKey = (stringIndex: number, fret: number): string => `${stringIndex + 1}-${fret}`;
+
+/**
+ * 押弦キーを弦のインデックスとフレット位置に変換（getFretKeyの逆変換）
+ * 
+ * @param key 押弦キー
+ * @returns 弦のインデックスとフレット位置（ミュート・不正なキーは null）
+ */
+export const parseFretKey = (key: string): { stringIndex: number; fret: number } | null => {
+  const [stringPart, fretPart] = key.split('-');
+  const stringNumber = Number(stringPart);
+  const fret = Number(fretPart);
+  if (!Number.isInteger(stringNumber) || stringNumber < 1 || stringNumber > 6) return null;
+  if (fretPart === '' || !Number.isInteger(fret) || fret < 0) return null;
+
+  return { stringIndex: stringNumber - 1, fret };
+};
+
 // =============================================================================
 // SVG Coordinate Calculations - SVG座標計算
 // =============================================================================
@@ -277,68 +382,6 @@ export const getDeviceType = (screenWidth: number): 'mobile' | 'tablet' | 'deskt
   return 'desktop';
 };
 
-// =============================================================================
-// Capo Support - カポタスト対応
-// =============================================================================
-
-/**
- * カポタストを考慮したコードパターンの変換
- * 
- * @param chordPattern 元のコードパターン
- * @param capoPosition カポタストの位置（0 = カポなし）
- * @returns カポを考慮したコードパターン
- */
-export const applyCapo = (
-  chordPattern: ChordPattern, 
-  capoPosition: number
-): ChordPattern => {
-  if (capoPosition === 0) return chordPattern;
-  
-  if (capoPosition < 0 || capoPosition > 12) {
-    throw new Error(`Invalid capo position: ${capoPosition}. Must be 0-12.`);
-  }
-  
-  // フレット位置の調整
-  const adjustedFrets = chordPattern.frets.map(fret => {
-    if (fret === null) return null;
-    
-    const adjustedFret = fret - capoPosition;
-    return adjustedFret < 0 ? null : adjustedFret;
-  });
-  
-  return {
-    ...chordPattern,
-    frets: adjustedFrets,
-    name: `${chordPattern.name} (Capo ${capoPosition})`
-  };
-};
-
-/**
- * カポタストを考慮した実際のコード名を取得
- * 
- * @param chordPattern コードパターン
- * @param capoPosition カポタストの位置
- * @returns 実際のコード名
- */
-export const getActualChordName = (
-  chordPattern: ChordPattern,
-  capoPosition: number
-): string => {
-  if (capoPosition === 0) return chordPattern.name;
-  
-  // ルート音をカポ分上げる
-  const noteNames = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
-  const rootIndex = noteNames.indexOf(chordPattern.root);
-  
-  if (rootIndex === -1) return chordPattern.name;
-  
-  const newRootIndex = (rootIndex + capoPosition) % 12;
-  const newRoot = noteNames[newRootIndex];
-  
-  // コード名の置換（簡易版）
-  return chordPattern.name.replace(chordPattern.root, newRoot);
-};
-
 // =============================================================================
 // Validation Functions - バリデーション関数
 // =============================================================================
@@ -364,6 +407,36 @@ export const isValidFretboardPosition = (
   );
 };
 
+/**
+ * バレーの妥当性検証
+ * 
+ * 両端の弦がバレーのフレットで押さえられ、間の弦はミュート・開放弦でないこと
+ * 
+ * @param barre バレー
+ * @param frets 各弦のフレット位置（6弦から1弦）
+ * @returns 妥当性チェック結果
+ */
+export const isValidBarre = (barre: ChordBarre, frets: (number | null)[]): boolean => {
+  const { fret, fromString, toString, finger } = barre;
+  
+  if (
+    ![fret, fromString, toString, finger].every(Number.isInteger) ||
+    fret < 1 || fret > 24 ||
+    toString < 1 || fromString > 6 || fromString <= toString ||
+    finger < 1 || finger > 4
+  ) {
+    return false;
+  }
+  
+  const coveredFrets = frets.slice(6 - fromString, 7 - toString);
+  
+  return (
+    coveredFrets[0] === fret &&
+    coveredFrets[coveredFrets.length - 1] === fret &&
+    coveredFrets.every(coveredFret => coveredFret !== null && coveredFret >= fret)
+  );
+};
+
 /**
  * 押弦パターンの妥当性検証
  * 
@@ -375,6 +448,11 @@ export const isValidChordPattern = (chordPattern: ChordPattern): boolean => {
     return false;
   }
   
+  const barresValid = (chordPattern.barres ?? []).every(barre =>
+    isValidBarre(barre, chordPattern.frets)
+  );
+  if (!barresValid) return false;
+  
   return chordPattern.frets.every((fret, index) => {
     const finger = chordPattern.fingers[index];
     
@@ -393,6 +471,33 @@ export const isValidChordPattern = (chordPattern: ChordPattern): boolean => {
   });
 };
 
+/**
+ * バレーが押さえる弦かどうか（バレーのフレットで押さえている弦のみ）
+ * 
+ * @param barre バレー
+ * @param stringIndex 弦インデックス（0 = 6弦）
+ * @param fret その弦のフレット位置
+ * @returns バレーで押さえていればtrue
+ */
+export const isCoveredByBarre = (
+  barre: ChordBarre,
+  stringIndex: number,
+  fret: number | null
+): boolean => {
+  const stringNumber = 6 - stringIndex;
+  return fret === barre.fret && stringNumber <= barre.fromString && stringNumber >= barre.toString;
+};
+
+/**
+ * バレーの説明文を生成
+ * 
+ * @param barre バレー
+ * @returns 説明文（例: "1フレット 6弦〜1弦（1番指）"）
+ */
+export const describeBarre = (barre: ChordBarre): string => {
+  return `${barre.fret}フレット ${barre.fromString}弦〜${barre.toString}弦（${barre.finger}番指）`;
+};
+
 // =============================================================================
 // Utility Functions - その他のユーティリティ
 // =============================================================================
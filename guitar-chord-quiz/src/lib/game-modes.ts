@@ -0,0 +1,194 @@
+/**
+ * Game Modes
+ *
+ * @description ゲームモードごとの終了条件・残りライフ/時間・ハイスコアの順位付け
+ * @author Claude Code
+ */
+
+import { GameMode } from '../types';
+
+// =============================================================================
+// Types - 型定義
+// =============================================================================
+
+/**
+ * ゲームが終了した理由
+ * - questions: 決まった問題数に達した
+ * - time: 制限時間を使い切った
+ * - lives: ライフを使い切った
+ */
+export type GameOverReason = 'questions' | 'time' | 'lives';
+
+/**
+ * ゲームモードのルール
+ */
+export interface GameModeRules {
+  /** 表示名 */
+  label: string;
+  /** アイコン */
+  icon: string;
+  /** 説明 */
+  description: string;
+  /** 問題数（省略時は制限なし） */
+  questionLimit?: number;
+  /** 制限時間（秒。省略時は制限なし） */
+  timeLimit?: number;
+  /** ライフ（不正解の許容回数。省略時は制限なし） */
+  lives?: number;
+  /** スキップできるか（問題数・ライフで競うモードでは不可） */
+  allowSkip: boolean;
+  /** ハイスコアの順位付けに使う値（correctAnswers: 正解数） */
+  rankBy: 'score' | 'correctAnswers';
+}
+
+/**
+ * ゲームの進行状況（終了判定に使う値）
+ */
+export interface GameProgress {
+  /** 総回答数 */
+  totalAnswers: number;
+  /** 正解数 */
+  correctAnswers: number;
+  /** 経過時間（秒） */
+  timeElapsed: number;
+}
+
+/**
+ * ハイスコアの順位付けに使う記録
+ */
+export interface RankedGameResult {
+  /** 獲得スコア */
+  score: number;
+  /** 正解数 */
+  correctAnswers: number;
+  /** 経過時間（秒） */
+  timeElapsed: number;
+}
+
+// =============================================================================
+// Constants - 定数
+// =============================================================================
+
+/**
+ * ゲームモードのルール
+ */
+export const GAME_MODES: Record<GameMode, GameModeRules> = {
+  endless: {
+    label: 'フリー',
+    icon: '♾️',
+    description: '終了条件なし。好きなだけ練習できます',
+    allowSkip: true,
+    rankBy: 'score',
+  },
+  fixed: {
+    label: '10問チャレンジ',
+    icon: '🏁',
+    description: '10問でスコアを競います',
+    questionLimit: 10,
+    allowSkip: false,
+    rankBy: 'score',
+  },
+  'time-attack': {
+    label: 'タイムアタック',
+    icon: '⏱️',
+    description: '60秒でできるだけ多く正解します（結果表示中は時間が止まります）',
+    timeLimit: 60,
+    allowSkip: true,
+    rankBy: 'score',
+  },
+  survival: {
+    label: 'サバイバル',
+    icon: '❤️',
+    description: 'ライフは3つ。3回間違えるとゲームオーバー',
+    lives: 3,
+    allowSkip: false,
+    rankBy: 'correctAnswers',
+  },
+  'sudden-death': {
+    label: 'サドンデス',
+    icon: '💀',
+    description: '1回でも間違えたらゲームオーバー',
+    lives: 1,
+    allowSkip: false,
+    rankBy: 'correctAnswers',
+  },
+};
+
+/**
+ * ゲームモードの表示順
+ */
+export const GAME_MODE_ORDER: GameMode[] = ['endless', 'fixed', 'time-attack', 'survival', 'sudden-death'];
+
+/**
+ * ゲームが終了した理由の表示名
+ */
+export const GAME_OVER_LABELS: Record<GameOverReason, string> = {
+  questions: '🏁 セッション終了',
+  time: '⏰ タイムアップ！',
+  lives: '💔 ゲームオーバー',
+};
+
+// =============================================================================
+// Main Functions - メイン関数
+// =============================================================================
+
+/**
+ * 不正解（部分正解を含む）の回数
+ */
+export const getMissCount = (progress: GameProgress): number =>
+  progress.totalAnswers - progress.correctAnswers;
+
+/**
+ * 残りライフ（ライフ制でないモードはnull）
+ */
+export const getRemainingLives = (mode: GameMode, progress: GameProgress): number | null => {
+  const { lives } = GAME_MODES[mode];
+  return lives === undefined ? null : Math.max(0, lives - getMissCount(progress));
+};
+
+/**
+ * 残り時間（秒。制限時間のないモードはnull）
+ */
+export const getRemainingTime = (mode: GameMode, progress: GameProgress): number | null => {
+  const { timeLimit } = GAME_MODES[mode];
+  return timeLimit === undefined ? null : Math.max(0, timeLimit - progress.timeElapsed);
+};
+
+/**
+ * ゲームの終了判定
+ *
+ * @param mode ゲームモード
+ * @param progress 進行状況
+ * @returns 終了した理由（続行中はnull）
+ *
+ * @example
+ * ```typescript
+ * getGameOverReason('survival', { totalAnswers: 5, correctAnswers: 2, timeElapsed: 40 }); // 'lives'
+ * getGameOverReason('endless', { totalAnswers: 50, correctAnswers: 0, timeElapsed: 600 }); // null
+ * ```
+ */
+export const getGameOverReason = (mode: GameMode, progress: GameProgress): GameOverReason | null => {
+  const { questionLimit } = GAME_MODES[mode];
+
+  if (getRemainingLives(mode, progress) === 0) return 'lives';
+  if (questionLimit !== undefined && progress.totalAnswers >= questionLimit) return 'questions';
+  if (getRemainingTime(mode, progress) === 0) return 'time';
+  return null;
+};
+
+/**
+ * ハイスコアの順位比較（Array.prototype.sort用。上位が先）
+ *
+ * モードの順位付けの値が同じ場合はもう一方の値、さらに経過時間の短い順
+ */
+export const compareGameResults = (mode: GameMode, a: RankedGameResult, b: RankedGameResult): number => {
+  const [primary, secondary] = GAME_MODES[mode].rankBy === 'score'
+    ? (['score', 'correctAnswers'] as const)
+    : (['correctAnswers', 'score'] as const);
+
+  return (
+    b[primary] - a[primary] ||
+    b[secondary] - a[secondary] ||
+    a.timeElapsed - b.timeElapsed
+  );
+};
@@ -0,0 +1,211 @@
+/**
+ * Keys & Roman Numerals
+ *
+ * @description 調（キー）・音度・ローマ数字表記によるコードの表現と、調に合わせた音名の表記
+ * @author Claude Code
+ */
+
+import { ChordQuality, KeyMode, MusicalKey, NoteName } from '../types';
+import { NOTE_NAMES, formatChordName, transposeNote } from './theory';
+
+// =============================================================================
+// Types - 型定義
+// =============================================================================
+
+/**
+ * ローマ数字表記を解釈したコード
+ */
+export interface RomanNumeralChord {
+  /** ローマ数字表記（例: "V7", "bVII"） */
+  numeral: string;
+  /** 音度（1〜7） */
+  degree: number;
+  /** 調の音階からの変化（-1 = ♭、1 = ♯） */
+  alteration: number;
+  /** コード品質 */
+  quality: ChordQuality;
+}
+
+/**
+ * 調の中のコード
+ */
+export interface KeyChord extends RomanNumeralChord {
+  /** ルート音 */
+  root: NoteName;
+  /** コード名（調に合わせた表記。例: キーFの "Bb"） */
+  name: string;
+}
+
+// =============================================================================
+// Constants - 定数
+// =============================================================================
+
+/**
+ * 調の種類ごとの音階（主音からの半音数）
+ */
+const KEY_SCALES: Record<KeyMode, number[]> = {
+  major: [0, 2, 4, 5, 7, 9, 11],
+  minor: [0, 2, 3, 5, 7, 8, 10],
+};
+
+/**
+ * ダイアトニックコード（三和音）のローマ数字表記
+ */
+const DIATONIC_NUMERALS: Record<KeyMode, string[]> = {
+  major: ['I', 'ii', 'iii', 'IV', 'V', 'vi', 'vii°'],
+  minor: ['i', 'ii°', 'III', 'iv', 'v', 'VI', 'VII'],
+};
+
+/**
+ * 調の種類の表示名
+ */
+export const KEY_MODE_LABELS: Record<KeyMode, string> = {
+  major: 'メジャー',
+  minor: 'マイナー',
+};
+
+/**
+ * ローマ数字（大文字）と音度の対応表
+ */
+const ROMAN_DEGREES: Record<string, number> = {
+  I: 1, II: 2, III: 3, IV: 4, V: 5, VI: 6, VII: 7,
+};
+
+/**
+ * コード品質ごとのコード名サフィックス
+ */
+export const QUALITY_SUFFIXES: Record<ChordQuality, string> = {
+  major: '',
+  minor: 'm',
+  dominant7: '7',
+  major7: 'maj7',
+  minor7: 'm7',
+  diminished: 'dim',
+  augmented: 'aug',
+  sus2: 'sus2',
+  sus4: 'sus4',
+};
+
+/**
+ * シャープ表記からフラット表記への対応表
+ */
+const SHARP_TO_FLAT: Partial<Record<NoteName, string>> = {
+  'C#': 'Db', 'D#': 'Eb', 'F#': 'Gb', 'G#': 'Ab', 'A#': 'Bb',
+};
+
+/**
+ * フラット系の調の主音（調号に♭を使う調）
+ */
+const FLAT_KEY_TONICS: Record<KeyMode, NoteName[]> = {
+  major: ['F', 'A#', 'D#', 'G#', 'C#'],
+  minor: ['D', 'G', 'C', 'F', 'A#', 'D#'],
+};
+
+// =============================================================================
+// Key Functions - 調
+// =============================================================================
+
+/**
+ * 調に合わせた音名の表記（フラット系の調では♭で表記）
+ *
+ * @example
+ * ```typescript
+ * spellNote('A#', { tonic: 'F', mode: 'major' }); // "Bb"
+ * spellNote('A#', { tonic: 'B', mode: 'major' }); // "A#"
+ * ```
+ */
+export const spellNote = (note: NoteName, key: MusicalKey): string => {
+  return FLAT_KEY_TONICS[key.mode].includes(key.tonic) ? SHARP_TO_FLAT[note] ?? note : note;
+};
+
+/**
+ * 調の表示名（例: "Bb メジャー"、"F# マイナー"）
+ */
+export const formatKeyName = (key: MusicalKey): string => {
+  return `${spellNote(key.tonic, key)} ${KEY_MODE_LABELS[key.mode]}`;
+};
+
+/**
+ * 全24調
+ */
+export const ALL_KEYS: MusicalKey[] = (['major', 'minor'] as KeyMode[]).flatMap(mode =>
+  NOTE_NAMES.map(tonic => ({ tonic, mode }))
+);
+
+// =============================================================================
+// Roman Numeral Functions - ローマ数字表記
+// =============================================================================
+
+/**
+ * ローマ数字表記を解釈
+ *
+ * 大文字はメジャー、小文字はマイナー、"°" はディミニッシュ、"+" はオーギュメント。
+ * "7" は大文字ならドミナント7th・小文字ならマイナー7th、"maj7" はメジャー7th。
+ * 先頭の "b" / "#" は調の音階の音度からの変化を表す（例: 長調の "bVII"）
+ *
+ * @returns 解釈できない場合はnull
+ */
+export const parseRomanNumeral = (numeral: string): RomanNumeralChord | null => {
+  const match = numeral.trim().match(/^([b#♭♯]?)(VII|VI|IV|V|III|II|I|vii|vi|iv|v|iii|ii|i)(°|\+|sus2|sus4)?(maj7|7)?$/);
+  if (!match) return null;
+
+  const [, accidental, roman, modifier, seventh] = match;
+  const isUpper = roman === roman.toUpperCase();
+
+  let quality: ChordQuality;
+  if (modifier === '°') {
+    if (isUpper || seventh) return null;
+    quality = 'diminished';
+  } else if (modifier === '+') {
+    if (!isUpper || seventh) return null;
+    quality = 'augmented';
+  } else if (modifier) {
+    if (!isUpper || seventh) return null;
+    quality = modifier as 'sus2' | 'sus4';
+  } else if (seventh === 'maj7') {
+    if (!isUpper) return null;
+    quality = 'major7';
+  } else if (seventh === '7') {
+    quality = isUpper ? 'dominant7' : 'minor7';
+  } else {
+    quality = isUpper ? 'major' : 'minor';
+  }
+
+  return {
+    numeral: numeral.trim(),
+    degree: ROMAN_DEGREES[roman.toUpperCase()],
+    alteration: accidental === 'b' || accidental === '♭' ? -1 : accidental ? 1 : 0,
+    quality,
+  };
+};
+
+/**
+ * ローマ数字表記を調の中のコードに変換
+ *
+ * @throws 解釈できないローマ数字表記の場合
+ *
+ * @example
+ * ```typescript
+ * resolveRomanNumeral('V7', { tonic: 'G', mode: 'major' }); // { root: 'D', name: 'D7', ... }
+ * ```
+ */
+export const resolveRomanNumeral = (numeral: string, key: MusicalKey): KeyChord => {
+  const parsed = parseRomanNumeral(numeral);
+  if (!parsed) {
+    throw new Error(`Invalid roman numeral: ${numeral}`);
+  }
+
+  const root = transposeNote(key.tonic, KEY_SCALES[key.mode][parsed.degree - 1] + parsed.alteration);
+  return {
+    ...parsed,
+    root,
+    name: formatChordName(spellNote(root, key), QUALITY_SUFFIXES[parsed.quality]),
+  };
+};
+
+/**
+ * 調のダイアトニックコード（三和音）
+ */
+export const getDiatonicChords = (key: MusicalKey): KeyChord[] => {
+  return DIATONIC_NUMERALS[key.mode].map(numeral => resolveRomanNumeral(numeral, key));
+};
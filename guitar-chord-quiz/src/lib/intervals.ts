@@ -0,0 +1,227 @@
+/**
+ * Interval Trainer
+ *
+ * @description 音程（インターバル）の定義と、指板上の2音の位置・再生順の出題
+ * @author Claude Code
+ */
+
+import { FretboardNote, Tuning } from '../types';
+
+// =============================================================================
+// Types - 型定義
+// =============================================================================
+
+/**
+ * 音程の定義
+ */
+export interface IntervalDefinition {
+  /** 半音数 */
+  semitones: number;
+  /** 略称（例: "m3"） */
+  name: string;
+  /** 表示名（例: "短3度"） */
+  label: string;
+}
+
+/**
+ * 2音の方向
+ * - ascending: 低い音から高い音（上行）
+ * - descending: 高い音から低い音（下行）
+ */
+export type IntervalDirection = 'ascending' | 'descending';
+
+/**
+ * 再生方法
+ * - harmonic: 2音を同時に鳴らす
+ * - melodic: 2音を順に鳴らす
+ */
+export type IntervalPlayback = 'harmonic' | 'melodic';
+
+/**
+ * 音程の問題
+ */
+export interface IntervalQuestion {
+  /** 音程の定義 */
+  interval: IntervalDefinition;
+  /** 方向 */
+  direction: IntervalDirection;
+  /** 低い方の音の位置 */
+  lower: FretboardNote;
+  /** 高い方の音の位置 */
+  upper: FretboardNote;
+}
+
+/**
+ * 出題オプション
+ */
+export interface IntervalQuestionOptions {
+  /** 出題する音程（半音数） */
+  intervals: number[];
+  /** 出題する方向 */
+  directions: IntervalDirection[];
+  /** チューニング */
+  tuning: Tuning;
+  /** 使用する最大フレット */
+  maxFret?: number;
+}
+
+// =============================================================================
+// Constants - 定数
+// =============================================================================
+
+/**
+ * 音程の一覧（短2度〜完全15度）
+ */
+export const INTERVALS: readonly IntervalDefinition[] = [
+  { semitones: 1, name: 'm2', label: '短2度' },
+  { semitones: 2, name: 'M2', label: '長2度' },
+  { semitones: 3, name: 'm3', label: '短3度' },
+  { semitones: 4, name: 'M3', label: '長3度' },
+  { semitones: 5, name: 'P4', label: '完全4度' },
+  { semitones: 6, name: 'TT', label: '増4度/減5度' },
+  { semitones: 7, name: 'P5', label: '完全5度' },
+  { semitones: 8, name: 'm6', label: '短6度' },
+  { semitones: 9, name: 'M6', label: '長6度' },
+  { semitones: 10, name: 'm7', label: '短7度' },
+  { semitones: 11, name: 'M7', label: '長7度' },
+  { semitones: 12, name: 'P8', label: '完全8度' },
+  { semitones: 13, name: 'm9', label: '短9度' },
+  { semitones: 14, name: 'M9', label: '長9度' },
+  { semitones: 15, name: 'm10', label: '短10度' },
+  { semitones: 16, name: 'M10', label: '長10度' },
+  { semitones: 17, name: 'P11', label: '完全11度' },
+  { semitones: 18, name: 'A11', label: '増11度' },
+  { semitones: 19, name: 'P12', label: '完全12度' },
+  { semitones: 20, name: 'm13', label: '短13度' },
+  { semitones: 21, name: 'M13', label: '長13度' },
+  { semitones: 22, name: 'm14', label: '短14度' },
+  { semitones: 23, name: 'M14', label: '長14度' },
+  { semitones: 24, name: 'P15', label: '完全15度' },
+] as const;
+
+/**
+ * 単音程（1オクターブ以内）の半音数
+ */
+export const SIMPLE_INTERVALS = INTERVALS.filter(interval => interval.semitones <= 12).map(
+  interval => interval.semitones
+);
+
+/**
+ * 複音程（1オクターブを超える）の半音数
+ */
+export const COMPOUND_INTERVALS = INTERVALS.filter(interval => interval.semitones > 12).map(
+  interval => interval.semitones
+);
+
+/**
+ * 初期状態で使用する最大フレット
+ */
+export const DEFAULT_INTERVAL_MAX_FRET = 12;
+
+/**
+ * 2音を押さえるときの最大フレット幅（開放弦を除く）
+ */
+const MAX_FRET_SPAN = 4;
+
+/**
+ * 順に鳴らすときの2音目までの間隔（秒）
+ */
+export const MELODIC_NOTE_GAP = 0.8;
+
+// =============================================================================
+// Utility Functions - ユーティリティ関数
+// =============================================================================
+
+/**
+ * 半音数から音程の定義を取得
+ *
+ * @throws 定義にない半音数の場合
+ */
+export const getInterval = (semitones: number): IntervalDefinition => {
+  const interval = INTERVALS.find(item => item.semitones === semitones);
+  if (!interval) {
+    throw new Error(`Unknown interval: ${semitones} semitones`);
+  }
+  return interval;
+};
+
+/**
+ * 回答記録の識別キー（コードの識別キーと重ならないよう接頭辞を付ける）
+ */
+export const getIntervalKey = (interval: IntervalDefinition): string => `interval:${interval.name}`;
+
+/**
+ * 押弦位置の音高（MIDIノート番号、stringIndex は 0 = 6弦）
+ */
+export const getPositionPitch = (stringIndex: number, fret: number, tuning: Tuning): number => {
+  return Math.round(12 * Math.log2(tuning.frequencies[stringIndex] / 440)) + 69 + fret;
+};
+
+/**
+ * 指定した音程になる2音の位置の組み合わせをすべて取得
+ *
+ * 2音は別の弦で、同時に押さえられるフレット幅に収まるものに限る
+ */
+export const getIntervalPositionPairs = (
+  semitones: number,
+  tuning: Tuning,
+  maxFret: number = DEFAULT_INTERVAL_MAX_FRET
+): Array<Pick<IntervalQuestion, 'lower' | 'upper'>> => {
+  const positions = tuning.frequencies.flatMap((_, stringIndex) =>
+    Array.from({ length: maxFret + 1 }, (_, fret) => ({
+      stringIndex,
+      fret,
+      pitch: getPositionPitch(stringIndex, fret, tuning),
+    }))
+  );
+
+  return positions.flatMap(lower =>
+    positions
+      .filter(upper =>
+        upper.stringIndex !== lower.stringIndex &&
+        upper.pitch - lower.pitch === semitones &&
+        (lower.fret === 0 || upper.fret === 0 || Math.abs(upper.fret - lower.fret) <= MAX_FRET_SPAN)
+      )
+      .map(upper => ({
+        lower: { stringIndex: lower.stringIndex, fret: lower.fret },
+        upper: { stringIndex: upper.stringIndex, fret: upper.fret },
+      }))
+  );
+};
+
+/**
+ * ランダムに音程の問題を作成
+ *
+ * @throws 出題できる音程・方向がない場合
+ */
+export const createIntervalQuestion = (
+  options: IntervalQuestionOptions,
+  random: () => number = Math.random
+): IntervalQuestion => {
+  const { directions, tuning, maxFret = DEFAULT_INTERVAL_MAX_FRET } = options;
+  const candidates = options.intervals.filter(
+    semitones => getIntervalPositionPairs(semitones, tuning, maxFret).length > 0
+  );
+
+  if (candidates.length === 0 || directions.length === 0) {
+    throw new Error('No interval questions available for the given options');
+  }
+
+  const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)];
+  const semitones = pick(candidates);
+
+  return {
+    interval: getInterval(semitones),
+    direction: pick(directions),
+    ...pick(getIntervalPositionPairs(semitones, tuning, maxFret)),
+  };
+};
+
+/**
+ * 再生・表示する順の2音（上行は低い音から、下行は高い音から）
+ */
+export const getIntervalNoteOrder = (question: IntervalQuestion): [FretboardNote, FretboardNote] => {
+  return question.direction === 'ascending'
+    ? [question.lower, question.upper]
+    : [question.upper, question.lower];
+};
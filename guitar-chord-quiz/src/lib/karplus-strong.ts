@@ -0,0 +1,195 @@
+/**
+ * Karplus-Strong Plucked String Synthesis
+ *
+ * @description 撥弦の物理モデル（Karplus-Strong法）による波形生成と楽器ごとの音色定義
+ * @author Claude Code
+ */
+
+import { InstrumentType } from '../types';
+
+// =============================================================================
+// Types - 型定義
+// =============================================================================
+
+/**
+ * 楽器の音色パラメータ
+ */
+export interface InstrumentVoice {
+  /** 表示名 */
+  label: string;
+  /** 6弦開放の減衰時間（秒、-60dBまで） */
+  sustain: number;
+  /** 弦ごとの減衰時間の倍率（6弦→1弦の順。細い弦ほど早く減衰する） */
+  stringDamping: readonly number[];
+  /** 励振ノイズの明るさ（0-1。低いほど柔らかいアタック） */
+  brightness: number;
+  /** ピッキング位置（ブリッジからの弦長比。0に近いほど硬い音） */
+  pickPosition: number;
+  /** ボディ共鳴を模したローパスフィルターのカットオフ周波数（Hz） */
+  bodyCutoff: number;
+  /** 出力ゲイン */
+  gain: number;
+}
+
+/**
+ * 撥弦音の生成オプション
+ */
+export interface PluckOptions {
+  /** サンプリングレート（Hz） */
+  sampleRate: number;
+  /** 長さ（秒） */
+  duration: number;
+  /** 弦インデックス（0 = 6弦） */
+  stringIndex: number;
+  /** 楽器の音色 */
+  voice: InstrumentVoice;
+  /** 乱数生成関数（テスト用） */
+  random?: () => number;
+}
+
+// =============================================================================
+// Constants - 定数
+// =============================================================================
+
+/**
+ * 楽器ごとの音色
+ *
+ * - acoustic: 金属弦。明るいアタックと長めのサステイン
+ * - electric: マグネットピックアップ。減衰が遅く、ボディの影響が少ない
+ * - nylon: ナイロン弦。柔らかいアタックで高音弦が早く減衰する
+ */
+export const INSTRUMENT_VOICES: Record<InstrumentType, InstrumentVoice> = {
+  acoustic: {
+    label: 'アコースティック',
+    sustain: 4,
+    stringDamping: [1, 0.95, 0.85, 0.75, 0.65, 0.55],
+    brightness: 0.8,
+    pickPosition: 0.13,
+    bodyCutoff: 5000,
+    gain: 0.9,
+  },
+  electric: {
+    label: 'エレキ',
+    sustain: 6,
+    stringDamping: [1, 1, 0.95, 0.9, 0.85, 0.8],
+    brightness: 0.6,
+    pickPosition: 0.2,
+    bodyCutoff: 3200,
+    gain: 0.8,
+  },
+  nylon: {
+    label: 'ナイロン',
+    sustain: 2.5,
+    stringDamping: [1, 0.9, 0.8, 0.65, 0.5, 0.4],
+    brightness: 0.35,
+    pickPosition: 0.25,
+    bodyCutoff: 2500,
+    gain: 1,
+  },
+};
+
+/**
+ * 音の終端で無音に戻すフェードアウト時間（秒、クリックノイズ防止）
+ */
+const FADE_OUT_SECONDS = 0.05;
+
+// =============================================================================
+// Synthesis - 波形生成
+// =============================================================================
+
+/**
+ * 弦振動の励振信号を作成
+ *
+ * 白色雑音を明るさに応じてローパスし、ピッキング位置のコムフィルターをかける。
+ * 直流成分は除去しておく（残ると減衰しないオフセットになる）。
+ */
+const createExcitation = (length: number, voice: InstrumentVoice, random: () => number): Float32Array => {
+  const excitation = new Float32Array(length);
+  const smoothing = 1 - voice.brightness;
+
+  let previous = 0;
+  for (let i = 0; i < length; i++) {
+    previous = (1 - smoothing) * (random() * 2 - 1) + smoothing * previous;
+    excitation[i] = previous;
+  }
+
+  const pickOffset = Math.max(1, Math.round(length * voice.pickPosition));
+  for (let i = length - 1; i >= pickOffset; i--) {
+    excitation[i] -= excitation[i - pickOffset];
+  }
+
+  const mean = excitation.reduce((sum, value) => sum + value, 0) / length;
+  let peak = 0;
+  for (let i = 0; i < length; i++) {
+    excitation[i] -= mean;
+    peak = Math.max(peak, Math.abs(excitation[i]));
+  }
+  if (peak > 0) {
+    for (let i = 0; i < length; i++) excitation[i] /= peak;
+  }
+
+  return excitation;
+};
+
+/**
+ * 弦ごとの減衰時間を取得（秒）
+ *
+ * @param voice 楽器の音色
+ * @param stringIndex 弦インデックス（0 = 6弦）
+ */
+export const getStringSustain = (voice: InstrumentVoice, stringIndex: number): number => {
+  const damping = voice.stringDamping[stringIndex] ?? voice.stringDamping[voice.stringDamping.length - 1];
+  return voice.sustain * damping;
+};
+
+/**
+ * Karplus-Strong法で撥弦音を生成
+ *
+ * 遅延線 + 平均化ローパス（半サンプル遅延）+ 分数遅延用オールパスで
+ * 1周期分の遅延を作り、平均律の周波数に正確に合わせる。
+ *
+ * @param frequency 基本周波数（Hz）
+ * @param options 生成オプション
+ * @returns モノラルのサンプル列（-1〜1）
+ */
+export const renderPluckedString = (frequency: number, options: PluckOptions): Float32Array => {
+  const { sampleRate, duration, stringIndex, voice, random = Math.random } = options;
+  const output = new Float32Array(Math.max(1, Math.round(sampleRate * duration)));
+
+  // ループ全体の遅延 = 遅延線N + 平均化フィルター0.5 + オールパスの分数遅延
+  // （オールパスは分数遅延が0に近いと極が単位円に近づくため、0.1〜1.1の範囲に収める）
+  const period = sampleRate / frequency;
+  const delayLength = Math.max(2, Math.floor(period - 0.6));
+  const fraction = Math.max(0.1, period - 0.5 - delayLength);
+  const allpassCoefficient = (1 - fraction) / (1 + fraction);
+
+  // 1周期ごとの減衰率（sustain秒で-60dB）
+  const loss = Math.pow(0.001, 1 / (getStringSustain(voice, stringIndex) * frequency));
+
+  const delayLine = createExcitation(delayLength, voice, random);
+  let index = 0;
+  let previousSample = 0;
+  let allpassInput = 0;
+  let allpassOutput = 0;
+
+  for (let n = 0; n < output.length; n++) {
+    const sample = delayLine[index];
+    const averaged = loss * 0.5 * (sample + previousSample);
+    previousSample = sample;
+
+    allpassOutput = allpassCoefficient * averaged + allpassInput - allpassCoefficient * allpassOutput;
+    allpassInput = averaged;
+
+    delayLine[index] = allpassOutput;
+    index = (index + 1) % delayLength;
+    output[n] = sample * voice.gain;
+  }
+
+  // 終端のフェードアウト
+  const fadeLength = Math.min(output.length, Math.round(sampleRate * FADE_OUT_SECONDS));
+  for (let i = 0; i < fadeLength; i++) {
+    output[output.length - 1 - i] *= i / fadeLength;
+  }
+
+  return output;
+};
@@ -0,0 +1,243 @@
+/**
+ * Metronome & Chord Change Timing
+ *
+ * @description AudioContextの時刻に合わせたメトロノームと、コードチェンジ練習の拍計算
+ * @author Claude Code
+ */
+
+// =============================================================================
+// Types - 型定義
+// =============================================================================
+
+/**
+ * 拍の位置（コードチェンジ練習）
+ */
+export interface BeatPosition {
+  /** 現在のコード（出題順のインデックス） */
+  chordIndex: number;
+  /** 次のコード */
+  nextChordIndex: number;
+  /** コード内の拍（0始まり） */
+  beatInChord: number;
+  /** この拍までに完了したコードチェンジの数 */
+  changes: number;
+  /** 次のコードを予告する拍か（チェンジの1拍前） */
+  showNext: boolean;
+}
+
+/**
+ * メトロノームの開始オプション
+ */
+export interface MetronomeOptions {
+  /** テンポ（BPM） */
+  bpm: number;
+  /** アクセントを付ける間隔（拍数。コードごとの拍数） */
+  accentEvery: number;
+  /** 拍ごとのコールバック（timeはAudioContextの時刻。実際の発音より先に呼ばれる） */
+  onBeat: (beatIndex: number, time: number) => void;
+}
+
+// =============================================================================
+// Constants - 定数
+// =============================================================================
+
+/**
+ * スケジューラーの呼び出し間隔（ミリ秒）
+ */
+const SCHEDULER_INTERVAL_MS = 25;
+
+/**
+ * 先読みしてスケジュールする時間（秒）
+ */
+const SCHEDULE_AHEAD_SECONDS = 0.1;
+
+/**
+ * 最初の拍までの待ち時間（秒）
+ */
+const START_DELAY_SECONDS = 0.1;
+
+/**
+ * クリック音の長さ（秒）
+ */
+const CLICK_DURATION_SECONDS = 0.05;
+
+/**
+ * 設定できるテンポの範囲（BPM）
+ */
+export const BPM_RANGE = { min: 30, max: 240 } as const;
+
+// =============================================================================
+// Beat Calculation - 拍の計算
+// =============================================================================
+
+/**
+ * 拍番号からコードチェンジ練習での位置を計算
+ *
+ * @param beatIndex 開始からの拍番号（0始まり）
+ * @param beatsPerChord コードごとの拍数
+ * @param chordCount 練習するコードの数
+ */
+export const getBeatPosition = (
+  beatIndex: number,
+  beatsPerChord: number,
+  chordCount: number
+): BeatPosition => {
+  const changes = Math.floor(beatIndex / beatsPerChord);
+  const chordIndex = changes % chordCount;
+  const beatInChord = beatIndex % beatsPerChord;
+
+  return {
+    chordIndex,
+    nextChordIndex: (chordIndex + 1) % chordCount,
+    beatInChord,
+    changes,
+    showNext: beatInChord === beatsPerChord - 1,
+  };
+};
+
+/**
+ * 拍数の長さ（秒）
+ *
+ * @param beats 拍数
+ * @param bpm テンポ
+ */
+export const getBeatsDuration = (beats: number, bpm: number): number => {
+  return bpm > 0 ? (beats * 60) / bpm : 0;
+};
+
+/**
+ * 1分あたりのコードチェンジ数を計算
+ *
+ * @param changes 成功したコードチェンジの数
+ * @param beats 経過した拍数
+ * @param bpm テンポ
+ */
+export const calculateChangesPerMinute = (changes: number, beats: number, bpm: number): number => {
+  if (beats <= 0 || bpm <= 0) return 0;
+
+  const minutes = beats / bpm;
+  return Math.round((Math.max(0, changes) / minutes) * 10) / 10;
+};
+
+/**
+ * 練習したコードの組み合わせ（隣り合うコード同士と、最後から最初へ）
+ *
+ * 組み合わせのキーは向きによらず同じになるようコード名を並べ替えて作る
+ *
+ * @param chordNames 練習順のコード名（チューニングを区別する場合はgetChordKeyの識別キー）
+ * @returns 重複のない組み合わせキー（例: "Am|C"）
+ */
+export const getChordPairKeys = (chordNames: string[]): string[] => {
+  if (chordNames.length < 2) return [];
+
+  const keys = chordNames.map((name, index) => {
+    const next = chordNames[(index + 1) % chordNames.length];
+    return [name, next].sort().join('|');
+  });
+
+  return Array.from(new Set(keys));
+};
+
+// =============================================================================
+// Metronome - メトロノーム
+// =============================================================================
+
+/**
+ * メトロノーム
+ *
+ * setIntervalでは発音タイミングがずれるため、少し先までの拍を
+ * AudioContextの時刻で予約する（先読みスケジューリング）
+ */
+export class Metronome {
+  private audioContext: AudioContext;
+  private masterGain: GainNode;
+  private timerId: ReturnType<typeof setInterval> | null = null;
+  private nextBeatTime = 0;
+  private beatIndex = 0;
+  private options: MetronomeOptions | null = null;
+
+  constructor(audioContext: AudioContext) {
+    this.audioContext = audioContext;
+    this.masterGain = this.audioContext.createGain();
+    this.masterGain.connect(this.audioContext.destination);
+    this.masterGain.gain.setValueAtTime(0.5, this.audioContext.currentTime);
+  }
+
+  /**
+   * 再生中か
+   */
+  public get isRunning(): boolean {
+    return this.timerId !== null;
+  }
+
+  /**
+   * 開始
+   */
+  public start(options: MetronomeOptions): void {
+    this.stop();
+
+    this.options = options;
+    this.beatIndex = 0;
+    this.nextBeatTime = this.audioContext.currentTime + START_DELAY_SECONDS;
+    this.schedule();
+    this.timerId = setInterval(() => this.schedule(), SCHEDULER_INTERVAL_MS);
+  }
+
+  /**
+   * 停止
+   */
+  public stop(): void {
+    if (this.timerId !== null) {
+      clearInterval(this.timerId);
+      this.timerId = null;
+    }
+    this.options = null;
+  }
+
+  /**
+   * 音量設定
+   */
+  public setVolume(volume: number): void {
+    const clampedVolume = Math.max(0, Math.min(1, volume));
+    this.masterGain.gain.setValueAtTime(clampedVolume, this.audioContext.currentTime);
+  }
+
+  /**
+   * 先読み範囲内の拍を予約
+   */
+  private schedule(): void {
+    if (!this.options) return;
+
+    const { bpm, accentEvery, onBeat } = this.options;
+    const secondsPerBeat = 60 / bpm;
+
+    while (this.nextBeatTime < this.audioContext.currentTime + SCHEDULE_AHEAD_SECONDS) {
+      this.playClick(this.nextBeatTime, this.beatIndex % accentEvery === 0);
+      onBeat(this.beatIndex, this.nextBeatTime);
+
+      this.beatIndex++;
+      this.nextBeatTime += secondsPerBeat;
+    }
+  }
+
+  /**
+   * クリック音（アクセントは高い音）
+   */
+  private playClick(time: number, accent: boolean): void {
+    const oscillator = this.audioContext.createOscillator();
+    const gainNode = this.audioContext.createGain();
+
+    oscillator.type = 'square';
+    oscillator.frequency.setValueAtTime(accent ? 1500 : 1000, time);
+
+    gainNode.gain.setValueAtTime(0, time);
+    gainNode.gain.linearRampToValueAtTime(accent ? 0.6 : 0.35, time + 0.001);
+    gainNode.gain.exponentialRampToValueAtTime(0.001, time + CLICK_DURATION_SECONDS);
+
+    oscillator.connect(gainNode);
+    gainNode.connect(this.masterGain);
+
+    oscillator.start(time);
+    oscillator.stop(time + CLICK_DURATION_SECONDS);
+  }
+}
@@ -0,0 +1,184 @@
+/**
+ * Fretboard Note Trainer
+ *
+ * @description 指板上の音名を覚えるトレーニングの出題範囲・採点・位置ごとの正答率
+ * @author Claude Code
+ */
+
+import { FretboardNote, NoteName, PositionAccuracy, Tuning } from '../types';
+import { getFretKey, getNoteAtPosition } from './fretboard';
+import { NOTE_NAMES, PositionGrade } from './theory';
+
+// =============================================================================
+// Types - 型定義
+// =============================================================================
+
+/**
+ * 出題範囲
+ */
+export interface NoteTrainerRange {
+  /** 出題する弦のインデックス（0 = 6弦） */
+  stringIndexes: number[];
+  /** 出題するフレット範囲（両端を含む） */
+  fretRange: { start: number; end: number };
+}
+
+/**
+ * 1つの位置の回答結果
+ */
+export interface PositionAttempt {
+  /** 位置のキー（"弦番号-フレット"） */
+  key: string;
+  /** 正解したか */
+  isCorrect: boolean;
+}
+
+// =============================================================================
+// Constants - 定数
+// =============================================================================
+
+/**
+ * 出題できる最大フレット
+ */
+export const MAX_TRAINER_FRET = 15;
+
+/**
+ * 初期の出題範囲（全弦・開放〜12フレット）
+ */
+export const DEFAULT_NOTE_TRAINER_RANGE: NoteTrainerRange = {
+  stringIndexes: [0, 1, 2, 3, 4, 5],
+  fretRange: { start: 0, end: 12 },
+};
+
+// =============================================================================
+// Question Functions - 出題
+// =============================================================================
+
+/**
+ * 出題範囲内の全位置
+ */
+export const getRangePositions = (range: NoteTrainerRange): FretboardNote[] => {
+  const { start, end } = range.fretRange;
+  return [...range.stringIndexes]
+    .sort((a, b) => a - b)
+    .flatMap(stringIndex =>
+      Array.from({ length: Math.max(end - start + 1, 0) }, (_, i) => ({ stringIndex, fret: start + i }))
+    );
+};
+
+/**
+ * 位置の音名（stringIndex は 0 = 6弦）
+ */
+export const getPositionNote = (stringIndex: number, fret: number, tuning: Tuning): NoteName => {
+  return getNoteAtPosition(6 - stringIndex, fret, tuning);
+};
+
+/**
+ * 出題範囲内で指定した音名の位置をすべて取得
+ *
+ * @example
+ * ```typescript
+ * findNotePositions('G', STANDARD_TUNING, DEFAULT_NOTE_TRAINER_RANGE);
+ * // [{ stringIndex: 0, fret: 3 }, { stringIndex: 1, fret: 10 }, ...]
+ * ```
+ */
+export const findNotePositions = (
+  note: NoteName,
+  tuning: Tuning,
+  range: NoteTrainerRange
+): FretboardNote[] => {
+  return getRangePositions(range).filter(position =>
+    getPositionNote(position.stringIndex, position.fret, tuning) === note
+  );
+};
+
+/**
+ * 出題範囲からランダムに位置を選択
+ *
+ * @throws 出題範囲が空の場合
+ */
+export const getRandomPosition = (
+  range: NoteTrainerRange,
+  random: () => number = Math.random
+): FretboardNote => {
+  const positions = getRangePositions(range);
+
+  if (positions.length === 0) {
+    throw new Error('Note trainer range is empty');
+  }
+
+  return positions[Math.floor(random() * positions.length)];
+};
+
+/**
+ * 出題範囲に含まれる音名からランダムに選択
+ *
+ * @throws 出題範囲が空の場合
+ */
+export const getRandomNote = (
+  tuning: Tuning,
+  range: NoteTrainerRange,
+  random: () => number = Math.random
+): NoteName => {
+  const notes = NOTE_NAMES.filter(note => findNotePositions(note, tuning, range).length > 0);
+
+  if (notes.length === 0) {
+    throw new Error('Note trainer range is empty');
+  }
+
+  return notes[Math.floor(random() * notes.length)];
+};
+
+// =============================================================================
+// Accuracy Functions - 正答率
+// =============================================================================
+
+/**
+ * 「すべての位置を探す」の採点結果を位置ごとの回答結果に変換
+ * 押さえた正解位置は正解、押さえ忘れと誤って押さえた位置は不正解として数える
+ */
+export const getGradeAttempts = (grade: PositionGrade): PositionAttempt[] => {
+  return grade.notes.map(note => ({
+    key: getFretKey(note.stringIndex, note.fret),
+    isCorrect: note.variant !== 'missing' && note.variant !== 'extra',
+  }));
+};
+
+/**
+ * 回答結果を位置ごとの正答数に加算
+ */
+export const recordPositionAttempts = (
+  stats: Record<string, PositionAccuracy>,
+  attempts: PositionAttempt[]
+): Record<string, PositionAccuracy> => {
+  return attempts.reduce((next, { key, isCorrect }) => {
+    const current = next[key] ?? { correct: 0, total: 0 };
+    return {
+      ...next,
+      [key]: { correct: current.correct + (isCorrect ? 1 : 0), total: current.total + 1 },
+    };
+  }, stats);
+};
+
+/**
+ * 正答率（0〜1、回答がなければ null）
+ */
+export const getAccuracyRate = (accuracy: PositionAccuracy | undefined): number | null => {
+  return accuracy && accuracy.total > 0 ? accuracy.correct / accuracy.total : null;
+};
+
+/**
+ * 弦ごとの正答数の合計
+ */
+export const getStringAccuracy = (
+  stats: Record<string, PositionAccuracy>,
+  stringIndex: number
+): PositionAccuracy => {
+  const prefix = `${stringIndex + 1}-`;
+  return Object.entries(stats)
+    .filter(([key]) => key.startsWith(prefix))
+    .reduce(
+      (sum, [, accuracy]) => ({ correct: sum.correct + accuracy.correct, total: sum.total + accuracy.total }),
+      { correct: 0, total: 0 }
+    );
+};
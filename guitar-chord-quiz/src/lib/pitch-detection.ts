@@ -0,0 +1,210 @@
+/**
+ * Pitch Detection
+ *
+ * @description マイク入力のPCMから単音の基本周波数を求め（YIN法）、チューナー表示用の音名・セント値を計算する
+ * @author Claude Code
+ */
+
+import { NoteName, Tuning } from '../types';
+import { AudioUtils } from './audio';
+import { getNoteName } from './fretboard';
+import { getRms, SILENCE_RMS_THRESHOLD } from './chord-detection';
+
+// =============================================================================
+// Types - 型定義
+// =============================================================================
+
+/**
+ * ピッチ検出結果
+ */
+export interface PitchDetectionResult {
+  /** 基本周波数（Hz） */
+  frequency: number;
+  /** 周期性の明瞭さ（0-1、1に近いほど確か） */
+  clarity: number;
+}
+
+/**
+ * ピッチ検出のオプション
+ */
+export interface PitchDetectionOptions {
+  /** 検出する最低周波数（Hz） */
+  minFrequency?: number;
+  /** 検出する最高周波数（Hz） */
+  maxFrequency?: number;
+  /** YIN法の閾値（小さいほど厳しい） */
+  threshold?: number;
+}
+
+/**
+ * チューナーの表示内容
+ */
+export interface TunerReading {
+  /** 検出した周波数（Hz） */
+  frequency: number;
+  /** 最も近い音名 */
+  note: NoteName;
+  /** 最も近い音のオクターブ */
+  octave: number;
+  /** 最も近い音からのずれ（セント、-50〜+50） */
+  cents: number;
+  /** 最も近い開放弦の弦番号（1-6、1が最高音） */
+  stringNumber: number;
+  /** その開放弦の目標周波数（Hz、基準ピッチ反映済み） */
+  targetFrequency: number;
+  /** 目標周波数からのずれ（セント） */
+  stringCents: number;
+}
+
+// =============================================================================
+// Constants - 定数
+// =============================================================================
+
+/**
+ * 基準ピッチ A4 の標準値（Hz）
+ */
+export const DEFAULT_REFERENCE_PITCH = 440;
+
+/**
+ * 設定できる基準ピッチの範囲（Hz）
+ */
+export const REFERENCE_PITCH_RANGE = { min: 430, max: 450 } as const;
+
+/**
+ * 合っているとみなすずれ（セント）
+ */
+export const IN_TUNE_CENTS = 5;
+
+/**
+ * 検出オプションのデフォルト値（低音弦のドロップチューニングから高音弦の高フレットまで）
+ */
+const DEFAULT_DETECTION_OPTIONS: Required<PitchDetectionOptions> = {
+  minFrequency: 60,
+  maxFrequency: 1000,
+  threshold: 0.15,
+};
+
+// =============================================================================
+// Pitch Detection - ピッチ検出
+// =============================================================================
+
+/**
+ * 2つの周波数の差をセントで求める
+ *
+ * @param frequency 周波数（Hz）
+ * @param reference 基準の周波数（Hz）
+ * @returns frequency が reference より高ければ正
+ */
+export const getCentsOffset = (frequency: number, reference: number): number => {
+  return 1200 * Math.log2(frequency / reference);
+};
+
+/**
+ * 1フレームの基本周波数を求める（YIN法）
+ *
+ * 差分関数を累積平均で正規化し、閾値を下回る最初の谷を周期とする。
+ * 谷の位置は放物線補間で小数精度にする
+ *
+ * @param frame PCMフレーム（モノラル、-1〜1）
+ * @param sampleRate サンプリングレート（Hz）
+ * @param options 検出範囲と閾値
+ * @returns 検出結果（無音・周期が見つからない場合は null）
+ */
+export const detectPitch = (
+  frame: Float32Array,
+  sampleRate: number,
+  options: PitchDetectionOptions = {}
+): PitchDetectionResult | null => {
+  const { minFrequency, maxFrequency, threshold } = { ...DEFAULT_DETECTION_OPTIONS, ...options };
+
+  if (getRms(frame) < SILENCE_RMS_THRESHOLD) return null;
+
+  const minPeriod = Math.max(2, Math.floor(sampleRate / maxFrequency));
+  const maxPeriod = Math.ceil(sampleRate / minFrequency);
+  const windowSize = frame.length - maxPeriod - 1;
+  if (windowSize <= 0 || minPeriod >= maxPeriod) return null;
+
+  // 累積平均正規化差分関数
+  const normalized = new Float32Array(maxPeriod + 2);
+  normalized[0] = 1;
+  let runningSum = 0;
+  for (let tau = 1; tau <= maxPeriod + 1; tau++) {
+    let difference = 0;
+    for (let i = 0; i < windowSize; i++) {
+      const delta = frame[i] - frame[i + tau];
+      difference += delta * delta;
+    }
+    runningSum += difference;
+    normalized[tau] = runningSum > 0 ? (difference * tau) / runningSum : 1;
+  }
+
+  // 閾値を下回る最初の谷
+  let period = -1;
+  for (let tau = minPeriod; tau <= maxPeriod; tau++) {
+    if (normalized[tau] < threshold) {
+      while (tau + 1 <= maxPeriod && normalized[tau + 1] < normalized[tau]) tau++;
+      period = tau;
+      break;
+    }
+  }
+  if (period < 0) return null;
+
+  // 放物線補間
+  const previous = normalized[period - 1];
+  const current = normalized[period];
+  const next = normalized[period + 1];
+  const denominator = previous - 2 * current + next;
+  const shift = denominator !== 0 ? (previous - next) / (2 * denominator) : 0;
+  const refinedPeriod = period + Math.max(-1, Math.min(1, shift));
+
+  return {
+    frequency: sampleRate / refinedPeriod,
+    clarity: Math.max(0, Math.min(1, 1 - current)),
+  };
+};
+
+// =============================================================================
+// Tuner Reading - チューナー表示
+// =============================================================================
+
+/**
+ * 検出した周波数からチューナーの表示内容を求める
+ *
+ * 目標の弦は、基準ピッチを反映したチューニングの開放弦のうち最も近いもの
+ *
+ * @param frequency 検出した周波数（Hz）
+ * @param tuning 目標のチューニング
+ * @param referencePitch 基準ピッチ A4 の周波数（Hz）
+ * @returns 表示内容
+ */
+export const getTunerReading = (
+  frequency: number,
+  tuning: Tuning,
+  referencePitch: number = DEFAULT_REFERENCE_PITCH
+): TunerReading => {
+  const note = getNoteName(frequency, referencePitch) as NoteName;
+  const semitonesFromA4 = Math.round(12 * Math.log2(frequency / referencePitch));
+  // MIDIノート番号（A4 = 69）からオクターブを求める
+  const octave = Math.floor((69 + semitonesFromA4) / 12) - 1;
+  const cents = getCentsOffset(frequency, AudioUtils.noteToFrequency(note, octave, referencePitch));
+
+  // チューニングの周波数は A4 = 440Hz 基準なので基準ピッチに合わせて補正
+  const targets = tuning.frequencies.map(target => (target * referencePitch) / DEFAULT_REFERENCE_PITCH);
+  const stringIndex = targets.reduce(
+    (best, target, index) =>
+      Math.abs(getCentsOffset(frequency, target)) < Math.abs(getCentsOffset(frequency, targets[best]))
+        ? index
+        : best,
+    0
+  );
+
+  return {
+    frequency,
+    note,
+    octave,
+    cents,
+    stringNumber: 6 - stringIndex,
+    targetFrequency: targets[stringIndex],
+    stringCents: getCentsOffset(frequency, targets[stringIndex]),
+  };
+};
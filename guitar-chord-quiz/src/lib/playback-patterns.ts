@@ -0,0 +1,140 @@
+/**
+ * Chord Playback Patterns
+ *
+ * @description ストローク・アルペジオ・フィンガーピッキングの発音タイミング計算
+ * @author Claude Code
+ */
+
+import { ChordPlaybackSettings, ChordPlaybackStyle } from '../types';
+
+// =============================================================================
+// Types - 型定義
+// =============================================================================
+
+/**
+ * 発音する1音
+ */
+export interface PlaybackNote {
+  /** 弦インデックス（0 = 6弦） */
+  stringIndex: number;
+  /** フレット位置 */
+  fret: number;
+  /** 再生開始からの時間（秒） */
+  time: number;
+}
+
+/**
+ * フィンガーピッキングで弾く弦の指定
+ * 鳴らす弦を低音側から数えるか（low）、高音側から数えるか（high）で指定する
+ */
+interface PickTarget {
+  from: 'low' | 'high';
+  index: number;
+}
+
+// =============================================================================
+// Constants - 定数
+// =============================================================================
+
+/**
+ * 再生方法の表示名
+ */
+export const PLAYBACK_STYLE_LABELS: Record<ChordPlaybackStyle, string> = {
+  down: 'ダウンストローク',
+  up: 'アップストローク',
+  arpeggio: 'アルペジオ',
+  block: '同時に鳴らす',
+  travis: 'トラヴィス',
+  pima: 'PIMA',
+};
+
+/**
+ * ストローク速度の選択肢（弦ごとの間隔、ミリ秒）
+ */
+export const STRUM_SPEED_OPTIONS = [
+  { label: '速い', value: 10 },
+  { label: '普通', value: 20 },
+  { label: 'ゆっくり', value: 60 },
+] as const;
+
+/**
+ * デフォルトの再生設定
+ */
+export const DEFAULT_PLAYBACK_SETTINGS: ChordPlaybackSettings = {
+  style: 'down',
+  strumSpeed: 20,
+  arpeggioInterval: 250,
+};
+
+/**
+ * フィンガーピッキングのパターン（1拍ごとに弾く弦）
+ *
+ * - travis: 親指が最低音と3番目の低音を交互に弾き、人差し指・中指が高音2弦を弾く
+ * - pima: 親指(p)・人差し指(i)・中指(m)・薬指(a)の順に低音から高音へ
+ */
+const FINGERPICKING_PATTERNS: Record<'travis' | 'pima', PickTarget[]> = {
+  travis: [
+    { from: 'low', index: 0 },
+    { from: 'high', index: 1 },
+    { from: 'low', index: 2 },
+    { from: 'high', index: 0 },
+    { from: 'low', index: 0 },
+    { from: 'high', index: 1 },
+    { from: 'low', index: 2 },
+    { from: 'high', index: 0 },
+  ],
+  pima: [
+    { from: 'low', index: 0 },
+    { from: 'high', index: 2 },
+    { from: 'high', index: 1 },
+    { from: 'high', index: 0 },
+  ],
+};
+
+// =============================================================================
+// Scheduling - 発音タイミング
+// =============================================================================
+
+/**
+ * 押弦パターンの発音タイミングを計算
+ *
+ * ミュート弦（null）はどの再生方法でも発音せず、間隔にも数えない
+ *
+ * @param frets 各弦のフレット位置（6弦→1弦）
+ * @param settings 再生設定
+ * @returns 発音する音（時間順）
+ */
+export const getPlaybackSchedule = (
+  frets: (number | null)[],
+  settings: ChordPlaybackSettings
+): PlaybackNote[] => {
+  // 鳴らす弦（低音弦→高音弦）
+  const sounding = frets.flatMap((fret, stringIndex) =>
+    fret === null ? [] : [{ stringIndex, fret }]
+  );
+  if (sounding.length === 0) return [];
+
+  const strumGap = settings.strumSpeed / 1000;
+  const noteGap = settings.arpeggioInterval / 1000;
+
+  switch (settings.style) {
+    case 'block':
+      return sounding.map(note => ({ ...note, time: 0 }));
+    case 'up':
+      return [...sounding].reverse().map((note, i) => ({ ...note, time: i * strumGap }));
+    case 'arpeggio':
+      return sounding.map((note, i) => ({ ...note, time: i * noteGap }));
+    case 'travis':
+    case 'pima': {
+      // 鳴らす弦が少ない場合は端の弦に寄せる
+      const last = sounding.length - 1;
+      return FINGERPICKING_PATTERNS[settings.style].map((target, i) => {
+        const index = Math.min(target.index, last);
+        return { ...sounding[target.from === 'low' ? index : last - index], time: i * noteGap };
+      });
+    }
+    case 'down':
+    default:
+      return sounding.map((note, i) => ({ ...note, time: i * strumGap }));
+  }
+};
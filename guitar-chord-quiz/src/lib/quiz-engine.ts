@@ -0,0 +1,382 @@
+/**
+ * Quiz Engine
+ *
+ * @description クイズ進行のreducer（Reactに依存しない純粋関数）と、差し替え可能な出題元・スコア計算
+ * @author Claude Code
+ */
+
+import { ChordPattern, DifficultyLevel, GameMode, QuizAction, QuizState } from '../types';
+import { ChordAnswerResult } from './chord-symbols';
+import { GAME_MODES, GameOverReason, getGameOverReason } from './game-modes';
+
+// =============================================================================
+// Types - 型定義
+// =============================================================================
+
+/**
+ * クイズの進行状態
+ * - idle: 開始前
+ * - playing: 出題中（回答待ち）
+ * - answered: 回答済み（結果表示中）
+ * - finished: 終了（終了条件を満たした・出題できるコードがない・途中終了）
+ */
+export type QuizStatus = 'idle' | 'playing' | 'answered' | 'finished';
+
+/**
+ * クイズエンジンの状態
+ */
+export interface QuizEngineState extends QuizState {
+  /** 進行状態 */
+  status: QuizStatus;
+  /** 一時停止中か（経過時間が進まず、回答・ヒントを受け付けない） */
+  isPaused: boolean;
+  /** 最後の回答の判定結果 */
+  lastResult: ChordAnswerResult | null;
+  /** ゲームが終了した理由（ゲームモードの終了条件を満たすまではnull） */
+  gameOver: GameOverReason | null;
+  /** 出題番号（1始まり。スキップした問題も数える） */
+  questionNumber: number;
+  /** 現在の問題の経過時間（秒） */
+  questionTime: number;
+  /** ゲーム全体の経過時間（ミリ秒。timeElapsedはこの秒単位の切り捨て） */
+  timeElapsedMs: number;
+  /** 現在の問題の経過時間（ミリ秒。questionTimeはこの秒単位の切り捨て） */
+  questionTimeMs: number;
+  /** ゲーム全体で使用したヒント数（hintsUsedは問題ごと） */
+  totalHintsUsed: number;
+  /** 最高連続正解数 */
+  bestStreak: number;
+}
+
+/**
+ * スコア計算に使う回答の情報
+ */
+export interface ScoringContext {
+  /** 判定結果 */
+  result: ChordAnswerResult;
+  /** 回答までの時間（秒） */
+  questionTime: number;
+  /** この問題で使用したヒント数 */
+  hintsUsed: number;
+  /** 回答前の連続正解数 */
+  streak: number;
+  /** 難易度 */
+  difficulty: DifficultyLevel;
+}
+
+/**
+ * スコア計算方法（回答1回の得点を返す）
+ */
+export type ScoringPolicy = (context: ScoringContext) => number;
+
+/**
+ * 出題元（次に出題するコードを選ぶ。ランダム・復習優先などを差し替える）
+ */
+export interface ChordQuestionSource {
+  /** 次の出題コード（出題できるコードがない場合はnull） */
+  next: (state: QuizEngineState) => ChordPattern | null;
+}
+
+/**
+ * クイズエンジンの設定
+ */
+export interface QuizEngineConfig {
+  /** ゲームモード（終了条件） */
+  gameMode: GameMode;
+  /** スコア計算方法 */
+  scoring: ScoringPolicy;
+  /** 1問あたりのヒントの上限 */
+  maxHints: number;
+  /** 問題数（指定するとゲームモードの問題数より優先） */
+  questionLimit?: number;
+}
+
+// =============================================================================
+// Constants - 定数
+// =============================================================================
+
+/**
+ * 難易度ごとの基本スコア
+ */
+const BASE_SCORES: Record<DifficultyLevel, number> = {
+  beginner: 10,
+  intermediate: 15,
+  advanced: 20,
+};
+
+/**
+ * 部分正解（ルート音のみ正解）で得られる基本スコアの割合
+ */
+const PARTIAL_CREDIT_RATIO = 0.5;
+
+/**
+ * 標準のスコア計算
+ *
+ * 基本スコア（難易度別）＋時間ボーナス（30秒以内）＋連続正解ボーナス（上限20）−ヒント1回につき2点。
+ * 部分正解は基本スコアの半分のみ（ボーナスなし）、不正解は0点
+ */
+export const standardScoring: ScoringPolicy = ({ result, questionTime, hintsUsed, streak, difficulty }) => {
+  if (result === 'incorrect') return 0;
+
+  const baseScore = BASE_SCORES[difficulty];
+  if (result === 'partial') return Math.floor(baseScore * PARTIAL_CREDIT_RATIO);
+
+  const timeBonus = Math.max(0, Math.floor((30 - questionTime) / 3));
+  const streakBonus = Math.min(streak * 2, 20);
+  const hintPenalty = hintsUsed * 2;
+
+  return Math.max(1, baseScore + timeBonus + streakBonus - hintPenalty);
+};
+
+/**
+ * 既定のクイズエンジン設定
+ */
+export const DEFAULT_QUIZ_ENGINE_CONFIG: QuizEngineConfig = {
+  gameMode: 'endless',
+  scoring: standardScoring,
+  maxHints: 3,
+};
+
+// =============================================================================
+// Question Sources - 出題元
+// =============================================================================
+
+/**
+ * 候補からランダムに出題する出題元（候補が2つ以上なら直前のコードを避ける）
+ *
+ * @param chords 出題候補
+ * @param random 乱数（0以上1未満。テスト用に差し替え可能）
+ */
+export const createRandomQuestionSource = (
+  chords: ChordPattern[],
+  random: () => number = Math.random
+): ChordQuestionSource => ({
+  next: state => {
+    const candidates = chords.length > 1 && state.currentChord
+      ? chords.filter(chord => chord !== state.currentChord)
+      : chords;
+    return candidates.length > 0 ? candidates[Math.floor(random() * candidates.length)] : null;
+  },
+});
+
+// =============================================================================
+// Reducer - 状態遷移
+// =============================================================================
+
+/**
+ * 初期状態を生成
+ */
+export const createQuizEngineState = (difficulty: DifficultyLevel): QuizEngineState => ({
+  currentChord: null,
+  userAnswer: null,
+  score: 0,
+  streak: 0,
+  totalAnswers: 0,
+  correctAnswers: 0,
+  timeElapsed: 0,
+  difficulty,
+  hintsUsed: 0,
+  isGameActive: false,
+  currentRound: 0,
+  status: 'idle',
+  isPaused: false,
+  lastResult: null,
+  gameOver: null,
+  questionNumber: 0,
+  questionTime: 0,
+  timeElapsedMs: 0,
+  questionTimeMs: 0,
+  totalHintsUsed: 0,
+  bestStreak: 0,
+});
+
+/**
+ * 終了条件の判定（設定の問題数を優先）
+ */
+const getEngineGameOverReason = (state: QuizEngineState, config: QuizEngineConfig): GameOverReason | null => {
+  if (config.questionLimit !== undefined && state.totalAnswers >= config.questionLimit) return 'questions';
+  return getGameOverReason(config.gameMode, state);
+};
+
+/**
+ * ゲームを終了した状態
+ */
+const finish = (state: QuizEngineState): QuizEngineState => ({
+  ...state,
+  status: 'finished',
+  isGameActive: false,
+  isPaused: false,
+});
+
+/**
+ * 経過時間を進め、制限時間を過ぎていれば終了した状態
+ *
+ * @param elapsedMs 前回計測してからの経過時間（ミリ秒）
+ */
+const advanceClock = (state: QuizEngineState, elapsedMs: number, config: QuizEngineConfig): QuizEngineState => {
+  const timeElapsedMs = state.timeElapsedMs + Math.max(0, elapsedMs);
+  const questionTimeMs = state.questionTimeMs + Math.max(0, elapsedMs);
+  const advanced: QuizEngineState = {
+    ...state,
+    timeElapsedMs,
+    questionTimeMs,
+    timeElapsed: Math.floor(timeElapsedMs / 1000),
+    questionTime: Math.floor(questionTimeMs / 1000),
+  };
+  const gameOver = getEngineGameOverReason(advanced, config);
+  return gameOver ? finish({ ...advanced, gameOver }) : advanced;
+};
+
+/**
+ * 新しい問題を出題した状態
+ */
+const presentChord = (state: QuizEngineState, chord: ChordPattern): QuizEngineState => ({
+  ...state,
+  currentChord: chord,
+  userAnswer: null,
+  hintsUsed: 0,
+  questionTime: 0,
+  questionTimeMs: 0,
+  lastResult: null,
+  status: 'playing',
+  questionNumber: state.questionNumber + 1,
+});
+
+/**
+ * クイズの状態遷移
+ *
+ * 受け付けられない状態のアクション（結果表示中の回答・一時停止中のヒント・回答前のNEXT_CHORDなど）は無視する。
+ * 経過時間はTICK・SUBMIT_ANSWER・SKIP_CHORDのelapsedMsで進み、制限時間を過ぎた時点で終了する
+ *
+ * @param state 現在の状態
+ * @param action アクション
+ * @param config エンジン設定
+ * @returns 次の状態
+ *
+ * @example
+ * ```typescript
+ * let state = createQuizEngineState('beginner');
+ * state = quizReducer(state, { type: 'START_QUIZ', difficulty: 'beginner', chord: c });
+ * state = quizReducer(state, { type: 'SUBMIT_ANSWER', answer: 'C', result: 'correct' });
+ * state.score; // 20
+ * ```
+ */
+export const quizReducer = (
+  state: QuizEngineState,
+  action: QuizAction,
+  config: QuizEngineConfig = DEFAULT_QUIZ_ENGINE_CONFIG
+): QuizEngineState => {
+  const isInGame = state.status === 'playing' || state.status === 'answered';
+
+  switch (action.type) {
+    case 'START_QUIZ':
+      return presentChord({
+        ...createQuizEngineState(action.difficulty),
+        isGameActive: true,
+        currentRound: state.currentRound + 1,
+      }, action.chord);
+
+    case 'SUBMIT_ANSWER': {
+      if (state.status !== 'playing' || state.isPaused) return state;
+
+      // 制限時間を過ぎてからの回答は採点しない
+      const timed = advanceClock(state, action.elapsedMs ?? 0, config);
+      if (timed.status === 'finished') return timed;
+
+      const isCorrect = action.result === 'correct';
+      const points = config.scoring({
+        result: action.result,
+        questionTime: timed.questionTime,
+        hintsUsed: timed.hintsUsed,
+        streak: timed.streak,
+        difficulty: timed.difficulty,
+      });
+      const streak = isCorrect ? timed.streak + 1 : 0;
+      const answered: QuizEngineState = {
+        ...timed,
+        userAnswer: action.answer,
+        score: timed.score + points,
+        streak,
+        bestStreak: Math.max(timed.bestStreak, streak),
+        totalAnswers: timed.totalAnswers + 1,
+        correctAnswers: timed.correctAnswers + (isCorrect ? 1 : 0),
+        lastResult: action.result,
+        status: 'answered',
+      };
+      return { ...answered, gameOver: getEngineGameOverReason(answered, config) };
+    }
+
+    case 'USE_HINT':
+      if (state.status !== 'playing' || state.isPaused || state.hintsUsed >= config.maxHints) return state;
+      return {
+        ...state,
+        hintsUsed: state.hintsUsed + 1,
+        totalHintsUsed: state.totalHintsUsed + 1,
+      };
+
+    case 'NEXT_CHORD':
+      if (state.status !== 'answered' || state.isPaused) return state;
+      if (state.gameOver || !action.chord) return finish(state);
+      return presentChord(state, action.chord);
+
+    case 'SKIP_CHORD': {
+      if (state.status !== 'playing' || state.isPaused || !GAME_MODES[config.gameMode].allowSkip) return state;
+
+      const timed = advanceClock(state, action.elapsedMs ?? 0, config);
+      if (timed.status === 'finished') return timed;
+      return action.chord ? presentChord(timed, action.chord) : finish(timed);
+    }
+
+    case 'CHANGE_DIFFICULTY':
+      if (state.status !== 'playing' || !action.chord) {
+        return { ...state, difficulty: action.difficulty };
+      }
+      return {
+        ...state,
+        difficulty: action.difficulty,
+        currentChord: action.chord,
+        hintsUsed: 0,
+        questionTime: 0,
+        questionTimeMs: 0,
+      };
+
+    case 'TICK':
+      if (state.status !== 'playing' || state.isPaused) return state;
+      return advanceClock(state, action.elapsedMs ?? 1000, config);
+
+    case 'PAUSE_QUIZ':
+      return isInGame ? { ...state, isPaused: true } : state;
+
+    case 'RESUME_QUIZ':
+      return isInGame ? { ...state, isPaused: false } : state;
+
+    case 'END_QUIZ':
+      return state.status === 'idle' ? state : finish(state);
+
+    case 'RESET_QUIZ':
+      return createQuizEngineState(action.difficulty);
+
+    default:
+      return state;
+  }
+};
+
+/**
+ * 設定を固定したreducerを作成（useReducer用）
+ */
+export const createQuizReducer = (config: QuizEngineConfig) =>
+  (state: QuizEngineState, action: QuizAction): QuizEngineState => quizReducer(state, action, config);
+
+/**
+ * アクションの記録からゲームを再現
+ *
+ * @param actions アクションの記録（発生順）
+ * @param config エンジン設定
+ * @param initialState 初期状態（省略時は初級の開始前の状態）
+ * @returns 最後のアクションを処理した後の状態
+ */
+export const replayQuiz = (
+  actions: QuizAction[],
+  config: QuizEngineConfig = DEFAULT_QUIZ_ENGINE_CONFIG,
+  initialState: QuizEngineState = createQuizEngineState('beginner')
+): QuizEngineState => actions.reduce((state, action) => quizReducer(state, action, config), initialState);
@@ -0,0 +1,136 @@
+/**
+ * Quiz Session
+ *
+ * @description 途中のゲーム（セッション）の保存・再開（リロードやタブを閉じても続きから遊べる）
+ * @author Claude Code
+ */
+
+import { ChordSelectionMode, DifficultyLevel, GameMode, QuizMode } from '../types';
+import { GAME_MODES } from './game-modes';
+import { QuizEngineState } from './quiz-engine';
+
+// =============================================================================
+// Types - 型定義
+// =============================================================================
+
+/**
+ * セッションの開始条件（再開時に同じ条件でゲームを組み立てる）
+ */
+export interface QuizSessionConfig {
+  /** 難易度 */
+  difficulty: DifficultyLevel;
+  /** 出題コードの選び方 */
+  selectionMode: ChordSelectionMode;
+  /** 出題形式（逆引きクイズは保存しない） */
+  quizMode: Exclude<QuizMode, 'reverse'>;
+  /** ゲームモード */
+  gameMode: GameMode;
+  /** 出題対象のデッキID（組み込みコードならnull） */
+  deckId: string | null;
+}
+
+/**
+ * 保存されたセッション
+ */
+export interface QuizSession {
+  /** 開始条件 */
+  config: QuizSessionConfig;
+  /** クイズエンジンの状態 */
+  state: QuizEngineState;
+  /** 保存日時（ISO文字列） */
+  savedAt: string;
+}
+
+/**
+ * セッションの進行状況（再開画面の表示用）
+ */
+export interface QuizSessionProgress {
+  /** 出題番号 */
+  questionNumber: number;
+  /** 問題数（制限のないモードはnull） */
+  questionLimit: number | null;
+  /** 回答数 */
+  totalAnswers: number;
+  /** 正解数 */
+  correctAnswers: number;
+  /** スコア */
+  score: number;
+  /** 経過時間（秒） */
+  timeElapsed: number;
+}
+
+// =============================================================================
+// Main Functions - メイン関数
+// =============================================================================
+
+/**
+ * 再開できる状態か（出題中・回答済みで、終了条件を満たしていない）
+ */
+export const isResumableState = (state: QuizEngineState): boolean =>
+  (state.status === 'playing' || state.status === 'answered') &&
+  state.currentChord !== null &&
+  state.gameOver === null;
+
+/**
+ * セッションを保存し直す変化か（出題・回答・ヒント・一時停止など。経過時間だけの変化は含まない）
+ *
+ * @param previous 最後に保存した状態（未保存ならnull）
+ * @param state 現在の状態
+ */
+export const isSessionCheckpoint = (previous: QuizEngineState | null, state: QuizEngineState): boolean =>
+  previous === null ||
+  previous.currentRound !== state.currentRound ||
+  previous.status !== state.status ||
+  previous.isPaused !== state.isPaused ||
+  previous.questionNumber !== state.questionNumber ||
+  previous.totalAnswers !== state.totalAnswers ||
+  previous.hintsUsed !== state.hintsUsed ||
+  previous.difficulty !== state.difficulty;
+
+/**
+ * セッションを作成
+ *
+ * @param config 開始条件
+ * @param state クイズエンジンの状態
+ * @param now 保存日時
+ */
+export const createQuizSession = (
+  config: QuizSessionConfig,
+  state: QuizEngineState,
+  now: Date = new Date()
+): QuizSession => ({
+  config,
+  state,
+  savedAt: now.toISOString(),
+});
+
+/**
+ * 保存されたセッションからゲームの状態を復元
+ *
+ * 答えを見られないよう一時停止した状態で復元し、再開するまで経過時間を進めない。
+ * ミリ秒の経過時間がない以前のセッションは秒から補う
+ *
+ * @example
+ * ```typescript
+ * const state = restoreSessionState(session); // state.isPaused === true
+ * ```
+ */
+export const restoreSessionState = (session: QuizSession): QuizEngineState => ({
+  ...session.state,
+  timeElapsedMs: session.state.timeElapsedMs ?? session.state.timeElapsed * 1000,
+  questionTimeMs: session.state.questionTimeMs ?? session.state.questionTime * 1000,
+  isGameActive: true,
+  isPaused: true,
+});
+
+/**
+ * セッションの進行状況
+ */
+export const getSessionProgress = ({ config, state }: QuizSession): QuizSessionProgress => ({
+  questionNumber: state.questionNumber,
+  questionLimit: GAME_MODES[config.gameMode].questionLimit ?? null,
+  totalAnswers: state.totalAnswers,
+  correctAnswers: state.correctAnswers,
+  score: state.score,
+  timeElapsed: state.timeElapsed,
+});
@@ -0,0 +1,263 @@
+/**
+ * Spaced Repetition Scheduler
+ *
+ * @description SM-2アルゴリズムによるコード復習スケジューラー
+ * @author Claude Code
+ */
+
+import { ChordPattern, TuningId } from '../types';
+
+// =============================================================================
+// Types - 型定義
+// =============================================================================
+
+/**
+ * 復習アイテム - コードごとの学習状態
+ */
+export interface ReviewItem {
+  /** コード識別キー（getChordKeyで生成） */
+  chordKey: string;
+  /** 易しさ係数（SM-2のEF、最小1.3） */
+  easeFactor: number;
+  /** 次回までの間隔（日） */
+  interval: number;
+  /** 連続正解回数 */
+  repetitions: number;
+  /** 不正解で学習し直した回数 */
+  lapses: number;
+  /** 次回復習日時（ISO文字列） */
+  dueDate: string;
+  /** 最終復習日時（ISO文字列） */
+  lastReviewed: string | null;
+}
+
+/**
+ * 復習スケジュール - コード識別キーごとの復習アイテム
+ */
+export type ReviewSchedule = Record<string, ReviewItem>;
+
+/**
+ * 回答品質（SM-2の0〜5評価、3以上が正解扱い）
+ */
+export type ReviewQuality = 0 | 1 | 2 | 3 | 4 | 5;
+
+// =============================================================================
+// Constants - 定数定義
+// =============================================================================
+
+/**
+ * SM-2パラメータ
+ */
+export const SM2_CONSTANTS = {
+  /** 初期易しさ係数 */
+  INITIAL_EASE: 2.5,
+  /** 易しさ係数の下限 */
+  MIN_EASE: 1.3,
+  /** 1回目の正解後の間隔（日） */
+  FIRST_INTERVAL: 1,
+  /** 2回目の正解後の間隔（日） */
+  SECOND_INTERVAL: 6,
+  /** 正解とみなす最低品質 */
+  PASSING_QUALITY: 3,
+} as const;
+
+/**
+ * 回答時間による品質判定の閾値（秒）
+ */
+const RESPONSE_TIME_THRESHOLDS = {
+  /** これ以内なら即答（品質5） */
+  FAST: 5,
+  /** これ以内なら通常（品質4）、超えると品質3 */
+  NORMAL: 15,
+} as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// =============================================================================
+// Utility Functions - ユーティリティ関数
+// =============================================================================
+
+/**
+ * コードの識別キーを生成
+ * 同名コードでもチューニングが異なれば別アイテムとして扱う
+ *
+ * @param chord コードパターン
+ * @returns 識別キー（例: "Am", "D@dropD"）
+ */
+export const getChordKey = (chord: Pick<ChordPattern, 'name' | 'tuning'>): string => {
+  return chord.tuning && chord.tuning !== 'standard'
+    ? `${chord.name}@${chord.tuning}`
+    : chord.name;
+};
+
+/**
+ * 識別キーからコードのチューニングを取得（getChordKeyの逆）
+ *
+ * @param chordKey コード識別キー
+ * @returns チューニング（例: "Am" → "standard", "D@dropD" → "dropD"）
+ */
+export const getChordKeyTuning = (chordKey: string): string => {
+  const separator = chordKey.indexOf('@');
+  return separator === -1 ? 'standard' : chordKey.slice(separator + 1);
+};
+
+/**
+ * 新しい復習アイテムを作成（即時復習対象）
+ *
+ * @param chordKey コード識別キー
+ * @param now 基準日時
+ * @returns 復習アイテム
+ */
+export const createReviewItem = (chordKey: string, now: Date = new Date()): ReviewItem => ({
+  chordKey,
+  easeFactor: SM2_CONSTANTS.INITIAL_EASE,
+  interval: 0,
+  repetitions: 0,
+  lapses: 0,
+  dueDate: now.toISOString(),
+  lastReviewed: null,
+});
+
+/**
+ * 回答結果からSM-2の品質を算出
+ *
+ * @param isCorrect 正解かどうか
+ * @param responseTime 回答時間（秒）
+ * @param hintsUsed 使用したヒント数
+ * @returns 回答品質（0〜5）
+ */
+export const getReviewQuality = (
+  isCorrect: boolean,
+  responseTime: number,
+  hintsUsed: number = 0
+): ReviewQuality => {
+  if (!isCorrect) return hintsUsed > 0 ? 0 : 1;
+  if (hintsUsed > 0) return 3;
+  if (responseTime <= RESPONSE_TIME_THRESHOLDS.FAST) return 5;
+  if (responseTime <= RESPONSE_TIME_THRESHOLDS.NORMAL) return 4;
+  return 3;
+};
+
+/**
+ * 回答品質に応じて次回の復習をスケジュール
+ *
+ * 不正解の場合は連続正解をリセットし、その場で再出題対象にする
+ *
+ * @param item 現在の復習アイテム
+ * @param quality 回答品質
+ * @param now 回答日時
+ * @returns 更新後の復習アイテム
+ */
+export const scheduleReview = (
+  item: ReviewItem,
+  quality: ReviewQuality,
+  now: Date = new Date()
+): ReviewItem => {
+  // 易しさ係数の更新（SM-2の標準式）
+  const penalty = 5 - quality;
+  const easeFactor = Math.max(
+    SM2_CONSTANTS.MIN_EASE,
+    item.easeFactor + (0.1 - penalty * (0.08 + penalty * 0.02))
+  );
+
+  if (quality < SM2_CONSTANTS.PASSING_QUALITY) {
+    return {
+      ...item,
+      easeFactor,
+      interval: 0,
+      repetitions: 0,
+      lapses: item.lapses + 1,
+      dueDate: now.toISOString(),
+      lastReviewed: now.toISOString(),
+    };
+  }
+
+  const repetitions = item.repetitions + 1;
+  const interval =
+    repetitions === 1 ? SM2_CONSTANTS.FIRST_INTERVAL :
+    repetitions === 2 ? SM2_CONSTANTS.SECOND_INTERVAL :
+    Math.round(item.interval * easeFactor);
+
+  return {
+    ...item,
+    easeFactor,
+    interval,
+    repetitions,
+    dueDate: new Date(now.getTime() + interval * DAY_MS).toISOString(),
+    lastReviewed: now.toISOString(),
+  };
+};
+
+/**
+ * 復習期限が来ているか判定
+ */
+export const isDue = (item: ReviewItem, now: Date = new Date()): boolean => {
+  return new Date(item.dueDate).getTime() <= now.getTime();
+};
+
+/**
+ * 期限切れの復習アイテムを取得（期限の古い順、同じなら苦手な順）
+ *
+ * @param schedule 復習スケジュール
+ * @param now 基準日時
+ * @returns 復習対象アイテム一覧
+ */
+export const getDueItems = (schedule: ReviewSchedule, now: Date = new Date()): ReviewItem[] => {
+  return Object.values(schedule)
+    .filter(item => isDue(item, now))
+    .sort((a, b) =>
+      new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime() ||
+      a.easeFactor - b.easeFactor
+    );
+};
+
+/**
+ * 今日中に復習期限が来るアイテム数を取得
+ *
+ * @param schedule 復習スケジュール
+ * @param now 基準日時
+ * @param tuning 数えるコードのチューニング（省略時はすべて。復習モードは現在のチューニングのコードから出題する）
+ * @returns 今日の復習対象数
+ */
+export const countDueToday = (
+  schedule: ReviewSchedule,
+  now: Date = new Date(),
+  tuning?: TuningId
+): number => {
+  const endOfDay = new Date(now);
+  endOfDay.setHours(23, 59, 59, 999);
+  return getDueItems(schedule, endOfDay)
+    .filter(item => !tuning || getChordKeyTuning(item.chordKey) === tuning)
+    .length;
+};
+
+/**
+ * 次に出題するコードを選択
+ *
+ * 優先順位: 期限切れの復習アイテム → 未学習のコード → null（呼び出し側でランダム選択）
+ *
+ * @param schedule 復習スケジュール
+ * @param candidates 出題候補のコード
+ * @param now 基準日時
+ * @param excludeKey 直前に出題したコードのキー（連続出題を避ける）
+ * @returns 出題するコード（該当なしの場合はnull）
+ */
+export const selectNextReviewChord = <T extends Pick<ChordPattern, 'name' | 'tuning'>>(
+  schedule: ReviewSchedule,
+  candidates: T[],
+  now: Date = new Date(),
+  excludeKey?: string
+): T | null => {
+  const byKey = new Map(candidates.map(chord => [getChordKey(chord), chord]));
+  const isSelectable = (key: string) => byKey.has(key) && key !== excludeKey;
+
+  const due = getDueItems(schedule, now).find(item => isSelectable(item.chordKey));
+  if (due) return byKey.get(due.chordKey) ?? null;
+
+  const unseen = Array.from(byKey.keys()).filter(key => !schedule[key] && isSelectable(key));
+  if (unseen.length > 0) {
+    return byKey.get(unseen[Math.floor(Math.random() * unseen.length)]) ?? null;
+  }
+
+  return null;
+};
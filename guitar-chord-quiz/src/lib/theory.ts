@@ -0,0 +1,637 @@
+/**
+ * Music Theory Engine
+ *
+ * @description 押弦位置からコードの構成音・インターバル・コード名候補を導出する音楽理論エンジン
+ * @author Claude Code
+ */
+
+import { ChordPattern, ChordQuality, FretboardNote, NoteName, StringState, Tuning } from '../types';
+import { STANDARD_TUNING } from '../data/tuning-presets';
+import { getStringFrequency, getNoteName, getStringState, getFretKey, parseFretKey } from './fretboard';
+
+// =============================================================================
+// Types - 型定義
+// =============================================================================
+
+/**
+ * 発音される1音の情報
+ */
+export interface SoundingNote {
+  /** 弦番号（1-6、1が最高音） */
+  stringNumber: number;
+  /** フレット番号（0 = 開放弦） */
+  fret: number;
+  /** 周波数（Hz） */
+  frequency: number;
+  /** 音名 */
+  note: NoteName;
+}
+
+/**
+ * 転回形の種類
+ *
+ * - root: 基本形（ルートがベース）
+ * - first / second / third: 第1〜第3転回形（3度・5度・7度がベース）
+ * - slash: それ以外のコードトーンがベース（例: Cadd9/D）
+ */
+export type ChordInversion = 'root' | 'first' | 'second' | 'third' | 'slash';
+
+/**
+ * コード名候補
+ */
+export interface ChordCandidate {
+  /** コード名（例: "Am7", "C/E"） */
+  name: string;
+  /** ルート音 */
+  root: NoteName;
+  /** コード品質 */
+  quality: ChordQuality;
+  /** コードシンボルのサフィックス（例: "m7", "add9"） */
+  suffix: string;
+  /** ベース音（最低音） */
+  bass: NoteName;
+  /** 転回形 */
+  inversion: ChordInversion;
+  /** ルートからのインターバル名（例: ["1", "b3", "5", "b7"]） */
+  intervals: string[];
+  /** 省略されたコードトーンのインターバル名 */
+  omitted: string[];
+  /** 候補の妥当性スコア（高いほど有力） */
+  score: number;
+}
+
+/**
+ * 押弦パターンの解析結果
+ */
+export interface ChordAnalysis {
+  /** 発音される音（低音弦から順） */
+  notes: SoundingNote[];
+  /** 構成音のピッチクラス（重複なし、低音から出現順） */
+  pitchClasses: NoteName[];
+  /** ベース音（発音がなければnull） */
+  bass: NoteName | null;
+  /** コード名候補（スコア降順） */
+  candidates: ChordCandidate[];
+}
+
+/**
+ * コードの構成音
+ */
+export interface ChordTones {
+  /** ルート音 */
+  root: NoteName;
+  /** 必須構成音 */
+  required: NoteName[];
+  /** 省略可能な構成音 */
+  optional: NoteName[];
+}
+
+/**
+ * 弦の状態の誤り（鳴らすべきでない弦を鳴らした・鳴らすべき弦をミュートした）
+ */
+export interface StringStateError {
+  /** 弦番号（1-6、1が最高音） */
+  stringNumber: number;
+  /** 出題コードでの状態 */
+  expected: StringState;
+  /** ユーザーの押弦での状態 */
+  actual: StringState;
+}
+
+/**
+ * ボイシング採点結果
+ */
+export interface VoicingGrade {
+  /** 正解かどうか */
+  isCorrect: boolean;
+  /** 押さえた音のピッチクラス */
+  playedNotes: NoteName[];
+  /** ルート音が含まれているか */
+  hasRoot: boolean;
+  /** 不足している必須構成音 */
+  missingNotes: NoteName[];
+  /** コードに含まれない音 */
+  wrongNotes: NoteName[];
+  /** 省略した任意構成音 */
+  omittedNotes: NoteName[];
+  /** 弦の状態の誤り */
+  stringErrors: StringStateError[];
+  /** 押弦から判定したコード名（判定不能ならnull） */
+  identifiedName: string | null;
+}
+
+/**
+ * 押弦位置の採点結果（スケール・アルペジオの穴埋め）
+ */
+export interface PositionGrade {
+  /** 正解かどうか（過不足なし） */
+  isCorrect: boolean;
+  /** 正しく押さえた位置の数 */
+  correctCount: number;
+  /** 押さえていない位置 */
+  missing: FretboardNote[];
+  /** 正解にない位置 */
+  extra: FretboardNote[];
+  /** 表示用の全位置（正解は元の表示、不足は missing、誤りは extra） */
+  notes: FretboardNote[];
+}
+
+/**
+ * コードテンプレート定義
+ */
+interface ChordTemplate {
+  /** コードシンボルのサフィックス */
+  suffix: string;
+  /** 対応するコード品質 */
+  quality: ChordQuality;
+  /** 必須インターバル（半音数） */
+  required: number[];
+  /** 省略可能インターバル（半音数） */
+  optional: number[];
+  /** テンプレートの優先度（小さいほど一般的） */
+  priority: number;
+}
+
+// =============================================================================
+// Constants - 定数定義
+// =============================================================================
+
+/**
+ * 12音の音名（シャープ表記）
+ */
+export const NOTE_NAMES: readonly NoteName[] = [
+  'C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'
+] as const;
+
+/**
+ * 半音数からインターバル名への対応表
+ */
+export const INTERVAL_NAMES: readonly string[] = [
+  '1', 'b2', '9', 'b3', '3', '4', 'b5', '5', '#5', '6', 'b7', '7'
+] as const;
+
+/**
+ * フラット表記からシャープ表記への対応表
+ */
+const FLAT_TO_SHARP: Record<string, NoteName> = {
+  'Cb': 'B',
+  'Db': 'C#',
+  'Eb': 'D#',
+  'Fb': 'E',
+  'Gb': 'F#',
+  'Ab': 'G#',
+  'Bb': 'A#',
+  'E#': 'F',
+  'B#': 'C',
+};
+
+/**
+ * コードテンプレート一覧
+ * 5度は7th系コードでのみ省略可能とする
+ */
+const CHORD_TEMPLATES: ChordTemplate[] = [
+  { suffix: '', quality: 'major', required: [0, 4, 7], optional: [], priority: 0 },
+  { suffix: 'm', quality: 'minor', required: [0, 3, 7], optional: [], priority: 0 },
+  { suffix: '7', quality: 'dominant7', required: [0, 4, 10], optional: [7], priority: 1 },
+  { suffix: 'maj7', quality: 'major7', required: [0, 4, 11], optional: [7], priority: 1 },
+  { suffix: 'm7', quality: 'minor7', required: [0, 3, 10], optional: [7], priority: 1 },
+  { suffix: 'sus2', quality: 'sus2', required: [0, 2, 7], optional: [], priority: 1 },
+  { suffix: 'sus4', quality: 'sus4', required: [0, 5, 7], optional: [], priority: 1 },
+  { suffix: 'dim', quality: 'diminished', required: [0, 3, 6], optional: [], priority: 2 },
+  { suffix: 'aug', quality: 'augmented', required: [0, 4, 8], optional: [], priority: 2 },
+  { suffix: 'add9', quality: 'major', required: [0, 2, 4, 7], optional: [], priority: 2 },
+  { suffix: 'madd9', quality: 'minor', required: [0, 2, 3, 7], optional: [], priority: 2 },
+  { suffix: '6', quality: 'major', required: [0, 4, 7, 9], optional: [], priority: 2 },
+  { suffix: 'm6', quality: 'minor', required: [0, 3, 7, 9], optional: [], priority: 2 },
+  { suffix: '7sus4', quality: 'sus4', required: [0, 5, 10], optional: [7], priority: 2 },
+  { suffix: '9', quality: 'dominant7', required: [0, 2, 4, 10], optional: [7], priority: 3 },
+  { suffix: 'maj9', quality: 'major7', required: [0, 2, 4, 11], optional: [7], priority: 3 },
+  { suffix: 'm9', quality: 'minor7', required: [0, 2, 3, 10], optional: [7], priority: 3 },
+  { suffix: 'm7b5', quality: 'diminished', required: [0, 3, 6, 10], optional: [], priority: 3 },
+  { suffix: 'dim7', quality: 'diminished', required: [0, 3, 6, 9], optional: [], priority: 3 },
+];
+
+/**
+ * 完全5度の半音数（ボイシング採点では常に省略可能）
+ */
+const PERFECT_FIFTH = 7;
+
+/**
+ * スコア計算用の重み
+ */
+const CANDIDATE_SCORING = {
+  BASE: 100,
+  INVERSION_PENALTY: 15,
+  SLASH_PENALTY: 25,
+  OMITTED_PENALTY: 5,
+  PRIORITY_PENALTY: 3,
+} as const;
+
+// =============================================================================
+// Note Utilities - 音名ユーティリティ
+// =============================================================================
+
+/**
+ * 音名をシャープ表記のNoteNameに正規化
+ *
+ * @param note 音名（例: "Bb", "C#", "e"）
+ * @returns 正規化された音名（解釈できない場合はnull）
+ *
+ * @example
+ * ```typescript
+ * toSharpNoteName('Bb'); // 'A#'
+ * toSharpNoteName('H');  // null
+ * ```
+ */
+export const toSharpNoteName = (note: string): NoteName | null => {
+  const trimmed = note.trim();
+  if (trimmed.length === 0) return null;
+
+  const normalized = trimmed.charAt(0).toUpperCase() + trimmed.slice(1);
+  if (FLAT_TO_SHARP[normalized]) return FLAT_TO_SHARP[normalized];
+
+  return NOTE_NAMES.includes(normalized as NoteName) ? (normalized as NoteName) : null;
+};
+
+/**
+ * 2音間の上行半音数を計算（0-11）
+ *
+ * @param from 基準音
+ * @param to 対象音
+ * @returns 半音数
+ */
+export const getSemitoneDistance = (from: NoteName, to: NoteName): number => {
+  const fromIndex = NOTE_NAMES.indexOf(from);
+  const toIndex = NOTE_NAMES.indexOf(to);
+  return ((toIndex - fromIndex) % 12 + 12) % 12;
+};
+
+/**
+ * 音名を半音単位で移調
+ *
+ * @param note 元の音名
+ * @param semitones 移調する半音数（負数可）
+ * @returns 移調後の音名
+ */
+export const transposeNote = (note: NoteName, semitones: number): NoteName => {
+  const index = NOTE_NAMES.indexOf(note);
+  return NOTE_NAMES[((index + semitones) % 12 + 12) % 12];
+};
+
+// =============================================================================
+// Analysis Functions - 解析関数
+// =============================================================================
+
+/**
+ * 押弦パターンから発音される音を取得
+ *
+ * @param frets 各弦のフレット位置（6弦から1弦、null = 発音しない）
+ * @param tuning チューニング（省略時は標準チューニング）
+ * @returns 発音される音のリスト（低音弦から順）
+ */
+export const getSoundingNotes = (
+  frets: (number | null)[],
+  tuning: Tuning = STANDARD_TUNING
+): SoundingNote[] => {
+  return frets.flatMap((fret, index) => {
+    if (fret === null) return [];
+
+    const stringNumber = 6 - index;
+    const frequency = getStringFrequency(stringNumber, fret, 0, tuning.frequencies);
+
+    return [{
+      stringNumber,
+      fret,
+      frequency,
+      note: getNoteName(frequency) as NoteName,
+    }];
+  });
+};
+
+/**
+ * 押弦パターンの構成音（ピッチクラス）を取得
+ *
+ * @param frets 各弦のフレット位置
+ * @param tuning チューニング（省略時は標準チューニング）
+ * @returns 重複を除いた音名（低音から出現順）
+ */
+export const getPitchClasses = (
+  frets: (number | null)[],
+  tuning: Tuning = STANDARD_TUNING
+): NoteName[] => {
+  const notes = getSoundingNotes(frets, tuning).map(sounding => sounding.note);
+  return Array.from(new Set(notes));
+};
+
+/**
+ * ルートからのインターバル名を取得
+ *
+ * @param notes 対象の音名リスト
+ * @param root ルート音
+ * @returns インターバル名のリスト（半音数の昇順）
+ *
+ * @example
+ * ```typescript
+ * getIntervals(['A', 'C', 'E'], 'A'); // ['1', 'b3', '5']
+ * ```
+ */
+export const getIntervals = (notes: NoteName[], root: NoteName): string[] => {
+  const semitones = Array.from(new Set(notes.map(note => getSemitoneDistance(root, note))));
+  return semitones.sort((a, b) => a - b).map(semitone => INTERVAL_NAMES[semitone]);
+};
+
+/**
+ * ベース音のインターバルから転回形を判定
+ */
+const getInversion = (template: ChordTemplate, bassInterval: number): ChordInversion => {
+  if (bassInterval === 0) return 'root';
+  if (bassInterval === 3 || bassInterval === 4) return 'first';
+  if (bassInterval === 6 || bassInterval === 7 || bassInterval === 8) return 'second';
+  if (bassInterval >= 9 && template.required.includes(bassInterval)) return 'third';
+  return 'slash';
+};
+
+/**
+ * コード名を組み立て
+ *
+ * @param root ルート音
+ * @param suffix コードシンボルのサフィックス
+ * @param bass ベース音（ルートと同じ場合は省略）
+ * @returns コード名（例: "Cadd9/E"）
+ */
+export const formatChordName = (root: string, suffix: string, bass?: string | null): string => {
+  const slash = bass && bass !== root ? `/${bass}` : '';
+  return `${root}${suffix}${slash}`;
+};
+
+/**
+ * 構成音からコード名候補を導出
+ *
+ * @param pitchClasses 構成音（重複なし）
+ * @param bass ベース音
+ * @returns コード名候補（スコア降順）
+ */
+export const findChordCandidates = (pitchClasses: NoteName[], bass: NoteName): ChordCandidate[] => {
+  const candidates: ChordCandidate[] = [];
+
+  pitchClasses.forEach(root => {
+    const semitones = new Set(pitchClasses.map(note => getSemitoneDistance(root, note)));
+
+    CHORD_TEMPLATES.forEach(template => {
+      const allowed = [...template.required, ...template.optional];
+      const hasRequired = template.required.every(interval => semitones.has(interval));
+      const hasNoExtra = Array.from(semitones).every(interval => allowed.includes(interval));
+      if (!hasRequired || !hasNoExtra) return;
+
+      const omitted = template.optional.filter(interval => !semitones.has(interval));
+      const bassInterval = getSemitoneDistance(root, bass);
+      const inversion = getInversion(template, bassInterval);
+
+      let score: number = CANDIDATE_SCORING.BASE;
+      if (inversion === 'slash') score -= CANDIDATE_SCORING.SLASH_PENALTY;
+      else if (inversion !== 'root') score -= CANDIDATE_SCORING.INVERSION_PENALTY;
+      score -= omitted.length * CANDIDATE_SCORING.OMITTED_PENALTY;
+      score -= template.priority * CANDIDATE_SCORING.PRIORITY_PENALTY;
+
+      candidates.push({
+        name: formatChordName(root, template.suffix, bass),
+        root,
+        quality: template.quality,
+        suffix: template.suffix,
+        bass,
+        inversion,
+        intervals: getIntervals(pitchClasses, root),
+        omitted: omitted.map(interval => INTERVAL_NAMES[interval]),
+        score,
+      });
+    });
+  });
+
+  return candidates.sort((a, b) => b.score - a.score);
+};
+
+/**
+ * 押弦パターンを解析してコード名候補を取得
+ *
+ * @param frets 各弦のフレット位置（6弦から1弦、null = 発音しない）
+ * @param tuning チューニング（省略時は標準チューニング）
+ * @returns 解析結果
+ *
+ * @example
+ * ```typescript
+ * const analysis = analyzeChord([null, 0, 2, 2, 1, 0]);
+ * analysis.candidates[0].name; // 'Am'
+ * ```
+ */
+export const analyzeChord = (
+  frets: (number | null)[],
+  tuning: Tuning = STANDARD_TUNING
+): ChordAnalysis => {
+  const notes = getSoundingNotes(frets, tuning);
+  const pitchClasses = Array.from(new Set(notes.map(sounding => sounding.note)));
+  const bass = notes.length > 0 ? notes[0].note : null;
+
+  return {
+    notes,
+    pitchClasses,
+    bass,
+    candidates: bass ? findChordCandidates(pitchClasses, bass) : [],
+  };
+};
+
+/**
+ * 押弦パターンから最有力のコード名候補を取得
+ *
+ * @param frets 各弦のフレット位置
+ * @param tuning チューニング（省略時は標準チューニング）
+ * @returns 最有力候補（該当なしの場合はnull）
+ */
+export const identifyChord = (
+  frets: (number | null)[],
+  tuning: Tuning = STANDARD_TUNING
+): ChordCandidate | null => {
+  return analyzeChord(frets, tuning).candidates[0] ?? null;
+};
+
+// =============================================================================
+// Voicing Grading - ボイシング採点
+// =============================================================================
+
+/**
+ * コード名からルート音・サフィックスを取り出す
+ */
+const splitChordName = (name: string): { root: NoteName; suffix: string } | null => {
+  const match = name.trim().match(/^([A-Ga-g][#b]?)([^/]*)/);
+  if (!match) return null;
+
+  const root = toSharpNoteName(match[1]);
+  return root ? { root, suffix: match[2] } : null;
+};
+
+/**
+ * コードの構成音を取得
+ *
+ * コード名のサフィックスがテンプレートにない場合は、登録済みボイシングの
+ * 構成音をすべて必須として扱う
+ *
+ * @param chord コードパターン（名前と登録済みボイシング）
+ * @param tuning 登録済みボイシングのチューニング
+ * @returns 構成音（ルートが解釈できない場合はnull）
+ */
+export const getChordTones = (
+  chord: Pick<ChordPattern, 'name' | 'frets'>,
+  tuning: Tuning = STANDARD_TUNING
+): ChordTones | null => {
+  const parsed = splitChordName(chord.name);
+  if (!parsed) return null;
+
+  const { root, suffix } = parsed;
+  const template = CHORD_TEMPLATES.find(candidate => candidate.suffix === suffix);
+  const toNotes = (intervals: number[]) => intervals.map(interval => transposeNote(root, interval));
+
+  if (template) {
+    return {
+      root,
+      required: toNotes(template.required),
+      optional: toNotes(template.optional),
+    };
+  }
+
+  const voicingNotes = getPitchClasses(chord.frets, tuning);
+  return { root, required: voicingNotes.includes(root) ? voicingNotes : [root, ...voicingNotes], optional: [] };
+};
+
+/**
+ * 最低音弦の選び方の誤りを検出
+ *
+ * ベース音が出題コードと異なる場合のみ、その原因となった弦を誤りとする。
+ * 低音側でミュートすべき弦を鳴らした場合と、ベース弦をミュートした場合が該当する。
+ * ベース音が同じなら別の弦・ポジションでも誤りとしない。
+ */
+const findStringErrors = (
+  targetFrets: (number | null)[],
+  frets: (number | null)[],
+  tuning: Tuning
+): StringStateError[] => {
+  const targetBass = getSoundingNotes(targetFrets, tuning)[0];
+  const playedBass = getSoundingNotes(frets, tuning)[0];
+  if (!targetBass || !playedBass || targetBass.note === playedBass.note) return [];
+
+  const targetBassIndex = 6 - targetBass.stringNumber;
+  const playedBassIndex = 6 - playedBass.stringNumber;
+  const [from, to] = playedBassIndex < targetBassIndex
+    ? [playedBassIndex, targetBassIndex]
+    : [targetBassIndex, playedBassIndex];
+
+  return frets.slice(from, to).flatMap((fret, offset) => {
+    const index = from + offset;
+    const expected = getStringState(targetFrets[index] ?? null);
+    const actual = getStringState(fret);
+    const isError = (expected === 'muted') !== (actual === 'muted');
+
+    return isError ? [{ stringNumber: 6 - index, expected, actual }] : [];
+  });
+};
+
+/**
+ * ユーザーのボイシングを構成音で採点
+ *
+ * 弦・フレットの位置ではなく発音されるピッチクラスで判定する。
+ * ルートと必須構成音がすべて含まれ、構成音以外の音がなければ正解。
+ * 完全5度と任意構成音は省略してよく、重複音も正解として扱う。
+ * 低音弦の鳴らし過ぎ・ミュートし過ぎでベース音が変わった場合は弦の誤りとする。
+ *
+ * @param target 出題コード
+ * @param frets ユーザーの押弦（6弦から1弦、null = 発音しない）
+ * @param tuning チューニング（省略時は標準チューニング）
+ * @returns 採点結果
+ *
+ * @example
+ * ```typescript
+ * // C のオープンフォームでなくても C の構成音が揃っていれば正解
+ * gradeVoicing(cMajor, [null, 3, 5, 5, 5, 3]).isCorrect; // true
+ * ```
+ */
+export const gradeVoicing = (
+  target: Pick<ChordPattern, 'name' | 'frets'>,
+  frets: (number | null)[],
+  tuning: Tuning = STANDARD_TUNING
+): VoicingGrade => {
+  const playedNotes = getPitchClasses(frets, tuning);
+  const identifiedName = identifyChord(frets, tuning)?.name ?? null;
+  const tones = getChordTones(target, tuning);
+
+  if (!tones) {
+    return {
+      isCorrect: false,
+      playedNotes,
+      hasRoot: false,
+      missingNotes: [],
+      wrongNotes: playedNotes,
+      omittedNotes: [],
+      stringErrors: [],
+      identifiedName,
+    };
+  }
+
+  const fifth = transposeNote(tones.root, PERFECT_FIFTH);
+  const required = tones.required.filter(note => note !== fifth);
+  const optional = Array.from(new Set([
+    ...tones.optional,
+    ...(tones.required.includes(fifth) ? [fifth] : []),
+  ]));
+  const allowed = new Set([...required, ...optional]);
+
+  const hasRoot = playedNotes.includes(tones.root);
+  const missingNotes = required.filter(note => !playedNotes.includes(note));
+  const wrongNotes = playedNotes.filter(note => !allowed.has(note));
+  const omittedNotes = optional.filter(note => !playedNotes.includes(note));
+  const stringErrors = findStringErrors(target.frets, frets, tuning);
+
+  return {
+    isCorrect: hasRoot && missingNotes.length === 0 && wrongNotes.length === 0 && stringErrors.length === 0,
+    playedNotes,
+    hasRoot,
+    missingNotes,
+    wrongNotes,
+    omittedNotes,
+    stringErrors,
+    identifiedName,
+  };
+};
+
+/**
+ * 押弦位置を採点（スケール・アルペジオのポジション穴埋め用）
+ *
+ * コードと違い、同じ音でも別の位置は誤りとして扱う
+ *
+ * @param expected 正解の位置
+ * @param selected ユーザーが押さえた位置（"弦番号-フレット"の集合）
+ * @returns 採点結果
+ */
+export const gradeNotePositions = (
+  expected: FretboardNote[],
+  selected: Iterable<string>
+): PositionGrade => {
+  const selectedKeys = new Set(selected);
+  const expectedKeys = new Set(expected.map(note => getFretKey(note.stringIndex, note.fret)));
+
+  const correct = expected.filter(note => selectedKeys.has(getFretKey(note.stringIndex, note.fret)));
+  const missing = expected
+    .filter(note => !selectedKeys.has(getFretKey(note.stringIndex, note.fret)))
+    .map(note => ({ ...note, variant: 'missing' as const }));
+  const extra = Array.from(selectedKeys)
+    .filter(key => !expectedKeys.has(key))
+    .flatMap(key => {
+      const position = parseFretKey(key);
+      return position ? [{ ...position, variant: 'extra' as const }] : [];
+    });
+
+  return {
+    isCorrect: missing.length === 0 && extra.length === 0,
+    correctCount: correct.length,
+    missing,
+    extra,
+    notes: [...correct, ...missing, ...extra],
+  };
+};
@@ -0,0 +1,253 @@
+/**
+ * Transposition Engine
+ *
+ * @description コードの形の平行移動・カポタストの適用と、実音のコード名（調に合わせた♯/♭表記）の導出
+ * @author Claude Code
+ */
+
+import { ChordPattern, ChordQuality, MusicalKey, NoteName } from '../types';
+import { formatChordName, getSemitoneDistance, toSharpNoteName, transposeNote } from './theory';
+import { spellNote } from './harmony';
+
+// =============================================================================
+// Constants - 定数
+// =============================================================================
+
+/**
+ * カポタストを付けられる最大フレット
+ */
+export const MAX_CAPO_POSITION = 12;
+
+/**
+ * 平行移動した形で使える指の数
+ */
+const MAX_FINGERS = 4;
+
+/**
+ * マイナーキーとして表記するコード品質
+ */
+const MINOR_QUALITIES: readonly ChordQuality[] = ['minor', 'minor7', 'diminished'];
+
+/**
+ * コード名（ルート音・サフィックス・ベース音）のパターン
+ */
+const CHORD_NAME_PATTERN = /^([A-G][#b]?)(.*?)(?:\/([A-G][#b]?))?$/;
+
+// =============================================================================
+// Chord Name Functions - コード名
+// =============================================================================
+
+/**
+ * コード名からルート音を除いたサフィックス（例: "F#m7" → "m7"、"Cadd9/E" → "add9/E"）
+ */
+export const getChordSuffix = (name: string): string => name.replace(/^[A-G][#b]?/, '');
+
+/**
+ * 移調したコード名（ルート音とベース音をずらし、調に合わせて♯/♭を表記）
+ *
+ * @param chord 元のコード
+ * @param semitones 移調する半音数（負数可）
+ * @param key 表記の基準にする調（省略時は移調後のコードを主音とする調。マイナー系のコードはマイナーキー）
+ * @returns 移調後のコード名（ルート音を解釈できない場合は元のコード名）
+ *
+ * @example
+ * ```typescript
+ * transposeChordName(getChordByName('C')!, 2);        // "D"
+ * transposeChordName(getChordByName('Am')!, 1);       // "Bbm"
+ * transposeChordName(getChordByName('Cadd9/E')!, 3);  // "Ebadd9/G"
+ * transposeChordName(getChordByName('E')!, 6, { tonic: 'B', mode: 'major' }); // "A#"
+ * ```
+ */
+export const transposeChordName = (
+  chord: Pick<ChordPattern, 'name' | 'root' | 'quality'>,
+  semitones: number,
+  key?: MusicalKey
+): string => {
+  const match = chord.name.match(CHORD_NAME_PATTERN);
+  const root = toSharpNoteName(chord.root);
+  if (!match || !root) return chord.name;
+
+  const [, , suffix, bassName] = match;
+  const newRoot = transposeNote(root, semitones);
+  const spellingKey = key ?? {
+    tonic: newRoot,
+    mode: MINOR_QUALITIES.includes(chord.quality as ChordQuality) ? 'minor' : 'major',
+  };
+  const bass = bassName ? toSharpNoteName(bassName) : null;
+
+  return formatChordName(
+    spellNote(newRoot, spellingKey),
+    suffix,
+    bass && spellNote(transposeNote(bass, semitones), spellingKey)
+  );
+};
+
+/**
+ * コード名のルート音の表記（例: "Bbm7" → "Bb"）
+ */
+const getRootName = (name: string, fallback: string): string =>
+  name.match(CHORD_NAME_PATTERN)?.[1] ?? fallback;
+
+// =============================================================================
+// Shape Functions - コードの形の平行移動
+// =============================================================================
+
+/**
+ * コードの形を平行移動できるか判定
+ *
+ * 開放弦を含まない形は、ナットを越えない範囲でそのまま移動できる。
+ * 開放弦を含む形は、開放弦を人差し指のバレーに置き換えて高音側へのみ移動できる
+ * （既にバレーがある形・指が足りない形・ミュート弦をバレーがまたぐ形は不可）。
+ * スラッシュコードはベース音の弦が決まっているため移動しない
+ *
+ * @param chord 元のコード
+ * @param semitones 移動する半音数（正 = 高音側、負 = 低音側）
+ */
+export const isMovableShape = (chord: ChordPattern, semitones: number): boolean => {
+  if (getChordSuffix(chord.name).includes('/') || !toSharpNoteName(chord.root)) return false;
+
+  const fretted = chord.frets.filter((fret): fret is number => fret !== null);
+  if (!fretted.includes(0)) {
+    return fretted.every(fret => fret + semitones >= 1);
+  }
+  if (semitones < 0) return false;
+
+  const fingers = chord.fingers.filter((finger): finger is number => finger !== null);
+  const sounding = chord.frets.flatMap((fret, index) => (fret === null ? [] : [index]));
+  const crossesMuted = chord.frets
+    .slice(sounding[0], sounding[sounding.length - 1] + 1)
+    .some(fret => fret === null);
+
+  return (chord.barres ?? []).length === 0 && Math.max(0, ...fingers) + 1 <= MAX_FINGERS && !crossesMuted;
+};
+
+/**
+ * コードの形を平行移動して別のルートのコードにする
+ *
+ * 開放弦を含む形は移動量のフレットを人差し指のバレーで押さえ、他の指を1つずつずらす
+ *
+ * @param chord 元のコード
+ * @param semitones 移動する半音数（正 = 高音側、負 = 低音側）
+ * @param key 移動後のコード名の表記の基準にする調（省略時はコード自身を主音とする調）
+ * @returns 移動後のコード（移動できない場合はnull）
+ *
+ * @example
+ * ```typescript
+ * transposeChordPattern(getChordByName('E')!, 1); // F（1フレットのバレー）
+ * ```
+ */
+export const transposeChordPattern = (
+  chord: ChordPattern,
+  semitones: number,
+  key?: MusicalKey
+): ChordPattern | null => {
+  if (semitones === 0) return chord;
+  if (!isMovableShape(chord, semitones)) return null;
+
+  const name = transposeChordName(chord, semitones, key);
+  const transposed: ChordPattern = {
+    ...chord,
+    name,
+    root: getRootName(name, chord.root),
+    frets: chord.frets.map(fret => (fret === null ? null : fret + semitones)),
+    description: `${chord.name} の形を${semitones}フレット移動`,
+  };
+
+  if (!chord.frets.includes(0)) {
+    return {
+      ...transposed,
+      barres: chord.barres?.map(barre => ({ ...barre, fret: barre.fret + semitones })),
+    };
+  }
+
+  // 開放弦をバレーに置き換える
+  const sounding = chord.frets.flatMap((fret, index) => (fret === null ? [] : [index]));
+  return {
+    ...transposed,
+    fingers: chord.frets.map((fret, index) => {
+      if (fret === null) return null;
+      return fret === 0 ? 1 : (chord.fingers[index] ?? 0) + 1;
+    }),
+    barres: [{
+      fret: semitones,
+      fromString: 6 - sounding[0],
+      toString: 6 - sounding[sounding.length - 1],
+      finger: 1,
+    }],
+    difficulty: chord.difficulty === 'beginner' ? 'intermediate' : chord.difficulty,
+  };
+};
+
+/**
+ * コードの形を平行移動して指定したルートのコードにする
+ *
+ * 高音側・低音側のうち移動できる方を選び、両方できる場合は低いフレットで押さえられる方を返す
+ *
+ * @param chord 元のコード
+ * @param root 移動後のルート音
+ * @param key 移動後のコード名の表記の基準にする調
+ * @returns 移動後のコード（移動できない場合はnull）
+ *
+ * @example
+ * ```typescript
+ * transposeChordTo(getChordByName('Bm')!, 'A#'); // Bbm（1フレット低音側へ移動）
+ * ```
+ */
+export const transposeChordTo = (
+  chord: ChordPattern,
+  root: NoteName,
+  key?: MusicalKey
+): ChordPattern | null => {
+  const from = toSharpNoteName(chord.root);
+  if (!from) return null;
+
+  const up = getSemitoneDistance(from, root);
+  const maxFret = (pattern: ChordPattern) => Math.max(...pattern.frets.map(fret => fret ?? 0));
+  const candidates = [up, up - 12]
+    .map(semitones => transposeChordPattern(chord, semitones, key))
+    .filter((pattern): pattern is ChordPattern => pattern !== null)
+    .sort((a, b) => maxFret(a) - maxFret(b));
+
+  return candidates[0] ?? null;
+};
+
+// =============================================================================
+// Capo Functions - カポタスト
+// =============================================================================
+
+/**
+ * カポタストを付けて押さえたコードを、指板上の押弦位置と実音のコード名に変換
+ *
+ * 押弦位置はカポからの相対フレット（0 = カポで押さえる開放弦）として扱う。
+ * 指番号はそのまま（カポで押さえる弦に指は使わない）
+ *
+ * @param chord カポを基準に押さえるコードの形
+ * @param capoPosition カポタストの位置（0 = カポなし）
+ * @param key 実音のコード名の表記の基準にする調
+ * @returns 指板上の押弦位置・実音のコード名に変換したコード
+ * @throws カポタストの位置が範囲外の場合
+ *
+ * @example
+ * ```typescript
+ * applyCapo(getChordByName('C')!, 2); // D（フレット [null, 5, 4, 2, 3, 2]）
+ * ```
+ */
+export const applyCapo = (
+  chord: ChordPattern,
+  capoPosition: number,
+  key?: MusicalKey
+): ChordPattern => {
+  if (!Number.isInteger(capoPosition) || capoPosition < 0 || capoPosition > MAX_CAPO_POSITION) {
+    throw new Error(`Invalid capo position: ${capoPosition}. Must be 0-${MAX_CAPO_POSITION}.`);
+  }
+  if (capoPosition === 0) return chord;
+
+  const name = transposeChordName(chord, capoPosition, key);
+  return {
+    ...chord,
+    name,
+    root: getRootName(name, chord.root),
+    frets: chord.frets.map(fret => (fret === null ? null : fret + capoPosition)),
+    barres: chord.barres?.map(barre => ({ ...barre, fret: barre.fret + capoPosition })),
+  };
+};
@@ -14,13 +14,27 @@
  */
 export type ChordDifficulty = 'beginner' | 'intermediate' | 'advanced';
 
+/**
+ * バレー（1本の指で複数弦を押さえる）
+ */
+export interface ChordBarre {
+  /** 押さえるフレット */
+  fret: number;
+  /** 開始弦（1-6、低音側の弦。例: 6弦から押さえる場合は6） */
+  fromString: number;
+  /** 終了弦（1-6、高音側の弦。fromString以下） */
+  toString: number;
+  /** 押さえる指番号（1-4） */
+  finger: number;
+}
+
 /**
  * コードパターン - ギターコードの指板位置情報
  */
 export interface ChordPattern {
   /** コード名 (例: "C", "Am", "F#m7") */
   name: string;
-  /** 各弦のフレット位置 (null = 開放弦または押さえない) */
+  /** 各弦のフレット位置 (null = ミュート、0 = 開放弦、1以上 = 押弦) */
   frets: (number | null)[];
   /** 各弦を押さえる指番号 (null = 押さえない) */
   fingers: (number | null)[];
@@ -34,8 +48,116 @@ export interface ChordPattern {
   category?: string;
   /** 説明（オプション） */
   description?: string;
+  /** 対応チューニング（省略時は標準チューニング） */
+  tuning?: TuningId;
+  /** バレー（省略時はバレーなし） */
+  barres?: ChordBarre[];
+}
+
+/**
+ * ユーザー定義コード
+ */
+export interface CustomChord extends ChordPattern {
+  /** 識別子（"custom-" で始まる） */
+  id: string;
+  /** 作成日時（ISO文字列） */
+  createdAt: string;
+}
+
+/**
+ * コードデッキ - 出題対象とするコードのまとまり
+ */
+export interface ChordDeck {
+  /** 識別子 */
+  id: string;
+  /** デッキ名 */
+  name: string;
+  /** 収録コードのID（組み込みコードはスラッグ、ユーザー定義コードはid） */
+  chordIds: string[];
+  /** 作成日時（ISO文字列） */
+  createdAt: string;
+}
+
+/**
+ * コードチェンジ練習の自己ベスト（コードの組み合わせごと）
+ */
+export interface ChordChangeRecord {
+  /** 1分あたりのコードチェンジ数 */
+  changesPerMinute: number;
+  /** テンポ（BPM） */
+  bpm: number;
+  /** コードごとの拍数 */
+  beatsPerChord: number;
+  /** 記録日時（ISO文字列） */
+  date: string;
+}
+
+/**
+ * スケール・アルペジオの種類
+ */
+export type ScaleType =
+  | 'majorPentatonic'
+  | 'minorPentatonic'
+  | 'major'
+  | 'naturalMinor'
+  | 'majorArpeggio'
+  | 'minorArpeggio';
+
+/**
+ * スケール・アルペジオのポジション（ボックス）パターン
+ * 標準チューニング用
+ */
+export interface ScalePattern {
+  /** 識別子 (例: "A-minorPentatonic-1") */
+  id: string;
+  /** ルート音 */
+  root: NoteName;
+  /** スケール・アルペジオの種類 */
+  type: ScaleType;
+  /** ポジション番号（1始まり、低いフレットから） */
+  position: number;
+  /** ポジション名 (例: "ポジション1", "Eフォーム") */
+  positionName: string;
+  /** 各弦の押弦位置 - 6弦から1弦（1弦に複数、0 = 開放弦） */
+  frets: number[][];
+  /** ポジションのフレット範囲（最低・最高フレット） */
+  fretRange: { start: number; end: number };
+  /** 難易度レベル */
+  difficulty: ChordDifficulty;
+}
+
+/**
+ * フレットボード上の1音（スケール・アルペジオ表示用）
+ */
+export interface FretboardNote {
+  /** 弦のインデックス（0 = 6弦） */
+  stringIndex: number;
+  /** フレット番号（0 = 開放弦） */
+  fret: number;
+  /** ドット内のラベル (例: インターバル名) */
+  label?: string;
+  /** 表示の種類（root: ルート音、missing: 回答に足りない音、extra: 誤って押さえた音） */
+  variant?: 'default' | 'root' | 'missing' | 'extra';
 }
 
+/**
+ * 指板上の位置ごとの正答数（音名トレーニング）
+ */
+export interface PositionAccuracy {
+  /** 正解数 */
+  correct: number;
+  /** 回答数 */
+  total: number;
+}
+
+/**
+ * 弦ごとの状態
+ * - muted: ミュート（×、発音しない）
+ * - open: 開放弦（○）
+ * - fretted: 押弦
+ */
+export type StringState = 'muted' | 'open' | 'fretted';
+
 /**
  * クイズ状態 - ゲーム進行情報
  */
@@ -64,6 +186,24 @@ export interface QuizState {
   currentRound: number;
 }
 
+/**
+ * 選択式回答のひっかけ選択肢の難しさ
+ * - easy: 紛らわしい選択肢は1つだけ
+ * - normal: 半分を紛らわしい選択肢にする
+ * - hard: すべて紛らわしい選択肢にする
+ */
+export type DistractorLevel = 'easy' | 'normal' | 'hard';
+
+/**
+ * 選択式回答の設定（難易度ごと）
+ */
+export interface MultipleChoiceSettings {
+  /** 選択肢の数（正解を含む） */
+  optionCount: number;
+  /** ひっかけ選択肢の難しさ */
+  distractorLevel: DistractorLevel;
+}
+
 /**
  * ゲーム設定 - ユーザー設定情報
  */
@@ -74,12 +214,18 @@ export interface GameSettings {
   soundEnabled: boolean;
   /** カポタストの位置 (0 = カポなし) */
   capoPosition: number;
+  /** チューニング設定 */
+  tuning: TuningId;
   /** テーマ設定 */
   theme: 'light' | 'dark' | 'system';
   /** 高コントラストモード */
   highContrast?: boolean;
   /** モーション軽減 */
   reduceMotion?: boolean;
+  /** 基準ピッチ A4 の周波数 (Hz、チューナーで調整。未設定時は440) */
+  referencePitch?: number;
+  /** 選択式回答の設定（難易度ごと。未設定時は DEFAULT_MULTIPLE_CHOICE_SETTINGS） */
+  multipleChoice?: Record<DifficultyLevel, MultipleChoiceSettings>;
 }
 
 /**
@@ -105,6 +251,27 @@ export interface FretboardProps {
  */
 export type NoteName = 'C' | 'C#' | 'D' | 'D#' | 'E' | 'F' | 'F#' | 'G' | 'G#' | 'A' | 'A#' | 'B';
 
+/**
+ * チューニング識別子
+ */
+export type TuningId = 'standard' | 'dropD' | 'dadgad' | 'openG' | 'halfStepDown';
+
+/**
+ * チューニング定義 - 各弦の開放弦の音
+ */
+export interface Tuning {
+  /** チューニング識別子 */
+  id: TuningId;
+  /** 表示名 (例: "Drop D") */
+  name: string;
+  /** 開放弦の音名 - 6弦から1弦 */
+  notes: NoteName[];
+  /** 弦名ラベル（表示用、フラット表記可） - 6弦から1弦 */
+  labels: string[];
+  /** 開放弦の周波数 (Hz) - 6弦から1弦 */
+  frequencies: number[];
+}
+
 /**
  * コード品質定義
  */
@@ -119,23 +286,76 @@ export type ChordQuality =
   | 'sus2'
   | 'sus4';
 
+/**
+ * 調の種類
+ * - major: 長調
+ * - minor: 短調（自然的短音階を基準にする）
+ */
+export type KeyMode = 'major' | 'minor';
+
+/**
+ * 調（キー）
+ */
+export interface MusicalKey {
+  /** 主音 */
+  tonic: NoteName;
+  /** 長調・短調 */
+  mode: KeyMode;
+}
+
 /**
  * 難易度レベル
  */
 export type DifficultyLevel = ChordPattern['difficulty'];
 
 /**
- * クイズアクション型
+ * 出題コードの選び方
+ * - random: 難易度内からランダム
+ * - review: 復習期限の来たコードを優先
  */
-export type QuizAction = 
-  | { type: 'START_QUIZ'; difficulty: DifficultyLevel }
-  | { type: 'ANSWER_CORRECT'; timeBonus: number }
-  | { type: 'ANSWER_INCORRECT' }
+export type ChordSelectionMode = 'random' | 'review';
+
+/**
+ * クイズの出題形式
+ * - visual: 指板を見てコード名を答える
+ * - ear: 音だけを聞いてコード名を答える（指板は回答後に表示）
+ * - reverse: コード名を見て指板上で押弦を作る
+ */
+export type QuizMode = 'visual' | 'ear' | 'reverse';
+
+/**
+ * ゲームの終了条件
+ * - endless: 終了条件なし（メニューに戻るまで続ける）
+ * - fixed: 決まった問題数で終了
+ * - time-attack: 制限時間内に何問解けるか
+ * - survival: ライフを使い切ると終了
+ * - sudden-death: 1回間違えると終了
+ */
+export type GameMode = 'endless' | 'fixed' | 'time-attack' | 'survival' | 'sudden-death';
+
+/**
+ * クイズアクション型（クイズエンジンのreducerが処理する）
+ *
+ * 出題コード・判定結果はアクションに含めるため、アクションの記録からゲームを再現できる
+ * - SUBMIT_ANSWER: result は partial = ルート音のみ正解
+ * - NEXT_CHORD: 回答後（結果表示中）に次の問題へ進む
+ * - SKIP_CHORD: 回答せずに次の問題へ進む（スキップできるゲームモードのみ）
+ * - NEXT_CHORD / SKIP_CHORD / CHANGE_DIFFICULTY: chord が null なら出題できるコードがない
+ * - TICK: 出題中の経過時間を進める（表示の更新と制限時間の判定）
+ * - TICK / SUBMIT_ANSWER / SKIP_CHORD: elapsedMs は前回計測してからの経過時間（ミリ秒。TICKは省略時1秒）
+ */
+export type QuizAction =
+  | { type: 'START_QUIZ'; difficulty: DifficultyLevel; chord: ChordPattern }
+  | { type: 'SUBMIT_ANSWER'; answer: string; result: 'correct' | 'partial' | 'incorrect'; elapsedMs?: number }
   | { type: 'USE_HINT' }
-  | { type: 'NEXT_CHORD'; chord: ChordPattern }
+  | { type: 'NEXT_CHORD'; chord: ChordPattern | null }
+  | { type: 'SKIP_CHORD'; chord: ChordPattern | null; elapsedMs?: number }
+  | { type: 'CHANGE_DIFFICULTY'; difficulty: DifficultyLevel; chord: ChordPattern | null }
+  | { type: 'TICK'; elapsedMs?: number }
   | { type: 'PAUSE_QUIZ' }
   | { type: 'RESUME_QUIZ' }
-  | { type: 'END_QUIZ' };
+  | { type: 'END_QUIZ' }
+  | { type: 'RESET_QUIZ'; difficulty: DifficultyLevel };
 
 /**
  * ゲーム統計情報
@@ -181,6 +401,30 @@ export interface GameStatistics {
   difficulty: DifficultyLevel;
 }
 
+/**
+ * コードの再生方法
+ * down: ダウンストローク, up: アップストローク, arpeggio: 低音弦から1音ずつ,
+ * block: 全弦同時, travis: トラヴィス・ピッキング, pima: p-i-m-a のフィンガーピッキング
+ */
+export type ChordPlaybackStyle = 'down' | 'up' | 'arpeggio' | 'block' | 'travis' | 'pima';
+
+/**
+ * コード再生設定
+ */
+export interface ChordPlaybackSettings {
+  /** 再生方法 */
+  style: ChordPlaybackStyle;
+  /** ストローク時の弦ごとの間隔（ミリ秒） */
+  strumSpeed: number;
+  /** アルペジオ・フィンガーピッキング時の音の間隔（ミリ秒） */
+  arpeggioInterval: number;
+}
+
+/**
+ * 楽器の音色
+ */
+export type InstrumentType = 'acoustic' | 'electric' | 'nylon';
+
 /**
  * 音声設定
  */
@@ -190,13 +434,29 @@ export interface AudioSettings {
   /** 音声有効フラグ */
   enabled: boolean;
   /** 楽器音色設定 */
-  instrument: 'acoustic' | 'electric' | 'nylon';
+  instrument: InstrumentType;
 }
 
 // =============================================================================
 // Type Guards - 型ガード関数
 // =============================================================================
 
+/**
+ * ChordBarre型ガード
+ */
+export function isChordBarre(obj: unknown): obj is ChordBarre {
+  if (typeof obj !== 'object' || obj === null) return false;
+  
+  const barre = obj as Record<string, unknown>;
+  
+  return (
+    typeof barre.fret === 'number' &&
+    typeof barre.fromString === 'number' &&
+    typeof barre.toString === 'number' &&
+    typeof barre.finger === 'number'
+  );
+}
+
 /**
  * ChordPattern型ガード
  */
@@ -214,7 +474,9 @@ export function isChordPattern(obj: unknown): obj is ChordPattern {
     typeof pattern.quality === 'string' &&
     pattern.frets.length === pattern.fingers.length &&
     pattern.frets.every(fret => typeof fret === 'number' || fret === null) &&
-    pattern.fingers.every(finger => typeof finger === 'number' || finger === null)
+    pattern.fingers.every(finger => typeof finger === 'number' || finger === null) &&
+    (pattern.tuning === undefined || isTuningId(pattern.tuning)) &&
+    (pattern.barres === undefined || (Array.isArray(pattern.barres) && pattern.barres.every(isChordBarre)))
   );
 }
 
@@ -253,6 +515,7 @@ export function isGameSettings(obj: unknown): obj is GameSettings {
     ['beginner', 'intermediate', 'advanced'].includes(settings.difficulty as string) &&
     typeof settings.soundEnabled === 'boolean' &&
     typeof settings.capoPosition === 'number' &&
+    isTuningId(settings.tuning) &&
     ['light', 'dark'].includes(settings.theme as string) &&
     settings.capoPosition >= 0 &&
     settings.capoPosition <= 12
@@ -267,6 +530,13 @@ export function isNoteName(value: unknown): value is NoteName {
   return noteNames.includes(value as NoteName);
 }
 
+/**
+ * チューニング識別子型ガード
+ */
+export function isTuningId(value: unknown): value is TuningId {
+  return ['standard', 'dropD', 'dadgad', 'openG', 'halfStepDown'].includes(value as string);
+}
+
 /**
  * 難易度レベル型ガード
  */
@@ -285,9 +555,19 @@ export const DEFAULT_GAME_SETTINGS: GameSettings = {
   difficulty: 'beginner',
   soundEnabled: true,
   capoPosition: 0,
+  tuning: 'standard',
   theme: 'light'
 } as const;
 
+/**
+ * 選択式回答のデフォルト設定（難易度が上がるほど選択肢を増やし、紛らわしくする）
+ */
+export const DEFAULT_MULTIPLE_CHOICE_SETTINGS: Record<DifficultyLevel, MultipleChoiceSettings> = {
+  beginner: { optionCount: 4, distractorLevel: 'easy' },
+  intermediate: { optionCount: 5, distractorLevel: 'normal' },
+  advanced: { optionCount: 6, distractorLevel: 'hard' },
+};
+
 /**
  * デフォルトクイズ状態
  */